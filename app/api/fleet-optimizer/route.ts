@@ -6,6 +6,7 @@ import {
   FleetOptimizationResult,
 } from '@/lib/orchestration/fleet-optimizer';
 import { VesselAssignment } from '@/lib/orchestration/types';
+import { loadEtaModel } from '@/lib/nmdc/eta';
 
 interface RequestBody {
   vessels: Array<{
@@ -78,6 +79,9 @@ export async function POST(request: NextRequest) {
       utilization: a.utilization,
     }));
 
+    // Transit times come from the ETA model trained on position history
+    await loadEtaModel();
+
     // Run the optimizer
     const result: FleetOptimizationResult = optimizeFleet({
       vessels: vesselPositions,
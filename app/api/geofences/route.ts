@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  GeofenceKind,
+  getRecentGeofenceEvents,
+  getVesselGeofenceState,
+  loadGeofences,
+  saveGeofence,
+} from '@/lib/nmdc/geofences';
+
+/**
+ * Geofences API - Project sites, ports, anchorages and exclusion zones
+ *
+ * GET /api/geofences - Active fences, recent events and vessels inside fences
+ *   ?events=N limits the number of recent events (default 50)
+ * POST /api/geofences - Create or update a fence:
+ *   { id?, name, kind, polygon: [{lat, lng}], projectId?, authorizedMmsis?, dwellAlertMinutes? }
+ */
+
+const KINDS: GeofenceKind[] = ['project_site', 'port', 'anchorage', 'exclusion_zone'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('events') || '50', 10) || 50, 200);
+
+    const geofences = await loadGeofences();
+    return NextResponse.json({
+      success: true,
+      geofences,
+      events: getRecentGeofenceEvents(limit),
+      occupancy: await getVesselGeofenceState(),
+    });
+  } catch (error) {
+    console.error('Geofences error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load geofences' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { id, name, kind, polygon, projectId, authorizedMmsis, dwellAlertMinutes } = body;
+
+    if (!name || !KINDS.includes(kind)) {
+      return NextResponse.json(
+        { success: false, error: `name and kind (${KINDS.join(', ')}) are required` },
+        { status: 400 }
+      );
+    }
+    if (
+      !Array.isArray(polygon) ||
+      polygon.length < 3 ||
+      !polygon.every((p: { lat?: unknown; lng?: unknown }) => typeof p?.lat === 'number' && typeof p?.lng === 'number')
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'polygon must be at least three {lat, lng} points' },
+        { status: 400 }
+      );
+    }
+
+    const geofence = await saveGeofence({ id, name, kind, polygon, projectId, authorizedMmsis, dwellAlertMinutes });
+    return NextResponse.json({ success: true, geofence });
+  } catch (error) {
+    console.error('Geofence save error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to save geofence' },
+      { status: 500 }
+    );
+  }
+}
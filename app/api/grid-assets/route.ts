@@ -9,18 +9,36 @@
  * - GET /api/grid-assets?action=asset&assetTag=XXX — Single asset detail
  * - GET /api/grid-assets?action=stats — Fleet-wide statistics
  * - GET /api/grid-assets?action=health — Health summary across territories
+ * - GET /api/grid-assets?action=ratings[&assetTag=XXX][&ambientC=NN] — Normal/LTE/STE
+ *   dynamic ratings for the next 24 and 48 hours
+ * - GET /api/grid-assets?action=backtest[&source=curated|kaggle][&horizonDays=NNN] — Replay
+ *   the predictive-maintenance analyzer against history and score it per component type
+ * - GET /api/grid-assets?action=maintenance-plan[&horizonDays=NNN] — Fleet maintenance
+ *   calendar with cost-optimal windows booked against OpCo crew capacity
+ * - GET /api/grid-assets?action=maintenance-history[&assetTag=XXX] — Completed field
+ *   work orders as predictive-maintenance history
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { EXELON_ASSETS, type ExelonAsset } from '@/lib/exelon/fleet';
 import { ASSET_ISSUES, getAssetIssueSummary } from '@/lib/asset-issues';
 import { TRANSFORMER_HEALTH_DATA, type TransformerHealthRecord } from '@/lib/datasets/transformer-health';
+import { evaluateAssetDGATrend } from '@/lib/dga/trend';
+import {
+  computeDynamicRating,
+  parseCoolingMode,
+  RATED_AMBIENT_TEMP,
+  type DynamicRating,
+} from '@/lib/thermal';
 import {
   getAssetSnapshots,
   getGridWeather,
   getPendingInsights,
   getSimulationState,
 } from '@/lib/simulation/grid-orchestrator';
+import { runBacktest } from '@/lib/predictive-maintenance/backtest';
+import { planFleetMaintenance } from '@/lib/predictive-maintenance/fleet';
+import { listMaintenanceHistory } from '@/lib/exelon/work-orders';
 
 export const dynamic = 'force-dynamic';
 
@@ -106,6 +124,17 @@ function enrichAsset(asset: ExelonAsset): EnrichedGridAsset {
   };
 }
 
+function rateAsset(asset: ExelonAsset, ambientC: number): DynamicRating | null {
+  const coolingMode = parseCoolingMode(asset.coolingType);
+  if (!coolingMode) return null;
+  const snapshot = getAssetSnapshots().find(s => s.assetTag === asset.assetTag);
+  return computeDynamicRating(asset, {
+    coolingMode,
+    currentLoadPU: (snapshot?.loadPercent ?? asset.loadFactor) / 100,
+    currentAmbientTemp: ambientC,
+  });
+}
+
 // ============================================================================
 // GET Handler
 // ============================================================================
@@ -188,6 +217,7 @@ export async function GET(request: NextRequest) {
           success: true,
           asset: enriched,
           dgaHistory,
+          dgaTrend: evaluateAssetDGATrend(assetTag, { yearInstalled: asset.yearInstalled }),
           issues: assetIssues ? assetIssues.issues : [],
           insights: getPendingInsights().filter(
             ins => ins.affectedAssets.includes(asset.name)
@@ -255,6 +285,125 @@ export async function GET(request: NextRequest) {
         });
       }
 
+      case 'ratings': {
+        const assetTag = searchParams.get('assetTag');
+        const ambientParam = searchParams.get('ambientC');
+        const ambientOverride = ambientParam !== null ? Number(ambientParam) : null;
+        if (ambientOverride !== null && !Number.isFinite(ambientOverride)) {
+          return NextResponse.json(
+            { success: false, error: 'Invalid ambientC parameter' },
+            { status: 400 }
+          );
+        }
+
+        const weather = getGridWeather();
+        const ambientC = ambientOverride
+          ?? (weather ? Math.round((weather.temperature - 32) * 5 / 9 * 10) / 10 : RATED_AMBIENT_TEMP);
+        const ambientSource = ambientOverride !== null ? 'request' : weather ? 'simulation' : 'rated';
+
+        // Units out for maintenance cannot pick up transferred load
+        const candidates = assetTag
+          ? EXELON_ASSETS.filter(a => a.assetTag === assetTag)
+          : EXELON_ASSETS.filter(a => a.status !== 'maintenance');
+        if (assetTag && candidates.length === 0) {
+          return NextResponse.json(
+            { success: false, error: 'Asset not found' },
+            { status: 404 }
+          );
+        }
+
+        const ratings = candidates
+          .map(a => rateAsset(a, ambientC))
+          .filter((r): r is DynamicRating => r !== null)
+          // Banks with the most room to take transferred load first
+          .sort((a, b) => b.horizons[0].transferHeadroomMVA - a.horizons[0].transferHeadroomMVA);
+
+        if (assetTag && ratings.length === 0) {
+          return NextResponse.json(
+            { success: false, error: 'Asset has no transformer cooling rating' },
+            { status: 400 }
+          );
+        }
+
+        return NextResponse.json({
+          success: true,
+          ratings,
+          ambient: {
+            currentC: ambientC,
+            source: ambientSource,
+            // Same 95°F threshold the simulator uses for an extreme-heat condition
+            heatEvent: weather?.condition === 'extreme_heat' || ambientC >= 35,
+          },
+          meta: {
+            standard: 'IEEE C57.91',
+            fetchedAt: new Date().toISOString(),
+          },
+        });
+      }
+
+      case 'backtest': {
+        const source = searchParams.get('source') || 'curated';
+        if (source !== 'curated' && source !== 'kaggle') {
+          return NextResponse.json(
+            { success: false, error: 'Invalid source parameter' },
+            { status: 400 }
+          );
+        }
+        const horizonParam = searchParams.get('horizonDays');
+        const horizonDays = horizonParam !== null ? Number(horizonParam) : undefined;
+        if (horizonDays !== undefined && !(horizonDays > 0 && horizonDays <= 1825)) {
+          return NextResponse.json(
+            { success: false, error: 'Invalid horizonDays parameter' },
+            { status: 400 }
+          );
+        }
+
+        const report = runBacktest({ source, horizonDays });
+        return NextResponse.json({
+          success: true,
+          report,
+          meta: {
+            fetchedAt: new Date().toISOString(),
+          },
+        });
+      }
+
+      case 'maintenance-plan': {
+        const horizonParam = searchParams.get('horizonDays');
+        const horizonDays = horizonParam !== null ? Number(horizonParam) : undefined;
+        if (horizonDays !== undefined && !(horizonDays >= 7 && horizonDays <= 730)) {
+          return NextResponse.json(
+            { success: false, error: 'Invalid horizonDays parameter' },
+            { status: 400 }
+          );
+        }
+
+        const recordedWorkOrders = await listMaintenanceHistory();
+        const { plan } = planFleetMaintenance({ horizonDays, recordedWorkOrders });
+        return NextResponse.json({
+          success: true,
+          plan,
+          meta: {
+            scheduled: plan.items.length,
+            deferred: plan.deferred.length,
+            unscheduled: plan.unscheduled.length,
+            fetchedAt: new Date().toISOString(),
+          },
+        });
+      }
+
+      case 'maintenance-history': {
+        const workOrders = await listMaintenanceHistory(searchParams.get('assetTag') ?? undefined);
+        return NextResponse.json({
+          success: true,
+          workOrders,
+          meta: {
+            count: workOrders.length,
+            fetchedAt: new Date().toISOString(),
+          },
+        });
+      }
+
       default:
         return NextResponse.json(
           { success: false, error: `Unknown action: ${action}` },
@@ -5,6 +5,11 @@ import {
   convertToSimplifiedVessel,
   SimplifiedVessel,
 } from '@/lib/datalastic';
+import { analyzeVoyage, normalizeTrack } from '@/lib/nmdc/voyages';
+import { getProjectById, getProjectUtilisation } from '@/lib/nmdc/projects';
+import { findPlaceByDestination, loadEtaModel, predictEta } from '@/lib/nmdc/eta';
+import { analyzeEncounters } from '@/lib/nmdc/encounters';
+import { generateAlertsFromEncounters, recordEncounterAlerts } from '@/lib/nmdc/alerts';
 
 export const dynamic = 'force-dynamic';
 
@@ -22,6 +27,14 @@ const GUARDRAILS = {
   MAX_BULK_VESSELS: 50,
   // Radius search is DISABLED by default (use /api/fleet instead)
   RADIUS_SEARCH_ENABLED: false,
+  // Encounter watch is a radius search too, allowed as a deliberate exception:
+  // it costs 1 credit per own vessel plus 1 per target in range, so up to
+  // 5 x (1 + targets) credits a request, and only runs on demand
+  ENCOUNTER_WATCH_ENABLED: true,
+  ENCOUNTER_MAX_RADIUS: 6, // nautical miles
+  ENCOUNTER_MAX_VESSELS: 5,
+  // Project utilisation pulls each assigned vessel's history
+  UTILISATION_MAX_VESSELS: 5,
   // Required confirmation param for expensive operations
   CONFIRM_EXPENSIVE_OPS: true,
   // Daily call limit per endpoint type
@@ -47,6 +60,11 @@ const GUARDRAILS = {
  * Limited actions:
  * - action=search&query=XXX - Search vessels (max 25 results)
  * - action=history&mmsi=XXX - Get vessel track history
+ * - action=voyage&mmsi=XXX - Port calls, transits and working periods from the track
+ * - action=utilisation&project=ID - Share of tracked time the project's vessels worked on site
+ * - action=eta&mmsi=XXX - Predicted arrival at the AIS destination (or toLat/toLng)
+ * - action=encounters&mmsi=XXX,YYY - CPA/TCPA collision-risk watch (max 5 vessels, 6 nm;
+ *   1 credit per vessel + 1 per target, allowed by ENCOUNTER_WATCH_ENABLED)
  * - action=info&mmsi=XXX - Get vessel details
  * - action=bulk&mmsi=XXX,YYY - Bulk lookup (max 50 vessels)
  * 
@@ -210,6 +228,197 @@ export async function GET(request: NextRequest) {
         });
       }
 
+      case 'voyage': {
+        // Segment the vessel's track into port calls, transits and work (1 credit per day)
+        const mmsi = searchParams.get('mmsi');
+        const requestedDays = parseInt(searchParams.get('days') || '7', 10);
+        const days = Math.min(requestedDays, 14);
+
+        if (!mmsi) {
+          return NextResponse.json({
+            success: false,
+            error: 'Missing parameter',
+            message: 'Please provide mmsi parameter. Example: /api/live-vessels?action=voyage&mmsi=470624000&days=7',
+          }, { status: 400 });
+        }
+
+        const history = await client.getVesselHistory(mmsi, { days });
+        const voyage = analyzeVoyage(history);
+
+        return NextResponse.json({
+          success: true,
+          voyage,
+          meta: {
+            days,
+            limited: requestedDays > 14,
+          },
+          creditsUsed: days,
+        });
+      }
+
+      case 'utilisation': {
+        // Voyage analysis of every assigned vessel (1 credit per vessel per day)
+        const project = getProjectById(searchParams.get('project') || '');
+        const requestedDays = parseInt(searchParams.get('days') || '7', 10);
+        const days = Math.min(requestedDays, 14);
+
+        if (!project) {
+          return NextResponse.json({
+            success: false,
+            error: 'Missing parameter',
+            message: 'Please provide a valid project parameter. Example: /api/live-vessels?action=utilisation&project=proj-001&days=7',
+          }, { status: 400 });
+        }
+        if (project.assignedVessels.length > GUARDRAILS.UTILISATION_MAX_VESSELS) {
+          return NextResponse.json({
+            success: false,
+            error: 'Too many vessels',
+            message: `Utilisation is limited to projects with up to ${GUARDRAILS.UTILISATION_MAX_VESSELS} assigned vessels`,
+          }, { status: 400 });
+        }
+
+        const voyages = await Promise.all(
+          project.assignedVessels.map(async mmsi => analyzeVoyage(await client.getVesselHistory(mmsi, { days })))
+        );
+
+        return NextResponse.json({
+          success: true,
+          utilisation: getProjectUtilisation(project, voyages),
+          meta: {
+            days,
+            limited: requestedDays > 14,
+          },
+          creditsUsed: days * project.assignedVessels.length,
+        });
+      }
+
+      case 'eta': {
+        // Arrival from learned speeds and the last day's reports (2 credits)
+        const mmsi = searchParams.get('mmsi');
+        const toLat = parseFloat(searchParams.get('toLat') || '');
+        const toLng = parseFloat(searchParams.get('toLng') || '');
+
+        if (!mmsi) {
+          return NextResponse.json({
+            success: false,
+            error: 'Missing parameter',
+            message: 'Please provide mmsi parameter. Example: /api/live-vessels?action=eta&mmsi=470624000',
+          }, { status: 400 });
+        }
+
+        const vessel = convertToSimplifiedVessel(await client.getVesselByMMSI(mmsi));
+        const place = vessel.destination ? findPlaceByDestination(vessel.destination) : undefined;
+        const to = !isNaN(toLat) && !isNaN(toLng)
+          ? { lat: toLat, lng: toLng, name: searchParams.get('toName') || undefined }
+          : place && { lat: place.lat, lng: place.lng, name: place.name };
+
+        if (!to) {
+          return NextResponse.json({
+            success: false,
+            error: 'Unknown destination',
+            message: `Destination "${vessel.destination || ''}" is not a known port. Provide toLat and toLng.`,
+          }, { status: 422 });
+        }
+
+        const history = await client.getVesselHistory(mmsi, { days: 1 });
+        const track = normalizeTrack(history);
+        const reportedAt = vessel.lastUpdate ?? new Date();
+        if (!track.length || track[track.length - 1].time < reportedAt) {
+          track.push({
+            lat: vessel.position.lat,
+            lng: vessel.position.lng,
+            speed: vessel.speed ?? 0,
+            course: vessel.course ?? 0,
+            time: reportedAt,
+          });
+        }
+
+        const eta = predictEta(await loadEtaModel(), {
+          vesselId: mmsi,
+          from: vessel.position,
+          to,
+          recentTrack: track,
+          departureTime: new Date(),
+        });
+
+        return NextResponse.json({
+          success: true,
+          eta,
+          destination: { ...to, ais: vessel.destination, aisEta: vessel.eta },
+          creditsUsed: 2,
+        });
+      }
+
+      case 'encounters': {
+        // CPA/TCPA watch around our vessels (1 credit per vessel + 1 per target)
+        // ⚠️ GUARDRAIL: radius searches only run with the encounter exception on
+        if (!GUARDRAILS.RADIUS_SEARCH_ENABLED && !GUARDRAILS.ENCOUNTER_WATCH_ENABLED) {
+          return NextResponse.json({
+            success: false,
+            error: 'Encounter watch is disabled',
+            message: 'Encounter watch runs a radius search around each vessel and bills 1 credit per target in range.',
+            suggestion: 'Enable ENCOUNTER_WATCH_ENABLED or RADIUS_SEARCH_ENABLED in the API guardrails.',
+          }, { status: 403 });
+        }
+        const mmsiList = (searchParams.get('mmsi') || '').split(',').map(m => m.trim()).filter(Boolean);
+        const requestedRadius = parseFloat(searchParams.get('radius') || '3');
+        const radius = Math.min(requestedRadius, GUARDRAILS.ENCOUNTER_MAX_RADIUS);
+        const thresholds = {
+          ...(searchParams.has('cpa') && { cpaWarningNm: parseFloat(searchParams.get('cpa')!) }),
+          ...(searchParams.has('tcpa') && { tcpaWarningMinutes: parseFloat(searchParams.get('tcpa')!) }),
+        };
+
+        if (!(requestedRadius > 0) || !Object.values(thresholds).every(v => v > 0)) {
+          return NextResponse.json({
+            success: false,
+            error: 'Invalid parameter',
+            message: 'radius, cpa and tcpa must be positive numbers',
+          }, { status: 400 });
+        }
+        if (mmsiList.length === 0) {
+          return NextResponse.json({
+            success: false,
+            error: 'Missing parameter',
+            message: 'Please provide mmsi parameter. Example: /api/live-vessels?action=encounters&mmsi=470212000&radius=3',
+          }, { status: 400 });
+        }
+        if (mmsiList.length > GUARDRAILS.ENCOUNTER_MAX_VESSELS) {
+          return NextResponse.json({
+            success: false,
+            error: 'Too many vessels',
+            message: `Encounter watch is limited to ${GUARDRAILS.ENCOUNTER_MAX_VESSELS} vessels per request`,
+          }, { status: 400 });
+        }
+
+        let creditsUsed = 0;
+        const watches = [];
+        for (const mmsi of mmsiList) {
+          const own = convertToSimplifiedVessel(await client.getVesselByMMSI(mmsi));
+          const nearby = await client.getVesselsInRadius(own.position.lat, own.position.lng, radius);
+          // Every target the radius search returns is billed, including those sliced off here
+          const targets = nearby.data.vessels || [];
+          creditsUsed += 1 + targets.length;
+          const traffic = targets
+            .slice(0, GUARDRAILS.MAX_SEARCH_RESULTS)
+            .map(convertToSimplifiedVessel);
+          watches.push({ vessel: own, encounters: analyzeEncounters(own, traffic, thresholds) });
+        }
+
+        const alerts = generateAlertsFromEncounters(watches.flatMap(w => w.encounters));
+        await recordEncounterAlerts(alerts);
+
+        return NextResponse.json({
+          success: true,
+          watches,
+          alerts,
+          meta: {
+            radius,
+            vessels: mmsiList.length,
+          },
+          creditsUsed,
+        });
+      }
+
       case 'info': {
         // Get detailed vessel information (1 credit)
         const mmsi = searchParams.get('mmsi');
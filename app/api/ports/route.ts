@@ -4,9 +4,10 @@ import {
   isDatalasticConfigured, 
   convertToSimplifiedPort,
   calculateDistanceNm,
-  estimateVoyageDuration,
+  formatVoyageDuration,
   SimplifiedPort,
 } from '@/lib/datalastic';
+import { loadEtaModel, predictEta } from '@/lib/nmdc/eta';
 
 export const dynamic = 'force-dynamic';
 
@@ -20,7 +21,8 @@ export const dynamic = 'force-dynamic';
  * - name: port name to search
  * - country: country code (e.g., AE, SA, QA)
  * - lat, lng, radius: for nearby search
- * - from, to: port codes for route calculation
+ * - fromLat, fromLng, toLat, toLng: route duration and predicted arrival
+ *   (optional mmsi and speed use the vessel's own history or a planned speed)
  */
 export async function GET(request: NextRequest) {
   if (!isDatalasticConfigured()) {
@@ -135,7 +137,9 @@ export async function GET(request: NextRequest) {
         const fromLng = parseFloat(searchParams.get('fromLng') || '');
         const toLat = parseFloat(searchParams.get('toLat') || '');
         const toLng = parseFloat(searchParams.get('toLng') || '');
-        const speed = parseFloat(searchParams.get('speed') || '12');
+        const speedParam = searchParams.get('speed');
+        const speed = speedParam ? parseFloat(speedParam) : undefined;
+        const mmsi = searchParams.get('mmsi') || undefined;
 
         if (isNaN(fromLat) || isNaN(fromLng) || isNaN(toLat) || isNaN(toLng)) {
           return NextResponse.json({
@@ -144,21 +148,39 @@ export async function GET(request: NextRequest) {
             message: 'Please provide fromLat, fromLng, toLat, toLng parameters',
           }, { status: 400 });
         }
+        if (speed !== undefined && !(speed > 0)) {
+          return NextResponse.json({
+            success: false,
+            error: 'Invalid parameter',
+            message: 'speed must be a positive number of knots',
+          }, { status: 400 });
+        }
 
-        const distance = calculateDistanceNm(fromLat, fromLng, toLat, toLng);
-        const duration = estimateVoyageDuration(distance, speed);
+        const prediction = predictEta(await loadEtaModel(), {
+          vesselId: mmsi,
+          from: { lat: fromLat, lng: fromLng },
+          to: { lat: toLat, lng: toLng },
+          nominalSpeed: speed,
+        });
+        const duration = formatVoyageDuration(prediction.totalHours);
 
         return NextResponse.json({
           success: true,
           route: {
             from: { lat: fromLat, lng: fromLng },
             to: { lat: toLat, lng: toLng },
-            distance: Math.round(distance * 10) / 10,
+            distance: Math.round(prediction.distanceNm * 10) / 10,
             distanceUnit: 'nm',
             duration: duration.formatted,
             durationHours: Math.round(duration.hours * 10) / 10,
-            speed,
+            speed: Math.round(prediction.expectedSpeed * 10) / 10,
             speedUnit: 'knots',
+            eta: prediction.eta,
+            etaEarliest: prediction.earliest,
+            etaLatest: prediction.latest,
+            etaConfidence: Math.round(prediction.confidence * 100) / 100,
+            portWaitHours: Math.round(prediction.congestionDelayHours * 10) / 10,
+            basis: prediction.basis,
           },
         });
       }
@@ -1,19 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { RouteOptimizationRequest } from '@/lib/routes/types';
+import { ForecastGrid, OpenMeteoForecastPoint, RouteOptimizationRequest } from '@/lib/routes/types';
 import { optimizeSingleRoute, optimizeMultiStopRoute, Stop } from '@/lib/routes/optimizer';
-import { generateRoute } from '@/lib/routes/engine';
+import { fetchSeaRoute, generateRoute } from '@/lib/routes/engine';
 import { smartOptimizeRoute, SmartOptimizationRequest } from '@/lib/routes/smart-optimizer';
+import {
+  buildForecastGrid,
+  createShamalForecastFixture,
+  loadForecastGridFile,
+} from '@/lib/routes/forecast-grid';
+import { evaluateRouteThroughWeather, routeThroughWeather } from '@/lib/routes/weather-routing';
+import { FleetStop, FleetVessel, optimizeFleetRoutes } from '@/lib/routes/vrptw';
 
 /**
  * Route Optimization API
  * 
  * POST /api/route-optimize
  * 
- * Supports three modes:
+ * Supports five modes:
  * 1. Single route optimization: origin + destination with priority-based route selection
  * 2. Multi-stop optimization: origin + multiple stops with sequence optimization
  * 3. Smart optimization: advanced optimization with speed profiles, weather routing, 
  *    virtual arrival, ETA windows, and environmental factors
+ * 4. Weather routing: time-dependent routing through a gridded wind/wave forecast
+ *    (inline Open-Meteo points, WEATHER_ROUTING_FORECAST_FILE, or the shamal fixture)
+ * 5. Fleet routing: assigns and sequences stops with time windows across several
+ *    vessels with deck cargo, fuel and crew berth capacities
  */
 export async function POST(request: NextRequest) {
   try {
@@ -21,11 +32,19 @@ export async function POST(request: NextRequest) {
     
     // Determine optimization mode
     const isSmartMode = body.mode === 'smart';
+    const isWeatherMode = body.mode === 'weather';
+    const isFleetMode = body.mode === 'fleet';
     const isMultiStop = body.stops && Array.isArray(body.stops) && body.stops.length > 0;
     
     if (isSmartMode) {
       // Smart route optimization with advanced features
       return handleSmartOptimization(body);
+    } else if (isWeatherMode) {
+      // Time-dependent routing through a forecast grid
+      return handleWeatherRouting(body);
+    } else if (isFleetMode) {
+      // Multi-vessel routing with time windows
+      return handleFleetRouting(body);
     } else if (isMultiStop) {
       // Multi-stop route optimization
       return handleMultiStopOptimization(body);
@@ -81,9 +100,11 @@ async function handleSmartOptimization(body: {
   };
   preferences?: {
     avoidECA?: boolean;
+    includeProposedECAs?: boolean;
     maxWaveHeight?: number;
     maxWindSpeed?: number;
     preferDaylight?: boolean;
+    minUnderKeelClearance?: number;
   };
 }) {
   const {
@@ -117,6 +138,14 @@ async function handleSmartOptimization(body: {
     );
   }
 
+  const departureTime = body.departureTime ? new Date(body.departureTime) : undefined;
+  if (departureTime && isNaN(departureTime.getTime())) {
+    return NextResponse.json(
+      { success: false, error: 'departureTime must be a valid date' },
+      { status: 400 }
+    );
+  }
+
   // Build smart optimization request
   const smartRequest: SmartOptimizationRequest = {
     vesselId,
@@ -132,7 +161,7 @@ async function handleSmartOptimization(body: {
       lng: destination.lng,
       name: destination.name,
     },
-    departureTime: body.departureTime ? new Date(body.departureTime) : undefined,
+    departureTime,
     arrivalWindow: body.arrivalWindow ? {
       earliest: new Date(body.arrivalWindow.earliest),
       latest: new Date(body.arrivalWindow.latest),
@@ -170,6 +199,179 @@ async function handleSmartOptimization(body: {
       withinWindow: result.timing.withinWindow,
       recommendationsCount: result.recommendations.length,
       virtualArrivalRecommended: result.timing.virtualArrivalRecommended,
+      ecaFuelSwitches: result.emissionCompliance?.switchPoints.length ?? 0,
+    },
+    generatedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Handle weather routing through a gridded forecast
+ */
+async function handleWeatherRouting(body: {
+  vesselType?: string;
+  origin: { lat: number; lng: number; name?: string };
+  destination: { lat: number; lng: number; name?: string };
+  departureTime?: string;
+  speed?: number;
+  forecast?: OpenMeteoForecastPoint[];
+  preferences?: {
+    maxWaveHeight?: number;
+    maxWindSpeed?: number;
+    maxWaitHours?: number;
+  };
+}) {
+  const { vesselType = 'supply_vessel', origin, destination, preferences = {} } = body;
+
+  if (!origin?.lat || !origin?.lng) {
+    return NextResponse.json(
+      { success: false, error: 'origin with lat/lng is required' },
+      { status: 400 }
+    );
+  }
+
+  if (!destination?.lat || !destination?.lng) {
+    return NextResponse.json(
+      { success: false, error: 'destination with lat/lng is required' },
+      { status: 400 }
+    );
+  }
+
+  const departureTime = body.departureTime ? new Date(body.departureTime) : new Date();
+  if (isNaN(departureTime.getTime())) {
+    return NextResponse.json(
+      { success: false, error: 'departureTime must be a valid date' },
+      { status: 400 }
+    );
+  }
+
+  // Forecast source: inline points, then a local file, then the fixture
+  let grid: ForecastGrid;
+  if (body.forecast && body.forecast.length > 0) {
+    grid = buildForecastGrid(body.forecast, 'open-meteo');
+  } else if (process.env.WEATHER_ROUTING_FORECAST_FILE) {
+    grid = await loadForecastGridFile(process.env.WEATHER_ROUTING_FORECAST_FILE);
+  } else {
+    grid = buildForecastGrid(createShamalForecastFixture(departureTime), 'fixture:shamal');
+  }
+
+  const options = {
+    vesselType,
+    speed: body.speed,
+    departureTime,
+    maxWaveHeight: preferences.maxWaveHeight,
+    maxWindSpeed: preferences.maxWindSpeed,
+    maxWaitHours: preferences.maxWaitHours,
+  };
+
+  const result = routeThroughWeather(origin, destination, grid, options);
+  if (!result) {
+    return NextResponse.json(
+      { success: false, error: 'No route stays within the weather limits for this departure' },
+      { status: 422 }
+    );
+  }
+
+  // What the static sea route would have sailed into
+  const seaRoute = await fetchSeaRoute(origin.lat, origin.lng, destination.lat, destination.lng);
+  const staticRoute = evaluateRouteThroughWeather(seaRoute.waypoints, grid, options);
+
+  return NextResponse.json({
+    success: true,
+    mode: 'weather',
+    result,
+    staticRoute: {
+      waypoints: seaRoute.waypoints,
+      distance: seaRoute.distance,
+      ...staticRoute,
+    },
+    summary: {
+      totalDistance: result.distance.toFixed(1) + ' nm',
+      estimatedTime: result.durationHours.toFixed(1) + ' hours',
+      waitTime: result.waitHours.toFixed(0) + ' hours',
+      fuelConsumption: result.fuelLiters.toFixed(0) + ' L',
+      maxWaveHeight: result.maxWaveHeight.toFixed(1) + ' m',
+      maxWindSpeed: result.maxWindSpeed.toFixed(0) + ' kn',
+      arrivalTime: result.arrival.toISOString(),
+      staticRouteBlockedLegs: staticRoute.blockedLegs,
+      forecastSource: result.forecastSource,
+    },
+    generatedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Handle fleet routing with time windows (VRPTW)
+ */
+async function handleFleetRouting(body: {
+  depot: { id?: string; name?: string; lat: number; lng: number };
+  vessels: Array<Omit<FleetVessel, 'availableFrom' | 'availableUntil'> & {
+    availableFrom?: string;
+    availableUntil?: string;
+  }>;
+  stops: Array<Omit<FleetStop, 'timeWindowStart' | 'timeWindowEnd'> & {
+    timeWindowStart?: string;
+    timeWindowEnd?: string;
+  }>;
+  departureTime?: string;
+  returnToDepot?: boolean;
+  latenessCostPerHour?: number;
+}) {
+  const { depot, vessels, stops } = body;
+
+  if (!depot?.lat || !depot?.lng) {
+    return NextResponse.json(
+      { success: false, error: 'depot with lat/lng is required' },
+      { status: 400 }
+    );
+  }
+
+  if (!vessels || vessels.length === 0 || vessels.some(v => !v.id || !v.capacity)) {
+    return NextResponse.json(
+      { success: false, error: 'At least one vessel with id and capacity is required' },
+      { status: 400 }
+    );
+  }
+
+  if (!stops || stops.length === 0) {
+    return NextResponse.json(
+      { success: false, error: 'At least one stop is required for fleet routing' },
+      { status: 400 }
+    );
+  }
+
+  const result = await optimizeFleetRoutes({
+    depot: { id: depot.id || 'depot', name: depot.name || 'Depot', lat: depot.lat, lng: depot.lng },
+    vessels: vessels.map(v => ({
+      ...v,
+      availableFrom: v.availableFrom ? new Date(v.availableFrom) : undefined,
+      availableUntil: v.availableUntil ? new Date(v.availableUntil) : undefined,
+    })),
+    stops: stops.map((s, index) => ({
+      ...s,
+      id: s.id || `stop-${index}`,
+      timeWindowStart: s.timeWindowStart ? new Date(s.timeWindowStart) : undefined,
+      timeWindowEnd: s.timeWindowEnd ? new Date(s.timeWindowEnd) : undefined,
+    })),
+    departureTime: body.departureTime ? new Date(body.departureTime) : undefined,
+    returnToDepot: body.returnToDepot,
+    latenessCostPerHour: body.latenessCostPerHour,
+  });
+
+  return NextResponse.json({
+    success: true,
+    mode: 'fleet',
+    result,
+    summary: {
+      vesselsUsed: result.totals.vesselsUsed,
+      stopsAssigned: stops.length - result.unassigned.length,
+      stopsUnassigned: result.unassigned.length,
+      totalDistance: result.totals.distance.toFixed(1) + ' nm',
+      fuelConsumption: result.totals.fuelBurn.toFixed(0) + ' L',
+      timeWindowViolations: result.violations.length,
+      lateness: result.totals.lateMinutes.toFixed(0) + ' min',
+      latenessCost: '$' + result.totals.latenessCost.toFixed(2),
+      totalCost: '$' + result.totals.totalCost.toFixed(2),
     },
     generatedAt: new Date().toISOString(),
   });
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Route, RouteFileFormat } from '@/lib/routes/types';
+import { getStoredRoute } from '@/lib/routes/route-store';
+import { ROUTE_FILE_CONTENT_TYPES, serializeRoute } from '@/lib/routes/route-formats';
+
+/**
+ * Route Export API - Download routes as RTZ, GPX or KML
+ *
+ * GET /api/routes/export?id=...&format=rtz|gpx|kml - Export a saved route
+ * POST /api/routes/export - Export a route in the body: { route, format }
+ */
+
+const FORMATS: RouteFileFormat[] = ['rtz', 'gpx', 'kml'];
+
+function parseFormat(value: string | null | undefined): RouteFileFormat | null {
+  const format = (value || 'rtz').toLowerCase();
+  return FORMATS.includes(format as RouteFileFormat) ? (format as RouteFileFormat) : null;
+}
+
+function fileResponse(route: Route, format: RouteFileFormat) {
+  const fileName = `${route.name.replace(/[^\w.-]+/g, '_') || route.id}.${format}`;
+  return new NextResponse(serializeRoute(route, format), {
+    headers: {
+      'Content-Type': `${ROUTE_FILE_CONTENT_TYPES[format]}; charset=utf-8`,
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+    },
+  });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    const format = parseFormat(searchParams.get('format'));
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Route id is required' },
+        { status: 400 }
+      );
+    }
+    if (!format) {
+      return NextResponse.json(
+        { success: false, error: `format must be one of ${FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const route = await getStoredRoute(id);
+    if (!route) {
+      return NextResponse.json(
+        { success: false, error: 'Route not found' },
+        { status: 404 }
+      );
+    }
+
+    return fileResponse(route, format);
+  } catch (error) {
+    console.error('Route export error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export route' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const route: Route | undefined = body.route;
+    const format = parseFormat(body.format);
+
+    if (!route?.origin || !route.destination || !Array.isArray(route.segments)) {
+      return NextResponse.json(
+        { success: false, error: 'route with origin, destination and segments is required' },
+        { status: 400 }
+      );
+    }
+    if (!format) {
+      return NextResponse.json(
+        { success: false, error: `format must be one of ${FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    return fileResponse({ ...route, waypoints: route.waypoints || [] }, format);
+  } catch (error) {
+    console.error('Route export error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export route' },
+      { status: 500 }
+    );
+  }
+}
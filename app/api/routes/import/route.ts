@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildRouteFromWaypoints } from '@/lib/routes/engine';
+import { prepareLandMask } from '@/lib/routes/land-mask';
+import { storeRoute } from '@/lib/routes/route-store';
+import { detectRouteFormat, parseRouteFile, validateImportedRoute } from '@/lib/routes/route-formats';
+import { RouteFileFormat } from '@/lib/routes/types';
+
+/**
+ * Route Import API - Load RTZ, GPX or KML route plans
+ *
+ * POST /api/routes/import
+ *   JSON: { content, format?, fileName?, vesselId, vesselName?, vesselType?,
+ *           draft?, minUKC?, speed?, departureTime?, save? }
+ *   or the raw file as the body, with the same fields as query parameters.
+ *
+ * The route is checked against the land mask and, with a draft, the
+ * under-keel clearance on each leg. Invalid routes are returned with 422
+ * and never saved.
+ */
+
+interface ImportRequest {
+  content: string;
+  format?: RouteFileFormat;
+  fileName?: string;
+  vesselId?: string;
+  vesselName?: string;
+  vesselType?: string;
+  draft?: number;
+  minUKC?: number;
+  speed?: number;
+  departureTime?: string;
+  save?: boolean;
+}
+
+async function readImportRequest(request: NextRequest): Promise<ImportRequest> {
+  if (request.headers.get('content-type')?.includes('application/json')) {
+    return request.json();
+  }
+
+  const params = new URL(request.url).searchParams;
+  const number = (key: string) => (params.has(key) ? Number(params.get(key)) : undefined);
+  return {
+    content: await request.text(),
+    format: (params.get('format') as RouteFileFormat | null) ?? undefined,
+    fileName: params.get('fileName') ?? undefined,
+    vesselId: params.get('vesselId') ?? undefined,
+    vesselName: params.get('vesselName') ?? undefined,
+    vesselType: params.get('vesselType') ?? undefined,
+    draft: number('draft'),
+    minUKC: number('minUKC'),
+    speed: number('speed'),
+    departureTime: params.get('departureTime') ?? undefined,
+    save: params.get('save') === 'true',
+  };
+}
+
+export async function POST(request: NextRequest) {
+  let body: ImportRequest;
+  try {
+    body = await readImportRequest(request);
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  if (!body.content?.trim()) {
+    return NextResponse.json(
+      { success: false, error: 'Route file content is required' },
+      { status: 400 }
+    );
+  }
+
+  const format = body.format ?? detectRouteFormat(body.content, body.fileName);
+  if (format !== 'rtz' && format !== 'gpx' && format !== 'kml') {
+    return NextResponse.json(
+      { success: false, error: 'Unrecognised route file; expected RTZ, GPX or KML' },
+      { status: 400 }
+    );
+  }
+
+  if (body.save && !body.vesselId) {
+    return NextResponse.json(
+      { success: false, error: 'vesselId is required to save a route' },
+      { status: 400 }
+    );
+  }
+
+  let imported;
+  try {
+    imported = parseRouteFile(body.content, format);
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to parse route file' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await prepareLandMask();
+    const route = await buildRouteFromWaypoints(
+      body.vesselId || 'unassigned',
+      body.vesselName || imported.vesselName || '',
+      body.vesselType || 'default',
+      imported.waypoints,
+      {
+        routeName: imported.name,
+        speed: body.speed,
+        legs: imported.legs,
+        draft: body.draft,
+        minUKC: body.minUKC,
+        departureTime: body.departureTime ? new Date(body.departureTime) : undefined,
+      }
+    );
+    const validation = validateImportedRoute(route, { draft: body.draft, minUKC: body.minUKC });
+
+    if (!validation.valid) {
+      return NextResponse.json(
+        { success: false, error: 'Imported route failed validation', route, validation, format },
+        { status: 422 }
+      );
+    }
+
+    if (body.save) {
+      const saved = await storeRoute(route);
+      return NextResponse.json({ success: true, route: saved, validation, format, saved: true });
+    }
+
+    return NextResponse.json({ success: true, route, validation, format, saved: false });
+  } catch (error) {
+    console.error('Route import error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to import route' },
+      { status: 500 }
+    );
+  }
+}
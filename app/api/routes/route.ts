@@ -1,10 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import { isSupabaseConfigured } from '@/lib/supabase';
 import { Route } from '@/lib/routes/types';
-
-// Type assertion helper for routes table (not in generated types yet)
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const routesTable = () => supabase.from('routes' as any);
+import { inMemoryRoutes, routesTable, toDbRoute } from '@/lib/routes/route-store';
 
 /**
  * Routes API - CRUD operations for saved routes
@@ -13,11 +10,10 @@ const routesTable = () => supabase.from('routes' as any);
  * POST /api/routes - Create a new route
  * PUT /api/routes - Update a route
  * DELETE /api/routes - Delete a route
+ *
+ * RTZ, GPX and KML files go through /api/routes/import and /api/routes/export.
  */
 
-// In-memory storage for routes when Supabase is not configured
-const inMemoryRoutes: Map<string, Route> = new Map();
-
 // ============================================================================
 // GET - List routes
 // ============================================================================
@@ -157,24 +153,7 @@ export async function POST(request: NextRequest) {
 
     if (isSupabaseConfigured) {
       // Convert to database format
-      const dbRoute = {
-        id: routeToSave.id,
-        vessel_id: routeToSave.vesselId,
-        name: routeToSave.name,
-        origin: routeToSave.origin,
-        destination: routeToSave.destination,
-        waypoints: routeToSave.waypoints,
-        segments: routeToSave.segments,
-        total_distance: routeToSave.totalDistance,
-        estimated_time: routeToSave.estimatedTime,
-        fuel_consumption: routeToSave.fuelConsumption,
-        emissions: routeToSave.emissions,
-        average_speed: routeToSave.averageSpeed,
-        weather_risk: routeToSave.weatherRisk,
-        cost: routeToSave.cost,
-        status: routeToSave.status,
-        created_at: routeToSave.createdAt,
-      };
+      const dbRoute = toDbRoute(routeToSave);
 
       const { data, error } = await routesTable()
         .insert(dbRoute)
@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { optimizeSchedule, type ScheduleVessel } from '@/lib/orchestration/optimizer';
+import { generateMockAssignments, generateMockProjects } from '@/lib/orchestration/mock-data';
 
 // Intelligence categories for multi-source analysis
 interface IntelligenceSource {
@@ -826,7 +828,25 @@ function generateOptimizations(
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { vessels = [] } = body;
+    const { vessels = [], action } = body;
+
+    // Vessel-to-project assignment plan from the schedule optimizer
+    if (action === 'schedule') {
+      const projects = generateMockProjects();
+      const assignments = generateMockAssignments(projects, vessels);
+      const scheduleVessels: ScheduleVessel[] = vessels.map((v: { id: string; name: string; type: string; healthScore?: number }) => ({
+        id: v.id,
+        name: v.name,
+        type: v.type,
+        health_score: v.healthScore,
+      }));
+
+      return NextResponse.json({
+        success: true,
+        schedule: optimizeSchedule(assignments, scheduleVessels, projects),
+        generatedAt: new Date().toISOString(),
+      });
+    }
 
     // Fetch external factors (weather, news, etc.)
     const externalFactors = await searchExternalFactors();
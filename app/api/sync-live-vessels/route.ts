@@ -6,6 +6,7 @@ import {
   DatalasticVessel,
   DatalasticVesselInfo,
 } from '@/lib/datalastic';
+import { processGeofenceUpdates, VesselPositionUpdate } from '@/lib/nmdc/geofences';
 
 export const dynamic = 'force-dynamic';
 
@@ -49,6 +50,21 @@ function mapNavStatus(navStatusCode?: number): string {
   }
 }
 
+// Synced vessel row as a geofence position update, if it has a position
+function toPositionUpdate(
+  id: string,
+  vessel: { mmsi: string; name: string; position_lat?: number; position_lng?: number }
+): VesselPositionUpdate[] {
+  if (vessel.position_lat === undefined || vessel.position_lng === undefined) return [];
+  return [{
+    vesselId: id,
+    mmsi: vessel.mmsi,
+    name: vessel.name,
+    lat: vessel.position_lat,
+    lng: vessel.position_lng,
+  }];
+}
+
 /**
  * GET /api/sync-live-vessels
  * 
@@ -204,6 +220,7 @@ export async function GET(request: NextRequest) {
     // Upsert vessels (update existing or insert new)
     let synced = 0;
     let errors = 0;
+    const positions: VesselPositionUpdate[] = [];
 
     for (const vesselData of vesselUpdates) {
       // Check if vessel exists by MMSI
@@ -235,20 +252,25 @@ export async function GET(request: NextRequest) {
           errors++;
         } else {
           synced++;
+          positions.push(...toPositionUpdate(existing.id, vesselData));
         }
       } else {
         // Insert new vessel
-        const { error } = await supabase.from('vessels').insert(vesselData);
+        const { data: inserted, error } = await supabase.from('vessels').insert(vesselData).select('id').single();
         
         if (error) {
           console.error('Insert error:', error);
           errors++;
         } else {
           synced++;
+          positions.push(...toPositionUpdate(inserted.id, vesselData));
         }
       }
     }
 
+    // Geofence entries, exits and dwells for the synced positions
+    const geofences = await processGeofenceUpdates(positions);
+
     return NextResponse.json({
       success: true,
       message: `Synced ${synced} vessels from live AIS data`,
@@ -259,6 +281,7 @@ export async function GET(request: NextRequest) {
         errors,
         mode,
         region: UAE_REGION,
+        geofenceEvents: geofences.events.length,
       },
     });
 
@@ -302,8 +325,9 @@ export async function POST(request: NextRequest) {
 
     // Update each vessel in database
     let updated = 0;
+    const positions: VesselPositionUpdate[] = [];
     for (const vessel of vessels) {
-      const { error } = await supabase
+      const { data: rows, error } = await supabase
         .from('vessels')
         .update({
           position_lat: vessel.latitude,
@@ -313,11 +337,24 @@ export async function POST(request: NextRequest) {
           status: mapNavStatus(vessel.nav_status_code),
           updated_at: new Date().toISOString(),
         })
-        .eq('mmsi', vessel.mmsi);
-
-      if (!error) updated++;
+        .eq('mmsi', vessel.mmsi)
+        .select('id, name');
+
+      if (!error) {
+        updated++;
+        for (const row of rows ?? []) {
+          positions.push(...toPositionUpdate(row.id, {
+            mmsi: vessel.mmsi,
+            name: row.name,
+            position_lat: vessel.latitude,
+            position_lng: vessel.longitude,
+          }));
+        }
+      }
     }
 
+    const geofences = await processGeofenceUpdates(positions);
+
     return NextResponse.json({
       success: true,
       message: `Updated ${updated} vessels`,
@@ -325,6 +362,7 @@ export async function POST(request: NextRequest) {
         requested: mmsiList.length,
         found: vessels.length,
         updated,
+        geofenceEvents: geofences.events.length,
       },
     });
 
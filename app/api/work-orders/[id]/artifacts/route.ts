@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  WorkOrderArtifactKind,
+  WorkOrderTransitionError,
+  attachArtifact,
+  getWorkOrder,
+} from '@/lib/exelon/work-orders';
+
+/**
+ * Work Order Artifacts API - LOTO procedures and checklists
+ *
+ * GET /api/work-orders/[id]/artifacts - Artifacts attached to the work order
+ * POST /api/work-orders/[id]/artifacts - Attach one:
+ *   { kind: 'loto' | 'checklist', actor, payload: LOTOSchema | ChecklistSchema }
+ */
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const KINDS: WorkOrderArtifactKind[] = ['loto', 'checklist'];
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const detail = await getWorkOrder(id);
+    if (!detail) {
+      return NextResponse.json({ success: false, error: `Work order ${id} not found` }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, artifacts: detail.artifacts });
+  } catch (error) {
+    console.error('Work order artifacts error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load artifacts' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { kind, actor, payload } = body;
+
+    if (!actor || !KINDS.includes(kind) || !payload) {
+      return NextResponse.json(
+        { success: false, error: `actor, payload and kind (${KINDS.join(', ')}) are required` },
+        { status: 400 }
+      );
+    }
+    const valid = kind === 'loto'
+      ? Array.isArray(payload.isolationPoints) && Array.isArray(payload.reinstatementSteps)
+      : Array.isArray(payload.categories);
+    if (!valid) {
+      return NextResponse.json(
+        { success: false, error: kind === 'loto' ? 'LOTO payload needs isolationPoints and reinstatementSteps' : 'Checklist payload needs categories' },
+        { status: 400 }
+      );
+    }
+    if (!(await getWorkOrder(id))) {
+      return NextResponse.json({ success: false, error: `Work order ${id} not found` }, { status: 404 });
+    }
+
+    const artifact = await attachArtifact(id, kind, payload, actor);
+    return NextResponse.json({ success: true, artifact }, { status: 201 });
+  } catch (error) {
+    if (error instanceof WorkOrderTransitionError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+    console.error('Work order artifact error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to attach artifact' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { WOStatus } from '@/lib/exelon/dispatch-data';
+import {
+  WORK_ORDER_STATUSES,
+  WorkOrderTransitionError,
+  getWorkOrder,
+  transitionWorkOrder,
+} from '@/lib/exelon/work-orders';
+
+/**
+ * Work Order API - One work order and its status changes
+ *
+ * GET /api/work-orders/[id] - Work order, audit trail, artifacts and allowed next statuses
+ * PATCH /api/work-orders/[id] - Change status:
+ *   { status, actor, note?, resolution?, laborHours?, partsCost? }
+ *   409 if the lifecycle doesn't allow the change or a LOTO/checklist is incomplete
+ */
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const detail = await getWorkOrder(id);
+    if (!detail) {
+      return NextResponse.json({ success: false, error: `Work order ${id} not found` }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, ...detail });
+  } catch (error) {
+    console.error('Work order error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load work order' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { status, actor, note, resolution, laborHours, partsCost } = body;
+
+    if (!actor || !WORK_ORDER_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `actor and status (${WORK_ORDER_STATUSES.join(', ')}) are required` },
+        { status: 400 }
+      );
+    }
+    if (!(await getWorkOrder(id))) {
+      return NextResponse.json({ success: false, error: `Work order ${id} not found` }, { status: 404 });
+    }
+
+    const detail = await transitionWorkOrder(id, status as WOStatus, { actor, note, resolution, laborHours, partsCost });
+    return NextResponse.json({ success: true, ...detail });
+  } catch (error) {
+    if (error instanceof WorkOrderTransitionError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+    console.error('Work order transition error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to update work order' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { WOStatus } from '@/lib/exelon/dispatch-data';
+import {
+  WORK_ORDER_STATUSES,
+  createWorkOrder,
+  fromWorkOrderSchema,
+  listWorkOrders,
+} from '@/lib/exelon/work-orders';
+
+/**
+ * Work Orders API - Field work order lifecycle
+ *
+ * GET /api/work-orders - List work orders
+ *   ?status=dispatched|en_route|in_progress|on_hold|completed|deferred
+ *   ?opCo=ComEd
+ * POST /api/work-orders - Create a work order (starts out dispatched):
+ *   { actor, workOrder: { title, assetTag, ... } }
+ *   or { actor, form: WorkOrderSchema } from the work order form
+ *
+ * Status changes and artifacts: /api/work-orders/[id], /api/work-orders/[id]/artifacts
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as WOStatus | null;
+    const opCo = searchParams.get('opCo') || undefined;
+
+    if (status && !WORK_ORDER_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of ${WORK_ORDER_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const workOrders = await listWorkOrders({ status: status || undefined, opCo });
+    return NextResponse.json({ success: true, count: workOrders.length, workOrders });
+  } catch (error) {
+    console.error('Work orders error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load work orders' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { actor, workOrder, form } = body;
+    const input = form ? fromWorkOrderSchema(form) : workOrder;
+
+    if (!actor || !input?.title || !input?.assetTag) {
+      return NextResponse.json(
+        { success: false, error: 'actor and a work order with title and assetTag (or a form) are required' },
+        { status: 400 }
+      );
+    }
+
+    const created = await createWorkOrder(input, actor);
+    return NextResponse.json({ success: true, workOrder: created }, { status: 201 });
+  } catch (error) {
+    console.error('Work order create error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to create work order' },
+      { status: 500 }
+    );
+  }
+}
@@ -14,13 +14,19 @@ import {
   Activity,
   BarChart3,
 } from 'lucide-react';
+import type { GridSource } from '@/lib/exelon/grid-agent';
 
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
+  sources?: GridSource[];
 }
 
+// Source kinds worth showing as citations under an answer
+const CITED_KINDS: GridSource['kind'][] = ['asset', 'work_order', 'alert'];
+const MAX_CITATIONS = 8;
+
 interface ChatPanelProps {
   selectedAsset?: { id: string; name: string; type: string } | null;
 }
@@ -99,6 +105,7 @@ export function ChatPanel({ selectedAsset }: ChatPanelProps) {
       const reader = response.body?.getReader();
       const decoder = new TextDecoder();
       let assistantContent = '';
+      let buffered = '';
       const assistantId = (Date.now() + 1).toString();
 
       setMessages((prev) => [
@@ -111,9 +118,21 @@ export function ChatPanel({ selectedAsset }: ChatPanelProps) {
           const { done, value } = await reader.read();
           if (done) break;
 
-          const chunk = decoder.decode(value, { stream: true });
-          const lines = chunk.split('\n');
+          buffered += decoder.decode(value, { stream: true });
+          const lines = buffered.split('\n');
+          buffered = lines.pop() ?? '';
           for (const line of lines) {
+            if (line.startsWith('2:')) {
+              try {
+                const [{ sources }] = JSON.parse(line.slice(2));
+                setMessages((prev) =>
+                  prev.map((m) => (m.id === assistantId ? { ...m, sources } : m))
+                );
+              } catch {
+                // Skip malformed chunks
+              }
+              continue;
+            }
             if (line.startsWith('0:')) {
               try {
                 const textContent = JSON.parse(line.slice(2));
@@ -238,6 +257,7 @@ export function ChatPanel({ selectedAsset }: ChatPanelProps) {
                       <p className="leading-relaxed">{message.content}</p>
                     )}
                   </div>
+                  {message.sources && <Citations sources={message.sources} />}
                 </div>
               </div>
             ))}
@@ -288,6 +308,36 @@ export function ChatPanel({ selectedAsset }: ChatPanelProps) {
   );
 }
 
+function Citations({ sources }: { sources: GridSource[] }) {
+  // Alerts cite their asset, so one chip per tag or work order
+  const byRef = new Map<string, string[]>();
+  for (const s of sources) {
+    if (!CITED_KINDS.includes(s.kind)) continue;
+    const ref = s.kind === 'alert' ? s.assetTag ?? s.id : s.id;
+    byRef.set(ref, [...(byRef.get(ref) ?? []), s.label]);
+  }
+  const cited = [...byRef.entries()];
+  if (cited.length === 0) return null;
+  const shown = cited.slice(0, MAX_CITATIONS);
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1.5">
+      {shown.map(([ref, labels]) => (
+        <span
+          key={ref}
+          title={labels.join('\n')}
+          className="text-[10px] px-1.5 py-0.5 rounded bg-white/[0.04] border border-white/[0.08] text-white/40 tabular-nums"
+        >
+          {ref}
+        </span>
+      ))}
+      {cited.length > shown.length && (
+        <span className="text-[10px] px-1.5 py-0.5 text-white/25">+{cited.length - shown.length} more</span>
+      )}
+    </div>
+  );
+}
+
 function formatMessage(content: string): string {
   // First, detect if this is a route analysis or structured recommendation
   const isRouteAnalysis = content.includes('Route Analysis') || content.includes('Optimizations Available') || content.includes('Critical Optimizations');
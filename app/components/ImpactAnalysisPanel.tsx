@@ -34,10 +34,16 @@ import {
   ImpactCategory,
   ProposedChange,
   ImpactChainNode,
+  ScenarioChangeBreakdown,
+  MonteCarloResult,
 } from '@/lib/impact-analysis/types';
 
 interface ImpactAnalysisPanelProps {
   result: ImpactAnalysisResult;
+  // Per-change results when `result` combines a multi-change scenario
+  breakdown?: ScenarioChangeBreakdown[];
+  // Monte Carlo spread around the single-point figures
+  uncertainty?: MonteCarloResult;
   onApplyChange?: () => void;
   onDismiss?: () => void;
   onSelectAlternative?: (alternativeId: string) => void;
@@ -67,12 +73,14 @@ const CATEGORY_CONFIG: Record<ImpactCategory, { icon: typeof Ship; label: string
 
 export function ImpactAnalysisPanel({
   result,
+  breakdown,
+  uncertainty,
   onApplyChange,
   onDismiss,
   onSelectAlternative,
   compact = false,
 }: ImpactAnalysisPanelProps) {
-  const [activeTab, setActiveTab] = useState<'overview' | 'upstream' | 'downstream' | 'chain' | 'recommendations'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'changes' | 'upstream' | 'downstream' | 'chain' | 'recommendations'>('overview');
   const [expandedImpacts, setExpandedImpacts] = useState<Set<string>>(new Set());
 
   const toggleExpand = (id: string) => {
@@ -117,6 +125,7 @@ export function ImpactAnalysisPanel({
       <div className="flex border-b border-white/10 overflow-x-auto">
         {[
           { id: 'overview', label: 'Overview', icon: BarChart3 },
+          ...(breakdown ? [{ id: 'changes', label: 'Changes', icon: Layers, count: breakdown.length }] : []),
           { id: 'upstream', label: 'Upstream', icon: ArrowUpRight, count: result.upstreamImpacts.length },
           { id: 'downstream', label: 'Downstream', icon: ArrowDownRight, count: result.downstreamImpacts.length },
           { id: 'chain', label: 'Impact Chain', icon: ArrowLeftRight },
@@ -241,6 +250,39 @@ export function ImpactAnalysisPanel({
               </div>
             </div>
 
+            {uncertainty && (
+              <div className="bg-white/[0.02] rounded-xl border border-white/10 p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-sm font-medium text-white flex items-center gap-2">
+                    <BarChart3 className="w-4 h-4 text-violet-400" />
+                    Risk Range
+                  </h3>
+                  <span className="text-[10px] text-white/40">
+                    {uncertainty.iterations} simulations · seed {uncertainty.seed}
+                  </span>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <RangeRow
+                    label="Total Financial Impact"
+                    p5={formatCurrency(uncertainty.totalFinancialImpact.p5)}
+                    p50={formatCurrency(uncertainty.totalFinancialImpact.p50)}
+                    p95={formatCurrency(uncertainty.totalFinancialImpact.p95)}
+                  />
+                  <RangeRow
+                    label="Schedule Delay"
+                    p5={`${Math.round(uncertainty.scheduleDelayDays.p5)} d`}
+                    p50={`${Math.round(uncertainty.scheduleDelayDays.p50)} d`}
+                    p95={`${Math.round(uncertainty.scheduleDelayDays.p95)} d`}
+                  />
+                </div>
+                {uncertainty.penaltyTriggerRate > 0 && (
+                  <p className="text-[10px] text-white/40 mt-3">
+                    Delay penalties enforced in {Math.round(uncertainty.penaltyTriggerRate * 100)}% of runs
+                  </p>
+                )}
+              </div>
+            )}
+
             <div className="bg-white/[0.02] rounded-xl border border-white/10 p-4">
               <h3 className="text-sm font-medium text-white mb-3">Impact Flow</h3>
               <div className="flex items-center justify-between">
@@ -261,7 +303,9 @@ export function ImpactAnalysisPanel({
                       Change
                     </span>
                   </div>
-                  <p className="text-[10px] text-white/40 mt-1">{result.change.type.replace(/_/g, ' ')}</p>
+                  <p className="text-[10px] text-white/40 mt-1">
+                    {result.changes ? `${result.changes.length} changes combined` : result.change.type.replace(/_/g, ' ')}
+                  </p>
                 </div>
                 <ArrowRight className="w-6 h-6 text-white/20" />
                 <div className="flex-1 text-center">
@@ -306,6 +350,10 @@ export function ImpactAnalysisPanel({
           </div>
         )}
 
+        {activeTab === 'changes' && breakdown && (
+          <ScenarioBreakdownList breakdown={breakdown} formatCurrency={formatCurrency} />
+        )}
+
         {activeTab === 'upstream' && (
           <ImpactList
             impacts={result.upstreamImpacts}
@@ -697,6 +745,64 @@ function ImpactChainView({ chain }: { chain: ImpactChainNode[] }) {
   );
 }
 
+function RangeRow({ label, p5, p50, p95 }: { label: string; p5: string; p50: string; p95: string }) {
+  return (
+    <div>
+      <p className="text-xs text-white/50 mb-1">{label}</p>
+      <div className="flex items-baseline gap-2">
+        <span className="text-lg font-semibold text-white">{p50}</span>
+        <span className="text-[10px] text-white/40">P50</span>
+      </div>
+      <p className="text-[11px] text-white/50">
+        P5 {p5} — P95 {p95}
+      </p>
+    </div>
+  );
+}
+
+function ScenarioBreakdownList({
+  breakdown,
+  formatCurrency,
+}: {
+  breakdown: ScenarioChangeBreakdown[];
+  formatCurrency: (amount: number) => string;
+}) {
+  return (
+    <div className="space-y-3">
+      <div className="text-xs text-white/50 mb-2">
+        Changes applied in order — each one is analyzed against the state the earlier changes leave behind
+      </div>
+      {breakdown.map((item, idx) => {
+        const config = SEVERITY_CONFIG[item.result.overallRisk];
+        return (
+          <div key={item.change.id} className="p-3 rounded-xl bg-white/[0.02] border border-white/10">
+            <div className="flex items-center justify-between mb-1">
+              <div className="flex items-center gap-2">
+                <span className="w-5 h-5 rounded-full bg-violet-500/20 text-violet-300 text-[10px] font-medium flex items-center justify-center">
+                  {idx + 1}
+                </span>
+                <span className="text-sm font-medium text-white">{item.change.title}</span>
+                <span className="text-[10px] text-white/40">{item.change.type.replace(/_/g, ' ')}</span>
+              </div>
+              <span className={`px-1.5 py-0.5 rounded text-[9px] font-medium ${config.bg} ${config.color}`}>
+                {item.result.overallRisk}
+              </span>
+            </div>
+            <div className="flex items-center gap-4 text-[11px] text-white/50 pl-7">
+              <span>{item.result.summary.totalImpacts} impacts</span>
+              <span>{item.uniqueImpactIds.length} unique</span>
+              <span className={item.sharedImpactIds.length > 0 ? 'text-amber-400' : ''}>
+                {item.sharedImpactIds.length} shared
+              </span>
+              <span>{formatCurrency(item.result.financialSummary.totalFinancialImpact)}</span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 export function WhatIfSimulator({
   onScenarioSelect,
 }: {
@@ -1,9 +1,10 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Radio, Ship, RefreshCw, ExternalLink } from 'lucide-react';
+import { Radio, Ship, RefreshCw, ExternalLink, AlertTriangle } from 'lucide-react';
 import Link from 'next/link';
 import type { FleetVessel } from '@/app/api/fleet/route';
+import type { NMDCAlert } from '@/lib/nmdc/alerts';
 import 'leaflet/dist/leaflet.css';
 
 interface FleetMeta {
@@ -63,6 +64,8 @@ export function LiveVesselsPanel({
   const [mapError, setMapError] = useState<string | null>(null);
   const [internalMeta, setInternalMeta] = useState<FleetMeta | null>(null);
   const [creditsRemaining, setCreditsRemaining] = useState<number | null>(null);
+  const [encounterAlerts, setEncounterAlerts] = useState<NMDCAlert[] | null>(null);
+  const [checkingTraffic, setCheckingTraffic] = useState(false);
 
   // Determine which data to use
   const vessels = fleetData ?? internalVessels;
@@ -123,6 +126,27 @@ export function LiveVesselsPanel({
     setTimeout(fetchApiStats, 1000);
   }, [creditsRemaining, fetchFleet, fetchApiStats, externalRefresh]);
 
+  // CPA/TCPA check around the selected vessel, on demand to conserve API credits
+  const checkTraffic = useCallback(async (vessel: FleetVessel) => {
+    setCheckingTraffic(true);
+    try {
+      const response = await fetch(`/api/live-vessels?action=encounters&mmsi=${vessel.mmsi}`);
+      const data = await response.json();
+      if (data.success) {
+        setEncounterAlerts(data.alerts);
+      }
+    } catch (err) {
+      console.error('Error checking traffic:', err);
+    } finally {
+      setCheckingTraffic(false);
+      fetchApiStats();
+    }
+  }, [fetchApiStats]);
+
+  useEffect(() => {
+    setEncounterAlerts(null);
+  }, [selectedVessel?.mmsi]);
+
   // Initial fetch only - no auto-refresh to conserve API credits
   useEffect(() => {
     if (!fleetData) {
@@ -364,6 +388,16 @@ export function LiveVesselsPanel({
                 {selectedVessel.speed?.toFixed(1) || 0} kn • {selectedVessel.heading?.toFixed(0) || 0}°
               </p>
             </div>
+            {selectedVessel.isOnline && (
+              <button
+                onClick={() => checkTraffic(selectedVessel)}
+                disabled={checkingTraffic}
+                className="p-2 text-white/40 hover:text-white/60 transition-colors"
+                title="Check nearby traffic for collision risk (uses 1 credit + 1 per nearby vessel)"
+              >
+                <AlertTriangle className={`h-4 w-4 ${checkingTraffic ? 'animate-pulse' : ''}`} />
+              </button>
+            )}
             <Link
               href={`/live/${selectedVessel.mmsi}`}
               className="p-2 text-white/40 hover:text-white/60 transition-colors"
@@ -371,6 +405,25 @@ export function LiveVesselsPanel({
               <ExternalLink className="h-4 w-4" />
             </Link>
           </div>
+          {encounterAlerts && (
+            <div className="mt-2 space-y-1">
+              {encounterAlerts.length === 0 ? (
+                <p className="text-[10px] text-white/40">No close approaches within 3 nm</p>
+              ) : (
+                encounterAlerts.map(alert => (
+                  <div
+                    key={alert.id}
+                    className={`px-2 py-1 rounded text-[10px] ${
+                      alert.severity === 'critical' ? 'bg-red-500/20 text-red-300' : 'bg-amber-500/20 text-amber-300'
+                    }`}
+                  >
+                    <span className="font-medium">{alert.title}</span>
+                    <span className="text-white/50"> — {alert.description}</span>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
         </div>
       )}
 
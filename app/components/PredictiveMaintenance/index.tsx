@@ -61,6 +61,7 @@ import {
   PMFleetPattern,
   PMInspectionRecord,
   PMOilAnalysis,
+  PMMaintenancePlan,
 } from '@/lib/predictive-maintenance/types'
 import { analyzeEquipment, DATA_SOURCES } from '@/lib/predictive-maintenance/analyzer'
 import { getOEMProfile, getWearPercentage } from '@/lib/predictive-maintenance/oem-specs'
@@ -570,11 +571,12 @@ interface PredictionDetailPanelProps {
   prediction: PMPrediction
   analysis: PMAnalysis
   equipment: { currentHealth?: number; operatingHours?: number; cycleCount?: number }
+  recordedWorkOrders: PMWorkOrder[]
   onClose: () => void
   onResolve?: (query: string) => void
 }
 
-function PredictionDetailPanel({ prediction, analysis, equipment, onClose, onResolve }: PredictionDetailPanelProps) {
+function PredictionDetailPanel({ prediction, analysis, equipment, recordedWorkOrders, onClose, onResolve }: PredictionDetailPanelProps) {
   const [activeTab, setActiveTab] = useState<'overview' | 'data' | 'history' | 'fleet'>('overview')
   const [liveStreams, setLiveStreams] = useState<LiveDataStream[]>([])
   const [workOrders, setWorkOrders] = useState<PMWorkOrder[]>([])
@@ -586,11 +588,11 @@ function PredictionDetailPanel({ prediction, analysis, equipment, onClose, onRes
 
   useEffect(() => {
     setLiveStreams(generateLiveDataStreams(prediction.componentType, equipment.currentHealth || 75))
-    setWorkOrders(getWorkOrderHistory(prediction.assetId, prediction.componentId))
+    setWorkOrders(getWorkOrderHistory(prediction.assetId, prediction.componentId, recordedWorkOrders))
     setFleetPatterns(getFleetPatterns(prediction.componentType))
     setInspections(getInspectionRecords(prediction.assetId, prediction.componentId))
     setOilAnalysis(getOilAnalysisRecords(prediction.assetId, prediction.componentId))
-  }, [prediction, equipment])
+  }, [prediction, equipment, recordedWorkOrders])
 
   useEffect(() => {
     const interval = setInterval(() => {
@@ -658,6 +660,11 @@ function PredictionDetailPanel({ prediction, analysis, equipment, onClose, onRes
                 {prediction.remainingLife.value}
               </p>
               <p className="text-[9px] text-white/30">{prediction.remainingLife.unit}</p>
+              {prediction.rul && (
+                <p className="text-[9px] text-white/40" title="P10 – P90 remaining useful life">
+                  {prediction.rul.p10}–{prediction.rul.p90} yr
+                </p>
+              )}
             </div>
             <div className="p-2 rounded-lg bg-black/30 text-center">
               <p className="text-[10px] text-white/40">Confidence</p>
@@ -1930,6 +1937,61 @@ function BeanstalkOrchestration({ isAnalyzing, isComplete }: BeanstalkOrchestrat
   )
 }
 
+// The fleet calendar, booked once against shared crew capacity; this asset's work is highlighted
+function MaintenanceScheduleCard({ plan, assetId }: { plan: PMMaintenancePlan; assetId: string }) {
+  const priorityTextColors = {
+    critical: 'text-rose-400',
+    high: 'text-orange-400',
+    medium: 'text-amber-400',
+    low: 'text-emerald-400',
+  }
+
+  return (
+    <div className="mt-4 rounded-xl border border-white/10 bg-white/[0.02]">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-white/5">
+        <div className="flex items-center gap-2">
+          <Calendar className="w-3.5 h-3.5 text-violet-400" />
+          <h3 className="text-xs font-medium text-white/60">Fleet Maintenance Calendar</h3>
+        </div>
+        <span className="text-[10px] text-white/40">
+          {plan.items.length} planned
+          {plan.deferred.length > 0 && ` · ${plan.deferred.length} can wait past ${plan.horizonDays} d`}
+          {plan.unscheduled.length > 0 && ` · ${plan.unscheduled.length} over crew capacity`}
+        </span>
+      </div>
+      {plan.items.length === 0 ? (
+        <p className="px-3 py-4 text-center text-[11px] text-white/40">Nothing due inside the planning horizon</p>
+      ) : (
+        <div className="divide-y divide-white/5 max-h-72 overflow-y-auto">
+          {plan.items.map(item => (
+            <div
+              key={item.predictionId}
+              className={`px-3 py-2 flex items-start gap-3 ${item.assetId === assetId ? 'bg-violet-500/10' : ''}`}
+            >
+              <div className="w-16 shrink-0 text-[11px] font-mono text-white/70">
+                {new Date(item.start).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-[11px] text-white/70 truncate">{item.assetName}</span>
+                  <span className={`text-[11px] font-medium ${priorityTextColors[item.priority]}`}>{item.componentName}</span>
+                  <span className="text-[10px] text-white/40">{item.crewLeadName ? `${item.crewLeadName}'s crew` : 'No crew assigned'}</span>
+                  <span className="text-[10px] text-white/30">{item.crewHours} h</span>
+                </div>
+                <p className="text-[10px] text-white/40 truncate">{item.rationale}</p>
+              </div>
+              <div className="text-right shrink-0">
+                <span className="text-[11px] text-white/70">{Math.round(item.failureProbability * 100)}%</span>
+                <p className="text-[9px] text-white/30">failure risk</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
 interface PredictionCardProps {
   prediction: PMPrediction
   onOpenDetail: () => void
@@ -1994,6 +2056,9 @@ function PredictionCard({ prediction, onOpenDetail }: PredictionCardProps) {
               {prediction.remainingLife.value} {prediction.remainingLife.unit}
             </span>
             <span className="text-[10px] text-white/40">remaining</span>
+            {prediction.rul && (
+              <span className="text-[10px] text-white/30">(P10–P90 {prediction.rul.p10}–{prediction.rul.p90} yr)</span>
+            )}
           </div>
           <div className="flex items-center gap-1.5">
             <Target className="w-3.5 h-3.5 text-white/40" />
@@ -2042,12 +2107,31 @@ export function AIPredictiveMaintenance({
   const [isAnalyzing, setIsAnalyzing] = useState(true)
   const [selectedPrediction, setSelectedPrediction] = useState<PMPrediction | null>(null)
   const [selectedEquipment, setSelectedEquipment] = useState<typeof equipment[0] | null>(null)
+  const [fleetPlan, setFleetPlan] = useState<PMMaintenancePlan | null>(null)
+  const [recordedWorkOrders, setRecordedWorkOrders] = useState<PMWorkOrder[]>([])
   const hasRun = useRef(false)
 
-  const runAnalysis = useCallback(() => {
+  const runAnalysis = useCallback(async () => {
     setIsAnalyzing(true)
     setAnalysis(null)
 
+    // Completed field repairs live in the work-order store on the server
+    let recorded: PMWorkOrder[] = []
+    try {
+      const res = await fetch(`/api/grid-assets?action=maintenance-history&assetTag=${encodeURIComponent(assetId)}`)
+      const data = await res.json()
+      if (data.success) {
+        recorded = (data.workOrders as PMWorkOrder[]).map(wo => ({
+          ...wo,
+          dateCreated: new Date(wo.dateCreated),
+          dateCompleted: wo.dateCompleted ? new Date(wo.dateCompleted) : undefined,
+        }))
+      }
+    } catch (err) {
+      console.error('Failed to load maintenance history:', err)
+    }
+    setRecordedWorkOrders(recorded)
+
     const request: PMAnalysisRequest = {
       assetType,
       assetId,
@@ -2059,6 +2143,7 @@ export function AIPredictiveMaintenance({
         currentHealth: e.currentHealth,
         temperature: e.temperature,
       })),
+      recordedWorkOrders: recorded,
     }
 
     const totalAgentTime = 350 + 2 * 250 + 4 * 400 + 200 + 1200 + 300
@@ -2075,6 +2160,17 @@ export function AIPredictiveMaintenance({
     runAnalysis()
   }, [runAnalysis])
 
+  useEffect(() => {
+    let cancelled = false
+    fetch('/api/grid-assets?action=maintenance-plan')
+      .then(res => res.json())
+      .then(data => {
+        if (!cancelled && data.success) setFleetPlan(data.plan)
+      })
+      .catch(err => console.error('Failed to load fleet maintenance plan:', err))
+    return () => { cancelled = true }
+  }, [])
+
   const handleOpenDetail = (pred: PMPrediction) => {
     const eq = equipment.find(e => e.id === pred.equipmentId) || equipment[0]
     setSelectedPrediction(pred)
@@ -2146,6 +2242,7 @@ export function AIPredictiveMaintenance({
             prediction={selectedPrediction}
             analysis={analysis}
             equipment={selectedEquipment}
+            recordedWorkOrders={recordedWorkOrders}
             onClose={() => setSelectedPrediction(null)}
             onResolve={onResolve}
           />
@@ -2219,6 +2316,10 @@ export function AIPredictiveMaintenance({
                 ))}
               </div>
 
+              {fleetPlan && (
+                <MaintenanceScheduleCard plan={fleetPlan} assetId={assetId} />
+              )}
+
               {analysis.predictions.length === 0 && (
                 <div className="text-center py-8">
                   <Shield className="w-10 h-10 text-emerald-400/50 mx-auto mb-3" />
@@ -2242,6 +2343,7 @@ export function AIPredictiveMaintenance({
           prediction={selectedPrediction}
           analysis={analysis}
           equipment={selectedEquipment}
+          recordedWorkOrders={recordedWorkOrders}
           onClose={() => setSelectedPrediction(null)}
           onResolve={onResolve}
         />
@@ -19,7 +19,9 @@ import {
   Ship,
   Sparkles,
   Link2,
+  ArrowRight,
 } from 'lucide-react';
+import type { OptimizationResult, ScheduleChange } from '@/lib/orchestration/types';
 
 interface ExternalFactor {
   id: string;
@@ -93,6 +95,16 @@ const priorityColors: Record<string, string> = {
   low: 'bg-white/5 border-white/10',
 };
 
+const changeLabels: Record<ScheduleChange['type'], { label: string; color: string }> = {
+  added: { label: 'Assign', color: 'bg-emerald-500/20 text-emerald-300' },
+  removed: { label: 'Release', color: 'bg-rose-500/20 text-rose-300' },
+  rescheduled: { label: 'Reschedule', color: 'bg-sky-500/20 text-sky-300' },
+};
+
+function formatDay(date: Date | string): string {
+  return new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' });
+}
+
 const timeframeColors: Record<string, { bg: string; text: string; label: string }> = {
   immediate: { bg: 'bg-rose-500/20', text: 'text-rose-300', label: 'Act Now' },
   'near-term': { bg: 'bg-amber-500/20', text: 'text-amber-300', label: '1-2 Weeks' },
@@ -107,23 +119,33 @@ export function ScheduleOptimizer({ vessels, onOptimizationApplied, onSuggestion
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [expandedFactor, setExpandedFactor] = useState<string | null>(null);
   const [appliedSuggestions, setAppliedSuggestions] = useState<Set<string>>(new Set());
+  const [schedule, setSchedule] = useState<OptimizationResult | null>(null);
 
   const fetchOptimizations = useCallback(async () => {
     setIsLoading(true);
     try {
-      const response = await fetch('/api/schedule-optimizer', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ vessels }),
-      });
+      const [response, scheduleResponse] = await Promise.all([
+        fetch('/api/schedule-optimizer', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ vessels }),
+        }),
+        fetch('/api/schedule-optimizer', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action: 'schedule', vessels }),
+        }),
+      ]);
       
       const data = await response.json();
+      const scheduleData = await scheduleResponse.json();
       
       if (data.success) {
         setFactors(data.factors || []);
         setSuggestions(data.suggestions || []);
         setLastUpdated(new Date(data.generatedAt));
       }
+      setSchedule(scheduleData.success ? scheduleData.schedule : null);
     } catch (error) {
       console.error('Failed to fetch optimizations:', error);
     } finally {
@@ -472,6 +494,83 @@ export function ScheduleOptimizer({ vessels, onOptimizationApplied, onSuggestion
               </div>
             </div>
 
+            {/* Assignment Plan - vessel-to-project schedule from the optimizer */}
+            {schedule && (
+              <div>
+                <h4 className="text-[10px] uppercase tracking-wider text-white/40 mb-2">
+                  Assignment Plan ({schedule.changes.length} change{schedule.changes.length === 1 ? '' : 's'})
+                </h4>
+                <div className="grid grid-cols-4 gap-2 mb-2">
+                  <div className="rounded-lg bg-white/5 border border-white/10 p-2">
+                    <div className="text-[9px] text-white/40">Cost saved</div>
+                    <div className={`text-xs font-medium ${schedule.improvements.costSavings >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                      ${(schedule.improvements.costSavings / 1000).toFixed(0)}k
+                    </div>
+                  </div>
+                  <div className="rounded-lg bg-white/5 border border-white/10 p-2">
+                    <div className="text-[9px] text-white/40">Late days cut</div>
+                    <div className="text-xs font-medium text-white/80">
+                      {schedule.improvements.timeReduction.toFixed(1)}
+                    </div>
+                  </div>
+                  <div className="rounded-lg bg-white/5 border border-white/10 p-2">
+                    <div className="text-[9px] text-white/40">Utilization</div>
+                    <div className="text-xs font-medium text-white/80">
+                      {schedule.improvements.utilizationGain >= 0 ? '+' : ''}
+                      {schedule.improvements.utilizationGain.toFixed(1)} pts
+                    </div>
+                  </div>
+                  <div className="rounded-lg bg-white/5 border border-white/10 p-2">
+                    <div className="text-[9px] text-white/40">Fuel saved</div>
+                    <div className="text-xs font-medium text-white/80">
+                      {(schedule.improvements.fuelSavings / 1000).toFixed(1)}k L
+                    </div>
+                  </div>
+                </div>
+                <div className="text-[10px] text-white/40 mb-2">
+                  {schedule.confidence}% of projects resourced and on time
+                  {schedule.evaluation.optimized.unmetProjects > 0 && (
+                    <> · {schedule.evaluation.optimized.unmetProjects} still short of vessels, crew or equipment</>
+                  )}
+                </div>
+
+                {schedule.conflicts.length > 0 && (
+                  <div className="space-y-1.5 mb-2">
+                    {schedule.conflicts.map(conflict => (
+                      <div key={conflict.id} className={`rounded-lg border p-2 ${severityColors[conflict.severity]}`}>
+                        <div className="text-[10px] font-medium">{conflict.description}</div>
+                        <div className="text-[10px] text-white/50 mt-0.5">{conflict.suggestedResolution}</div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="space-y-1.5">
+                  {schedule.changes.map((change, i) => {
+                    const when = change.after ?? change.before;
+                    return (
+                      <div key={`${change.vesselId}-${change.projectId}-${i}`} className="rounded-lg bg-white/5 border border-white/10 p-2">
+                        <div className="flex items-center gap-2 text-[10px]">
+                          <span className={`px-1.5 py-0.5 rounded uppercase font-medium text-[9px] ${changeLabels[change.type].color}`}>
+                            {changeLabels[change.type].label}
+                          </span>
+                          <span className="text-white/80 truncate">{change.vesselName}</span>
+                          <ArrowRight className="w-3 h-3 text-white/30 flex-shrink-0" />
+                          <span className="text-white/60 truncate">{change.projectName}</span>
+                          {when && (
+                            <span className="ml-auto text-white/40 whitespace-nowrap">
+                              {formatDay(when.startDate)} – {formatDay(when.endDate)}
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-[10px] text-white/40 mt-1">{change.reason}</div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Optimization Suggestions */}
             <div>
               <h4 className="text-[10px] uppercase tracking-wider text-white/40 mb-2">
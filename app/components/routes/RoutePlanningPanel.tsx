@@ -1020,6 +1020,19 @@ export function RoutePlanningPanel({
                 </span>
               </div>
             )}
+            {result.timing?.predictedArrival && (
+              <div className="flex items-center justify-between p-2 rounded-lg bg-white/5 border border-white/10">
+                <div className="flex items-center gap-2">
+                  <Clock className="w-3 h-3 text-white/50" />
+                  <span className="text-xs text-white/70">Predicted (80%)</span>
+                </div>
+                <span className="text-xs font-medium text-white">
+                  {new Date(result.timing.predictedArrival.earliest).toLocaleString()}
+                  {' – '}
+                  {new Date(result.timing.predictedArrival.latest).toLocaleString()}
+                </span>
+              </div>
+            )}
           </div>
         )}
 
@@ -57,9 +57,14 @@ import type { LucideIcon } from 'lucide-react';
 import { ImpactAnalysisPanel } from '@/app/components/ImpactAnalysisPanel';
 import { 
   analyzeImpact, 
+  analyzeScenario,
+  simulateImpact,
   generateMockFleetState,
   ProposedChange,
   ImpactAnalysisResult,
+  ScenarioChangeBreakdown,
+  MonteCarloResult,
+  WhatIfScenario,
 } from '@/lib/impact-analysis';
 import {
   AreaChart,
@@ -103,6 +108,8 @@ export default function ESGPage() {
   const [activeTab, setActiveTab] = useState<'overview' | 'assets' | 'compliance' | 'pathway' | 'predictive'>('overview');
   
   const [impactResult, setImpactResult] = useState<ImpactAnalysisResult | null>(null);
+  const [scenarioBreakdown, setScenarioBreakdown] = useState<ScenarioChangeBreakdown[] | null>(null);
+  const [impactUncertainty, setImpactUncertainty] = useState<MonteCarloResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [selectedScenario, setSelectedScenario] = useState<string | null>(null);
 
@@ -180,6 +187,66 @@ export default function ESGPage() {
       
       const result = analyzeImpact(change, fleetState);
       setImpactResult(result);
+      setImpactUncertainty(simulateImpact(change, fleetState, { iterations: 500 }));
+      setScenarioBreakdown(null);
+      setIsAnalyzing(false);
+    }, 1500);
+  }, []);
+
+  // Reassignment, fuel switch and deferred overhaul landing in the same week
+  const runCombinedAnalysis = useCallback(() => {
+    setIsAnalyzing(true);
+    setSelectedScenario('combined_outage_week');
+    
+    setTimeout(() => {
+      const fleetState = generateMockFleetState();
+      const assetIds = EXELON_ASSETS.slice(0, 3).map(a => a.assetTag);
+      const effectiveDate = new Date();
+      
+      const scenario: WhatIfScenario = {
+        id: `scenario-${Date.now()}`,
+        name: 'Combined Outage Week',
+        description: 'Mobile transformer redeployment, backup fuel switch and a deferred overhaul in one week',
+        type: 'risk',
+        isActive: true,
+        changes: [
+          {
+            id: 'change-redeploy',
+            type: 'vessel_assignment',
+            title: 'Mobile Transformer Redeployment',
+            description: 'Move the mobile transformer to cover the Fisk St. outage',
+            effectiveDate,
+            affectedVessels: [assetIds[0]],
+            affectedProjects: ['p1'],
+            parameters: { delayDays: 5 },
+          },
+          {
+            id: 'change-fuel',
+            type: 'fuel_switch',
+            title: 'Backup Generation Fuel Switch',
+            description: 'Run backup generation on LNG during the outage',
+            effectiveDate,
+            affectedVessels: assetIds,
+            affectedProjects: [],
+            parameters: { newFuelType: 'LNG' },
+          },
+          {
+            id: 'change-defer',
+            type: 'maintenance_schedule',
+            title: 'Deferred Transformer Overhaul',
+            description: 'Push the planned overhaul back 30 days to free crews',
+            effectiveDate,
+            affectedVessels: [assetIds[1]],
+            affectedProjects: ['p1'],
+            parameters: { deferDays: 30 },
+          },
+        ],
+      };
+      
+      const result = analyzeScenario(scenario, fleetState);
+      setImpactResult(result.combined);
+      setImpactUncertainty(null);
+      setScenarioBreakdown(result.breakdown);
       setIsAnalyzing(false);
     }, 1500);
   }, []);
@@ -1099,6 +1166,24 @@ export default function ESGPage() {
                     );
                   })}
                 </div>
+
+                <button
+                  onClick={runCombinedAnalysis}
+                  disabled={isAnalyzing}
+                  className={`w-full p-4 rounded-xl bg-white/[0.02] border border-dashed border-violet-500/30 hover:bg-violet-500/10 transition-colors text-left disabled:opacity-50 ${
+                    selectedScenario === 'combined_outage_week' ? 'ring-2 ring-violet-500/50' : ''
+                  }`}
+                >
+                  <div className="flex items-start gap-3">
+                    <div className="p-2 rounded-lg bg-white/5">
+                      <Calendar className="w-5 h-5 text-violet-400" />
+                    </div>
+                    <div>
+                      <div className="text-sm font-medium text-white">Combined Outage Week</div>
+                      <p className="text-xs text-white/50 mt-0.5">Redeployment, fuel switch and deferred overhaul together</p>
+                    </div>
+                  </div>
+                </button>
               </div>
 
               {/* Impact Analysis Results */}
@@ -1118,7 +1203,9 @@ export default function ESGPage() {
                 ) : impactResult ? (
                   <ImpactAnalysisPanel
                     result={impactResult}
-                    onDismiss={() => { setImpactResult(null); setSelectedScenario(null); }}
+                    breakdown={scenarioBreakdown ?? undefined}
+                    uncertainty={impactUncertainty ?? undefined}
+                    onDismiss={() => { setImpactResult(null); setScenarioBreakdown(null); setSelectedScenario(null); }}
                     onApplyChange={() => {
                       alert('In production, this would initiate the change process with all stakeholders notified.');
                       setImpactResult(null);
@@ -12,10 +12,11 @@ import {
 } from 'lucide-react';
 import { useTheme } from '@/lib/theme-context';
 import { ThemeToggle } from '@/app/components/ThemeToggle';
-import { getSubstationAsset, synthesizeDiagnostic, synthesizeScenario, type AssetDiagnostic } from '@/lib/exelon/asset-bridge';
+import { getInsulationLife, getSubstationAsset, synthesizeDiagnostic, synthesizeScenario, type AssetDiagnostic } from '@/lib/exelon/asset-bridge';
 import { OPCOS } from '@/lib/exelon/risk-intelligence-data';
 import { LoadWeatherContext } from '@/app/components/LoadWeatherContext';
 import type { DemoScenario, DecisionSupport, DecisionOption } from '@/lib/demo-scenarios';
+import { MAX_PROJECTION_YEARS } from '@/lib/insulation';
 
 // ── Icon map (string → component) ──
 const ICON_MAP: Record<string, React.ComponentType<{ className?: string }>> = {
@@ -143,6 +144,7 @@ function AssetGridIQ() {
   const opco = OPCOS.find(o => o.id === a.opco);
   const agents = diag.agentIds.map(id => AGENTS[id]);
   const catConfig = CATEGORY_CONFIG[diag.scenarioCategory] || CATEGORY_CONFIG.aging_asset;
+  const paperLife = getInsulationLife(a);
 
   return (
     <div className="min-h-screen bg-black text-white">
@@ -205,6 +207,23 @@ function AssetGridIQ() {
             <span className="text-[9px] text-white/35 uppercase">TTF</span>
             <span className={`text-sm font-bold font-mono ${a.riskTrend === 'critical' ? 'text-rose-400' : 'text-amber-400'}`}>{a.ttf}</span>
           </div>
+          {paperLife && (
+            <div className="flex items-center gap-1.5" title={paperLife.summary}>
+              <span className="text-[9px] text-white/35 uppercase">Paper Life</span>
+              <span className={`text-sm font-bold font-mono ${
+                paperLife.remainingLifeYears.estimate < 3 ? 'text-rose-400' :
+                paperLife.remainingLifeYears.estimate < 10 ? 'text-amber-400' : 'text-emerald-400'
+              }`}>
+                {paperLife.remainingLifeYears.low >= MAX_PROJECTION_YEARS ? `${MAX_PROJECTION_YEARS}+` : paperLife.remainingLifeYears.estimate} yr
+              </span>
+              {paperLife.remainingLifeYears.low < MAX_PROJECTION_YEARS && (
+                <span className="text-[10px] font-mono text-white/35">
+                  {paperLife.remainingLifeYears.low}–{paperLife.remainingLifeYears.high}
+                </span>
+              )}
+              <span className="text-[10px] font-mono text-white/35">· DP {paperLife.dp.estimate}</span>
+            </div>
+          )}
           <div className="flex items-center gap-1.5">
             <span className="text-[9px] text-white/35 uppercase">Confidence</span>
             <span className="text-sm font-bold font-mono text-violet-400">{diag.crossVal.confidence}%</span>
@@ -0,0 +1,205 @@
+// Grid IQ — predictive-maintenance backtest report
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, FlaskConical, RefreshCw, Target } from 'lucide-react';
+import { ThemeToggle } from '@/app/components/ThemeToggle';
+import type { PMBacktestReport, PMBacktestScore, PMBacktestSource } from '@/lib/predictive-maintenance/types';
+
+const HORIZONS = [180, 365, 730];
+
+const COMPONENT_LABELS: Record<PMBacktestScore['componentType'], string> = {
+  all: 'All components',
+  winding: 'Winding',
+  bushing: 'Bushing',
+  tap_changer: 'Tap changer',
+  cooling_system: 'Cooling system',
+  oil_system: 'Oil system',
+  surge_arrester: 'Surge arrester',
+  current_transformer: 'Current transformer',
+  breaker: 'Breaker',
+  relay: 'Relay',
+  protection_system: 'Protection system',
+};
+
+function pct(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+function scoreColor(value: number | null): string {
+  if (value === null) return 'text-white/30';
+  if (value >= 0.7) return 'text-emerald-400';
+  if (value >= 0.4) return 'text-amber-400';
+  return 'text-rose-400';
+}
+
+// JSON dates arrive as strings
+type ReportPayload = Omit<PMBacktestReport, 'cutoffs' | 'generatedAt' | 'cases'> & {
+  cutoffs: string[];
+  generatedAt: string;
+  cases: unknown[];
+};
+
+function ScoreRow({ score, emphasis = false }: { score: PMBacktestScore; emphasis?: boolean }) {
+  return (
+    <tr className={`border-b border-white/5 last:border-0 ${emphasis ? 'bg-white/[0.03] font-semibold' : 'hover:bg-white/[0.02]'}`}>
+      <td className="px-4 py-2 text-white/80">{COMPONENT_LABELS[score.componentType]}</td>
+      <td className="px-2 py-2 text-right text-white/50">{score.cases}</td>
+      <td className="px-2 py-2 text-right text-white/70">{score.failures}</td>
+      <td className="px-2 py-2 text-right text-white/40">
+        {score.truePositives} / {score.falsePositives} / {score.falseNegatives}
+      </td>
+      <td className={`px-2 py-2 text-right ${scoreColor(score.precision)}`}>{pct(score.precision)}</td>
+      <td className={`px-2 py-2 text-right ${scoreColor(score.recall)}`}>{pct(score.recall)}</td>
+      <td className="px-2 py-2 text-right text-white/70">
+        {score.rulMAEYears === null ? '—' : `${score.rulMAEYears} yr`}
+      </td>
+      <td className={`px-2 py-2 text-right ${
+        score.rulBiasYears === null ? 'text-white/30' : score.rulBiasYears > 0 ? 'text-amber-400' : 'text-sky-400'
+      }`}>
+        {score.rulBiasYears === null ? '—' : `${score.rulBiasYears > 0 ? '+' : ''}${score.rulBiasYears} yr`}
+      </td>
+      <td className={`px-2 py-2 text-right ${scoreColor(score.intervalCoverage)}`}>{pct(score.intervalCoverage)}</td>
+      <td className="px-4 py-2 text-right text-white/70">
+        {score.meanLeadTimeDays === null ? '—' : `${score.meanLeadTimeDays} d`}
+        {score.missedFailures > 0 && (
+          <span className="ml-1 text-[9px] text-rose-400/70">({score.missedFailures} missed)</span>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+export default function PMBacktestPage() {
+  const [source, setSource] = useState<PMBacktestSource>('curated');
+  const [horizonDays, setHorizonDays] = useState(365);
+  const [report, setReport] = useState<ReportPayload | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/grid-assets?action=backtest&source=${source}&horizonDays=${horizonDays}`);
+      const data = await response.json();
+      if (data.success) {
+        setReport(data.report);
+      } else {
+        setError(data.error || 'Backtest failed');
+      }
+    } catch (err) {
+      console.error('Failed to run backtest:', err);
+      setError('Backtest failed');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [source, horizonDays]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <header className="sticky top-0 z-50 border-b border-white/10 bg-black/90 backdrop-blur-md">
+        <div className="max-w-7xl mx-auto px-6 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link href="/grid-iq" className="p-2 rounded-lg bg-white/5 hover:bg-white/10 text-white/60 hover:text-white transition-colors">
+              <ArrowLeft className="w-4 h-4" />
+            </Link>
+            <div>
+              <div className="flex items-center gap-2">
+                <FlaskConical className="w-4 h-4 text-violet-400" />
+                <h1 className="text-base font-bold">Predictive Maintenance Backtest</h1>
+              </div>
+              <p className="text-xs text-white/40">Analyzer replayed at past cut-offs and scored against the failures that followed</p>
+            </div>
+          </div>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-6 py-6">
+        <div className="flex items-center gap-4 mb-4">
+          <div className="flex items-center gap-1.5">
+            <span className="text-[10px] text-white/40 mr-1">Data</span>
+            {(['curated', 'kaggle'] as PMBacktestSource[]).map(s => (
+              <button key={s} onClick={() => setSource(s)}
+                className={`px-2 py-1 rounded text-[10px] font-medium transition-colors ${
+                  s === source ? 'bg-violet-500/15 text-violet-400' : 'bg-white/5 text-white/40 hover:text-white/60'
+                }`}>
+                {s === 'curated' ? 'Curated DGA' : 'Kaggle'}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1.5">
+            <span className="text-[10px] text-white/40 mr-1">Horizon</span>
+            {HORIZONS.map(h => (
+              <button key={h} onClick={() => setHorizonDays(h)}
+                className={`px-2 py-1 rounded text-[10px] font-medium transition-colors ${
+                  h === horizonDays ? 'bg-violet-500/15 text-violet-400' : 'bg-white/5 text-white/40 hover:text-white/60'
+                }`}>
+                {h} d
+              </button>
+            ))}
+          </div>
+          <button onClick={fetchReport} className="ml-auto p-1.5 rounded text-white/30 hover:text-white/60">
+            <RefreshCw className={`w-3.5 h-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+
+        {report && (
+          <div className="flex items-center gap-2 mb-3 text-[10px] text-white/40">
+            <Target className="w-3 h-3 text-white/30" />
+            <span>{report.assetCount} assets · {report.cutoffs.length} cut-offs</span>
+            {report.cutoffs.length > 0 && (
+              <span>
+                ({report.cutoffs[0].slice(0, 10)} → {report.cutoffs[report.cutoffs.length - 1].slice(0, 10)})
+              </span>
+            )}
+            <span>· alarm = critical or high priority</span>
+          </div>
+        )}
+
+        <div className="rounded-xl border border-white/8 bg-white/[0.02] overflow-hidden">
+          <table className="w-full text-[11px]">
+            <thead>
+              <tr className="text-[9px] uppercase tracking-wider text-white/30 border-b border-white/5">
+                <th className="text-left font-medium px-4 py-2">Component</th>
+                <th className="text-right font-medium px-2 py-2">Cases</th>
+                <th className="text-right font-medium px-2 py-2">Failures</th>
+                <th className="text-right font-medium px-2 py-2">TP / FP / FN</th>
+                <th className="text-right font-medium px-2 py-2">Precision</th>
+                <th className="text-right font-medium px-2 py-2">Recall</th>
+                <th className="text-right font-medium px-2 py-2">RUL MAE</th>
+                <th className="text-right font-medium px-2 py-2">RUL bias</th>
+                <th className="text-right font-medium px-2 py-2">P10–P90 cover</th>
+                <th className="text-right font-medium px-4 py-2">Lead time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report?.byComponent.map(score => (
+                <ScoreRow key={score.componentType} score={score} />
+              ))}
+              {report && <ScoreRow score={report.overall} emphasis />}
+              {!report && (
+                <tr>
+                  <td colSpan={10} className="px-4 py-6 text-center text-white/30">
+                    {isLoading ? 'Replaying analyzer…' : error ?? 'No report'}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <p className="mt-3 text-[10px] text-white/30">
+          Failures are health records entering End of Life (windings) and emergency corrective work orders.
+          RUL bias is P50 minus the actual time to failure — positive means the analyzer was optimistic.
+        </p>
+      </main>
+    </div>
+  );
+}
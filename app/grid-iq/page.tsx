@@ -34,6 +34,7 @@ import { DEMO_SCENARIOS, type DemoScenario, type DecisionSupport } from '@/lib/d
 import { ThemeToggle } from '@/app/components/ThemeToggle';
 import { LoadWeatherContext } from '@/app/components/LoadWeatherContext';
 import { getCriticalAssets, type SubstationAsset } from '@/lib/exelon/asset-bridge';
+import type { DynamicRating } from '@/lib/thermal';
 
 // ════════════════════════════════════════════════════════════════════════
 // TYPES & CONFIG
@@ -937,6 +938,129 @@ function InlineDispatch({ scenario, onReset }: { scenario: DemoScenario; onReset
   );
 }
 
+// ════════════════════════════════════════════════════════════════════════
+// DYNAMIC RATINGS — which banks can take transferred load
+// ════════════════════════════════════════════════════════════════════════
+
+const LIMIT_LABELS: Record<string, string> = {
+  hot_spot: 'hot spot',
+  top_oil: 'top oil',
+  aging: 'insulation aging',
+  max_loading: '200% cap',
+};
+
+function DynamicRatingsPanel() {
+  const [ratings, setRatings] = useState<DynamicRating[]>([]);
+  const [ambient, setAmbient] = useState<{ currentC: number; source: string; heatEvent: boolean } | null>(null);
+  const [horizonIdx, setHorizonIdx] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchRatings = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/grid-assets?action=ratings');
+      const data = await response.json();
+      if (data.success) {
+        setRatings(data.ratings);
+        setAmbient(data.ambient);
+      }
+    } catch (error) {
+      console.error('Failed to fetch dynamic ratings:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRatings();
+    const interval = setInterval(fetchRatings, 60000);
+    return () => clearInterval(interval);
+  }, [fetchRatings]);
+
+  const horizonHours = ratings[0]?.horizons[horizonIdx]?.hours ?? 24;
+
+  return (
+    <div className="mt-6 rounded-xl border border-white/8 bg-white/[0.02] overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-white/5">
+        <div className="flex items-center gap-2">
+          <Thermometer className="w-4 h-4 text-amber-400" />
+          <span className="text-xs font-semibold text-white">Dynamic Ratings</span>
+          <span className="text-[10px] text-white/30">IEEE C57.91 normal / LTE / STE under forecast ambient</span>
+          {ambient && (
+            <span className={`text-[10px] px-1.5 py-0.5 rounded ${
+              ambient.heatEvent ? 'bg-rose-500/15 text-rose-400' : 'bg-white/5 text-white/40'
+            }`}>
+              {ambient.heatEvent ? 'Heat event · ' : ''}{ambient.currentC.toFixed(1)}°C ({ambient.source})
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1.5">
+          {(ratings[0]?.horizons ?? []).map((h, idx) => (
+            <button key={h.hours} onClick={() => setHorizonIdx(idx)}
+              className={`px-2 py-1 rounded text-[10px] font-medium transition-colors ${
+                idx === horizonIdx ? 'bg-amber-500/15 text-amber-400' : 'bg-white/5 text-white/40 hover:text-white/60'
+              }`}>
+              {h.hours}h
+            </button>
+          ))}
+          <button onClick={fetchRatings} className="p-1 rounded text-white/30 hover:text-white/60">
+            <RefreshCw className={`w-3 h-3 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      <table className="w-full text-[11px]">
+        <thead>
+          <tr className="text-[9px] uppercase tracking-wider text-white/30 border-b border-white/5">
+            <th className="text-left font-medium px-4 py-2">Transformer</th>
+            <th className="text-left font-medium px-2 py-2">Cooling</th>
+            <th className="text-right font-medium px-2 py-2">Load</th>
+            <th className="text-right font-medium px-2 py-2">Normal</th>
+            <th className="text-right font-medium px-2 py-2">LTE {horizonHours}h</th>
+            <th className="text-right font-medium px-2 py-2">STE 30m</th>
+            <th className="text-right font-medium px-2 py-2">Transfer headroom</th>
+            <th className="text-left font-medium px-4 py-2">LTE limit</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ratings.map(r => {
+            const h = r.horizons[horizonIdx] ?? r.horizons[0];
+            return (
+              <tr key={r.assetTag} className="border-b border-white/5 last:border-0 hover:bg-white/[0.02]">
+                <td className="px-4 py-2">
+                  <div className="text-white/80 truncate max-w-[260px]">{r.name}</div>
+                  <div className="text-[9px] font-mono text-white/30">{r.assetTag}</div>
+                </td>
+                <td className="px-2 py-2 text-white/50">{r.coolingMode}</td>
+                <td className="px-2 py-2 text-right text-white/60">{r.currentLoadMVA} MVA</td>
+                <td className="px-2 py-2 text-right text-white/70">{h.normal.mva}</td>
+                <td className="px-2 py-2 text-right text-amber-400/80">{h.longTimeEmergency.mva}</td>
+                <td className="px-2 py-2 text-right text-rose-400/70">{h.shortTimeEmergency.mva}</td>
+                <td className={`px-2 py-2 text-right font-semibold ${
+                  h.transferHeadroomMVA > 0.2 * r.ratedMVA ? 'text-emerald-400' :
+                  h.transferHeadroomMVA > 0 ? 'text-amber-400' : 'text-rose-400'
+                }`}>
+                  {h.transferHeadroomMVA > 0 ? `+${h.transferHeadroomMVA} MVA` : 'none'}
+                </td>
+                <td className="px-4 py-2 text-white/40">
+                  {LIMIT_LABELS[h.longTimeEmergency.limitingFactor]} · {h.longTimeEmergency.peakHotSpotTemp}°C
+                </td>
+              </tr>
+            );
+          })}
+          {ratings.length === 0 && (
+            <tr>
+              <td colSpan={8} className="px-4 py-6 text-center text-white/30">
+                {isLoading ? 'Computing ratings…' : 'No rated transformers'}
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 // ════════════════════════════════════════════════════════════════════════
 // MAIN GRID IQ PAGE
 // ════════════════════════════════════════════════════════════════════════
@@ -1056,12 +1180,17 @@ function GridIQContent() {
           </div>
           <span className="text-[10px] text-white/30">Showing the three highest-priority assets requiring immediate attention</span>
           <span className="text-[10px] text-white/20 ml-auto">{criticalAssets.length} total critical assets (HI &lt; 50%)</span>
+          <Link href="/grid-iq/backtest"
+            className="flex items-center gap-1 px-2 py-1 rounded text-[9px] font-medium text-violet-400 bg-violet-500/10 border border-violet-500/20 hover:bg-violet-500/15 transition-colors">
+            <FlaskConical className="w-2.5 h-2.5" /> PM Backtest
+          </Link>
         </div>
       </header>
 
       <main className="px-4 py-6 overflow-x-auto">
         <div className="min-w-[1400px] max-w-[1600px] mx-auto">
           <UnifiedTree />
+          <DynamicRatingsPanel />
         </div>
       </main>
     </div>
@@ -67,6 +67,21 @@ interface HistoricalPosition {
   last_position_UTC: string;
 }
 
+interface EtaPrediction {
+  eta: string;
+  earliest: string;
+  latest: string;
+  confidence: number;
+  distanceNm: number;
+  expectedSpeed: number;
+  congestionDelayHours: number;
+  basis: 'vessel' | 'fleet' | 'nominal';
+  arrivalPort?: { id: string; name: string };
+}
+
+// ETA lookups cost 2 credits, so refresh them less often than the position
+const ETA_REFRESH_MS = 5 * 60 * 1000;
+
 interface VesselHistory {
   uuid: string;
   name: string;
@@ -132,6 +147,8 @@ function VesselTrackingContent({ mmsi }: { mmsi: string }) {
   const [activeTab, setActiveTab] = useState<'live' | 'history' | 'info'>('live');
   const [autoRefresh, setAutoRefresh] = useState(false);
   const autoRefreshInterval = useRef<NodeJS.Timeout | null>(null);
+  const [etaPrediction, setEtaPrediction] = useState<EtaPrediction | null>(null);
+  const lastEtaFetch = useRef(0);
 
   // Fetch live vessel position
   const fetchVessel = useCallback(async () => {
@@ -175,6 +192,25 @@ function VesselTrackingContent({ mmsi }: { mmsi: string }) {
     }
   }, [mmsi, historyDays]);
 
+  // Fetch predicted arrival at the AIS destination
+  const fetchEta = useCallback(async () => {
+    lastEtaFetch.current = Date.now();
+    try {
+      const response = await fetch(`/api/live-vessels?action=eta&mmsi=${mmsi}`);
+      const data = await response.json();
+      setEtaPrediction(data.success ? data.eta : null);
+    } catch (err) {
+      console.error('Failed to fetch ETA:', err);
+    }
+  }, [mmsi]);
+
+  // Re-predict as the vessel reports new positions
+  useEffect(() => {
+    if (vessel?.destination && Date.now() - lastEtaFetch.current > ETA_REFRESH_MS) {
+      fetchEta();
+    }
+  }, [vessel, fetchEta]);
+
   // Initial data fetch
   useEffect(() => {
     const fetchAll = async () => {
@@ -487,7 +523,7 @@ function VesselTrackingContent({ mmsi }: { mmsi: string }) {
               </div>
 
               {/* Voyage Info */}
-              {(vessel.destination || vessel.eta) && (
+              {(vessel.destination || vessel.eta || etaPrediction) && (
                 <div className="bg-white/5 rounded-lg p-4 space-y-3">
                   <h3 className="text-sm font-semibold text-white/70 flex items-center gap-2">
                     <Navigation className="h-4 w-4" />
@@ -505,6 +541,21 @@ function VesselTrackingContent({ mmsi }: { mmsi: string }) {
                       <div className="text-white">{formatDate(vessel.eta)}</div>
                     </div>
                   )}
+                  {etaPrediction && (
+                    <div>
+                      <span className="text-xs text-white/40">Predicted ETA</span>
+                      <div className="text-white">{formatDate(etaPrediction.eta)}</div>
+                      <div className="text-xs text-white/50">
+                        {Math.round(etaPrediction.confidence * 100)}% between {formatDate(etaPrediction.earliest)} and {formatDate(etaPrediction.latest)}
+                      </div>
+                      <div className="text-xs text-white/40">
+                        {etaPrediction.distanceNm.toFixed(1)} nm at {etaPrediction.expectedSpeed.toFixed(1)} kn
+                        {etaPrediction.congestionDelayHours > 0 && `, ${etaPrediction.congestionDelayHours.toFixed(1)}h port wait`}
+                        {' · '}
+                        {etaPrediction.basis === 'vessel' ? 'from this vessel\'s history' : etaPrediction.basis === 'fleet' ? 'from fleet history' : 'from nominal speed'}
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -14,11 +14,16 @@ import {
 } from 'lucide-react';
 import { ThemeToggle } from '@/app/components/ThemeToggle';
 import {
-  DISPATCH_STATS, DISPATCH_WORK_ORDERS, DISRUPTIONS, GANTT_SCENARIOS,
+  DISPATCH_STATS, DISPATCH_WORK_ORDERS, DISRUPTIONS,
   CREW_LEADS,
   type DispatchWorkOrder, type WOPriority, type WOStatus, type Disruption,
   type GanttTask, type ScheduleScenario, type DispatchStats,
 } from '@/lib/exelon/dispatch-data';
+import {
+  replanDispatchDay, proposeReplan, applyReplanChanges, effectiveReplanChanges, findAffectedTasks,
+  buildDispatchedSchedule, evaluateDispatchPlan,
+  type DispatchPlan, type ReplanProposal, type ReplanChangeKind, type ScenarioKPIs,
+} from '@/lib/exelon/dispatch-scheduler';
 
 // ════════════════════════════════════════════════════════════════
 // HELPERS
@@ -392,14 +397,121 @@ const CREW_COLORS: Record<string, string> = {
   'Thomas Anderson': 'bg-amber-500/50 border-amber-400/40',
 };
 
-function GanttView() {
+type DayPlan = { original: ScheduleScenario; optimized: DispatchPlan };
+
+const CHANGE_KIND_LABEL: Record<ReplanChangeKind, string> = {
+  reassign: 'Reassign',
+  defer: 'Defer',
+  shorten: 'Finish early',
+  add: 'Add',
+};
+
+function ReplanProposalPanel({ proposal, tasks, plannedDisruptions, disruption, onApply, onDismiss }: {
+  proposal: ReplanProposal;
+  tasks: GanttTask[];
+  plannedDisruptions: Disruption[];
+  disruption: Disruption;
+  onApply: (acceptedIds: string[]) => void;
+  onDismiss: () => void;
+}) {
+  const [accepted, setAccepted] = useState<string[]>(() => proposal.changes.map(c => c.id));
+
+  const toggle = (id: string) => {
+    setAccepted(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  // KPIs for the changes as ticked, not the whole proposal
+  const applied = useMemo(() => effectiveReplanChanges(proposal.changes, accepted), [proposal, accepted]);
+  const kpiDelta = useMemo(() => {
+    const after = evaluateDispatchPlan(
+      applyReplanChanges(tasks, proposal.changes, applied), DISPATCH_WORK_ORDERS, CREW_LEADS,
+      { disruptions: [...plannedDisruptions, disruption] },
+    );
+    return Object.fromEntries(
+      (Object.keys(after) as (keyof ScenarioKPIs)[]).map(k => [k, after[k] - proposal.kpisBefore[k]])
+    ) as unknown as ScenarioKPIs;
+  }, [tasks, proposal, applied, plannedDisruptions, disruption]);
+
+  const deltas = [
+    { label: 'Tasks', value: kpiDelta.tasksCompleted, unit: '' },
+    { label: 'P1', value: kpiDelta.p1Completion, unit: 'pp' },
+    { label: 'Travel', value: kpiDelta.travelTimeMins, unit: ' min', inverted: true },
+    { label: 'Cost Avoided', value: kpiDelta.costAvoidance, unit: '', currency: true },
+  ];
+
+  return (
+    <div className="px-5 py-3 border-b border-amber-500/20 bg-amber-500/[0.03] flex-shrink-0">
+      <div className="flex items-center gap-3">
+        <AlertTriangle className="w-3.5 h-3.5 text-amber-400/60 flex-shrink-0" />
+        <div className="min-w-0">
+          <div className="text-[11px] font-medium text-white/70 truncate">{disruption.title}</div>
+          <div className="text-[10px] text-white/30">
+            {proposal.affected.length} task{proposal.affected.length === 1 ? '' : 's'} affected · {proposal.changes.length} proposed change{proposal.changes.length === 1 ? '' : 's'}
+          </div>
+        </div>
+        <div className="flex items-center gap-4 ml-4">
+          {deltas.map(d => {
+            const isPositive = d.inverted ? d.value < 0 : d.value > 0;
+            return (
+              <div key={d.label} className="flex flex-col items-center">
+                <span className="text-[9px] text-white/25 uppercase tracking-wider">{d.label}</span>
+                <span className={`text-[11px] tabular-nums ${d.value === 0 ? 'text-white/30' : isPositive ? 'text-emerald-400/70' : 'text-rose-400/70'}`}>
+                  {d.value > 0 ? '+' : d.value < 0 ? '−' : ''}{d.currency ? formatCurrency(Math.abs(d.value)) : Math.abs(d.value)}{d.unit}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+        <div className="ml-auto flex items-center gap-2">
+          <button onClick={onDismiss} className="text-[11px] px-3 py-1.5 rounded bg-white/[0.06] text-white/50 hover:bg-white/[0.10] transition-all">Dismiss</button>
+          <button
+            onClick={() => onApply(accepted)}
+            className="flex items-center gap-1.5 text-[11px] px-3 py-1.5 rounded-lg border bg-cyan-500/10 text-cyan-400/80 border-cyan-500/20 hover:bg-cyan-500/20 transition-all"
+          >
+            <CheckCircle className="w-3 h-3" />Apply {accepted.length}/{proposal.changes.length}
+          </button>
+        </div>
+      </div>
+
+      {proposal.changes.length > 0 && (
+        <div className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+          {proposal.changes.map(c => {
+            const blocked = (c.dependsOn ?? []).some(id => !applied.has(id));
+            return (
+              <label key={c.id} className={`flex items-start gap-2 text-[10px] cursor-pointer ${blocked ? 'opacity-40' : ''}`}>
+                <input type="checkbox" checked={accepted.includes(c.id)} onChange={() => toggle(c.id)}
+                  className="w-3 h-3 mt-0.5 accent-cyan-500 rounded flex-shrink-0" />
+                <span className="text-cyan-400/60 w-16 flex-shrink-0">{CHANGE_KIND_LABEL[c.kind]}</span>
+                <span className="text-white/45 tabular-nums w-24 flex-shrink-0">{c.workOrderId}</span>
+                <span className="text-white/35">
+                  {c.reason}
+                  {c.dependsOn?.length ? <span className="text-white/20"> · needs {c.dependsOn.join(', ')}</span> : null}
+                </span>
+              </label>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function GanttView({ plan, isStale, onReplan, proposal, plannedDisruptions, onApplyProposal, onDismissProposal }: {
+  plan: DayPlan;
+  isStale: boolean;
+  onReplan: () => void;
+  proposal: ReplanProposal | null;
+  plannedDisruptions: Disruption[];
+  onApplyProposal: (acceptedIds: string[]) => void;
+  onDismissProposal: () => void;
+}) {
   const [activeScenario, setActiveScenario] = useState<'legacy' | 'ai_optimized'>('ai_optimized');
   const [showChangesOnly, setShowChangesOnly] = useState(false);
-  const [isReplanning, setIsReplanning] = useState(false);
 
-  const scenario = GANTT_SCENARIOS.find(s => s.id === activeScenario)!;
-  const legacy = GANTT_SCENARIOS.find(s => s.id === 'legacy')!;
-  const ai = GANTT_SCENARIOS.find(s => s.id === 'ai_optimized')!;
+  const legacy = plan.original;
+  const ai = plan.optimized;
+  const scenario = activeScenario === 'legacy' ? legacy : ai;
+  const affectedIds = new Set(activeScenario === 'ai_optimized' ? proposal?.affected.map(a => a.taskId) ?? [] : []);
 
   const tasks = showChangesOnly ? scenario.tasks.filter(t => t.isChanged) : scenario.tasks;
 
@@ -409,11 +521,8 @@ function GanttView() {
   });
 
   const handleReplan = () => {
-    setIsReplanning(true);
-    setTimeout(() => {
-      setActiveScenario('ai_optimized');
-      setIsReplanning(false);
-    }, 2000);
+    onReplan();
+    setActiveScenario('ai_optimized');
   };
 
   const kpiDelta = (field: keyof typeof ai.kpis) => {
@@ -468,15 +577,27 @@ function GanttView() {
           </label>
           <button
             onClick={handleReplan}
-            disabled={isReplanning}
-            className="flex items-center gap-1.5 text-[11px] px-3 py-1.5 rounded-lg bg-cyan-500/10 text-cyan-400/80 border border-cyan-500/20 hover:bg-cyan-500/20 transition-all disabled:opacity-40"
+            className={`flex items-center gap-1.5 text-[11px] px-3 py-1.5 rounded-lg border transition-all ${isStale ? 'bg-cyan-500/20 text-cyan-300 border-cyan-400/40' : 'bg-cyan-500/10 text-cyan-400/80 border-cyan-500/20 hover:bg-cyan-500/20'}`}
+            title={isStale ? 'Disruptions changed since the last plan' : 'Re-plan the day'}
           >
-            {isReplanning ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Brain className="w-3 h-3" />}
-            {isReplanning ? 'Re-planning...' : 'Re-plan'}
+            {isStale ? <RefreshCw className="w-3 h-3" /> : <Brain className="w-3 h-3" />}
+            Re-plan
           </button>
         </div>
       </div>
 
+      {proposal && (
+        <ReplanProposalPanel
+          key={proposal.disruptionId}
+          proposal={proposal}
+          tasks={ai.tasks}
+          plannedDisruptions={plannedDisruptions}
+          disruption={DISRUPTIONS.find(d => d.id === proposal.disruptionId)}
+          onApply={onApplyProposal}
+          onDismiss={onDismissProposal}
+        />
+      )}
+
       {/* Crew Legend */}
       <div className="flex items-center gap-4 px-5 py-1.5 border-b border-white/[0.03] flex-shrink-0">
         {CREW_LEADS.map(cl => (
@@ -523,7 +644,7 @@ function GanttView() {
 
                 {/* Task Bar */}
                 <div
-                  className={`absolute top-1 bottom-1 rounded border ${crewColor} flex items-center px-2 gap-1 overflow-hidden cursor-pointer transition-all ${task.status === 'deferred' ? 'opacity-30 border-dashed' : ''} ${task.isChanged ? 'ring-1 ring-cyan-400/30' : ''}`}
+                  className={`absolute top-1 bottom-1 rounded border ${crewColor} flex items-center px-2 gap-1 overflow-hidden cursor-pointer transition-all ${task.status === 'deferred' ? 'opacity-30 border-dashed' : ''} ${affectedIds.has(task.id) ? 'ring-1 ring-rose-400/60' : task.isChanged ? 'ring-1 ring-cyan-400/30' : ''}`}
                   style={{ left: `${left}%`, width: `${width}%`, minWidth: '40px' }}
                   title={task.changeReason || task.assetName}
                 >
@@ -553,7 +674,12 @@ function GanttView() {
 // DISRUPTIONS SIDEBAR
 // ════════════════════════════════════════════════════════════════
 
-function DisruptionsSidebar() {
+function DisruptionsSidebar({ selected, planned, affectedCounts, onToggle }: {
+  selected: string[];
+  planned: string[];
+  affectedCounts: Record<string, number>;
+  onToggle: (id: string) => void;
+}) {
   const iconMap: Record<string, React.ReactNode> = {
     alert: <AlertTriangle className="w-3.5 h-3.5" />,
     weather: <CloudSnow className="w-3.5 h-3.5" />,
@@ -578,7 +704,7 @@ function DisruptionsSidebar() {
             <ShieldAlert className="w-3.5 h-3.5 text-amber-400/50" />
             Disruptions
           </h3>
-          <span className="text-[10px] text-white/25">{DISRUPTIONS.length} active</span>
+          <span className="text-[10px] text-white/25">{planned.length}/{DISRUPTIONS.length} in plan</span>
         </div>
       </div>
       <div className="flex-1 overflow-y-auto">
@@ -586,12 +712,20 @@ function DisruptionsSidebar() {
           <div key={d.id} className="p-3 border-b border-white/[0.04] hover:bg-white/[0.02] transition-colors">
             <div className="flex items-start gap-2">
               <div className="flex items-center gap-1.5 flex-shrink-0 mt-0.5">
-                <input type="checkbox" defaultChecked className="w-3 h-3 accent-cyan-500 rounded" />
+                <input type="checkbox" checked={selected.includes(d.id)} onChange={() => onToggle(d.id)}
+                  className="w-3 h-3 accent-cyan-500 rounded" />
                 <span className={severityColor[d.severity]}>{iconMap[d.icon]}</span>
               </div>
               <div className="flex-1 min-w-0">
-                <div className="flex items-center justify-between">
+                <div className="flex items-center justify-between gap-2">
                   <span className="text-[11px] font-medium text-white/70">{d.title}</span>
+                  {planned.includes(d.id) ? (
+                    <span className="text-[9px] text-white/20 flex-shrink-0">in plan</span>
+                  ) : (
+                    <span className={`text-[9px] flex-shrink-0 tabular-nums ${affectedCounts[d.id] ? 'text-amber-400/60' : 'text-white/25'}`}>
+                      {affectedCounts[d.id] ?? 0} affected
+                    </span>
+                  )}
                 </div>
                 <p className="text-[10px] text-white/30 mt-0.5">{d.impact}</p>
                 <p className="text-[10px] text-cyan-400/40 mt-1">{d.action}</p>
@@ -713,10 +847,67 @@ function WODetailModal({ wo, onClose }: { wo: DispatchWorkOrder; onClose: () =>
 // PAGE
 // ════════════════════════════════════════════════════════════════
 
+// The morning plan allows for everything reported before it was made
+const INITIAL_DISRUPTIONS = DISRUPTIONS.filter(d => !d.isNew).map(d => d.id);
+
+function disruptionsById(ids: string[]): Disruption[] {
+  return DISRUPTIONS.filter(d => ids.includes(d.id));
+}
+
 export default function DispatchPage() {
   const router = useRouter();
   const [subView, setSubView] = useState<SubView>('today');
   const [selectedWO, setSelectedWO] = useState<DispatchWorkOrder | null>(null);
+  const [activeDisruptions, setActiveDisruptions] = useState<string[]>(INITIAL_DISRUPTIONS);
+  const [plannedFor, setPlannedFor] = useState<string[]>(INITIAL_DISRUPTIONS);
+  const [plan, setPlan] = useState<DayPlan>(() => replanDispatchDay(DISPATCH_WORK_ORDERS, CREW_LEADS, disruptionsById(INITIAL_DISRUPTIONS)));
+  const [proposal, setProposal] = useState<ReplanProposal | null>(null);
+
+  const plannedDisruptions = useMemo(() => disruptionsById(plannedFor), [plannedFor]);
+  const isStale = [...activeDisruptions].sort().join(',') !== [...plannedFor].sort().join(',');
+
+  // How many planned tasks each not-yet-planned disruption would knock out
+  const affectedCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const d of DISRUPTIONS) {
+      if (plannedFor.includes(d.id)) continue;
+      counts[d.id] = findAffectedTasks(plan.optimized.tasks, d, DISPATCH_WORK_ORDERS, CREW_LEADS, { disruptions: plannedDisruptions }).length;
+    }
+    return counts;
+  }, [plan, plannedFor, plannedDisruptions]);
+
+  const toggleDisruption = useCallback((id: string) => {
+    if (activeDisruptions.includes(id)) {
+      setActiveDisruptions(activeDisruptions.filter(x => x !== id));
+      if (proposal?.disruptionId === id) setProposal(null);
+      return;
+    }
+    setActiveDisruptions([...activeDisruptions, id]);
+    const d = DISRUPTIONS.find(x => x.id === id);
+    if (d && !plannedFor.includes(id)) {
+      setProposal(proposeReplan(plan.optimized.tasks, d, DISPATCH_WORK_ORDERS, CREW_LEADS, { disruptions: plannedDisruptions }));
+      setSubView('replan');
+    }
+  }, [activeDisruptions, plannedFor, plannedDisruptions, plan, proposal]);
+
+  const replanDay = useCallback(() => {
+    setPlan(replanDispatchDay(DISPATCH_WORK_ORDERS, CREW_LEADS, disruptionsById(activeDisruptions)));
+    setPlannedFor(activeDisruptions);
+    setProposal(null);
+  }, [activeDisruptions]);
+
+  const applyProposal = useCallback((acceptedIds: string[]) => {
+    if (!proposal) return;
+    const nextPlanned = [...plannedFor, proposal.disruptionId];
+    const disruptions = disruptionsById(nextPlanned);
+    const tasks = applyReplanChanges(plan.optimized.tasks, proposal.changes, acceptedIds);
+    setPlan({
+      original: buildDispatchedSchedule(DISPATCH_WORK_ORDERS, CREW_LEADS, { disruptions }),
+      optimized: { ...plan.optimized, tasks, kpis: evaluateDispatchPlan(tasks, DISPATCH_WORK_ORDERS, CREW_LEADS, { disruptions }) },
+    });
+    setPlannedFor(nextPlanned);
+    setProposal(null);
+  }, [plan, plannedFor, proposal]);
 
   const displayDate = new Date().toLocaleDateString('en-US', {
     weekday: 'long', year: 'numeric', month: 'long', day: 'numeric',
@@ -781,10 +972,25 @@ export default function DispatchPage() {
             <TaskTable workOrders={DISPATCH_WORK_ORDERS} onSelectWO={setSelectedWO} />
           </div>
         ) : (
-          <GanttView />
+          <GanttView
+            plan={plan}
+            isStale={isStale}
+            onReplan={replanDay}
+            proposal={proposal}
+            plannedDisruptions={plannedDisruptions}
+            onApplyProposal={applyProposal}
+            onDismissProposal={() => setProposal(null)}
+          />
         )}
 
-        {subView === 'replan' && <DisruptionsSidebar />}
+        {subView === 'replan' && (
+          <DisruptionsSidebar
+            selected={activeDisruptions}
+            planned={plannedFor}
+            affectedCounts={affectedCounts}
+            onToggle={toggleDisruption}
+          />
+        )}
       </div>
 
       {selectedWO && <WODetailModal wo={selectedWO} onClose={() => setSelectedWO(null)} />}
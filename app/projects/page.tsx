@@ -20,7 +20,9 @@ import {
   PROJECT_TYPE_CONFIG, 
   PROJECT_STATUS_CONFIG,
   getProjectStats,
-  type ProjectSite 
+  loadProjectStatuses,
+  type ProjectSite,
+  type ProjectUtilisation,
 } from '@/lib/nmdc/projects';
 
 interface VesselInfo {
@@ -44,9 +46,17 @@ export default function ProjectsPage() {
   const [filterStatus, setFilterStatus] = useState<ProjectSite['status'] | 'all'>('all');
   const [filterType, setFilterType] = useState<ProjectSite['type'] | 'all'>('all');
   const [vessels, setVessels] = useState<Map<string, VesselInfo>>(new Map());
+  const [, setStatusesLoaded] = useState(false);
+  const [utilisation, setUtilisation] = useState<ProjectUtilisation | null>(null);
+  const [checkingUtilisation, setCheckingUtilisation] = useState(false);
 
   const stats = getProjectStats();
 
+  // Statuses changed by geofence arrivals are saved in Supabase
+  useEffect(() => {
+    loadProjectStatuses().then(() => setStatusesLoaded(true));
+  }, []);
+
   // Fetch vessel data for name lookups
   useEffect(() => {
     const fetchVessels = async () => {
@@ -67,6 +77,26 @@ export default function ProjectsPage() {
     fetchVessels();
   }, []);
 
+  // Working share from the assigned vessels' segmented voyages, on demand to conserve API credits
+  const checkUtilisation = useCallback(async (project: ProjectSite) => {
+    setCheckingUtilisation(true);
+    try {
+      const response = await fetch(`/api/live-vessels?action=utilisation&project=${project.id}&days=7`);
+      const data = await response.json();
+      if (data.success) {
+        setUtilisation(data.utilisation);
+      }
+    } catch (err) {
+      console.error('Error checking utilisation:', err);
+    } finally {
+      setCheckingUtilisation(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setUtilisation(null);
+  }, [selectedProject?.id]);
+
   const getVesselName = (mmsi: string): string => {
     return vessels.get(mmsi)?.name || mmsi;
   };
@@ -471,6 +501,32 @@ export default function ProjectsPage() {
                               );
                             })}
                           </div>
+                          {utilisation?.projectId === selectedProject.id ? (
+                            <div className="mt-3 text-xs">
+                              <div className="text-white/60">
+                                {Math.round(utilisation.utilisation * 100)}% working on site over the last 7 days
+                                <span className="text-white/40"> ({utilisation.workingHours.toFixed(0)} of {utilisation.observedHours.toFixed(0)} tracked hours)</span>
+                              </div>
+                              <div className="mt-1 space-y-0.5">
+                                {utilisation.vessels.map(v => (
+                                  <div key={v.mmsi} className="flex justify-between text-white/40">
+                                    <span>{v.vesselName || getVesselName(v.mmsi)}</span>
+                                    <span>{Math.round(v.utilisation * 100)}% · {v.workingHours.toFixed(0)}h</span>
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          ) : (
+                            <button
+                              onClick={() => checkUtilisation(selectedProject)}
+                              disabled={checkingUtilisation}
+                              className="mt-3 flex items-center gap-1.5 text-xs text-white/40 hover:text-white/60 transition-colors"
+                              title="Segment the last 7 days of each assigned vessel's track (uses 7 credits per vessel)"
+                            >
+                              <TrendingUp className={`h-3 w-3 ${checkingUtilisation ? 'animate-pulse' : ''}`} />
+                              {checkingUtilisation ? 'Analysing voyages…' : 'Check utilisation'}
+                            </button>
+                          )}
                         </div>
                       )}
                     </div>
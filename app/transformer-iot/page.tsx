@@ -738,9 +738,29 @@ function DGATrendPanel({ history }: { history: DGAReading[] }) {
       }`}>
         <div className="flex items-center gap-2 mb-1">
           <Brain className="w-4 h-4 text-violet-400/50" />
-          <span className="text-xs font-medium text-white/70">Duval Triangle Analysis</span>
+          <span className="text-xs font-medium text-white/70">DGA Fault Diagnosis</span>
         </div>
         <p className="text-xs text-white/60">{latest.interpretation}</p>
+        {latest.diagnosis && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {latest.diagnosis.methods.map(method => (
+              <span
+                key={method.method}
+                title={method.detail}
+                className={`text-[9px] px-1.5 py-0.5 rounded border font-mono ${
+                  !method.valid ? 'text-white/25 border-white/[0.06]' :
+                  latest.diagnosis.consensus.supportingMethods.includes(method.method) ? 'text-emerald-400/60 border-emerald-500/20' :
+                  'text-amber-400/60 border-amber-500/20'
+                }`}
+              >
+                {method.methodName} · {method.valid ? method.code : '—'}
+              </span>
+            ))}
+          </div>
+        )}
+        {latest.diagnosis?.methodsDisagree && (
+          <p className="text-[10px] text-amber-400/60 mt-1">{latest.diagnosis.disagreementNote}</p>
+        )}
         <p className="text-[10px] text-white/35 mt-1">TDCG: {latest.tdcg} ppm</p>
       </div>
 
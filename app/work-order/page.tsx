@@ -317,10 +317,20 @@ function WorkOrderContent() {
     workOrderData.equipment.tag = equipmentTag;
   }
 
-  const handleSave = (data: WorkOrderSchema) => {
-    console.log('Saving work order:', data);
-    // In production, this would POST to an API
-    alert('Work order saved! (Check console for data)');
+  const handleSave = async (data: WorkOrderSchema) => {
+    try {
+      const res = await fetch('/api/work-orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ actor: data.personnel?.requestedBy || 'Work order form', form: data }),
+      });
+      const result = await res.json();
+      if (!result.success) throw new Error(result.error);
+      alert(`Work order ${result.workOrder.id} created and dispatched`);
+    } catch (error) {
+      console.error('Error saving work order:', error);
+      alert(`Work order not saved: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
   };
 
   const handlePrint = () => {
@@ -163,6 +163,98 @@ export type Database = {
         }
         Relationships: []
       }
+      geofence_events: {
+        Row: {
+          dwell_minutes: number | null
+          event_type: string
+          fence_key: string
+          geofence_id: string | null
+          id: string
+          mmsi: string | null
+          occurred_at: string | null
+          position_lat: number
+          position_lng: number
+          source: string
+          vessel_id: string | null
+          vessel_key: string
+        }
+        Insert: {
+          dwell_minutes?: number | null
+          event_type: string
+          fence_key: string
+          geofence_id?: string | null
+          id?: string
+          mmsi?: string | null
+          occurred_at?: string | null
+          position_lat: number
+          position_lng: number
+          source: string
+          vessel_id?: string | null
+          vessel_key: string
+        }
+        Update: {
+          dwell_minutes?: number | null
+          event_type?: string
+          fence_key?: string
+          geofence_id?: string | null
+          id?: string
+          mmsi?: string | null
+          occurred_at?: string | null
+          position_lat?: number
+          position_lng?: number
+          source?: string
+          vessel_id?: string | null
+          vessel_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "geofence_events_geofence_id_fkey"
+            columns: ["geofence_id"]
+            isOneToOne: false
+            referencedRelation: "geofences"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      geofences: {
+        Row: {
+          active: boolean | null
+          authorized_mmsis: string[] | null
+          created_at: string | null
+          dwell_alert_minutes: number | null
+          id: string
+          kind: string
+          name: string
+          polygon: Json
+          project_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          active?: boolean | null
+          authorized_mmsis?: string[] | null
+          created_at?: string | null
+          dwell_alert_minutes?: number | null
+          id?: string
+          kind: string
+          name: string
+          polygon: Json
+          project_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          active?: boolean | null
+          authorized_mmsis?: string[] | null
+          created_at?: string | null
+          dwell_alert_minutes?: number | null
+          id?: string
+          kind?: string
+          name?: string
+          polygon?: Json
+          project_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       mitigations: {
         Row: {
           action: string
@@ -368,6 +460,24 @@ export type Database = {
           },
         ]
       }
+      project_statuses: {
+        Row: {
+          project_id: string
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          project_id: string
+          status: string
+          updated_at?: string | null
+        }
+        Update: {
+          project_id?: string
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       vessels: {
         Row: {
           breadth: number | null
@@ -521,6 +631,136 @@ export type Database = {
         }
         Relationships: []
       }
+      work_order_artifacts: {
+        Row: {
+          attached_at: string | null
+          attached_by: string
+          id: string
+          kind: string
+          payload: Json
+          work_order_id: string
+        }
+        Insert: {
+          attached_at?: string | null
+          attached_by: string
+          id?: string
+          kind: string
+          payload: Json
+          work_order_id: string
+        }
+        Update: {
+          attached_at?: string | null
+          attached_by?: string
+          id?: string
+          kind?: string
+          payload?: Json
+          work_order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_order_artifacts_work_order_id_fkey"
+            columns: ["work_order_id"]
+            isOneToOne: false
+            referencedRelation: "work_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      work_order_events: {
+        Row: {
+          actor: string
+          changes: Json | null
+          from_status: string | null
+          id: string
+          note: string | null
+          occurred_at: string | null
+          to_status: string
+          work_order_id: string
+        }
+        Insert: {
+          actor: string
+          changes?: Json | null
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          occurred_at?: string | null
+          to_status: string
+          work_order_id: string
+        }
+        Update: {
+          actor?: string
+          changes?: Json | null
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          occurred_at?: string | null
+          to_status?: string
+          work_order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_order_events_work_order_id_fkey"
+            columns: ["work_order_id"]
+            isOneToOne: false
+            referencedRelation: "work_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      work_orders: {
+        Row: {
+          asset_tag: string
+          completed_at: string | null
+          created_at: string | null
+          details: Json
+          id: string
+          labor_hours: number | null
+          op_co: string
+          parts_cost: number | null
+          priority: string
+          resolution: string | null
+          started_at: string | null
+          status: string
+          title: string
+          updated_at: string | null
+          worker: string
+        }
+        Insert: {
+          asset_tag: string
+          completed_at?: string | null
+          created_at?: string | null
+          details: Json
+          id: string
+          labor_hours?: number | null
+          op_co: string
+          parts_cost?: number | null
+          priority: string
+          resolution?: string | null
+          started_at?: string | null
+          status: string
+          title: string
+          updated_at?: string | null
+          worker: string
+        }
+        Update: {
+          asset_tag?: string
+          completed_at?: string | null
+          created_at?: string | null
+          details?: Json
+          id?: string
+          labor_hours?: number | null
+          op_co?: string
+          parts_cost?: number | null
+          priority?: string
+          resolution?: string | null
+          started_at?: string | null
+          status?: string
+          title?: string
+          updated_at?: string | null
+          worker?: string
+        }
+        Relationships: []
+      }
       vessel_datasheets: {
         Row: {
           id: string
@@ -99,12 +99,19 @@ export interface DatalasticVesselHistory {
   mmsi: string;
   name: string;
   positions: {
-    latitude: number;
-    longitude: number;
+    // The live API returns lat/lon and last_position_*; older responses use the long names
+    lat?: number;
+    lon?: number;
+    latitude?: number;
+    longitude?: number;
     speed: number;
     course: number;
-    timestamp: string;
-    epoch: number;
+    heading?: number;
+    destination?: string;
+    last_position_epoch?: number;
+    last_position_UTC?: string;
+    timestamp?: string;
+    epoch?: number;
   }[];
 }
 
@@ -938,12 +945,19 @@ function toRad(deg: number): number {
 
 /**
  * Estimate voyage duration based on distance and speed
+ * For arrival times learned from AIS history use predictEta in lib/nmdc/eta.
  */
 export function estimateVoyageDuration(
   distanceNm: number,
   speedKnots: number = 12
 ): { hours: number; days: number; formatted: string } {
-  const hours = distanceNm / speedKnots;
+  return formatVoyageDuration(distanceNm / speedKnots);
+}
+
+/**
+ * Voyage duration in hours as days and hours, e.g. "2d 5h"
+ */
+export function formatVoyageDuration(hours: number): { hours: number; days: number; formatted: string } {
   const days = hours / 24;
   
   if (days >= 1) {
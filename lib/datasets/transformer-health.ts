@@ -35,13 +35,6 @@ function dgaCondition(hi: number): TransformerHealthRecord['condition'] {
   return 'End of Life'
 }
 
-function remainingLife(hi: number, age: number): number {
-  const baseLife = 50
-  const usedFraction = age / baseLife
-  const healthFactor = hi / 100
-  return Math.max(0, Math.round((baseLife - age) * healthFactor))
-}
-
 export const TRANSFORMER_HEALTH_DATA: TransformerHealthRecord[] = [
   // BGE-TF-001 — Westport 230/115kV — 1974, health 38, CRITICAL
   { assetTag: 'BGE-TF-001', timestamp: '2025-06-15', h2: 420, ch4: 185, c2h2: 8, c2h4: 210, c2h6: 95, co: 850, co2: 8200, o2: 3200, n2: 52000, tdcg: 1768, moisture: 28, acidity: 0.22, dielectricStrength: 32, interfacialTension: 18, colorNumber: 6, powerFactor: 1.8, furan2FAL: 2.1, topOilTemp: 78, windingHotSpot: 98, ambientTemp: 28, loadPercent: 82, healthIndex: 42, condition: 'Very Poor', remainingLifeYears: 5 },
@@ -104,20 +97,39 @@ export function getDGAConditionLevel(gas: keyof typeof IEEE_C57_104_LIMITS, valu
   return 4
 }
 
-export function getDuvalTriangleZone(ch4: number, c2h4: number, c2h2: number): string {
+export type DuvalTriangleZone = 'PD' | 'T1' | 'T2' | 'T3' | 'D1' | 'D2' | 'DT'
+
+export const DUVAL_TRIANGLE_LABELS: Record<DuvalTriangleZone, string> = {
+  PD: 'Partial Discharge',
+  T1: 'Thermal Fault <300°C',
+  T2: 'Thermal Fault 300-700°C',
+  T3: 'Thermal Fault >700°C',
+  D1: 'Low Energy Discharge',
+  D2: 'High Energy Discharge',
+  DT: 'Mix of Thermal & Electrical',
+}
+
+// Zone boundaries of Duval Triangle 1 (IEC 60599 Annex B)
+export function classifyDuvalTriangle(ch4: number, c2h4: number, c2h2: number): DuvalTriangleZone | null {
   const total = ch4 + c2h4 + c2h2
-  if (total === 0) return 'Normal'
+  if (total === 0) return null
   const pCH4 = (ch4 / total) * 100
   const pC2H4 = (c2h4 / total) * 100
   const pC2H2 = (c2h2 / total) * 100
 
-  if (pC2H2 > 29) return 'D1 - High Energy Discharge'
-  if (pC2H2 > 13) return 'D2 - Low Energy Discharge'
-  if (pC2H4 > 50 && pC2H2 < 4) return 'T3 - Thermal Fault >700°C'
-  if (pC2H4 > 20 && pCH4 < 50) return 'T2 - Thermal Fault 300-700°C'
-  if (pCH4 > 80) return 'PD - Partial Discharge'
-  if (pCH4 > 50) return 'T1 - Thermal Fault <300°C'
-  return 'DT - Mix of Thermal & Electrical'
+  if (pCH4 >= 98) return 'PD'
+  if (pC2H2 < 4 && pC2H4 < 20) return 'T1'
+  if (pC2H2 < 4 && pC2H4 < 50) return 'T2'
+  if (pC2H2 < 15 && pC2H4 >= 50) return 'T3'
+  if (pC2H2 >= 13 && pC2H4 < 23) return 'D1'
+  if ((pC2H2 >= 29 && pC2H4 >= 23) || (pC2H2 >= 13 && pC2H4 >= 23 && pC2H4 < 40)) return 'D2'
+  return 'DT'
+}
+
+export function getDuvalTriangleZone(ch4: number, c2h4: number, c2h2: number): string {
+  const zone = classifyDuvalTriangle(ch4, c2h4, c2h2)
+  if (!zone) return 'Normal'
+  return `${zone} - ${DUVAL_TRIANGLE_LABELS[zone]}`
 }
 
 export {
@@ -0,0 +1,163 @@
+import { IEEE_C57_104_LIMITS } from '../datasets/transformer-health'
+import {
+  DGA_FAULT_LABELS,
+  doernenburgRatio,
+  duvalPentagon,
+  duvalTriangle,
+  iec60599Ratio,
+  keyGas,
+  rogersRatio,
+  screenDGASample,
+} from './methods'
+import type {
+  DGAConsensus,
+  DGADiagnosis,
+  DGAFaultType,
+  DGAGasSample,
+  DGAMethod,
+  DGAMethodVerdict,
+} from './types'
+
+type FaultFamily = 'normal' | 'thermal' | 'electrical' | 'partial_discharge'
+
+const FAMILY_BY_FAULT: Record<DGAFaultType, FaultFamily> = {
+  normal: 'normal',
+  thermal_low: 'thermal',
+  thermal_high: 'thermal',
+  electrical_low: 'electrical',
+  electrical_high: 'electrical',
+  arcing: 'electrical',
+  partial_discharge: 'partial_discharge',
+}
+
+// Graphical methods cover every gas combination and carry the most weight;
+// ratio and key-gas methods leave gaps and are known to misclassify more often
+const METHOD_WEIGHTS: Record<DGAMethod, number> = {
+  duval_pentagon: 1.0,
+  duval_triangle: 1.0,
+  iec_60599: 0.8,
+  rogers_ratio: 0.7,
+  doernenburg: 0.6,
+  key_gas: 0.5,
+}
+
+// Order used to break ties between equally weighted verdicts
+const METHOD_PRECEDENCE: DGAMethod[] = [
+  'duval_triangle',
+  'duval_pentagon',
+  'iec_60599',
+  'rogers_ratio',
+  'doernenburg',
+  'key_gas',
+]
+
+function pickWeighted<K extends string>(
+  verdicts: DGAMethodVerdict[],
+  keyOf: (v: DGAMethodVerdict) => K
+): K {
+  const totals = new Map<K, number>()
+  for (const v of verdicts) {
+    const key = keyOf(v)
+    totals.set(key, (totals.get(key) ?? 0) + METHOD_WEIGHTS[v.method])
+  }
+  const best = Math.max(...totals.values())
+  const leaders = [...totals.entries()].filter(([, w]) => w === best).map(([k]) => k)
+  if (leaders.length === 1) return leaders[0]
+  const tieBreaker = METHOD_PRECEDENCE
+    .map(m => verdicts.find(v => v.method === m))
+    .find(v => v && leaders.includes(keyOf(v)))
+  return tieBreaker ? keyOf(tieBreaker) : leaders[0]
+}
+
+function buildConsensus(verdicts: DGAMethodVerdict[], abnormal: boolean): DGAConsensus {
+  const valid = verdicts.filter(v => v.valid && v.faultType)
+  if (!abnormal || valid.length === 0) {
+    return {
+      code: 'N',
+      faultType: 'normal',
+      label: DGA_FAULT_LABELS.N,
+      agreement: abnormal ? 0 : 1,
+      supportingMethods: [],
+    }
+  }
+
+  const family = pickWeighted(valid, v => FAMILY_BY_FAULT[v.faultType!])
+  const inFamily = valid.filter(v => FAMILY_BY_FAULT[v.faultType!] === family)
+
+  // Methods reporting an unresolved thermal fault ('T') back the family but
+  // should not decide between the low and high temperature ranges
+  const resolved = inFamily.filter(v => v.code !== 'T')
+  const faultType = pickWeighted(resolved.length > 0 ? resolved : inFamily, v => v.faultType!)
+  const supporting = inFamily.filter(v => v.faultType === faultType || v.code === 'T')
+
+  const lead = METHOD_PRECEDENCE
+    .map(m => supporting.find(v => v.method === m && v.code !== 'T'))
+    .find(Boolean) ?? supporting[0]
+
+  const weightOf = (verdicts: DGAMethodVerdict[]) =>
+    verdicts.reduce((sum, v) => sum + METHOD_WEIGHTS[v.method], 0)
+
+  return {
+    code: lead.code,
+    faultType,
+    label: lead.code === 'T' ? lead.label : DGA_FAULT_LABELS[lead.code],
+    agreement: Math.round((weightOf(supporting) / weightOf(valid)) * 100) / 100,
+    supportingMethods: supporting.map(v => v.method),
+  }
+}
+
+function describeDisagreement(verdicts: DGAMethodVerdict[], consensus: DGAConsensus): string {
+  const dissenting = verdicts
+    .filter(v => v.valid && !consensus.supportingMethods.includes(v.method))
+    .map(v => `${v.methodName}: ${v.code}`)
+  return `Consensus ${consensus.code}; dissenting — ${dissenting.join(' · ')}`
+}
+
+export function diagnoseDGA(sample: DGAGasSample): DGADiagnosis {
+  const screening = screenDGASample(sample)
+
+  const methods = [
+    duvalTriangle(sample),
+    duvalPentagon(sample),
+    iec60599Ratio(sample),
+    rogersRatio(sample),
+    doernenburgRatio(sample),
+    keyGas(sample),
+  ].map(v =>
+    screening.abnormal || !v.valid
+      ? v
+      : { ...v, valid: false, detail: `${v.detail} — not significant, all gases below IEEE C57.104 Condition 1` }
+  )
+
+  const consensus = buildConsensus(methods, screening.abnormal)
+  const validCount = methods.filter(v => v.valid).length
+  const methodsDisagree = screening.abnormal && consensus.supportingMethods.length < validCount
+
+  const co2CoRatio = sample.co > 0 ? Math.round((sample.co2 / sample.co) * 10) / 10 : null
+  // IEC 60599 §5.5: CO₂/CO below 3 points to paper involved in the fault,
+  // only meaningful once CO itself is elevated
+  const paperInvolvement =
+    co2CoRatio === null || sample.co <= IEEE_C57_104_LIMITS.co.condition1 ? null : co2CoRatio < 3
+
+  let interpretation: string
+  if (!screening.abnormal) {
+    interpretation = 'Normal — all key gases below IEEE C57.104 Condition 1'
+  } else if (consensus.supportingMethods.length === 0) {
+    interpretation = `Elevated ${screening.exceededGases.join(', ').toUpperCase()} but no interpretation method reached a diagnosis — resample`
+  } else {
+    interpretation = `${consensus.code} — ${consensus.label} (${consensus.supportingMethods.length} of ${validCount} methods agree)`
+    if (methodsDisagree) interpretation += ' — methods disagree, confirm with resample'
+    if (paperInvolvement) interpretation += ' — paper involvement likely (CO₂/CO < 3)'
+  }
+
+  return {
+    screening,
+    methods,
+    consensus,
+    methodsDisagree,
+    disagreementNote: methodsDisagree ? describeDisagreement(methods, consensus) : undefined,
+    co2CoRatio,
+    paperInvolvement,
+    interpretation,
+  }
+}
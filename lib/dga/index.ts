@@ -0,0 +1,4 @@
+export * from './types'
+export * from './methods'
+export * from './diagnostics'
+export * from './trend'
@@ -0,0 +1,333 @@
+import {
+  IEEE_C57_104_LIMITS,
+  classifyDuvalTriangle,
+} from '../datasets/transformer-health'
+import type {
+  DGAFaultCode,
+  DGAFaultType,
+  DGAGas,
+  DGAGasSample,
+  DGAMethodVerdict,
+  DGAScreening,
+} from './types'
+
+export const DGA_FAULT_LABELS: Record<DGAFaultCode, string> = {
+  N: 'Normal',
+  PD: 'Partial discharge',
+  S: 'Stray gassing of oil',
+  T: 'Thermal fault',
+  T1: 'Thermal fault <300°C',
+  T2: 'Thermal fault 300–700°C',
+  T3: 'Thermal fault >700°C',
+  D1: 'Low-energy discharge',
+  D2: 'High-energy discharge (arcing)',
+  DT: 'Mixed thermal & electrical fault',
+  ND: 'Not determined',
+}
+
+const FAULT_TYPE_BY_CODE: Record<DGAFaultCode, DGAFaultType | null> = {
+  N: 'normal',
+  PD: 'partial_discharge',
+  S: 'thermal_low',
+  T: 'thermal_low',
+  T1: 'thermal_low',
+  T2: 'thermal_low',
+  T3: 'thermal_high',
+  D1: 'electrical_low',
+  D2: 'arcing',
+  DT: 'electrical_high',
+  ND: null,
+}
+
+export function faultTypeForCode(code: DGAFaultCode): DGAFaultType | null {
+  return FAULT_TYPE_BY_CODE[code]
+}
+
+// Doernenburg L1 concentrations (IEEE C57.104 Table 2)
+const DOERNENBURG_L1: Record<Exclude<DGAGas, 'co2'>, number> = {
+  h2: 100,
+  ch4: 120,
+  co: 350,
+  c2h2: 1,
+  c2h4: 50,
+  c2h6: 65,
+}
+
+const SCREENED_GASES = ['h2', 'ch4', 'c2h2', 'c2h4', 'c2h6', 'co'] as const
+
+function ratio(numerator: number, denominator: number): number {
+  if (denominator <= 0) return numerator > 0 ? Infinity : 0
+  return numerator / denominator
+}
+
+function round(value: number): number {
+  return Number.isFinite(value) ? Math.round(value * 100) / 100 : value
+}
+
+function verdict(
+  method: DGAMethodVerdict['method'],
+  methodName: string,
+  code: DGAFaultCode,
+  detail: string,
+  ratios?: Record<string, number>,
+  label: string = DGA_FAULT_LABELS[code]
+): DGAMethodVerdict {
+  return {
+    method,
+    methodName,
+    code,
+    faultType: faultTypeForCode(code),
+    label,
+    valid: code !== 'ND',
+    detail,
+    ratios,
+  }
+}
+
+// Interpretation methods only apply once a gas is above typical levels
+export function screenDGASample(sample: DGAGasSample): DGAScreening {
+  const exceededGases: DGAGas[] = SCREENED_GASES.filter(
+    gas => sample[gas] > IEEE_C57_104_LIMITS[gas].condition1
+  )
+  return { abnormal: exceededGases.length > 0, exceededGases }
+}
+
+// ──────────────────────────── Duval Triangle 1 ────────────────────────────
+
+export function duvalTriangle(sample: DGAGasSample): DGAMethodVerdict {
+  const total = sample.ch4 + sample.c2h4 + sample.c2h2
+  const zone = classifyDuvalTriangle(sample.ch4, sample.c2h4, sample.c2h2)
+  if (!zone) {
+    return verdict('duval_triangle', 'Duval Triangle 1', 'ND', 'No CH₄, C₂H₄ or C₂H₂ present')
+  }
+  const pct = {
+    ch4: round((sample.ch4 / total) * 100),
+    c2h4: round((sample.c2h4 / total) * 100),
+    c2h2: round((sample.c2h2 / total) * 100),
+  }
+  return verdict(
+    'duval_triangle',
+    'Duval Triangle 1',
+    zone,
+    `%CH₄=${pct.ch4}, %C₂H₄=${pct.c2h4}, %C₂H₂=${pct.c2h2} → zone ${zone}`,
+    pct
+  )
+}
+
+// ──────────────────────────── Duval Pentagon 1 ────────────────────────────
+
+type Point = [number, number]
+
+// Axis order around the pentagon, starting at the top vertex
+const PENTAGON_AXES: { gas: DGAGas; angle: number }[] = [
+  { gas: 'h2', angle: 90 },
+  { gas: 'c2h6', angle: 162 },
+  { gas: 'ch4', angle: 234 },
+  { gas: 'c2h4', angle: 306 },
+  { gas: 'c2h2', angle: 378 },
+]
+
+// Zone polygons of Duval Pentagon 1 (Duval & Lamarre, IEEE EI Magazine 2014)
+const PENTAGON_ZONES: { code: DGAFaultCode; polygon: Point[] }[] = [
+  { code: 'PD', polygon: [[0, 33], [-1, 33], [-1, 24.5], [0, 24.5]] },
+  { code: 'D1', polygon: [[0, 40], [38, 12], [32, -6.1], [4, 16], [0, 1.5]] },
+  { code: 'D2', polygon: [[4, 16], [32, -6.1], [24.3, -30], [0, -3], [0, 1.5]] },
+  { code: 'T3', polygon: [[0, -3], [24.3, -30], [23.5, -32.4], [1, -32.4], [-6, -4]] },
+  { code: 'T2', polygon: [[-6, -4], [1, -32.4], [-22.5, -32.4]] },
+  { code: 'T1', polygon: [[-6, -4], [-22.5, -32.4], [-23.5, -32.4], [-35, 3.1], [0, 1.5], [0, -3]] },
+  { code: 'S', polygon: [[0, 1.5], [-35, 3.1], [-38, 12.4], [0, 40], [0, 33], [-1, 33], [-1, 24.5], [0, 24.5]] },
+]
+
+function pointInPolygon([x, y]: Point, polygon: Point[]): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i]
+    const [xj, yj] = polygon[j]
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+function pentagonCentroid(sample: DGAGasSample): Point | null {
+  const total = PENTAGON_AXES.reduce((sum, axis) => sum + sample[axis.gas], 0)
+  if (total === 0) return null
+
+  const vertices: Point[] = PENTAGON_AXES.map(({ gas, angle }) => {
+    const pct = (sample[gas] / total) * 100
+    const rad = (angle * Math.PI) / 180
+    return [pct * Math.cos(rad), pct * Math.sin(rad)]
+  })
+
+  let area = 0
+  let cx = 0
+  let cy = 0
+  for (let i = 0; i < vertices.length; i++) {
+    const [x0, y0] = vertices[i]
+    const [x1, y1] = vertices[(i + 1) % vertices.length]
+    const cross = x0 * y1 - x1 * y0
+    area += cross
+    cx += (x0 + x1) * cross
+    cy += (y0 + y1) * cross
+  }
+  area /= 2
+
+  // A single dominant gas collapses the polygon onto a line
+  if (Math.abs(area) < 1e-9) {
+    return [
+      vertices.reduce((sum, v) => sum + v[0], 0) / vertices.length,
+      vertices.reduce((sum, v) => sum + v[1], 0) / vertices.length,
+    ]
+  }
+  return [cx / (6 * area), cy / (6 * area)]
+}
+
+export function duvalPentagon(sample: DGAGasSample): DGAMethodVerdict {
+  const centroid = pentagonCentroid(sample)
+  if (!centroid) {
+    return verdict('duval_pentagon', 'Duval Pentagon 1', 'ND', 'No hydrocarbon gases or H₂ present')
+  }
+  const [x, y] = centroid
+  const zone = PENTAGON_ZONES.find(z => pointInPolygon(centroid, z.polygon))
+  const position = `centroid (${round(x)}, ${round(y)})`
+  if (!zone) {
+    return verdict('duval_pentagon', 'Duval Pentagon 1', 'ND', `${position} falls outside all zones`, { x: round(x), y: round(y) })
+  }
+  return verdict(
+    'duval_pentagon',
+    'Duval Pentagon 1',
+    zone.code,
+    `${position} → zone ${zone.code}`,
+    { x: round(x), y: round(y) }
+  )
+}
+
+// ────────────────────────────── Rogers Ratio ──────────────────────────────
+
+// Three-ratio Rogers method as tabulated in IEEE C57.104 Table 5
+export function rogersRatio(sample: DGAGasSample): DGAMethodVerdict {
+  const r1 = ratio(sample.ch4, sample.h2)
+  const r2 = ratio(sample.c2h2, sample.c2h4)
+  const r5 = ratio(sample.c2h4, sample.c2h6)
+  const ratios = { 'CH₄/H₂': round(r1), 'C₂H₂/C₂H₄': round(r2), 'C₂H₄/C₂H₆': round(r5) }
+  const detail = `R1=${ratios['CH₄/H₂']}, R2=${ratios['C₂H₂/C₂H₄']}, R5=${ratios['C₂H₄/C₂H₆']}`
+
+  let code: DGAFaultCode = 'ND'
+  if (r2 < 0.1 && r1 >= 0.1 && r1 <= 1 && r5 < 1) code = 'N'
+  else if (r2 < 0.1 && r1 < 0.1 && r5 < 1) code = 'PD'
+  else if (r2 >= 0.1 && r2 <= 3 && r1 >= 0.1 && r1 <= 1 && r5 > 3) code = 'D2'
+  else if (r2 < 0.1 && r1 >= 0.1 && r1 <= 1 && r5 >= 1 && r5 <= 3) code = 'T1'
+  else if (r2 < 0.1 && r1 > 1 && r5 >= 1 && r5 <= 3) code = 'T2'
+  else if (r2 < 0.1 && r1 > 1 && r5 > 3) code = 'T3'
+
+  return verdict(
+    'rogers_ratio',
+    'Rogers Ratio',
+    code,
+    code === 'ND' ? `${detail} — no Rogers case matches` : detail,
+    ratios
+  )
+}
+
+// ──────────────────────────── IEC 60599 Ratios ────────────────────────────
+
+// IEC 60599 Table 2 — "NS" (non-significant) ratios are left unchecked
+export function iec60599Ratio(sample: DGAGasSample): DGAMethodVerdict {
+  const r1 = ratio(sample.ch4, sample.h2)
+  const r2 = ratio(sample.c2h2, sample.c2h4)
+  const r5 = ratio(sample.c2h4, sample.c2h6)
+  const ratios = { 'C₂H₂/C₂H₄': round(r2), 'CH₄/H₂': round(r1), 'C₂H₄/C₂H₆': round(r5) }
+  const detail = `C₂H₂/C₂H₄=${ratios['C₂H₂/C₂H₄']}, CH₄/H₂=${ratios['CH₄/H₂']}, C₂H₄/C₂H₆=${ratios['C₂H₄/C₂H₆']}`
+
+  let code: DGAFaultCode = 'ND'
+  if (r1 < 0.1 && r5 < 0.2) code = 'PD'
+  else if (r2 > 1 && r1 >= 0.1 && r1 <= 0.5 && r5 > 1) code = 'D1'
+  else if (r2 >= 0.6 && r2 <= 2.5 && r1 >= 0.1 && r1 <= 1 && r5 > 2) code = 'D2'
+  else if (r2 < 0.2 && r1 > 1 && r5 > 4) code = 'T3'
+  else if (r2 < 0.1 && r1 > 1 && r5 >= 1) code = 'T2'
+  else if (r2 < 0.1 && r5 < 1) code = 'T1'
+
+  return verdict(
+    'iec_60599',
+    'IEC 60599 Ratios',
+    code,
+    code === 'ND' ? `${detail} — ratio combination outside IEC 60599 Table 2` : detail,
+    ratios
+  )
+}
+
+// ──────────────────────────── Doernenburg Ratio ───────────────────────────
+
+export function doernenburgRatio(sample: DGAGasSample): DGAMethodVerdict {
+  const r1 = ratio(sample.ch4, sample.h2)
+  const r2 = ratio(sample.c2h2, sample.c2h4)
+  const r3 = ratio(sample.c2h2, sample.ch4)
+  const r4 = ratio(sample.c2h6, sample.c2h2)
+  const ratios = { 'CH₄/H₂': round(r1), 'C₂H₂/C₂H₄': round(r2), 'C₂H₂/CH₄': round(r3), 'C₂H₆/C₂H₂': round(r4) }
+
+  const over = (gas: keyof typeof DOERNENBURG_L1, factor = 1) => sample[gas] > DOERNENBURG_L1[gas] * factor
+  const keyGases = ['h2', 'ch4', 'c2h2', 'c2h4'] as const
+
+  // Step 2: at least one key gas above 2×L1 and one further gas above L1
+  const gasesOverL1 = (Object.keys(DOERNENBURG_L1) as (keyof typeof DOERNENBURG_L1)[]).filter(g => over(g))
+  const faulty = keyGases.some(g => over(g, 2)) && gasesOverL1.length >= 2
+  if (!faulty) {
+    return verdict('doernenburg', 'Doernenburg Ratio', 'ND', 'Gas levels below Doernenburg L1 validity limits', ratios)
+  }
+
+  // Step 3: each ratio needs at least one of its gases above L1 to be significant
+  const significant =
+    (over('ch4') || over('h2')) &&
+    (over('c2h2') || over('c2h4')) &&
+    (over('c2h2') || over('ch4')) &&
+    (over('c2h6') || over('c2h2'))
+  if (!significant) {
+    return verdict('doernenburg', 'Doernenburg Ratio', 'ND', 'Ratios not significant — one ratio has both gases below L1', ratios)
+  }
+
+  const detail = `R1=${ratios['CH₄/H₂']}, R2=${ratios['C₂H₂/C₂H₄']}, R3=${ratios['C₂H₂/CH₄']}, R4=${ratios['C₂H₆/C₂H₂']}`
+  if (r1 > 1 && r2 < 0.75 && r3 < 0.3 && r4 > 0.4) {
+    return verdict('doernenburg', 'Doernenburg Ratio', 'T', detail, ratios, 'Thermal decomposition')
+  }
+  if (r1 < 0.1 && r3 < 0.3 && r4 > 0.4) {
+    return verdict('doernenburg', 'Doernenburg Ratio', 'PD', detail, ratios, 'Low-intensity partial discharge')
+  }
+  if (r1 > 0.1 && r1 < 1 && r2 > 0.75 && r3 > 0.3 && r4 < 0.4) {
+    return verdict('doernenburg', 'Doernenburg Ratio', 'D2', detail, ratios, 'Arcing (high-intensity discharge)')
+  }
+  return verdict('doernenburg', 'Doernenburg Ratio', 'ND', `${detail} — no Doernenburg diagnosis matches`, ratios)
+}
+
+// ─────────────────────────────── Key Gas ──────────────────────────────────
+
+// IEEE C57.104 key-gas method on relative proportions of combustible gases
+export function keyGas(sample: DGAGasSample): DGAMethodVerdict {
+  const combustibles = ['h2', 'ch4', 'c2h6', 'c2h4', 'c2h2', 'co'] as const
+  const total = combustibles.reduce((sum, gas) => sum + sample[gas], 0)
+  if (total === 0) {
+    return verdict('key_gas', 'Key Gas', 'ND', 'No combustible gases present')
+  }
+
+  const share = Object.fromEntries(
+    combustibles.map(gas => [gas, round((sample[gas] / total) * 100)])
+  ) as Record<typeof combustibles[number], number>
+  const dominant = combustibles.reduce((a, b) => (sample[b] > sample[a] ? b : a))
+  const detail = `H₂ ${share.h2}%, CH₄ ${share.ch4}%, C₂H₆ ${share.c2h6}%, C₂H₄ ${share.c2h4}%, C₂H₂ ${share.c2h2}%, CO ${share.co}%`
+
+  if (share.c2h2 >= 20) {
+    return verdict('key_gas', 'Key Gas', 'D2', detail, share, 'Arcing (key gas C₂H₂)')
+  }
+  switch (dominant) {
+    case 'h2':
+      return share.c2h2 >= 5
+        ? verdict('key_gas', 'Key Gas', 'D1', detail, share, 'Low-energy discharge (key gases H₂, C₂H₂)')
+        : verdict('key_gas', 'Key Gas', 'PD', detail, share, 'Partial discharge / corona (key gas H₂)')
+    case 'c2h4':
+      return verdict('key_gas', 'Key Gas', 'T', detail, share, 'Overheated oil (key gas C₂H₄)')
+    case 'co':
+      return verdict('key_gas', 'Key Gas', 'T', detail, share, 'Overheated cellulose (key gas CO)')
+    default:
+      return verdict('key_gas', 'Key Gas', 'T1', detail, share, 'Low-temperature oil overheating (key gases CH₄, C₂H₆)')
+  }
+}
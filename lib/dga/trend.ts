@@ -0,0 +1,222 @@
+import {
+  getHistoryForAsset,
+  getKaggleHistoryForAsset,
+} from '../datasets/transformer-health'
+import type {
+  DGAAgeBand,
+  DGAGas,
+  DGAGasTrend,
+  DGAOxygenBand,
+  DGAStatusLevel,
+  DGATrendEvaluation,
+  DGATrendSample,
+} from './types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const DGA_GAS_LABELS: Record<DGAGas, string> = {
+  h2: 'H₂',
+  ch4: 'CH₄',
+  c2h2: 'C₂H₂',
+  c2h4: 'C₂H₄',
+  c2h6: 'C₂H₆',
+  co: 'CO',
+  co2: 'CO₂',
+}
+
+const TREND_GASES: DGAGas[] = ['h2', 'ch4', 'c2h6', 'c2h4', 'c2h2', 'co', 'co2']
+
+type AgeValues = Record<DGAAgeBand, number>
+
+function flat(value: number): AgeValues {
+  return { unknown: value, '1-9': value, '10-30': value, '>30': value }
+}
+
+// IEEE C57.104-2019 Table 1 — 90th percentile concentrations (ppm)
+const PERCENTILE_90: Record<DGAOxygenBand, Record<DGAGas, AgeValues>> = {
+  low: {
+    h2: flat(80),
+    ch4: { unknown: 90, '1-9': 45, '10-30': 90, '>30': 110 },
+    c2h6: { unknown: 90, '1-9': 30, '10-30': 90, '>30': 150 },
+    c2h4: { unknown: 50, '1-9': 20, '10-30': 50, '>30': 90 },
+    c2h2: { unknown: 1, '1-9': 1, '10-30': 1, '>30': 2 },
+    co: flat(900),
+    co2: { unknown: 9000, '1-9': 5000, '10-30': 10000, '>30': 10000 },
+  },
+  high: {
+    h2: flat(40),
+    ch4: flat(20),
+    c2h6: flat(15),
+    c2h4: { unknown: 50, '1-9': 25, '10-30': 60, '>30': 60 },
+    c2h2: { unknown: 2, '1-9': 2, '10-30': 2, '>30': 7 },
+    co: flat(500),
+    co2: { unknown: 5000, '1-9': 3500, '10-30': 5500, '>30': 5500 },
+  },
+}
+
+// Table 2 — 95th percentile concentrations (ppm)
+const PERCENTILE_95: Record<DGAOxygenBand, Record<DGAGas, number>> = {
+  low: { h2: 200, ch4: 150, c2h6: 175, c2h4: 100, c2h2: 2, co: 1100, co2: 12500 },
+  high: { h2: 90, ch4: 50, c2h6: 40, c2h4: 100, c2h2: 7, co: 600, co2: 7000 },
+}
+
+// Table 3 — 95th percentile increment between consecutive samples (ppm).
+// Any measurable C₂H₂ increase counts, taken here as 1 ppm.
+const DELTA_LIMITS: Record<DGAOxygenBand, Record<DGAGas, number>> = {
+  low: { h2: 40, ch4: 30, c2h6: 25, c2h4: 20, c2h2: 1, co: 250, co2: 2500 },
+  high: { h2: 25, ch4: 10, c2h6: 9, c2h4: 20, c2h2: 1, co: 100, co2: 1000 },
+}
+
+// Table 4 — 95th percentile rate of change (ppm/year)
+const RATE_LIMITS: Record<DGAOxygenBand, Record<DGAGas, number>> = {
+  low: { h2: 20, ch4: 10, c2h6: 9, c2h4: 7, c2h2: 1, co: 100, co2: 1000 },
+  high: { h2: 10, ch4: 4, c2h6: 3, c2h4: 7, c2h2: 1, co: 80, co2: 800 },
+}
+
+// Rates need at least three samples spread over 4-24 months to be meaningful
+const RATE_MIN_SAMPLES = 3
+const RATE_MIN_SPAN_DAYS = 120
+const RATE_WINDOW_DAYS = 730
+
+const RESAMPLE_DAYS: Record<DGAStatusLevel, number> = { 1: 365, 2: 90, 3: 30 }
+const URGENT_RESAMPLE_DAYS = 7
+
+const RECOMMENDED_ACTIONS: Record<DGAStatusLevel, string> = {
+  1: 'Continue routine sampling interval',
+  2: 'Increase sampling frequency; review loading history and oil quality',
+  3: 'Active gassing — confirm with resample, run fault interpretation and plan diagnostic testing',
+}
+
+function toDate(value: string | Date): Date {
+  return value instanceof Date ? value : new Date(value)
+}
+
+function round(value: number, places = 2): number {
+  const f = 10 ** places
+  return Math.round(value * f) / f
+}
+
+export function getAgeBand(ageYears: number | null | undefined): DGAAgeBand {
+  if (ageYears === null || ageYears === undefined || ageYears < 1) return 'unknown'
+  if (ageYears < 10) return '1-9'
+  if (ageYears <= 30) return '10-30'
+  return '>30'
+}
+
+// Least-squares slope in ppm/day
+function slopePerDay(points: { t: number; v: number }[]): number {
+  const n = points.length
+  const meanT = points.reduce((s, p) => s + p.t, 0) / n
+  const meanV = points.reduce((s, p) => s + p.v, 0) / n
+  let num = 0
+  let den = 0
+  for (const p of points) {
+    num += (p.t - meanT) * (p.v - meanV)
+    den += (p.t - meanT) ** 2
+  }
+  return den === 0 ? 0 : num / den
+}
+
+export function evaluateDGATrend(
+  history: DGATrendSample[],
+  options: { assetTag?: string; yearInstalled?: number } = {}
+): DGATrendEvaluation | null {
+  if (history.length === 0) return null
+
+  const samples = [...history].sort(
+    (a, b) => toDate(a.timestamp).getTime() - toDate(b.timestamp).getTime()
+  )
+  const latest = samples[samples.length - 1]
+  const previous = samples.length > 1 ? samples[samples.length - 2] : null
+  const latestDate = toDate(latest.timestamp)
+  const previousDate = previous ? toDate(previous.timestamp) : null
+
+  const o2n2Ratio = latest.o2 !== undefined && latest.n2 ? round(latest.o2 / latest.n2, 3) : null
+  const oxygenBand: DGAOxygenBand = o2n2Ratio !== null && o2n2Ratio > 0.2 ? 'high' : 'low'
+  const ageBand = getAgeBand(
+    options.yearInstalled ? latestDate.getFullYear() - options.yearInstalled : null
+  )
+
+  const windowStart = latestDate.getTime() - RATE_WINDOW_DAYS * DAY_MS
+  const rateSamples = samples.filter(s => toDate(s.timestamp).getTime() >= windowStart)
+  const rateSpanDays = rateSamples.length > 0
+    ? (latestDate.getTime() - toDate(rateSamples[0].timestamp).getTime()) / DAY_MS
+    : 0
+  const canRate = rateSamples.length >= RATE_MIN_SAMPLES && rateSpanDays >= RATE_MIN_SPAN_DAYS
+
+  const reasons: string[] = []
+  const gases: DGAGasTrend[] = TREND_GASES.map(gas => {
+    const limits = {
+      percentile90: PERCENTILE_90[oxygenBand][gas][ageBand],
+      percentile95: PERCENTILE_95[oxygenBand][gas],
+      delta: DELTA_LIMITS[oxygenBand][gas],
+      ratePerYear: RATE_LIMITS[oxygenBand][gas],
+    }
+    const delta = previous ? round(latest[gas] - previous[gas]) : null
+    const ratePerDay = canRate
+      ? round(slopePerDay(rateSamples.map(s => ({ t: toDate(s.timestamp).getTime() / DAY_MS, v: s[gas] }))), 3)
+      : null
+    const ratePerYear = ratePerDay !== null ? round(ratePerDay * 365, 1) : null
+
+    const exceeds = {
+      percentile90: latest[gas] > limits.percentile90,
+      percentile95: latest[gas] > limits.percentile95,
+      delta: delta !== null && delta >= limits.delta,
+      rate: ratePerYear !== null && ratePerYear > limits.ratePerYear,
+    }
+
+    const label = DGA_GAS_LABELS[gas]
+    if (exceeds.percentile95) {
+      reasons.push(`${label} ${latest[gas]} ppm above 95th percentile (${limits.percentile95} ppm)`)
+    } else if (exceeds.percentile90) {
+      reasons.push(`${label} ${latest[gas]} ppm above 90th percentile (${limits.percentile90} ppm)`)
+    }
+    if (exceeds.delta) {
+      reasons.push(`${label} +${delta} ppm since previous sample (increment limit ${limits.delta} ppm)`)
+    }
+    if (exceeds.rate) {
+      reasons.push(`${label} rising ${ratePerDay} ppm/day (${ratePerYear} ppm/yr, limit ${limits.ratePerYear} ppm/yr)`)
+    }
+
+    return { gas, latest: latest[gas], previous: previous ? previous[gas] : null, delta, ratePerDay, ratePerYear, limits, exceeds }
+  })
+
+  let status: DGAStatusLevel = 1
+  if (gases.some(g => g.exceeds.percentile95 || g.exceeds.delta || g.exceeds.rate)) status = 3
+  else if (gases.some(g => g.exceeds.percentile90)) status = 2
+
+  // Acetylene generation or broad active gassing warrants a short-turnaround resample
+  const acetyleneActive = gases.some(g => g.gas === 'c2h2' && (g.exceeds.delta || g.exceeds.rate))
+  const gassingCount = gases.filter(g => g.exceeds.delta || g.exceeds.rate).length
+  const resampleIntervalDays = status === 3 && (acetyleneActive || gassingCount >= 3)
+    ? URGENT_RESAMPLE_DAYS
+    : RESAMPLE_DAYS[status]
+
+  return {
+    assetTag: options.assetTag ?? null,
+    sampleCount: samples.length,
+    latestSample: latestDate,
+    previousSample: previousDate,
+    daysSincePrevious: previousDate ? Math.round((latestDate.getTime() - previousDate.getTime()) / DAY_MS) : null,
+    rateWindowDays: canRate ? Math.round(rateSpanDays) : null,
+    o2n2Ratio,
+    oxygenBand,
+    ageBand,
+    gases,
+    status,
+    reasons,
+    resampleIntervalDays,
+    nextSampleDue: new Date(latestDate.getTime() + resampleIntervalDays * DAY_MS),
+    recommendedAction: RECOMMENDED_ACTIONS[status],
+  }
+}
+
+export function evaluateAssetDGATrend(
+  assetTag: string,
+  options: { yearInstalled?: number; source?: 'curated' | 'kaggle' } = {}
+): DGATrendEvaluation | null {
+  const history = options.source === 'kaggle'
+    ? getKaggleHistoryForAsset(assetTag)
+    : getHistoryForAsset(assetTag)
+  return evaluateDGATrend(history, { assetTag, yearInstalled: options.yearInstalled })
+}
@@ -0,0 +1,111 @@
+import type { DGAReading } from '../transformer-iot/types'
+
+export type DGAGas = 'h2' | 'ch4' | 'c2h2' | 'c2h4' | 'c2h6' | 'co' | 'co2'
+
+// Any record carrying a full dissolved-gas set — TransformerHealthRecord,
+// KaggleTransformerRecord and transformer-iot DGAReading all satisfy this
+export type DGAGasSample = Record<DGAGas, number>
+
+export type DGAFaultType = DGAReading['faultType']
+
+export type DGAMethod =
+  | 'duval_triangle'
+  | 'duval_pentagon'
+  | 'rogers_ratio'
+  | 'iec_60599'
+  | 'doernenburg'
+  | 'key_gas'
+
+// IEC 60599 fault codes, plus S (stray gassing, Pentagon 1), T (thermal fault
+// whose temperature range the method cannot resolve), N (normal) and ND
+// (no zone or ratio case matched)
+export type DGAFaultCode = 'N' | 'PD' | 'S' | 'T' | 'T1' | 'T2' | 'T3' | 'D1' | 'D2' | 'DT' | 'ND'
+
+export interface DGAMethodVerdict {
+  method: DGAMethod
+  methodName: string
+  code: DGAFaultCode
+  faultType: DGAFaultType | null
+  label: string
+  valid: boolean
+  detail: string
+  ratios?: Record<string, number>
+}
+
+export interface DGAScreening {
+  abnormal: boolean
+  exceededGases: DGAGas[]
+}
+
+export interface DGAConsensus {
+  code: DGAFaultCode
+  faultType: DGAFaultType
+  label: string
+  agreement: number // 0-1, weighted share of valid methods backing the consensus
+  supportingMethods: DGAMethod[]
+}
+
+export interface DGADiagnosis {
+  screening: DGAScreening
+  methods: DGAMethodVerdict[]
+  consensus: DGAConsensus
+  methodsDisagree: boolean
+  disagreementNote?: string
+  co2CoRatio: number | null
+  paperInvolvement: boolean | null
+  interpretation: string
+}
+
+// ─────────────────────── IEEE C57.104-2019 trend status ───────────────────────
+
+export type DGAStatusLevel = 1 | 2 | 3
+
+export type DGAAgeBand = 'unknown' | '1-9' | '10-30' | '>30'
+
+// Table 1-4 columns split on O₂/N₂ ratio: ≤0.2 (sealed / low oxygen) vs >0.2
+export type DGAOxygenBand = 'low' | 'high'
+
+export type DGATrendSample = DGAGasSample & {
+  timestamp: string | Date
+  o2?: number
+  n2?: number
+}
+
+export interface DGAGasTrend {
+  gas: DGAGas
+  latest: number
+  previous: number | null
+  delta: number | null
+  ratePerDay: number | null
+  ratePerYear: number | null
+  limits: {
+    percentile90: number
+    percentile95: number
+    delta: number
+    ratePerYear: number
+  }
+  exceeds: {
+    percentile90: boolean
+    percentile95: boolean
+    delta: boolean
+    rate: boolean
+  }
+}
+
+export interface DGATrendEvaluation {
+  assetTag: string | null
+  sampleCount: number
+  latestSample: Date
+  previousSample: Date | null
+  daysSincePrevious: number | null
+  rateWindowDays: number | null
+  o2n2Ratio: number | null
+  oxygenBand: DGAOxygenBand
+  ageBand: DGAAgeBand
+  gases: DGAGasTrend[]
+  status: DGAStatusLevel
+  reasons: string[]
+  resampleIntervalDays: number
+  nextSampleDue: Date
+  recommendedAction: string
+}
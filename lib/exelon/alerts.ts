@@ -1,4 +1,5 @@
 import type { ExelonAsset } from './fleet'
+import { evaluateAssetDGATrend } from '@/lib/dga/trend'
 
 export interface GridAlert {
   id: string
@@ -84,6 +85,25 @@ export function generateAlertsFromAssets(assets: ExelonAsset[]): GridAlert[] {
       })
     }
 
+    const dgaTrend = evaluateAssetDGATrend(asset.assetTag, { yearInstalled: asset.yearInstalled })
+    if (dgaTrend && dgaTrend.status > 1) {
+      const isStatus3 = dgaTrend.status === 3
+      alerts.push({
+        id: `dga-status${dgaTrend.status}-${asset.assetTag}`,
+        assetId: asset.assetTag,
+        assetName: asset.name,
+        opCo: asset.opCo,
+        severity: isStatus3 ? 'critical' : 'warning',
+        type: 'dga',
+        title: isStatus3 ? 'DGA Status 3: Active Gassing' : 'DGA Status 2: Elevated Gas Levels',
+        description: `IEEE C57.104-2019 — ${dgaTrend.reasons.slice(0, 2).join('; ')}. ${dgaTrend.recommendedAction}. Resample within ${dgaTrend.resampleIntervalDays} days.`,
+        timestamp: now,
+        acknowledged: false,
+        resolved: false,
+        customersAffected: asset.customersServed,
+      })
+    }
+
     const age = new Date().getFullYear() - asset.yearInstalled
     if (age > 45 && asset.healthIndex < 55) {
       alerts.push({
@@ -11,7 +11,8 @@
 
 import { generateFleet, OPCOS, type SubstationAsset } from './risk-intelligence-data';
 import type { ExelonAsset } from './fleet';
-import type { TransformerHealthRecord } from '@/lib/datasets/transformer-health';
+import { getHistoryForAsset, type TransformerHealthRecord } from '@/lib/datasets/transformer-health';
+import { estimateAssetInsulationLife, type InsulationLifeEstimate } from '@/lib/insulation';
 
 // ── Seeded RNG (same as risk-intelligence-data) ──
 function seededRng(seed: number) {
@@ -137,6 +138,16 @@ export function synthesizeHealthRecords(a: SubstationAsset): TransformerHealthRe
   return records;
 }
 
+// Paper-insulation life from the asset's furan and CO₂/CO history — curated
+// records when the tag has them, otherwise the synthesized series
+export function getInsulationLife(a: SubstationAsset): InsulationLifeEstimate | null {
+  const curated = getHistoryForAsset(a.tag);
+  return estimateAssetInsulationLife(a.tag, {
+    ageYears: a.age,
+    history: curated.length > 0 ? curated : synthesizeHealthRecords(a),
+  });
+}
+
 // ══════════════════════════════════════════════════════════════════
 // GRID IQ TREE CLUSTER SYNTHESIS
 // ══════════════════════════════════════════════════════════════════
@@ -52,6 +52,7 @@ export interface DispatchWorkOrder {
   taskType: string;
   partsRequired: string[];
   estimatedHours: number;
+  requiredCertifications?: string[]; // any one qualifies; defaults by taskType
 }
 
 export interface Disruption {
@@ -64,6 +65,18 @@ export interface Disruption {
   reportedAt: string;
   tasksAffected: number;
   icon: 'alert' | 'weather' | 'crew' | 'vehicle' | 'parts' | 'success';
+  isNew?: boolean; // came in after the day plan was made
+  effects?: DisruptionEffects;
+}
+
+// What a disruption does to today's plan, read by the dispatch scheduler
+export interface DisruptionEffects {
+  atHour?: number;                   // when it takes effect; defaults to reportedAt
+  unavailableWorkers?: string[];     // worker ids off for the rest of the day
+  immobileWorkers?: string[];        // vehicle down: can finish on site, can't drive on
+  blockedSubstations?: string[];     // no field work at these sites for the rest of the day
+  unavailableParts?: string[];       // work needing these parts can't go ahead today
+  completedWorkOrders?: { id: string; atHour: number }[];
 }
 
 export interface ScheduleScenario {
@@ -421,6 +434,7 @@ export const DISRUPTIONS: Disruption[] = [
     impact: '6 tasks need reassignment across BGE and Pepco',
     action: 'Redistribute to available crew. Defer 2 routine inspections.',
     reportedAt: '6:15 AM', tasksAffected: 6,
+    effects: { unavailableWorkers: ['W-004', 'W-011'] },
   },
   {
     id: 'D-004', severity: 'warning', icon: 'weather',
@@ -428,6 +442,7 @@ export const DISRUPTIONS: Disruption[] = [
     impact: 'DPL substations at risk · 2 field tasks unsafe',
     action: 'Defer Indian River and Edge Moor outdoor work. Pre-position restoration crews.',
     reportedAt: 'Yesterday 10:45 PM', tasksAffected: 2,
+    effects: { blockedSubstations: ['Indian River Substation', 'Edge Moor Substation'] },
   },
   {
     id: 'D-005', severity: 'warning', icon: 'parts',
@@ -436,6 +451,7 @@ export const DISRUPTIONS: Disruption[] = [
     impact: '3 tasks may be delayed at ComEd',
     action: 'Source from ABB emergency stock in Jefferson City. ETA 48 hours.',
     reportedAt: 'Yesterday 4:30 PM', tasksAffected: 3,
+    effects: { unavailableParts: ['ABB GOB bushing (345kV)'] },
   },
   {
     id: 'D-006', severity: 'positive', icon: 'success',
@@ -443,54 +459,15 @@ export const DISRUPTIONS: Disruption[] = [
     impact: 'Crew freed up 2 hours early for reassignment',
     action: 'Marcus Johnson crew reassigned to Cardiff surge arrester testing.',
     reportedAt: '11:15 AM', tasksAffected: 0,
-  },
-];
-
-export const GANTT_SCENARIOS: ScheduleScenario[] = [
-  {
-    id: 'legacy', label: 'Original Schedule',
-    kpis: {
-      tasksCompleted: 16, tasksTotal: 24, p1Completion: 67,
-      travelTimeMins: 340, customersProtected: 285_000,
-      costAvoidance: 1_920_000, crewUtilization: 72,
-    },
-    tasks: [
-      { id: 'G-01', workOrderId: 'WO-2026-001', assetName: 'Westport 230kV', worker: 'Lisa Chang', crewLead: 'Marcus Johnson', priority: 'P1', startHour: 6, durationHours: 6, status: 'in_progress' },
-      { id: 'G-02', workOrderId: 'WO-2026-002', assetName: 'Electric Jct 345kV', worker: 'Robert Kim', crewLead: 'Patricia Williams', priority: 'P1', startHour: 7, durationHours: 8, status: 'dispatched' },
-      { id: 'G-03', workOrderId: 'WO-2026-003', assetName: 'Calvert Cliffs 500kV', worker: 'Sarah Mitchell', crewLead: 'Marcus Johnson', priority: 'P1', startHour: 7, durationHours: 6, status: 'in_progress' },
-      { id: 'G-04', workOrderId: 'WO-2026-004', assetName: 'Crawford 345kV', worker: 'Michael Torres', crewLead: 'Patricia Williams', priority: 'P2', startHour: 8, durationHours: 6, status: 'dispatched' },
-      { id: 'G-05', workOrderId: 'WO-2026-005', assetName: 'Benning Road 230kV', worker: 'William Harris', crewLead: 'Raymond Scott', priority: 'P2', startHour: 9, durationHours: 4, status: 'en_route' },
-      { id: 'G-06', workOrderId: 'WO-2026-006', assetName: 'Fisk Substation', worker: 'Angela Foster', crewLead: 'Patricia Williams', priority: 'P2', startHour: 8, durationHours: 4, status: 'in_progress' },
-      { id: 'G-07', workOrderId: 'WO-2026-007', assetName: 'Plymouth Meeting 230kV', worker: 'Christopher Lee', crewLead: 'Thomas Anderson', priority: 'P2', startHour: 7.5, durationHours: 8, status: 'dispatched' },
-      { id: 'G-08', workOrderId: 'WO-2026-010', assetName: 'Eddystone 230kV', worker: 'Daniel Nguyen', crewLead: 'Thomas Anderson', priority: 'P3', startHour: 9, durationHours: 2, status: 'dispatched' },
-      { id: 'G-09', workOrderId: 'WO-2026-011', assetName: 'Indian River 230kV', worker: 'James Parker', crewLead: 'Marcus Johnson', priority: 'P3', startHour: 10, durationHours: 4, status: 'dispatched' },
-      { id: 'G-10', workOrderId: 'WO-2026-012', assetName: 'Lewis Substation', worker: 'Amanda Brooks', crewLead: 'Thomas Anderson', priority: 'P3', startHour: 8, durationHours: 8, status: 'en_route' },
-      { id: 'G-11', workOrderId: 'WO-2026-013', assetName: 'Canton Substation', worker: 'David Chen', crewLead: 'Marcus Johnson', priority: 'P3', startHour: 7, durationHours: 4, status: 'completed' },
-      { id: 'G-12', workOrderId: 'WO-2026-014', assetName: 'Waukegan 138kV', worker: 'Kevin Washington', crewLead: 'Patricia Williams', priority: 'Routine', startHour: 7, durationHours: 8, status: 'completed' },
-    ],
+    effects: { completedWorkOrders: [{ id: 'WO-2026-013', atHour: 9 }] },
   },
   {
-    id: 'ai_optimized', label: 'AI-Optimized Schedule',
-    kpis: {
-      tasksCompleted: 20, tasksTotal: 24, p1Completion: 100,
-      travelTimeMins: 210, customersProtected: 445_000,
-      costAvoidance: 2_840_000, crewUtilization: 91,
-    },
-    tasks: [
-      { id: 'G-01', workOrderId: 'WO-2026-001', assetName: 'Westport 230kV', worker: 'Lisa Chang', crewLead: 'Marcus Johnson', priority: 'P1', startHour: 6, durationHours: 6, status: 'in_progress', isChanged: true, changeReason: 'Priority escalated — dispatched 30 min earlier' },
-      { id: 'G-02', workOrderId: 'WO-2026-002', assetName: 'Electric Jct 345kV', worker: 'Robert Kim', crewLead: 'Patricia Williams', priority: 'P1', startHour: 6.5, durationHours: 8, status: 'dispatched', isChanged: true, changeReason: 'Moved up 30 min, parts sourced from emergency stock' },
-      { id: 'G-03', workOrderId: 'WO-2026-003', assetName: 'Calvert Cliffs 500kV', worker: 'David Chen', crewLead: 'Marcus Johnson', priority: 'P1', startHour: 6.5, durationHours: 6, status: 'in_progress', isChanged: true, changeReason: 'Reassigned from David Chen (ground test done early) → freed Sarah Mitchell for P2' },
-      { id: 'G-04', workOrderId: 'WO-2026-004', assetName: 'Crawford 345kV', worker: 'Michael Torres', crewLead: 'Patricia Williams', priority: 'P2', startHour: 7, durationHours: 6, status: 'dispatched', isChanged: true, changeReason: 'Started 1hr earlier — escalation risk in 5 days' },
-      { id: 'G-05', workOrderId: 'WO-2026-005', assetName: 'Benning Road 230kV', worker: 'William Harris', crewLead: 'Raymond Scott', priority: 'P2', startHour: 8, durationHours: 4, status: 'en_route', isChanged: true, changeReason: 'Shifted 1hr earlier to avoid afternoon heat load peak' },
-      { id: 'G-06', workOrderId: 'WO-2026-006', assetName: 'Fisk Substation', worker: 'Angela Foster', crewLead: 'Patricia Williams', priority: 'P2', startHour: 7, durationHours: 4, status: 'in_progress', isChanged: true, changeReason: 'Moved up 1hr — 150K customers exposed to relay misop' },
-      { id: 'G-07', workOrderId: 'WO-2026-007', assetName: 'Plymouth Meeting 230kV', worker: 'Christopher Lee', crewLead: 'Thomas Anderson', priority: 'P2', startHour: 7, durationHours: 8, status: 'dispatched' },
-      { id: 'G-08', workOrderId: 'WO-2026-008', assetName: 'Cardiff 230kV', worker: 'James Parker', crewLead: 'Marcus Johnson', priority: 'P2', startHour: 12, durationHours: 4, status: 'dispatched', isChanged: true, changeReason: 'Added — was on hold. Marcus crew free after Canton early finish' },
-      { id: 'G-09', workOrderId: 'WO-2026-010', assetName: 'Eddystone 230kV', worker: 'Daniel Nguyen', crewLead: 'Thomas Anderson', priority: 'P3', startHour: 8, durationHours: 2, status: 'dispatched', isChanged: true, changeReason: 'Moved earlier — Daniel routed efficiently after Edge Moor' },
-      { id: 'G-10', workOrderId: 'WO-2026-011', assetName: 'Indian River 230kV', worker: 'James Parker', crewLead: 'Marcus Johnson', priority: 'P3', startHour: 10, durationHours: 4, status: 'deferred', isChanged: true, changeReason: 'Deferred — ice storm warning on Delmarva' },
-      { id: 'G-11', workOrderId: 'WO-2026-012', assetName: 'Lewis Substation', worker: 'Amanda Brooks', crewLead: 'Thomas Anderson', priority: 'P3', startHour: 8, durationHours: 8, status: 'en_route' },
-      { id: 'G-12', workOrderId: 'WO-2026-013', assetName: 'Canton Substation', worker: 'David Chen', crewLead: 'Marcus Johnson', priority: 'P3', startHour: 6.5, durationHours: 3.5, status: 'completed', isChanged: true, changeReason: 'Completed early — crew reassigned to Calvert Cliffs P1' },
-      { id: 'G-13', workOrderId: 'WO-2026-009', assetName: 'Capitol Hill UG', worker: 'Sarah Mitchell', crewLead: 'Raymond Scott', priority: 'P2', startHour: 13, durationHours: 5, status: 'dispatched', isChanged: true, changeReason: 'Added — Sarah freed after Calvert Cliffs reassignment. 80K customers at risk.' },
-    ],
+    id: 'D-007', severity: 'warning', icon: 'vehicle',
+    title: 'Service truck out of service — PECO Plymouth yard',
+    impact: 'Daniel Nguyen can finish Edge Moor but has no vehicle after',
+    action: 'Reassign his remaining work or release a pool truck.',
+    reportedAt: '10:30 AM', tasksAffected: 1, isNew: true,
+    effects: { immobileWorkers: ['W-014'] },
   },
 ];
 
@@ -0,0 +1,864 @@
+/**
+ * Exelon GridIQ Dispatch Scheduler
+ *
+ * Builds the day plan for the dispatch Gantt from open work orders, crew
+ * certifications and availability, and drive time between substations.
+ * P1s go first; the rest are ranked by what a day's delay costs
+ * (costIfDelayed spread over the days left before escalation).
+ */
+
+import { getExelonAssetByTag } from './fleet';
+import { getSubstationAsset } from './asset-bridge';
+import { OPCOS } from './risk-intelligence-data';
+import type {
+  CrewLead,
+  CrewMember,
+  DispatchWorkOrder,
+  Disruption,
+  GanttTask,
+  ScenarioKPIs,
+  ScheduleScenario,
+  WOPriority,
+  WOStatus,
+} from './dispatch-data';
+
+// ─── Types ─────────────────────────────────────────────────────────
+
+export interface DispatchPlanOptions {
+  dayStartHour?: number;   // default 6
+  dayEndHour?: number;     // default 18
+  nowHour?: number;        // nothing new starts before this; default start of day
+  disruptions?: Disruption[];
+  baseline?: GanttTask[];  // plan to diff against for isChanged / changeReason
+}
+
+export interface UnscheduledWorkOrder {
+  workOrderId: string;
+  reason: string;
+}
+
+export interface DispatchPlan extends ScheduleScenario {
+  unscheduled: UnscheduledWorkOrder[];
+}
+
+interface Location {
+  lat: number;
+  lng: number;
+}
+
+interface WorkerState {
+  worker: CrewMember;
+  lead: CrewLead;
+  freeAt: number;
+  location: Location;
+  siteName: string;
+  offFrom: number;        // off sick from this hour
+  immobileFrom: number;   // no vehicle from this hour
+}
+
+interface Effect {
+  hour: number;
+  title: string;
+}
+
+interface DisruptionImpact {
+  offSick: Map<string, Effect>;              // worker id
+  immobile: Map<string, Effect>;             // worker id
+  blockedSubstations: Map<string, Effect>;   // substation name
+  unavailableParts: Map<string, Effect>;     // part
+  completedAt: Map<string, number>;          // work order -> hour finished
+}
+
+// ─── Constants ─────────────────────────────────────────────────────
+
+const DEFAULT_DAY_START = 6;
+const DEFAULT_DAY_END = 18;
+const P1_OVERTIME_HOURS = 4;          // emergency work may run past end of shift
+const ROAD_FACTOR = 1.3;              // road distance over straight line
+const AVERAGE_SPEED_KMH = 55;
+const ROUTINE_ESCALATION_DAYS = 30;   // spread for work with no escalation date
+const MIN_SHIFT_HOURS = 0.25;
+
+const PRIORITY_ORDER: Record<WOPriority, number> = { P1: 0, P2: 1, P3: 2, Routine: 3 };
+
+// Pepco Holdings utilities share the DC Metro crews
+const CREW_OPCO: Record<string, string> = { DPL: 'Pepco', ACE: 'Pepco' };
+
+// Any one of these qualifies a worker for the task
+const CERTIFICATIONS_BY_TASK: Record<string, string[]> = {
+  'Emergency DGA Response': ['DGA'],
+  'Emergency Bushing Repair': ['Bushing Replacement'],
+  'Emergency Cooling Repair': ['HV Switching'],
+  'Tap Changer Service': ['Tap Changer'],
+  'Thermal Investigation': ['Thermal Scan', 'DGA'],
+  'Relay Calibration': ['Relay Testing'],
+  'Oil Processing': ['DGA', 'Oil Sampling'],
+  'Surge Arrester Testing': ['HV Switching'],
+  'Cable Testing': ['Cable Testing', 'Underground'],
+  'DGA Sampling': ['Oil Sampling', 'DGA'],
+  'Thermal Scan': ['Thermal Scan'],
+  'Battery Test': ['Relay Testing', 'SCADA'],
+  'Ground Grid Test': ['HV Switching', 'LOTO'],
+};
+
+// ─── Helpers ───────────────────────────────────────────────────────
+
+function round(value: number, places = 2): number {
+  const f = 10 ** places;
+  return Math.round(value * f) / f;
+}
+
+function formatHour(hour: number): string {
+  const h = Math.floor(hour);
+  const m = Math.round((hour - h) * 60);
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
+
+function formatShift(hours: number): string {
+  return hours >= 1 ? `${round(hours, 1)}h` : `${Math.round(hours * 60)} min`;
+}
+
+// '07:30–15:30' -> 7.5; '—' -> null
+function slotStartHour(timeSlot: string): number | null {
+  const match = timeSlot.match(/^(\d{1,2}):(\d{2})/);
+  return match ? parseInt(match[1], 10) + parseInt(match[2], 10) / 60 : null;
+}
+
+function opCoCenter(opCo: string): Location {
+  const center = OPCOS.find(o => o.id === opCo)?.center ?? OPCOS[0].center;
+  return { lat: center[0], lng: center[1] };
+}
+
+export function getWorkOrderLocation(wo: DispatchWorkOrder): Location {
+  const registered = getExelonAssetByTag(wo.assetTag);
+  if (registered) return registered.position;
+  const substation = getSubstationAsset(wo.assetTag);
+  if (substation) return { lat: substation.lat, lng: substation.lng };
+  return opCoCenter(wo.opCo);
+}
+
+/** Drive time in hours between two points */
+export function driveHours(from: Location, to: Location): number {
+  const R = 6371;
+  const dLat = (to.lat - from.lat) * Math.PI / 180;
+  const dLng = (to.lng - from.lng) * Math.PI / 180;
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(from.lat * Math.PI / 180) * Math.cos(to.lat * Math.PI / 180) * Math.sin(dLng / 2) ** 2;
+  const km = 2 * R * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  // Nearest 5 minutes
+  return Math.round((km * ROAD_FACTOR / AVERAGE_SPEED_KMH) * 12) / 12;
+}
+
+/** Cost of leaving a work order one more day */
+export function delayPenaltyPerDay(wo: DispatchWorkOrder): number {
+  if (wo.priority === 'P1') return wo.costIfDelayed;
+  return wo.costIfDelayed / Math.max(1, wo.daysToEscalation ?? ROUTINE_ESCALATION_DAYS);
+}
+
+function requiredCertifications(wo: DispatchWorkOrder): string[] {
+  return wo.requiredCertifications ?? CERTIFICATIONS_BY_TASK[wo.taskType] ?? [];
+}
+
+function isCertified(worker: CrewMember, wo: DispatchWorkOrder): boolean {
+  const required = requiredCertifications(wo);
+  return required.length === 0 || required.some(c => worker.certifications.includes(c));
+}
+
+/** Hour a disruption takes effect: effects.atHour, else reportedAt if today */
+export function disruptionHour(d: Disruption, dayStartHour = DEFAULT_DAY_START): number {
+  if (d.effects?.atHour !== undefined) return Math.max(dayStartHour, d.effects.atHour);
+  const match = d.reportedAt.match(/^(\d{1,2}):(\d{2})\s*(AM|PM)$/i);
+  if (!match) return dayStartHour;
+  const hour = (parseInt(match[1], 10) % 12) + (match[3].toUpperCase() === 'PM' ? 12 : 0) + parseInt(match[2], 10) / 60;
+  return Math.max(dayStartHour, round(hour));
+}
+
+function disruptionImpact(disruptions: Disruption[], dayStartHour: number): DisruptionImpact {
+  const impact: DisruptionImpact = {
+    offSick: new Map(),
+    immobile: new Map(),
+    blockedSubstations: new Map(),
+    unavailableParts: new Map(),
+    completedAt: new Map(),
+  };
+  // Earliest hit wins where two disruptions overlap
+  const add = (map: Map<string, Effect>, key: string, effect: Effect) => {
+    const existing = map.get(key);
+    if (!existing || effect.hour < existing.hour) map.set(key, effect);
+  };
+  for (const d of disruptions) {
+    const effects = d.effects;
+    if (!effects) continue;
+    const effect = { hour: disruptionHour(d, dayStartHour), title: d.title };
+    effects.unavailableWorkers?.forEach(id => add(impact.offSick, id, effect));
+    effects.immobileWorkers?.forEach(id => add(impact.immobile, id, effect));
+    effects.blockedSubstations?.forEach(name => add(impact.blockedSubstations, name, effect));
+    effects.unavailableParts?.forEach(part => add(impact.unavailableParts, part, effect));
+    effects.completedWorkOrders?.forEach(c => impact.completedAt.set(c.id, c.atHour));
+  }
+  return impact;
+}
+
+// Why nobody can do a work order that would run until endHour, if so
+function blockedReason(wo: DispatchWorkOrder, impact: DisruptionImpact, endHour = Infinity): string | null {
+  const site = impact.blockedSubstations.get(wo.substationName);
+  if (site && endHour > site.hour) return `Deferred — ${site.title}`;
+  const part = wo.partsRequired.find(p => {
+    const effect = impact.unavailableParts.get(p);
+    return effect && endHour > effect.hour;
+  });
+  if (part) return `Deferred — ${part} unavailable (${impact.unavailableParts.get(part)!.title})`;
+  return null;
+}
+
+// Why this worker can't do the job from start, after driving, if so
+function workerConflict(state: WorkerState, start: number, hours: number, drive: number, impact: DisruptionImpact): string | null {
+  if (start + hours > state.offFrom) {
+    return `${state.worker.name} unavailable from ${formatHour(state.offFrom)} (${impact.offSick.get(state.worker.id)?.title})`;
+  }
+  if (drive > 0 && start - drive >= state.immobileFrom) {
+    return `${state.worker.name} has no vehicle from ${formatHour(state.immobileFrom)} (${impact.immobile.get(state.worker.id)?.title})`;
+  }
+  return null;
+}
+
+function findWorker(crews: CrewLead[], name: string): { worker: CrewMember; lead: CrewLead } | null {
+  for (const lead of crews) {
+    const worker = lead.workers.find(w => w.name === name);
+    if (worker) return { worker, lead };
+  }
+  return null;
+}
+
+function yardOf(lead: CrewLead): Location {
+  return opCoCenter(CREW_OPCO[lead.opCo] ?? lead.opCo);
+}
+
+function workerStates(crews: CrewLead[], impact: DisruptionImpact, startHour: number): Map<string, WorkerState> {
+  const states = new Map<string, WorkerState>();
+  for (const lead of crews) {
+    for (const worker of lead.workers) {
+      if (!worker.available) continue;
+      states.set(worker.name, {
+        worker,
+        lead,
+        freeAt: startHour,
+        location: yardOf(lead),
+        siteName: `${lead.opCo} yard`,
+        offFrom: impact.offSick.get(worker.id)?.hour ?? Infinity,
+        immobileFrom: impact.immobile.get(worker.id)?.hour ?? Infinity,
+      });
+    }
+  }
+  return states;
+}
+
+function ganttTask(
+  id: string,
+  wo: DispatchWorkOrder,
+  worker: string,
+  crewLead: string,
+  startHour: number,
+  durationHours: number,
+  status: WOStatus,
+): GanttTask {
+  return {
+    id,
+    workOrderId: wo.id,
+    assetName: wo.assetName,
+    worker,
+    crewLead,
+    priority: wo.priority,
+    startHour: round(startHour),
+    durationHours: round(durationHours),
+    status,
+  };
+}
+
+// ─── KPIs ──────────────────────────────────────────────────────────
+
+interface PlanWalk {
+  problems: Map<string, string>;   // task id -> why it won't happen
+  done: Set<string>;               // work order ids completed today
+  travelHours: number;
+  workHours: number;
+  capacityHours: number;
+}
+
+// Drive each worker's tasks in start order from their yard
+function walkPlan(
+  tasks: GanttTask[],
+  workOrders: DispatchWorkOrder[],
+  crews: CrewLead[],
+  impact: DisruptionImpact,
+  dayStart: number,
+  dayEnd: number,
+): PlanWalk {
+  const workers = workerStates(crews, impact, dayStart);
+  const byId = new Map(workOrders.map(wo => [wo.id, wo]));
+  const walk: PlanWalk = { problems: new Map(), done: new Set(), travelHours: 0, workHours: 0, capacityHours: 0 };
+
+  for (const task of [...tasks].sort((a, b) => a.startHour - b.startHour)) {
+    const wo = byId.get(task.workOrderId);
+    if (!wo || task.status === 'deferred' || task.status === 'on_hold') continue;
+    if (task.status === 'completed') {
+      walk.done.add(wo.id);
+      continue;
+    }
+    const state = workers.get(task.worker);
+    if (!state) {
+      walk.problems.set(task.id, `${task.worker} is not available today`);
+      continue;
+    }
+
+    const site = getWorkOrderLocation(wo);
+    const drive = driveHours(state.location, site);
+    const end = task.startHour + task.durationHours;
+    const problem = workerConflict(state, task.startHour, task.durationHours, drive, impact) ??
+      blockedReason(wo, impact, end)?.replace(/^Deferred — /, '') ??
+      (end > dayEnd + (wo.priority === 'P1' ? P1_OVERTIME_HOURS : 0) ? `Runs past end of shift (${formatHour(end)})` : null);
+    if (problem) {
+      walk.problems.set(task.id, problem);
+      continue;
+    }
+
+    walk.travelHours += drive;
+    walk.workHours += task.durationHours;
+    state.location = site;
+    walk.done.add(wo.id);
+  }
+
+  for (const state of workers.values()) {
+    walk.capacityHours += Math.max(0, Math.min(state.offFrom, dayEnd) - dayStart);
+  }
+  return walk;
+}
+
+/**
+ * Score a day plan. Tasks at blocked sites, missing parts or with a worker
+ * off sick or without a vehicle don't complete, whatever the plan says.
+ */
+export function evaluateDispatchPlan(
+  tasks: GanttTask[],
+  workOrders: DispatchWorkOrder[],
+  crews: CrewLead[],
+  options: DispatchPlanOptions = {},
+): ScenarioKPIs {
+  const dayStart = options.dayStartHour ?? DEFAULT_DAY_START;
+  const dayEnd = options.dayEndHour ?? DEFAULT_DAY_END;
+  const impact = disruptionImpact(options.disruptions ?? [], dayStart);
+  const walk = walkPlan(tasks, workOrders, crews, impact, dayStart, dayEnd);
+
+  const p1 = workOrders.filter(wo => wo.priority === 'P1');
+  const completed = workOrders.filter(wo => walk.done.has(wo.id));
+  const newlyCompleted = completed.filter(wo => wo.status !== 'completed');
+
+  return {
+    tasksCompleted: completed.length,
+    tasksTotal: workOrders.length,
+    p1Completion: p1.length > 0 ? Math.round(p1.filter(wo => walk.done.has(wo.id)).length / p1.length * 100) : 100,
+    travelTimeMins: Math.round(walk.travelHours * 60),
+    customersProtected: newlyCompleted.reduce((sum, wo) => sum + wo.customersAtRisk, 0),
+    costAvoidance: newlyCompleted.reduce((sum, wo) => sum + wo.costIfDelayed, 0),
+    crewUtilization: walk.capacityHours > 0 ? Math.min(100, Math.round(walk.workHours / walk.capacityHours * 100)) : 0,
+  };
+}
+
+// ─── Plans ─────────────────────────────────────────────────────────
+
+/** The day as currently dispatched: each work order's worker and time slot */
+export function buildDispatchedSchedule(
+  workOrders: DispatchWorkOrder[],
+  crews: CrewLead[],
+  options: DispatchPlanOptions = {},
+): ScheduleScenario {
+  const tasks: GanttTask[] = [];
+  for (const wo of workOrders) {
+    const start = slotStartHour(wo.timeSlot);
+    if (start === null || wo.status === 'deferred') continue;
+    const crewLead = findWorker(crews, wo.worker)?.lead.name ?? wo.crewLead;
+    tasks.push(ganttTask(`G-${String(tasks.length + 1).padStart(2, '0')}`, wo, wo.worker, crewLead, start, wo.estimatedHours, wo.status));
+  }
+  return {
+    id: 'legacy',
+    label: 'Original Schedule',
+    tasks,
+    kpis: evaluateDispatchPlan(tasks, workOrders, crews, options),
+  };
+}
+
+/**
+ * Plan the day from scratch around today's disruptions
+ *
+ * Completed work and work in progress stay where they are. Everything else is
+ * taken in priority order, then by delay penalty, and given to the certified,
+ * available worker who can finish it soonest after driving from their last
+ * site. Work that can't be finished today is left deferred with the reason.
+ */
+export function planDispatchDay(
+  workOrders: DispatchWorkOrder[],
+  crews: CrewLead[],
+  options: DispatchPlanOptions = {},
+): DispatchPlan {
+  const dayStart = options.dayStartHour ?? DEFAULT_DAY_START;
+  const dayEnd = options.dayEndHour ?? DEFAULT_DAY_END;
+  const nowHour = Math.max(dayStart, options.nowHour ?? dayStart);
+  const impact = disruptionImpact(options.disruptions ?? [], dayStart);
+  const workers = workerStates(crews, impact, dayStart);
+
+  const tasks: GanttTask[] = [];
+  const unscheduled: UnscheduledWorkOrder[] = [];
+  const reasons = new Map<string, string[]>();
+  const nextId = () => `G-${String(tasks.length + 1).padStart(2, '0')}`;
+  const note = (woId: string, reason: string) => reasons.set(woId, [...(reasons.get(woId) ?? []), reason]);
+
+  const book = (state: WorkerState, wo: DispatchWorkOrder, start: number, hours: number, status: WOStatus) => {
+    tasks.push(ganttTask(nextId(), wo, state.worker.name, state.lead.name, start, hours, status));
+    state.freeAt = Math.max(state.freeAt, start + hours);
+    state.location = getWorkOrderLocation(wo);
+    state.siteName = wo.substationName;
+  };
+
+  // Finished and under-way work holds its worker
+  const pinned = new Set<string>();
+  for (const wo of workOrders) {
+    const start = slotStartHour(wo.timeSlot);
+    const state = workers.get(wo.worker);
+    if (wo.status === 'completed' && start !== null) {
+      const finished = impact.completedAt.get(wo.id);
+      const hours = finished !== undefined ? Math.max(MIN_SHIFT_HOURS, finished - start) : wo.estimatedHours;
+      if (finished !== undefined) note(wo.id, `Completed at ${formatHour(finished)} — ${wo.worker} free early`);
+      if (state) book(state, wo, start, hours, 'completed');
+      else tasks.push(ganttTask(nextId(), wo, wo.worker, wo.crewLead, start, hours, 'completed'));
+      pinned.add(wo.id);
+    } else if (
+      wo.status === 'in_progress' && start !== null && state &&
+      !workerConflict(state, start, wo.estimatedHours, 0, impact) &&
+      !blockedReason(wo, impact, start + wo.estimatedHours)
+    ) {
+      book(state, wo, start, wo.estimatedHours, 'in_progress');
+      pinned.add(wo.id);
+    }
+  }
+
+  const open = workOrders
+    .filter(wo => !pinned.has(wo.id) && wo.status !== 'completed')
+    .sort((a, b) =>
+      PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+      delayPenaltyPerDay(b) - delayPenaltyPerDay(a)
+    );
+
+  for (const wo of open) {
+    const slotStart = slotStartHour(wo.timeSlot);
+    const blocked = blockedReason(wo, impact);
+    if (blocked) {
+      unscheduled.push({ workOrderId: wo.id, reason: blocked });
+      note(wo.id, blocked);
+      tasks.push(ganttTask(nextId(), wo, wo.worker, wo.crewLead, slotStart ?? dayStart, wo.estimatedHours, 'deferred'));
+      continue;
+    }
+
+    const site = getWorkOrderLocation(wo);
+    const latestEnd = dayEnd + (wo.priority === 'P1' ? P1_OVERTIME_HOURS : 0);
+    let best: { state: WorkerState; start: number; drive: number } | null = null;
+
+    for (const state of workers.values()) {
+      if (!isCertified(state.worker, wo)) continue;
+      const drive = driveHours(state.location, site);
+      const start = Math.max(nowHour, state.freeAt + drive);
+      if (start + wo.estimatedHours > latestEnd) continue;
+      if (workerConflict(state, start, wo.estimatedHours, drive, impact)) continue;
+      if (blockedReason(wo, impact, start + wo.estimatedHours)) continue;
+      // Soonest finish, then shortest drive, then whoever was dispatched
+      const better = !best ||
+        start < best.start - 0.01 ||
+        (Math.abs(start - best.start) <= 0.01 && (
+          drive < best.drive - 0.01 ||
+          (Math.abs(drive - best.drive) <= 0.01 && state.worker.name === wo.worker)
+        ));
+      if (better) best = { state, start, drive };
+    }
+
+    if (!best) {
+      const certified = [...workers.values()].some(s => isCertified(s.worker, wo));
+      const reason = certified
+        ? `Deferred — no certified worker can finish ${wo.estimatedHours}h today`
+        : `Deferred — no available worker holds ${requiredCertifications(wo).join(' or ')}`;
+      unscheduled.push({ workOrderId: wo.id, reason });
+      note(wo.id, reason);
+      tasks.push(ganttTask(nextId(), wo, wo.worker, wo.crewLead, slotStart ?? dayStart, wo.estimatedHours, 'deferred'));
+      continue;
+    }
+
+    const { state, start, drive } = best;
+    if (drive > 0) note(wo.id, `${formatShift(drive)} drive from ${state.siteName}`);
+    const status: WOStatus = state.worker.name === wo.worker && (wo.status === 'en_route' || wo.status === 'dispatched')
+      ? wo.status
+      : 'dispatched';
+    book(state, wo, start, wo.estimatedHours, status);
+  }
+
+  const plan: DispatchPlan = {
+    id: 'ai_optimized',
+    label: 'AI-Optimized Schedule',
+    tasks: options.baseline ? markChanges(tasks, options.baseline, workOrders, reasons) : tasks,
+    kpis: evaluateDispatchPlan(tasks, workOrders, crews, options),
+    unscheduled,
+  };
+  return plan;
+}
+
+/** Re-plan the day for the given disruptions against the current dispatch */
+export function replanDispatchDay(
+  workOrders: DispatchWorkOrder[],
+  crews: CrewLead[],
+  disruptions: Disruption[],
+  options: Omit<DispatchPlanOptions, 'disruptions' | 'baseline'> = {},
+): { original: ScheduleScenario; optimized: DispatchPlan } {
+  const original = buildDispatchedSchedule(workOrders, crews, { ...options, disruptions });
+  const optimized = planDispatchDay(workOrders, crews, { ...options, disruptions, baseline: original.tasks });
+  return { original, optimized };
+}
+
+function markChanges(
+  tasks: GanttTask[],
+  baseline: GanttTask[],
+  workOrders: DispatchWorkOrder[],
+  reasons: Map<string, string[]>,
+): GanttTask[] {
+  const before = new Map(baseline.map(t => [t.workOrderId, t]));
+  const byId = new Map(workOrders.map(wo => [wo.id, wo]));
+
+  return tasks.map(task => {
+    const old = before.get(task.workOrderId);
+    const wo = byId.get(task.workOrderId);
+    const why = reasons.get(task.workOrderId) ?? [];
+    const changes: string[] = [];
+
+    if (!old) {
+      if (task.status === 'deferred') return why.length > 0 ? { ...task, isChanged: true, changeReason: why.join(' · ') } : task;
+      changes.push(`Added — was ${wo?.status.replace('_', ' ') ?? 'unplanned'}`);
+    } else if (task.status === 'deferred' && old.status !== 'deferred') {
+      // reason already says why
+    } else {
+      if (old.worker !== task.worker) changes.push(`Reassigned from ${old.worker} to ${task.worker}`);
+      const shift = task.startHour - old.startHour;
+      if (shift <= -MIN_SHIFT_HOURS) changes.push(`Moved up ${formatShift(-shift)}`);
+      else if (shift >= MIN_SHIFT_HOURS) changes.push(`Pushed back ${formatShift(shift)}`);
+      if (Math.abs(task.durationHours - old.durationHours) >= MIN_SHIFT_HOURS && task.status !== 'completed') {
+        changes.push(`${round(task.durationHours, 1)}h on site`);
+      }
+    }
+
+    const completedEarly = task.status === 'completed' && old && task.durationHours < old.durationHours - 0.01;
+    if (changes.length === 0 && !completedEarly && !(task.status === 'deferred' && old?.status !== 'deferred')) return task;
+    return { ...task, isChanged: true, changeReason: [...changes, ...why].join(' · ') };
+  });
+}
+
+// ─── Incremental re-planning ───────────────────────────────────────
+
+export type ReplanChangeKind = 'reassign' | 'defer' | 'shorten' | 'add';
+
+export interface ReplanChange {
+  id: string;
+  kind: ReplanChangeKind;
+  taskId: string;
+  workOrderId: string;
+  before: GanttTask;
+  after: GanttTask;
+  reason: string;
+  dependsOn?: string[];   // only applied if these are accepted too
+}
+
+export interface AffectedTask {
+  taskId: string;
+  workOrderId: string;
+  reason: string;
+}
+
+export interface ReplanProposal {
+  disruptionId: string;
+  atHour: number;
+  affected: AffectedTask[];
+  changes: ReplanChange[];
+  kpisBefore: ScenarioKPIs;   // current plan once the disruption hits
+  kpisAfter: ScenarioKPIs;    // with every change accepted
+  kpiDelta: ScenarioKPIs;
+}
+
+interface Slot {
+  state: WorkerState;
+  start: number;
+  drive: number;
+  from: string;
+}
+
+/**
+ * Tasks in the current plan that a new disruption stops from happening.
+ * Options.disruptions are the ones the plan already allows for.
+ */
+export function findAffectedTasks(
+  tasks: GanttTask[],
+  disruption: Disruption,
+  workOrders: DispatchWorkOrder[],
+  crews: CrewLead[],
+  options: DispatchPlanOptions = {},
+): AffectedTask[] {
+  const dayStart = options.dayStartHour ?? DEFAULT_DAY_START;
+  const dayEnd = options.dayEndHour ?? DEFAULT_DAY_END;
+  const planned = (options.disruptions ?? []).filter(d => d.id !== disruption.id);
+  const before = walkPlan(tasks, workOrders, crews, disruptionImpact(planned, dayStart), dayStart, dayEnd).problems;
+  const after = walkPlan(tasks, workOrders, crews, disruptionImpact([...planned, disruption], dayStart), dayStart, dayEnd).problems;
+
+  return tasks
+    .filter(t => after.has(t.id) && !before.has(t.id))
+    .map(t => ({ taskId: t.id, workOrderId: t.workOrderId, reason: after.get(t.id)! }));
+}
+
+/** Ticked changes whose dependencies are all applied too */
+export function effectiveReplanChanges(changes: ReplanChange[], acceptedIds: Iterable<string>): Set<string> {
+  // Changes only depend on earlier ones, so one pass settles chains
+  const accepted = new Set<string>();
+  const ticked = new Set(acceptedIds);
+  for (const c of changes) {
+    if (ticked.has(c.id) && (c.dependsOn ?? []).every(id => accepted.has(id))) accepted.add(c.id);
+  }
+  return accepted;
+}
+
+/** Apply the accepted changes of a proposal to the plan */
+export function applyReplanChanges(tasks: GanttTask[], changes: ReplanChange[], acceptedIds: Iterable<string>): GanttTask[] {
+  const accepted = effectiveReplanChanges(changes, acceptedIds);
+  const applied = new Map(
+    changes
+      .filter(c => accepted.has(c.id))
+      .map(c => [c.taskId, c.after])
+  );
+  return tasks.map(t => applied.get(t.id) ?? t);
+}
+
+// Earliest gap in a worker's day that fits the job without moving anything
+function findSlot(
+  wo: DispatchWorkOrder,
+  hours: number,
+  workers: WorkerState[],
+  booked: Map<string, GanttTask[]>,
+  byId: Map<string, DispatchWorkOrder>,
+  impact: DisruptionImpact,
+  fromHour: number,
+  dayStart: number,
+  latestEnd: number,
+  preferLead: string,
+): Slot | null {
+  const site = getWorkOrderLocation(wo);
+  let best: Slot | null = null;
+
+  for (const state of workers) {
+    if (!isCertified(state.worker, wo)) continue;
+    const timeline = [...(booked.get(state.worker.name) ?? [])].sort((a, b) => a.startHour - b.startHour);
+    let prevEnd = dayStart;
+    let prevLocation = yardOf(state.lead);
+    let prevName = `${state.lead.opCo} yard`;
+
+    for (let i = 0; i <= timeline.length; i++) {
+      const next = timeline[i];
+      const nextWo = next ? byId.get(next.workOrderId) : undefined;
+      const drive = driveHours(prevLocation, site);
+      const start = Math.max(fromHour, prevEnd + drive);
+      const end = start + hours;
+      const driveOn = nextWo ? driveHours(site, getWorkOrderLocation(nextWo)) : 0;
+      const fits = end <= latestEnd &&
+        (!next || end + driveOn <= next.startHour) &&
+        !(next && driveOn > 0 && end >= state.immobileFrom) &&
+        !workerConflict(state, start, hours, drive, impact);
+
+      if (fits) {
+        const better = !best ||
+          end < best.start + hours - 0.01 ||
+          (Math.abs(end - (best.start + hours)) <= 0.01 && (
+            drive < best.drive - 0.01 ||
+            (Math.abs(drive - best.drive) <= 0.01 && state.lead.name === preferLead)
+          ));
+        if (better) best = { state, start, drive, from: prevName };
+        break;
+      }
+      if (!next) break;
+      prevEnd = Math.max(prevEnd, next.startHour + next.durationHours);
+      if (nextWo) {
+        prevLocation = getWorkOrderLocation(nextWo);
+        prevName = nextWo.substationName;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Smallest set of changes that keeps the day going after a disruption
+ *
+ * Only tasks the disruption invalidates are touched. Each goes to the
+ * certified worker with the earliest gap that fits it without moving their
+ * other work; failing that it bumps one lower-priority task, and failing that
+ * it's deferred. Time freed by early finishes or deferrals is offered to
+ * deferred work. Every change can be accepted or rejected on its own.
+ */
+export function proposeReplan(
+  tasks: GanttTask[],
+  disruption: Disruption,
+  workOrders: DispatchWorkOrder[],
+  crews: CrewLead[],
+  options: DispatchPlanOptions = {},
+): ReplanProposal {
+  const dayStart = options.dayStartHour ?? DEFAULT_DAY_START;
+  const dayEnd = options.dayEndHour ?? DEFAULT_DAY_END;
+  const disruptions = [...(options.disruptions ?? []).filter(d => d.id !== disruption.id), disruption];
+  const impact = disruptionImpact(disruptions, dayStart);
+  const atHour = disruptionHour(disruption, dayStart);
+  const fromHour = Math.max(atHour, options.nowHour ?? dayStart);
+  const byId = new Map(workOrders.map(wo => [wo.id, wo]));
+  const workers = [...workerStates(crews, impact, dayStart).values()];
+
+  const affected = findAffectedTasks(tasks, disruption, workOrders, crews, options);
+  const affectedIds = new Set(affected.map(a => a.taskId));
+  const booked = new Map<string, GanttTask[]>();
+  for (const t of tasks) {
+    if (t.status === 'deferred' || t.status === 'on_hold' || affectedIds.has(t.id)) continue;
+    booked.set(t.worker, [...(booked.get(t.worker) ?? []), t]);
+  }
+  const unbook = (t: GanttTask) => booked.set(t.worker, (booked.get(t.worker) ?? []).filter(b => b.id !== t.id));
+  const bookTask = (t: GanttTask) => booked.set(t.worker, [...(booked.get(t.worker) ?? []), t]);
+
+  const changes: ReplanChange[] = [];
+  const freed = new Set<string>();
+  const change = (kind: ReplanChangeKind, before: GanttTask, after: Omit<GanttTask, 'isChanged' | 'changeReason'>, reason: string, dependsOn?: string[]) => {
+    const id = `C-${changes.length + 1}`;
+    changes.push({
+      id, kind, taskId: before.id, workOrderId: before.workOrderId, before,
+      after: { ...after, isChanged: true, changeReason: reason },
+      reason,
+      ...(dependsOn ? { dependsOn } : {}),
+    });
+    return id;
+  };
+  const moveTo = (task: GanttTask, slot: Slot) => ({
+    ...task,
+    worker: slot.state.worker.name,
+    crewLead: slot.state.lead.name,
+    startHour: round(slot.start),
+    status: 'dispatched' as WOStatus,
+  });
+  // Time each change gives back; work later placed in it depends on that change
+  const freedTime: { worker: string; start: number; end: number; changeId: string }[] = [];
+  const release = (task: GanttTask, start: number, changeId: string) =>
+    freedTime.push({ worker: task.worker, start, end: task.startHour + task.durationHours, changeId });
+  const freedBy = (slot: Slot, hours: number, also: string[] = []) => {
+    const ids = freedTime
+      .filter(f => f.worker === slot.state.worker.name && f.start < slot.start + hours && f.end > slot.start - slot.drive)
+      .map(f => f.changeId);
+    const dependsOn = [...new Set([...also, ...ids])];
+    return dependsOn.length > 0 ? dependsOn : undefined;
+  };
+  const slotNote = (slot: Slot) =>
+    `${slot.state.worker.name} at ${formatHour(slot.start)}${slot.drive > 0 ? `, ${formatShift(slot.drive)} drive from ${slot.from}` : ''}`;
+
+  // Early finishes free the rest of the slot
+  for (const done of disruption.effects?.completedWorkOrders ?? []) {
+    const task = tasks.find(t => t.workOrderId === done.id);
+    if (!task || task.startHour + task.durationHours <= done.atHour + 0.01) continue;
+    const after = { ...task, status: 'completed' as WOStatus, durationHours: round(Math.max(MIN_SHIFT_HOURS, done.atHour - task.startHour)) };
+    unbook(task);
+    bookTask(after);
+    freed.add(task.worker);
+    const shortenId = change('shorten', task, after, `Finished at ${formatHour(done.atHour)} — ${task.worker} free ${formatShift(task.startHour + task.durationHours - done.atHour)} early`);
+    release(task, done.atHour, shortenId);
+  }
+
+  const urgency = (t: GanttTask) => {
+    const wo = byId.get(t.workOrderId);
+    return wo ? [PRIORITY_ORDER[wo.priority], -delayPenaltyPerDay(wo)] : [9, 0];
+  };
+  const byUrgency = (a: GanttTask, b: GanttTask) => {
+    const [pa, ca] = urgency(a);
+    const [pb, cb] = urgency(b);
+    return pa - pb || ca - cb;
+  };
+
+  const invalidated = affected.map(a => tasks.find(t => t.id === a.taskId)!).sort(byUrgency);
+  for (const task of invalidated) {
+    const wo = byId.get(task.workOrderId);
+    const cause = affected.find(a => a.taskId === task.id)!.reason;
+    if (!wo) continue;
+    freed.add(task.worker);
+
+    const blocked = blockedReason(wo, impact);
+    if (blocked) {
+      release(task, task.startHour, change('defer', task, { ...task, status: 'deferred' }, blocked));
+      continue;
+    }
+
+    const latestEnd = dayEnd + (wo.priority === 'P1' ? P1_OVERTIME_HOURS : 0);
+    const slot = findSlot(wo, task.durationHours, workers, booked, byId, impact, fromHour, dayStart, latestEnd, task.crewLead);
+    if (slot) {
+      const after = moveTo(task, slot);
+      bookTask(after);
+      release(task, task.startHour, change('reassign', task, after, `${cause} — moved to ${slotNote(slot)}`, freedBy(slot, task.durationHours)));
+      continue;
+    }
+
+    // Make room by bumping the least urgent task that frees a fitting gap
+    const bumpable = tasks
+      .filter(t =>
+        t.status !== 'completed' && t.status !== 'in_progress' && t.status !== 'deferred' &&
+        !affectedIds.has(t.id) && t.startHour >= fromHour &&
+        (booked.get(t.worker) ?? []).some(b => b.id === t.id) &&
+        byUrgency(task, t) < 0
+      )
+      .sort(byUrgency)
+      .reverse();
+    let placed = false;
+    for (const victim of bumpable) {
+      const state = workers.find(w => w.worker.name === victim.worker);
+      if (!state || !isCertified(state.worker, wo)) continue;
+      unbook(victim);
+      const room = findSlot(wo, task.durationHours, [state], booked, byId, impact, fromHour, dayStart, latestEnd, task.crewLead);
+      if (!room) {
+        bookTask(victim);
+        continue;
+      }
+      const bumpId = change('defer', victim, { ...victim, status: 'deferred' }, `Deferred to make room for ${wo.priority} ${wo.id}`);
+      const after = moveTo(task, room);
+      bookTask(after);
+      release(task, task.startHour, change('reassign', task, after, `${cause} — moved to ${slotNote(room)}, bumping ${victim.workOrderId}`, freedBy(room, task.durationHours, [bumpId])));
+      placed = true;
+      break;
+    }
+    if (!placed) {
+      release(task, task.startHour, change('defer', task, { ...task, status: 'deferred' }, `${cause} — no certified worker free today`));
+    }
+  }
+
+  // Freed time goes to deferred work that now fits
+  const freedWorkers = workers.filter(w => freed.has(w.worker.name));
+  if (freedWorkers.length > 0) {
+    for (const task of tasks.filter(t => t.status === 'deferred').sort(byUrgency)) {
+      const wo = byId.get(task.workOrderId);
+      if (!wo || blockedReason(wo, impact)) continue;
+      const latestEnd = dayEnd + (wo.priority === 'P1' ? P1_OVERTIME_HOURS : 0);
+      const slot = findSlot(wo, task.durationHours, freedWorkers, booked, byId, impact, fromHour, dayStart, latestEnd, task.crewLead);
+      if (!slot) continue;
+      const after = moveTo(task, slot);
+      bookTask(after);
+      change('add', task, after, `Added — ${slotNote(slot)} in freed time`, freedBy(slot, task.durationHours));
+    }
+  }
+
+  const evalOptions = { ...options, disruptions };
+  const kpisBefore = evaluateDispatchPlan(tasks, workOrders, crews, evalOptions);
+  const kpisAfter = evaluateDispatchPlan(applyReplanChanges(tasks, changes, changes.map(c => c.id)), workOrders, crews, evalOptions);
+  const kpiDelta = Object.fromEntries(
+    (Object.keys(kpisAfter) as (keyof ScenarioKPIs)[]).map(k => [k, kpisAfter[k] - kpisBefore[k]])
+  ) as unknown as ScenarioKPIs;
+
+  return { disruptionId: disruption.id, atHour, affected, changes, kpisBefore, kpisAfter, kpiDelta };
+}
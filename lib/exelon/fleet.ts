@@ -1,5 +1,7 @@
 import type { AssetType, AssetStatus, Position } from '@/lib/types'
 import type { TransformerProfile, ExelonOpCo, EXELON_OPCOS } from '@/lib/types/utility'
+import { evaluateAssetDGATrend } from '@/lib/dga/trend'
+import type { DGAStatusLevel } from '@/lib/dga/types'
 
 export interface ExelonAsset {
   assetTag: string
@@ -16,6 +18,7 @@ export interface ExelonAsset {
   model: string
   coolingType: string
   status: AssetStatus
+  dgaStatus?: DGAStatusLevel // IEEE C57.104-2019 DGA Status from sample history
   healthIndex: number
   loadFactor: number
   customersServed: number
@@ -31,7 +34,7 @@ export interface ExelonAsset {
   }
 }
 
-export const EXELON_ASSETS: ExelonAsset[] = [
+const FLEET_REGISTER: ExelonAsset[] = [
   // === ComEd (Northern Illinois) ===
   {
     assetTag: 'COMED-TF-001',
@@ -525,6 +528,19 @@ export const EXELON_ASSETS: ExelonAsset[] = [
   },
 ]
 
+// DGA Status 3 (active gassing) escalates an in-service asset to 'alert'
+function withDGAStatus(asset: ExelonAsset): ExelonAsset {
+  const trend = evaluateAssetDGATrend(asset.assetTag, { yearInstalled: asset.yearInstalled })
+  if (!trend) return asset
+  return {
+    ...asset,
+    dgaStatus: trend.status,
+    status: trend.status === 3 && asset.status === 'operational' ? 'alert' : asset.status,
+  }
+}
+
+export const EXELON_ASSETS: ExelonAsset[] = FLEET_REGISTER.map(withDGAStatus)
+
 export function getExelonAssetByTag(assetTag: string): ExelonAsset | undefined {
   return EXELON_ASSETS.find(a => a.assetTag === assetTag)
 }
@@ -0,0 +1,384 @@
+/**
+ * Exelon GridIQ Operations Advisor
+ *
+ * Tool-calling agent for the grid chat. Instead of pasting the whole fleet
+ * into the prompt, the model is given typed tools over the asset register,
+ * DGA history, predictive maintenance, work orders and alerts, and fetches
+ * only what a question needs. Every record a tool returns is tracked as a
+ * source so the answer can cite it.
+ *
+ * There is no impact-analysis tool: lib/impact-analysis models vessels and
+ * marine projects, not grid assets.
+ */
+
+import { stepCountIs, streamText, tool, type LanguageModel, type ModelMessage } from 'ai';
+import { z } from 'zod';
+import { EXELON_ASSETS, getExelonAssetByTag, type ExelonAsset } from './fleet';
+import { generateAlertsFromAssets } from './alerts';
+import { listMaintenanceHistory, listWorkOrders, WORK_ORDER_STATUSES } from './work-orders';
+import { getAssetIssues, getAssetIssueSummary } from '@/lib/asset-issues';
+import { getHistoryForAsset } from '@/lib/datasets/transformer-health';
+import { analyzeEquipment, planFleetMaintenance, transformerComponentList } from '@/lib/predictive-maintenance';
+import { getAssetSnapshots, getGridWeather, getPendingInsights } from '@/lib/simulation/grid-orchestrator';
+import { emergencyLoadDuration, parseCoolingMode, RATED_AMBIENT_TEMP } from '@/lib/thermal';
+
+// ─── Types ─────────────────────────────────────────────────────────
+
+export type GridSourceKind = 'asset' | 'dga_sample' | 'issue' | 'prediction' | 'work_order' | 'alert' | 'insight';
+
+export interface GridSource {
+  kind: GridSourceKind;
+  id: string;         // asset tag, work order id, alert id, ...
+  label: string;
+  assetTag?: string;
+}
+
+export interface GridAgentResult {
+  textStream: AsyncIterable<string>;
+  sources: () => GridSource[];   // complete once the text stream is done
+}
+
+const MAX_STEPS = 6;
+
+// ─── Sources ───────────────────────────────────────────────────────
+
+class SourceLog {
+  private seen = new Map<string, GridSource>();
+
+  add(source: GridSource) {
+    const key = `${source.kind}:${source.id}`;
+    if (!this.seen.has(key)) this.seen.set(key, source);
+  }
+
+  list(): GridSource[] {
+    return [...this.seen.values()];
+  }
+}
+
+// ─── Tools ─────────────────────────────────────────────────────────
+
+const OPCOS = ['BGE', 'ComEd', 'PECO', 'Pepco', 'ACE', 'DPL'] as const;
+
+const assetTagInput = z.object({
+  assetTag: z.string().describe('Asset tag, e.g. COMED-TF-004'),
+});
+
+function findAsset(assetTag: string): ExelonAsset | undefined {
+  return getExelonAssetByTag(assetTag) ?? getExelonAssetByTag(assetTag.toUpperCase());
+}
+
+const notFound = (assetTag: string) => ({ error: `No asset with tag ${assetTag}. Use searchAssets to find tags.` });
+
+function ambientC(): number {
+  const weather = getGridWeather();
+  return weather ? Math.round((weather.temperature - 32) * 5 / 9) : RATED_AMBIENT_TEMP;
+}
+
+function assetRow(asset: ExelonAsset) {
+  const issues = getAssetIssueSummary(asset.assetTag);
+  return {
+    assetTag: asset.assetTag,
+    name: asset.name,
+    type: asset.type,
+    opCo: asset.opCo,
+    substation: asset.substationName,
+    healthIndex: asset.healthIndex,
+    status: asset.status,
+    criticality: asset.criticality,
+    customersServed: asset.customersServed,
+    activeIssues: issues.issueCount,
+    worstIssuePriority: issues.worstPriority,
+  };
+}
+
+/** The agent's tools; every record they return is passed to `cite` */
+export function createGridTools(cite: (source: GridSource) => void) {
+  const citeAsset = (asset: ExelonAsset) => cite({ kind: 'asset', id: asset.assetTag, label: asset.name, assetTag: asset.assetTag });
+
+  return {
+    searchAssets: tool({
+      description: 'Find grid assets by name, substation, OpCo, type or condition. Returns compact rows, worst health first. Use this to discover asset tags.',
+      inputSchema: z.object({
+        query: z.string().optional().describe('Matches asset name, tag or substation'),
+        opCo: z.enum(OPCOS).optional(),
+        type: z.string().optional().describe('e.g. power_transformer, distribution_transformer, breaker'),
+        maxHealthIndex: z.number().min(0).max(100).optional().describe('Only assets at or below this health index'),
+        criticality: z.enum(['critical', 'major', 'standard']).optional(),
+        limit: z.number().int().min(1).max(50).default(10),
+      }),
+      execute: async ({ query, opCo, type, maxHealthIndex, criticality, limit }) => {
+        const q = query?.toLowerCase();
+        const matches = EXELON_ASSETS.filter(a =>
+          (!q || a.name.toLowerCase().includes(q) || a.assetTag.toLowerCase().includes(q) || a.substationName.toLowerCase().includes(q)) &&
+          (!opCo || a.opCo === opCo) &&
+          (!type || a.type === type) &&
+          (maxHealthIndex === undefined || a.healthIndex <= maxHealthIndex) &&
+          (!criticality || a.criticality === criticality)
+        ).sort((a, b) => a.healthIndex - b.healthIndex);
+
+        const rows = matches.slice(0, limit);
+        rows.forEach(citeAsset);
+        return { totalMatches: matches.length, assets: rows.map(assetRow) };
+      },
+    }),
+
+    getAsset: tool({
+      description: 'Nameplate, condition, open component issues, live load and temperatures, and the IEEE C57.91 safe duration of a 130% emergency load for one asset.',
+      inputSchema: assetTagInput,
+      execute: async ({ assetTag }) => {
+        const asset = findAsset(assetTag);
+        if (!asset) return notFound(assetTag);
+        citeAsset(asset);
+
+        const snapshot = getAssetSnapshots().find(s => s.assetTag === asset.assetTag);
+        const coolingMode = parseCoolingMode(asset.coolingType);
+        const ambient = ambientC();
+        const emergency = coolingMode
+          ? emergencyLoadDuration(1.3, ambient, coolingMode, { preLoadPU: (snapshot?.loadPercent ?? asset.loadFactor) / 100 })
+          : null;
+        const issues = getAssetIssues(asset.assetTag)?.issues ?? [];
+        issues.forEach((issue, i) => cite({
+          kind: 'issue', id: `${asset.assetTag}#${i + 1}`, label: `${issue.componentName}: ${issue.issue}`, assetTag: asset.assetTag,
+        }));
+
+        return {
+          ...assetRow(asset),
+          voltageClassKV: asset.voltageClassKV,
+          ratedMVA: asset.ratedMVA,
+          yearInstalled: asset.yearInstalled,
+          ageYears: new Date().getFullYear() - asset.yearInstalled,
+          manufacturer: asset.manufacturer,
+          coolingType: asset.coolingType,
+          dgaStatus: asset.dgaStatus ?? null,
+          lastInspection: asset.lastInspection ?? null,
+          issues: issues.map(i => ({
+            component: i.componentName,
+            issue: i.issue,
+            status: i.status,
+            healthScore: i.healthScore,
+            predictedIssue: i.pmPrediction.predictedIssue,
+            recommendedAction: i.pmPrediction.recommendedAction,
+          })),
+          live: snapshot ? {
+            loadPercent: snapshot.loadPercent,
+            topOilTemp: snapshot.topOilTemp,
+            hotSpotTemp: snapshot.hotSpotTemp,
+            agingAccelerationFactor: snapshot.agingAccelerationFactor,
+            insulationLifeConsumedHours: Math.round(snapshot.insulationAgingHours * 100) / 100,
+          } : null,
+          emergency130: emergency ? {
+            safeHours: emergency.safeHours,
+            limitingFactor: emergency.limitingFactor,
+            ambientC: ambient,
+            peakHotSpotTemp: emergency.peakHotSpotTemp,
+            insulationLifeConsumedHours: emergency.agingHours,
+          } : null,
+        };
+      },
+    }),
+
+    getAssetHistory: tool({
+      description: 'Dissolved gas and oil quality samples for a transformer, newest first, with the trend between the oldest and newest returned.',
+      inputSchema: assetTagInput.extend({
+        limit: z.number().int().min(1).max(24).default(6),
+      }),
+      execute: async ({ assetTag, limit }) => {
+        const asset = findAsset(assetTag);
+        if (!asset) return notFound(assetTag);
+
+        const samples = getHistoryForAsset(asset.assetTag).slice(-limit).reverse();
+        samples.forEach(s => cite({
+          kind: 'dga_sample', id: `${asset.assetTag}@${s.timestamp}`, label: `DGA sample ${s.timestamp.slice(0, 10)}`, assetTag: asset.assetTag,
+        }));
+        const newest = samples[0];
+        const oldest = samples[samples.length - 1];
+
+        return {
+          assetTag: asset.assetTag,
+          sampleCount: samples.length,
+          samples: samples.map(s => ({
+            date: s.timestamp.slice(0, 10),
+            tdcg: s.tdcg, h2: s.h2, ch4: s.ch4, c2h2: s.c2h2, c2h4: s.c2h4, c2h6: s.c2h6, co: s.co, co2: s.co2,
+            moisture: s.moisture,
+            dielectricStrength: s.dielectricStrength,
+            furan2FAL: s.furan2FAL,
+            loadPercent: s.loadPercent,
+            healthIndex: s.healthIndex,
+            condition: s.condition,
+          })),
+          trend: newest && oldest && newest !== oldest ? {
+            from: oldest.timestamp.slice(0, 10),
+            to: newest.timestamp.slice(0, 10),
+            tdcgChange: newest.tdcg - oldest.tdcg,
+            c2h2Change: newest.c2h2 - oldest.c2h2,
+            healthIndexChange: newest.healthIndex - oldest.healthIndex,
+          } : null,
+        };
+      },
+    }),
+
+    analyzeEquipment: tool({
+      description: 'Run predictive maintenance on a transformer: per-component failure predictions, remaining useful life, recommended action, cost of inaction and the week each job is booked on the fleet maintenance calendar.',
+      inputSchema: assetTagInput,
+      execute: async ({ assetTag }) => {
+        const asset = findAsset(assetTag);
+        if (!asset) return notFound(assetTag);
+        if (asset.type !== 'power_transformer' && asset.type !== 'distribution_transformer') {
+          return { error: `${asset.assetTag} is a ${asset.type}; predictive maintenance covers transformers only` };
+        }
+
+        const recordedWorkOrders = await listMaintenanceHistory();
+        const analysis = analyzeEquipment({
+          assetType: asset.type,
+          assetId: asset.assetTag,
+          assetName: asset.name,
+          componentList: transformerComponentList(asset.assetTag, {
+            ageYears: new Date().getFullYear() - asset.yearInstalled,
+            healthIndex: asset.healthIndex,
+          }),
+          recordedWorkOrders,
+        });
+        analysis.predictions.forEach(p => cite({
+          kind: 'prediction', id: `${asset.assetTag}:${p.componentId}`, label: `${p.componentName}: ${p.predictedIssue}`, assetTag: asset.assetTag,
+        }));
+        // Dates come only from the fleet calendar, which books every job against shared crews
+        const { plan } = planFleetMaintenance({ recordedWorkOrders });
+        const booking = (componentType: string) =>
+          plan.items.find(i => i.assetId === asset.assetTag && i.componentType === componentType);
+
+        return {
+          assetTag: asset.assetTag,
+          overallHealthScore: analysis.overallHealthScore,
+          predictions: analysis.predictions.map(p => {
+            const booked = booking(p.componentType);
+            return {
+              component: p.componentName,
+              priority: p.priority,
+              predictedIssue: p.predictedIssue,
+              remainingLife: p.remainingLife,
+              confidence: p.confidence,
+              recommendedAction: p.recommendedAction,
+              plannedWeek: booked ? { start: booked.start.toISOString().slice(0, 10), crew: booked.crewLeadName } : null,
+              costOfInaction: p.costOfInaction.amount,
+              repairCost: p.estimatedRepairCost,
+            };
+          }),
+          keyReasoning: analysis.reasoningChain.filter(s => s.isKey).map(s => s.text),
+        };
+      },
+    }),
+
+    getWorkOrdersByStatus: tool({
+      description: 'Field work orders, optionally filtered by status and OpCo, with priority, asset, crew and cost of delay.',
+      inputSchema: z.object({
+        status: z.enum(WORK_ORDER_STATUSES as [string, ...string[]]).optional(),
+        opCo: z.enum(OPCOS).optional(),
+        assetTag: z.string().optional(),
+        limit: z.number().int().min(1).max(50).default(15),
+      }),
+      execute: async ({ status, opCo, assetTag, limit }) => {
+        const all = await listWorkOrders({ status: status as typeof WORK_ORDER_STATUSES[number] | undefined, opCo });
+        const matches = all.filter(wo => !assetTag || wo.assetTag.toUpperCase() === assetTag.toUpperCase());
+        const rows = matches.slice(0, limit);
+        rows.forEach(wo => cite({ kind: 'work_order', id: wo.id, label: wo.title, assetTag: wo.assetTag }));
+
+        return {
+          totalMatches: matches.length,
+          workOrders: rows.map(wo => ({
+            id: wo.id,
+            priority: wo.priority,
+            status: wo.status,
+            title: wo.title,
+            assetTag: wo.assetTag,
+            substation: wo.substationName,
+            opCo: wo.opCo,
+            worker: wo.worker,
+            timeSlot: wo.timeSlot,
+            costIfDelayed: wo.costIfDelayed,
+            customersAtRisk: wo.customersAtRisk,
+            daysToEscalation: wo.daysToEscalation,
+          })),
+        };
+      },
+    }),
+
+    getActiveAlerts: tool({
+      description: 'Current health, DGA, thermal and loading alerts across the fleet.',
+      inputSchema: z.object({
+        opCo: z.enum(OPCOS).optional(),
+        severity: z.enum(['critical', 'warning', 'info']).optional(),
+        limit: z.number().int().min(1).max(50).default(10),
+      }),
+      execute: async ({ opCo, severity, limit }) => {
+        const rank = { critical: 0, warning: 1, info: 2 };
+        const alerts = generateAlertsFromAssets(EXELON_ASSETS)
+          .filter(a => (!opCo || a.opCo === opCo) && (!severity || a.severity === severity))
+          .sort((a, b) => rank[a.severity] - rank[b.severity] || b.customersAffected - a.customersAffected);
+        const rows = alerts.slice(0, limit);
+        rows.forEach(a => cite({ kind: 'alert', id: a.id, label: a.title, assetTag: a.assetId }));
+
+        return {
+          totalAlerts: alerts.length,
+          alerts: rows.map(a => ({
+            id: a.id, severity: a.severity, type: a.type, assetTag: a.assetId, assetName: a.assetName,
+            opCo: a.opCo, title: a.title, description: a.description, customersAffected: a.customersAffected,
+          })),
+        };
+      },
+    }),
+
+    getGridConditions: tool({
+      description: 'Current weather over the service territory and the grid simulator\'s pending forecasts, anomalies and recommendations.',
+      inputSchema: z.object({}),
+      execute: async () => {
+        const insights = getPendingInsights().slice(0, 5);
+        insights.forEach(i => cite({ kind: 'insight', id: i.id, label: i.title }));
+        return { weather: getGridWeather(), ambientC: ambientC(), insights };
+      },
+    }),
+  };
+}
+
+export type GridTools = ReturnType<typeof createGridTools>;
+
+// ─── Agent ─────────────────────────────────────────────────────────
+
+function fleetHeadline(): string {
+  const critical = EXELON_ASSETS.filter(a => a.healthIndex < 40).length;
+  const byOpCo = OPCOS.map(o => `${o} ${EXELON_ASSETS.filter(a => a.opCo === o).length}`).join(', ');
+  return `${EXELON_ASSETS.length} assets (${byOpCo}); ${critical} below health index 40.`;
+}
+
+export function gridAgentSystemPrompt(): string {
+  return `You are the Exelon GridIQ Operations Advisor — an assistant for utility grid operations managers. Help them TAKE ACTION to improve reliability, reduce outage risk and optimise maintenance.
+
+## Fleet
+${fleetHeadline()}
+You don't have the fleet data in front of you. Use the tools to look up exactly what the question needs: searchAssets to find asset tags, then getAsset, getAssetHistory, analyzeEquipment, getWorkOrdersByStatus, getActiveAlerts and getGridConditions. Don't guess values a tool can give you.
+
+## Citations
+Cite the records behind every claim inline in square brackets: asset tags [COMED-TF-004], work orders [WO-2026-002], alerts by id. Only cite records a tool returned in this conversation.
+
+## How You Respond
+1. **Quick Summary** (1-2 sentences)
+2. **Recommended Actions** (numbered, prioritised, specific: "Do this now: ...")
+3. **Expected Impact** (reliability, cost, risk)
+
+Quantify everything: DGA against IEEE C57.104 thresholds, loading against nameplate, emergency overload hours per IEEE C57.91 (getAsset's emergency130), insulation life consumed, cost of deferral vs action, customers at risk. No filler, no hedging.
+
+## Expertise
+DGA (Duval Triangle, Rogers Ratio, Key Gas, IEEE C57.104), transformer loading (IEEE C57.91), health indexing (IEEE C57.152), N-1 contingency, PJM coordination, load transfers, and the Exelon OpCos: BGE, ComEd, PECO, Pepco, ACE, DPL.`;
+}
+
+/** Answer a chat turn, calling tools as needed */
+export function runGridAgent(model: LanguageModel, messages: ModelMessage[]): GridAgentResult {
+  const log = new SourceLog();
+  const result = streamText({
+    model,
+    system: gridAgentSystemPrompt(),
+    messages,
+    tools: createGridTools(source => log.add(source)),
+    stopWhen: stepCountIs(MAX_STEPS),
+  });
+  return { textStream: result.textStream, sources: () => log.list() };
+}
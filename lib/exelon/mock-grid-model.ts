@@ -0,0 +1,188 @@
+/**
+ * Local mock model for the grid advisor
+ *
+ * A deterministic stand-in for the LLM, selected with GRID_ADVISOR_MODEL=mock
+ * so the tool-calling agent runs without an API key and in tests. The first
+ * step picks tools from keywords and asset tags in the question; once tool
+ * results are in the prompt it writes a short answer from them, citing the
+ * records it used.
+ */
+
+import { MockLanguageModelV3, simulateReadableStream } from 'ai/test';
+
+type CallOptions = Parameters<MockLanguageModelV3['doStream']>[0];
+type StreamResult = Awaited<ReturnType<MockLanguageModelV3['doStream']>>;
+type StreamPart = StreamResult['stream'] extends ReadableStream<infer T> ? T : never;
+type PromptMessage = CallOptions['prompt'][number];
+
+interface PlannedCall {
+  toolName: string;
+  input: Record<string, unknown>;
+}
+
+interface ToolOutput {
+  toolName: string;
+  value: Record<string, unknown>;
+}
+
+const ASSET_TAG = /\b[A-Z]{2,6}-[A-Z]{2}-\d{3}\b/gi;
+const OPCOS = ['BGE', 'ComEd', 'PECO', 'Pepco', 'ACE', 'DPL'];
+const STATUSES: Array<[RegExp, string]> = [
+  [/in[ _-]?progress/i, 'in_progress'],
+  [/en[ _-]?route/i, 'en_route'],
+  [/on[ _-]?hold/i, 'on_hold'],
+  [/deferred/i, 'deferred'],
+  [/completed|closed/i, 'completed'],
+  [/dispatched/i, 'dispatched'],
+];
+
+const USAGE = {
+  inputTokens: { total: 0, noCache: 0, cacheRead: 0, cacheWrite: 0 },
+  outputTokens: { total: 0, text: 0, reasoning: 0 },
+};
+
+// ─── Planning ──────────────────────────────────────────────────────
+
+function textOf(message: PromptMessage): string {
+  if (typeof message.content === 'string') return message.content;
+  return message.content.map(part => (part.type === 'text' ? part.text : '')).join(' ');
+}
+
+/** Tool calls for a question, from the asset tags and keywords in it */
+export function planToolCalls(question: string): PlannedCall[] {
+  const calls: PlannedCall[] = [];
+  const tags = [...new Set((question.match(ASSET_TAG) ?? []).map(t => t.toUpperCase()))];
+  const opCo = OPCOS.find(o => new RegExp(`\\b${o}\\b`, 'i').test(question));
+  const q = question.toLowerCase();
+
+  for (const assetTag of tags) {
+    calls.push({ toolName: 'getAsset', input: { assetTag } });
+    if (/dga|gas|oil|trend|history|sample/.test(q)) calls.push({ toolName: 'getAssetHistory', input: { assetTag, limit: 6 } });
+    if (/predict|fail|remaining|rul|life|maintenance/.test(q)) calls.push({ toolName: 'analyzeEquipment', input: { assetTag } });
+  }
+  if (/work order|dispatch|crew|job/.test(q)) {
+    const status = STATUSES.find(([pattern]) => pattern.test(q))?.[1];
+    calls.push({ toolName: 'getWorkOrdersByStatus', input: { ...(status && { status }), ...(opCo && { opCo }), limit: 10 } });
+  }
+  if (/weather|storm|heat|temperature|forecast/.test(q)) calls.push({ toolName: 'getGridConditions', input: {} });
+  if (calls.length === 0 || /alert|attention|today|critical|risk|worst/.test(q)) {
+    calls.push({ toolName: 'getActiveAlerts', input: { ...(opCo && { opCo }), limit: 5 } });
+    if (tags.length === 0) calls.push({ toolName: 'searchAssets', input: { ...(opCo && { opCo }), maxHealthIndex: 60, limit: 5 } });
+  }
+  return calls;
+}
+
+// ─── Answering ─────────────────────────────────────────────────────
+
+type Row = Record<string, unknown>;
+const rows = (v: unknown): Row[] => (Array.isArray(v) ? (v as Row[]) : []);
+const money = (n: unknown) => `$${Math.round(Number(n) || 0).toLocaleString('en-US')}`;
+
+function summarize({ toolName, value }: ToolOutput, actions: string[]): string[] {
+  if (typeof value.error === 'string') return [`- ${value.error}`];
+
+  switch (toolName) {
+    case 'searchAssets':
+      return rows(value.assets).map(a =>
+        `- [${a.assetTag}] ${a.name} — health ${a.healthIndex}, ${a.activeIssues} open issue(s), ${Number(a.customersServed).toLocaleString('en-US')} customers`);
+    case 'getAsset': {
+      const lines = [`- [${value.assetTag}] ${value.name} (${value.opCo}, ${value.ageYears} yrs) — health index ${value.healthIndex}, ${value.status}`];
+      for (const issue of rows(value.issues).slice(0, 2)) {
+        lines.push(`  - ${issue.component}: ${issue.issue}`);
+        actions.push(`[${value.assetTag}] ${issue.recommendedAction}`);
+      }
+      const emergency = value.emergency130 as Row | null;
+      if (emergency) lines.push(`  - 130% emergency load safe for ${emergency.safeHours} h (limited by ${emergency.limitingFactor})`);
+      return lines;
+    }
+    case 'getAssetHistory': {
+      const trend = value.trend as Row | null;
+      return trend
+        ? [`- [${value.assetTag}] TDCG ${Number(trend.tdcgChange) >= 0 ? '+' : ''}${trend.tdcgChange} ppm and C2H2 ${Number(trend.c2h2Change) >= 0 ? '+' : ''}${trend.c2h2Change} ppm from ${trend.from} to ${trend.to}`]
+        : [`- [${value.assetTag}] ${value.sampleCount} DGA sample(s) on record`];
+    }
+    case 'analyzeEquipment':
+      return rows(value.predictions).slice(0, 2).map(p => {
+        const week = p.plannedWeek as Row | null;
+        actions.push(`[${value.assetTag}] ${String(p.recommendedAction).trim()}` +
+          (week ? ` Booked for the week of ${week.start}${week.crew ? ` (${week.crew}'s crew)` : ''}.` : ''));
+        return `- [${value.assetTag}] ${p.component} (${p.priority}): ${p.predictedIssue} — ${money(p.costOfInaction)} cost of inaction`;
+      });
+    case 'getWorkOrdersByStatus':
+      return [`- ${value.totalMatches} work order(s)`, ...rows(value.workOrders).slice(0, 5).map(wo =>
+        `  - [${wo.id}] ${wo.priority} ${String(wo.status).replace('_', ' ')}: ${wo.title} at [${wo.assetTag}]`)];
+    case 'getActiveAlerts':
+      return [`- ${value.totalAlerts} active alert(s)`, ...rows(value.alerts).map(a => {
+        if (a.severity === 'critical') actions.push(`[${a.assetTag}] ${a.title} — inspect and confirm with a DGA sample`);
+        return `  - [${a.assetTag}] ${a.severity}: ${a.title}`;
+      })];
+    case 'getGridConditions': {
+      const weather = value.weather as Row | null;
+      return [weather ? `- Weather: ${weather.condition ?? ''} ${weather.temperature}°F` : `- No live weather; ambient ${value.ambientC}°C assumed`];
+    }
+    default:
+      return [];
+  }
+}
+
+/** A short answer built from the tool results */
+export function composeAnswer(outputs: ToolOutput[]): string {
+  const actions: string[] = [];
+  const findings = outputs.flatMap(o => summarize(o, actions));
+  const unique = [...new Set(actions)].slice(0, 5);
+
+  return [
+    '**Quick Summary**',
+    ...(findings.length > 0 ? findings : ['- Nothing found for that question.']),
+    '',
+    '**Recommended Actions**',
+    ...(unique.length > 0 ? unique.map((a, i) => `${i + 1}. ${a}`) : ['1. No action needed on these records.']),
+  ].join('\n');
+}
+
+// ─── Model ─────────────────────────────────────────────────────────
+
+// Tool results returned since the last user message, or null if tools haven't run yet
+function toolOutputsSinceQuestion(prompt: CallOptions['prompt']): ToolOutput[] | null {
+  const lastUser = prompt.map(m => m.role).lastIndexOf('user');
+  const after = prompt.slice(lastUser + 1);
+  if (!after.some(m => m.role === 'tool')) return null;
+
+  return after.flatMap(m => (m.role === 'tool' ? m.content : []))
+    .flatMap(part => (part.type === 'tool-result' && part.output.type === 'json'
+      ? [{ toolName: part.toolName, value: part.output.value as Record<string, unknown> }]
+      : []));
+}
+
+function respond(options: CallOptions): StreamPart[] {
+  const outputs = toolOutputsSinceQuestion(options.prompt);
+  const parts: StreamPart[] = [{ type: 'stream-start', warnings: [] }];
+
+  if (outputs === null && options.tools?.length) {
+    const question = [...options.prompt].reverse().find(m => m.role === 'user');
+    const calls = planToolCalls(question ? textOf(question) : '');
+    const available = new Set(options.tools.map(t => t.name));
+    calls.filter(c => available.has(c.toolName)).forEach((call, i) => {
+      parts.push({ type: 'tool-call', toolCallId: `call-${i + 1}`, toolName: call.toolName, input: JSON.stringify(call.input) });
+    });
+    parts.push({ type: 'finish', finishReason: { unified: 'tool-calls', raw: undefined }, usage: USAGE });
+    return parts;
+  }
+
+  const answer = composeAnswer(outputs ?? []);
+  parts.push({ type: 'text-start', id: 'text-1' });
+  for (const line of answer.split(/(?<=\n)/)) parts.push({ type: 'text-delta', id: 'text-1', delta: line });
+  parts.push({ type: 'text-end', id: 'text-1' });
+  parts.push({ type: 'finish', finishReason: { unified: 'stop', raw: undefined }, usage: USAGE });
+  return parts;
+}
+
+export function createMockGridModel(): MockLanguageModelV3 {
+  return new MockLanguageModelV3({
+    provider: 'gridiq-mock',
+    modelId: 'grid-advisor-mock',
+    doStream: async options => ({
+      stream: simulateReadableStream({ chunks: respond(options), chunkDelayInMs: null }),
+    }),
+  });
+}
@@ -0,0 +1,508 @@
+/**
+ * Exelon GridIQ Work Order Service
+ *
+ * Lifecycle for field work orders: status changes go through an allowed
+ * transition table, every change is written to an audit trail with who made
+ * it, and LOTO procedures and checklists are attached as artifacts.
+ *
+ * Work orders live in the Supabase `work_orders`, `work_order_events` and
+ * `work_order_artifacts` tables. Today's dispatch fixtures fill in anything
+ * not in the table yet, and without Supabase the service keeps everything
+ * in memory. Completed repairs are fed into predictive-maintenance history.
+ */
+
+import { supabase, isSupabaseConfigured, WorkOrderRecord, WorkOrderEventRecord, WorkOrderArtifactRecord } from '@/lib/supabase';
+import type { Json } from '@/lib/database.types';
+import type { ChecklistSchema, LOTOSchema, WorkOrderSchema } from '@/app/components/a2ui/types';
+import type { PMWorkOrder } from '@/lib/predictive-maintenance/types';
+import { DISPATCH_WORK_ORDERS, type DispatchWorkOrder, type WOPriority, type WOStatus } from './dispatch-data';
+
+// ─── Types ─────────────────────────────────────────────────────────
+
+export interface FieldWorkOrder extends DispatchWorkOrder {
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  resolution?: string;
+  laborHours?: number;
+  partsCost?: number;
+}
+
+export interface WorkOrderEvent {
+  id: string;
+  workOrderId: string;
+  fromStatus: WOStatus | null; // null when the work order was created
+  toStatus: WOStatus;
+  actor: string;
+  note?: string;
+  changes?: Record<string, unknown>;
+  occurredAt: string;
+}
+
+export type WorkOrderArtifact =
+  | { id: string; workOrderId: string; kind: 'loto'; payload: LOTOSchema; attachedBy: string; attachedAt: string }
+  | { id: string; workOrderId: string; kind: 'checklist'; payload: ChecklistSchema; attachedBy: string; attachedAt: string };
+
+export type WorkOrderArtifactKind = WorkOrderArtifact['kind'];
+
+export interface WorkOrderDetail {
+  workOrder: FieldWorkOrder;
+  events: WorkOrderEvent[];
+  artifacts: WorkOrderArtifact[];
+  allowedTransitions: WOStatus[];
+}
+
+export interface TransitionInput {
+  actor: string;
+  note?: string;
+  resolution?: string;   // completion only
+  laborHours?: number;
+  partsCost?: number;
+}
+
+export type NewWorkOrderInput = Pick<DispatchWorkOrder, 'title' | 'assetTag'> & Partial<Omit<DispatchWorkOrder, 'status'>>;
+
+/** A status change the lifecycle doesn't allow, or whose preconditions aren't met */
+export class WorkOrderTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkOrderTransitionError';
+  }
+}
+
+// ─── Lifecycle ─────────────────────────────────────────────────────
+
+// dispatched → en_route → in_progress → completed, with holds and deferrals
+// along the way. Completed is final.
+const TRANSITIONS: Record<WOStatus, WOStatus[]> = {
+  dispatched: ['en_route', 'on_hold', 'deferred'],
+  en_route: ['in_progress', 'on_hold', 'deferred'],
+  in_progress: ['completed', 'on_hold', 'deferred'],
+  on_hold: ['dispatched', 'en_route', 'in_progress', 'deferred'],
+  deferred: ['dispatched'],
+  completed: [],
+};
+
+export const WORK_ORDER_STATUSES = Object.keys(TRANSITIONS) as WOStatus[];
+
+// Work that opens up energised equipment needs a LOTO with every point isolated first
+const LOTO_TASK_TYPES = /repair|tap changer|oil processing|arrester|cable testing/i;
+
+// Dispatch task types that map onto a tracked transformer component
+const COMPONENT_BY_TASK: Array<[RegExp, string, string]> = [
+  [/bushing/i, 'bushing', 'HV Bushings'],
+  [/tap changer/i, 'tap-changer', 'On-Load Tap Changer'],
+  [/cooling|thermal/i, 'cooling', 'Cooling System'],
+  [/dga|oil/i, 'oil', 'Insulating Oil'],
+  [/arrester/i, 'surge-arrester', 'Surge Arrester'],
+  [/relay/i, 'relay', 'Protection Relay'],
+];
+
+export function allowedTransitions(status: WOStatus): WOStatus[] {
+  return TRANSITIONS[status] ?? [];
+}
+
+export function canTransition(from: WOStatus, to: WOStatus): boolean {
+  return allowedTransitions(from).includes(to);
+}
+
+export function requiresLoto(wo: Pick<DispatchWorkOrder, 'taskType'>): boolean {
+  return LOTO_TASK_TYPES.test(wo.taskType);
+}
+
+/** Why the move isn't allowed, or null if it is */
+export function transitionBlocker(
+  wo: FieldWorkOrder,
+  to: WOStatus,
+  artifacts: WorkOrderArtifact[],
+  input: Partial<TransitionInput> = {},
+): string | null {
+  if (!canTransition(wo.status, to)) {
+    const allowed = allowedTransitions(wo.status);
+    return `${wo.id} can't go from ${wo.status} to ${to}` +
+      (allowed.length > 0 ? ` (allowed: ${allowed.join(', ')})` : ' — it is closed');
+  }
+  if ((to === 'on_hold' || to === 'deferred') && !input.note?.trim()) {
+    return `A note is required to put ${wo.id} ${to === 'on_hold' ? 'on hold' : 'deferred'}`;
+  }
+
+  const lotos = artifacts.filter((a): a is Extract<WorkOrderArtifact, { kind: 'loto' }> => a.kind === 'loto');
+  if (to === 'in_progress' && requiresLoto(wo)) {
+    const isolated = lotos.some(a => a.payload.isolationPoints.length > 0 && a.payload.isolationPoints.every(p => p.isolated));
+    if (!isolated) return `${wo.taskType} needs a LOTO procedure with every isolation point isolated before work starts`;
+  }
+
+  if (to === 'completed') {
+    for (const a of artifacts) {
+      if (a.kind === 'checklist') {
+        const open = a.payload.categories.flatMap(c => c.items).filter(i => i.required && !isItemDone(i));
+        if (open.length > 0) return `Checklist "${a.payload.title}" has ${open.length} required item${open.length === 1 ? '' : 's'} open`;
+      } else {
+        const pending = a.payload.reinstatementSteps.filter(s => !s.completed);
+        if (pending.length > 0) return `LOTO ${a.payload.procedureNumber} has ${pending.length} reinstatement step${pending.length === 1 ? '' : 's'} left`;
+      }
+    }
+  }
+  return null;
+}
+
+function isItemDone(item: ChecklistSchema['categories'][number]['items'][number]): boolean {
+  switch (item.type) {
+    case 'check': return !!item.checked;
+    case 'select': return !!item.selectedOption;
+    default: return item.value !== undefined && item.value !== '';
+  }
+}
+
+// ─── Storage ───────────────────────────────────────────────────────
+
+interface WorkOrderStore {
+  list(): Promise<FieldWorkOrder[]>;
+  get(id: string): Promise<FieldWorkOrder | null>;
+  save(wo: FieldWorkOrder): Promise<void>;
+  events(id: string): Promise<WorkOrderEvent[]>;
+  addEvent(event: WorkOrderEvent): Promise<void>;
+  artifacts(id: string): Promise<WorkOrderArtifact[]>;
+  addArtifact(artifact: WorkOrderArtifact): Promise<void>;
+}
+
+function fromFixture(wo: DispatchWorkOrder): FieldWorkOrder {
+  const now = new Date().toISOString();
+  return { ...wo, createdAt: now, updatedAt: now };
+}
+
+const fixtures = () => new Map(DISPATCH_WORK_ORDERS.map(wo => [wo.id, fromFixture(wo)]));
+
+function memoryStore(): WorkOrderStore {
+  const workOrders = fixtures();
+  const events: WorkOrderEvent[] = [];
+  const artifacts: WorkOrderArtifact[] = [];
+  return {
+    list: async () => [...workOrders.values()],
+    get: async id => workOrders.get(id) ?? null,
+    save: async wo => { workOrders.set(wo.id, wo); },
+    events: async id => events.filter(e => e.workOrderId === id),
+    addEvent: async event => { events.push(event); },
+    artifacts: async id => artifacts.filter(a => a.workOrderId === id),
+    addArtifact: async artifact => { artifacts.push(artifact); },
+  };
+}
+
+function fromRecord(row: WorkOrderRecord): FieldWorkOrder {
+  return {
+    ...(row.details as unknown as DispatchWorkOrder),
+    id: row.id,
+    status: row.status as WOStatus,
+    priority: row.priority as WOPriority,
+    title: row.title,
+    assetTag: row.asset_tag,
+    opCo: row.op_co,
+    worker: row.worker,
+    createdAt: row.created_at ?? new Date().toISOString(),
+    updatedAt: row.updated_at ?? row.created_at ?? new Date().toISOString(),
+    startedAt: row.started_at ?? undefined,
+    completedAt: row.completed_at ?? undefined,
+    resolution: row.resolution ?? undefined,
+    laborHours: row.labor_hours ?? undefined,
+    partsCost: row.parts_cost ?? undefined,
+  };
+}
+
+function fromEventRecord(row: WorkOrderEventRecord): WorkOrderEvent {
+  return {
+    id: row.id,
+    workOrderId: row.work_order_id,
+    fromStatus: row.from_status as WOStatus | null,
+    toStatus: row.to_status as WOStatus,
+    actor: row.actor,
+    note: row.note ?? undefined,
+    changes: (row.changes as Record<string, unknown> | null) ?? undefined,
+    occurredAt: row.occurred_at ?? new Date().toISOString(),
+  };
+}
+
+function fromArtifactRecord(row: WorkOrderArtifactRecord): WorkOrderArtifact {
+  return {
+    id: row.id,
+    workOrderId: row.work_order_id,
+    kind: row.kind as WorkOrderArtifactKind,
+    payload: row.payload as unknown as LOTOSchema & ChecklistSchema,
+    attachedBy: row.attached_by,
+    attachedAt: row.attached_at ?? new Date().toISOString(),
+  } as WorkOrderArtifact;
+}
+
+// Table rows override the dispatch fixtures with the same id
+function supabaseStore(): WorkOrderStore {
+  return {
+    async list() {
+      const merged = fixtures();
+      const { data, error } = await supabase.from('work_orders').select('*');
+      if (error) throw error;
+      for (const row of data || []) merged.set(row.id, fromRecord(row));
+      return [...merged.values()];
+    },
+    async get(id) {
+      const { data, error } = await supabase.from('work_orders').select('*').eq('id', id).maybeSingle();
+      if (error) throw error;
+      if (data) return fromRecord(data);
+      const fixture = DISPATCH_WORK_ORDERS.find(wo => wo.id === id);
+      return fixture ? fromFixture(fixture) : null;
+    },
+    async save(wo) {
+      const { createdAt, updatedAt, startedAt, completedAt, resolution, laborHours, partsCost, ...details } = wo;
+      const { error } = await supabase.from('work_orders').upsert({
+        id: wo.id,
+        status: wo.status,
+        priority: wo.priority,
+        title: wo.title,
+        asset_tag: wo.assetTag,
+        op_co: wo.opCo,
+        worker: wo.worker,
+        details: details as unknown as Json,
+        resolution: resolution ?? null,
+        labor_hours: laborHours ?? null,
+        parts_cost: partsCost ?? null,
+        started_at: startedAt ?? null,
+        completed_at: completedAt ?? null,
+        created_at: createdAt,
+        updated_at: updatedAt,
+      });
+      if (error) throw error;
+    },
+    async events(id) {
+      const { data, error } = await supabase
+        .from('work_order_events')
+        .select('*')
+        .eq('work_order_id', id)
+        .order('occurred_at', { ascending: true });
+      if (error) throw error;
+      return (data || []).map(fromEventRecord);
+    },
+    async addEvent(event) {
+      const { error } = await supabase.from('work_order_events').insert({
+        work_order_id: event.workOrderId,
+        from_status: event.fromStatus,
+        to_status: event.toStatus,
+        actor: event.actor,
+        note: event.note ?? null,
+        changes: (event.changes ?? null) as Json,
+        occurred_at: event.occurredAt,
+      });
+      if (error) throw error;
+    },
+    async artifacts(id) {
+      const { data, error } = await supabase
+        .from('work_order_artifacts')
+        .select('*')
+        .eq('work_order_id', id)
+        .order('attached_at', { ascending: true });
+      if (error) throw error;
+      return (data || []).map(fromArtifactRecord);
+    },
+    async addArtifact(artifact) {
+      const { error } = await supabase.from('work_order_artifacts').insert({
+        work_order_id: artifact.workOrderId,
+        kind: artifact.kind,
+        payload: artifact.payload as unknown as Json,
+        attached_by: artifact.attachedBy,
+        attached_at: artifact.attachedAt,
+      });
+      if (error) throw error;
+    },
+  };
+}
+
+let store: WorkOrderStore | null = null;
+
+function getStore(): WorkOrderStore {
+  if (!store) store = isSupabaseConfigured ? supabaseStore() : memoryStore();
+  return store;
+}
+
+let eventSeq = 0;
+const nextId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${(++eventSeq).toString(36)}`;
+
+// ─── Service ───────────────────────────────────────────────────────
+
+export async function listWorkOrders(filter: { status?: WOStatus; opCo?: string } = {}): Promise<FieldWorkOrder[]> {
+  const all = await getStore().list();
+  return all.filter(wo =>
+    (!filter.status || wo.status === filter.status) &&
+    (!filter.opCo || wo.opCo === filter.opCo)
+  );
+}
+
+export async function getWorkOrder(id: string): Promise<WorkOrderDetail | null> {
+  const s = getStore();
+  const workOrder = await s.get(id);
+  if (!workOrder) return null;
+  const [events, artifacts] = await Promise.all([s.events(id), s.artifacts(id)]);
+  return { workOrder, events, artifacts, allowedTransitions: allowedTransitions(workOrder.status) };
+}
+
+export async function createWorkOrder(input: NewWorkOrderInput, actor: string): Promise<FieldWorkOrder> {
+  const s = getStore();
+  const now = new Date().toISOString();
+  const id = input.id ?? `WO-${new Date().getFullYear()}-${Date.now().toString().slice(-6)}`;
+  if (await s.get(id)) throw new Error(`Work order ${id} already exists`);
+
+  const wo: FieldWorkOrder = {
+    priority: 'P3',
+    description: '',
+    assetName: input.assetTag,
+    substationName: '',
+    opCo: '',
+    crewLead: '',
+    worker: '',
+    detectedAt: now,
+    detectedDaysAgo: 0,
+    timeSlot: '',
+    isPlanChange: false,
+    daysToEscalation: null,
+    costIfDelayed: 0,
+    costIfEscalated: null,
+    customersAtRisk: 0,
+    productionLossPerDay: 0,
+    taskType: '',
+    partsRequired: [],
+    estimatedHours: 0,
+    ...input,
+    id,
+    status: 'dispatched',
+    createdAt: now,
+    updatedAt: now,
+  };
+  await s.save(wo);
+  await s.addEvent({ id: nextId('WOE'), workOrderId: id, fromStatus: null, toStatus: 'dispatched', actor, occurredAt: now });
+  return wo;
+}
+
+const PRIORITY_BY_LABEL: Record<string, WOPriority> = {
+  critical: 'P1', emergency: 'P1', urgent: 'P1',
+  high: 'P2',
+  medium: 'P3', normal: 'P3',
+  low: 'Routine', routine: 'Routine',
+};
+
+/** Map a work order form (a2ui WorkOrderForm) onto a new field work order */
+export function fromWorkOrderSchema(form: WorkOrderSchema): NewWorkOrderInput {
+  const parts = form.requiredParts ?? form.parts ?? [];
+  const hours = form.estimatedHours ?? parseFloat(form.estimatedDuration ?? '');
+  return {
+    id: form.workOrderNumber || undefined,
+    title: form.equipment?.name ? `${form.workType ?? 'Work order'} — ${form.equipment.name}` : form.workType ?? 'Work order',
+    description: form.description ?? '',
+    assetTag: form.equipment?.tag ?? form.equipmentTag ?? 'UNASSIGNED',
+    assetName: form.equipment?.name ?? form.equipmentName ?? '',
+    substationName: form.equipment?.location ?? '',
+    priority: PRIORITY_BY_LABEL[form.priority?.toLowerCase()] ?? 'P3',
+    worker: form.personnel?.assignedTo ?? '',
+    crewLead: form.personnel?.supervisor ?? '',
+    taskType: form.workType ?? '',
+    partsRequired: parts.map(p => typeof p === 'string' ? p : p.description ?? p.partNumber ?? '').filter(Boolean),
+    estimatedHours: Number.isFinite(hours) ? hours : 0,
+  };
+}
+
+/**
+ * Move a work order to a new status. Throws WorkOrderTransitionError if the
+ * lifecycle doesn't allow it or a LOTO/checklist precondition isn't met.
+ */
+export async function transitionWorkOrder(id: string, to: WOStatus, input: TransitionInput): Promise<WorkOrderDetail> {
+  const s = getStore();
+  const wo = await s.get(id);
+  if (!wo) throw new Error(`Work order ${id} not found`);
+  const artifacts = await s.artifacts(id);
+
+  const blocker = transitionBlocker(wo, to, artifacts, input);
+  if (blocker) throw new WorkOrderTransitionError(blocker);
+
+  const now = new Date().toISOString();
+  const next: FieldWorkOrder = { ...wo, status: to, updatedAt: now };
+  const changes: Record<string, unknown> = {};
+  if (to === 'in_progress' && !wo.startedAt) next.startedAt = changes.startedAt = now;
+  if (to === 'completed') {
+    next.completedAt = changes.completedAt = now;
+    if (input.resolution !== undefined) next.resolution = changes.resolution = input.resolution;
+    if (input.laborHours !== undefined) next.laborHours = changes.laborHours = input.laborHours;
+    if (input.partsCost !== undefined) next.partsCost = changes.partsCost = input.partsCost;
+  }
+
+  await s.save(next);
+  await s.addEvent({
+    id: nextId('WOE'),
+    workOrderId: id,
+    fromStatus: wo.status,
+    toStatus: to,
+    actor: input.actor,
+    note: input.note,
+    changes: Object.keys(changes).length > 0 ? changes : undefined,
+    occurredAt: now,
+  });
+
+  return { workOrder: next, events: await s.events(id), artifacts, allowedTransitions: allowedTransitions(to) };
+}
+
+export async function attachArtifact(
+  id: string,
+  kind: WorkOrderArtifactKind,
+  payload: LOTOSchema | ChecklistSchema,
+  actor: string,
+): Promise<WorkOrderArtifact> {
+  const s = getStore();
+  const wo = await s.get(id);
+  if (!wo) throw new Error(`Work order ${id} not found`);
+  if (wo.status === 'completed') throw new WorkOrderTransitionError(`${id} is completed — artifacts can't be added`);
+
+  const artifact = {
+    id: nextId('WOA'),
+    workOrderId: id,
+    kind,
+    payload: { ...payload, workOrderNumber: id },
+    attachedBy: actor,
+    attachedAt: new Date().toISOString(),
+  } as WorkOrderArtifact;
+  await s.addArtifact(artifact);
+  return artifact;
+}
+
+/** Completed repairs on tracked components, as predictive-maintenance work-order history */
+export async function listMaintenanceHistory(assetTag?: string): Promise<PMWorkOrder[]> {
+  const completed = await listWorkOrders({ status: 'completed' });
+  return completed
+    .filter(wo => !assetTag || wo.assetTag.toUpperCase() === assetTag.toUpperCase())
+    .map(toPMWorkOrder)
+    .filter((wo): wo is PMWorkOrder => wo !== null);
+}
+
+/** The predictive-maintenance view of a completed repair, if it touched a tracked component */
+export function toPMWorkOrder(wo: FieldWorkOrder): PMWorkOrder | null {
+  const component = COMPONENT_BY_TASK.find(([pattern]) => pattern.test(wo.taskType));
+  if (!component || wo.status !== 'completed') return null;
+  const [, suffix, componentName] = component;
+
+  const completedAt = new Date(wo.completedAt ?? wo.updatedAt);
+  const startedAt = new Date(wo.startedAt ?? wo.detectedAt ?? wo.createdAt);
+  const dateCreated = isNaN(startedAt.getTime()) ? new Date(wo.createdAt) : startedAt;
+  const unplanned = wo.priority === 'P1' || /emergency/i.test(wo.taskType);
+
+  return {
+    id: wo.id,
+    assetId: wo.assetTag,
+    assetName: wo.assetName,
+    componentId: `${wo.assetTag}-${suffix}`,
+    componentName,
+    type: unplanned || /repair/i.test(wo.taskType) ? 'CM' : /dga|oil/i.test(wo.taskType) ? 'oil_test' : 'PM',
+    issue: wo.title,
+    resolution: wo.resolution,
+    dateCreated,
+    dateCompleted: completedAt,
+    laborHours: wo.laborHours ?? wo.estimatedHours,
+    partsCost: wo.partsCost ?? 0,
+    downtime: Math.max(0, Math.round((completedAt.getTime() - dateCreated.getTime()) / 3600000)),
+    wasUnplanned: unplanned,
+    customersAffected: wo.customersAtRisk || undefined,
+  };
+}
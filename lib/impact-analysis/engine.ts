@@ -6,8 +6,22 @@ import {
   ImpactSeverity,
   ImpactCategory,
   FleetState,
+  WhatIfScenario,
+  ScenarioAnalysisResult,
+  ScenarioChangeBreakdown,
+  MonteCarloOptions,
+  MonteCarloResult,
+  DistributionSummary,
 } from './types';
 
+const SEVERITY_RANK: Record<ImpactSeverity, number> = {
+  positive: 0,
+  low: 1,
+  medium: 2,
+  high: 3,
+  critical: 4,
+};
+
 export function analyzeImpact(
   change: ProposedChange,
   fleetState: FleetState
@@ -19,6 +33,202 @@ export function analyzeImpact(
   const allImpacts = [...upstreamImpacts, ...downstreamImpacts, ...lateralImpacts];
   const impactChain = buildImpactChain(change, allImpacts, fleetState);
   
+  return buildResult(change, upstreamImpacts, downstreamImpacts, lateralImpacts, impactChain, fleetState);
+}
+
+/**
+ * Analyzes a scenario's changes in order against a copy of the fleet state.
+ * Each change is applied before the next is analyzed, so later changes see
+ * the state earlier ones leave behind. Impacts raised by more than one change
+ * are merged into a single item in the combined result.
+ */
+export function analyzeScenario(
+  scenario: WhatIfScenario,
+  fleetState: FleetState
+): ScenarioAnalysisResult {
+  const state = cloneFleetState(fleetState);
+  
+  const results = scenario.changes.map(change => {
+    const result = analyzeImpact(change, state);
+    applyChange(change, state);
+    return result;
+  });
+  
+  const merged = new Map<string, ImpactItem>();
+  const raisedBy = new Map<string, Set<string>>();
+  for (const result of results) {
+    for (const impact of [...result.upstreamImpacts, ...result.downstreamImpacts, ...result.lateralImpacts]) {
+      const existing = merged.get(impact.id);
+      merged.set(impact.id, existing ? mergeImpacts(existing, impact) : impact);
+      const changeIds = raisedBy.get(impact.id) ?? new Set<string>();
+      changeIds.add(result.change.id);
+      raisedBy.set(impact.id, changeIds);
+    }
+  }
+  
+  const impacts = [...merged.values()];
+  const combinedChange = scenarioChange(scenario);
+  const combined = buildResult(
+    combinedChange,
+    impacts.filter(i => i.direction === 'upstream'),
+    impacts.filter(i => i.direction === 'downstream'),
+    impacts.filter(i => i.direction === 'lateral'),
+    mergeImpactChains(results.map(r => r.impactChain), merged),
+    state
+  );
+  combined.id = `scenario-analysis-${Date.now()}`;
+  combined.changes = scenario.changes;
+  
+  const breakdown: ScenarioChangeBreakdown[] = results.map(result => {
+    const ids = [...new Set(
+      [...result.upstreamImpacts, ...result.downstreamImpacts, ...result.lateralImpacts].map(i => i.id)
+    )];
+    return {
+      change: result.change,
+      result,
+      uniqueImpactIds: ids.filter(id => raisedBy.get(id)!.size === 1),
+      sharedImpactIds: ids.filter(id => raisedBy.get(id)!.size > 1),
+    };
+  });
+  
+  return { scenario, combined, breakdown, finalState: state };
+}
+
+const DEFAULT_MC_ITERATIONS = 500;
+const DEFAULT_MC_SEED = 42;
+// Relative standard deviation of fuel prices over a contract period
+const FUEL_PRICE_VOLATILITY = 0.12;
+
+const DELAY_CHANGE_TYPES = ['vessel_assignment', 'schedule_change', 'project_delay', 'weather_event'];
+const REPAIR_CHANGE_TYPES = ['maintenance_schedule', 'equipment_failure'];
+
+/**
+ * Runs analyzeImpact repeatedly with the uncertain inputs sampled from a
+ * seeded RNG: delay days, repair durations, fuel contract prices, and whether
+ * each project's delay penalty is actually enforced. Returns P5/P50/P95 for
+ * total financial impact and schedule delay.
+ */
+export function simulateImpact(
+  change: ProposedChange,
+  fleetState: FleetState,
+  options: MonteCarloOptions = {}
+): MonteCarloResult {
+  const iterations = Math.max(1, Math.floor(options.iterations ?? DEFAULT_MC_ITERATIONS));
+  const seed = options.seed ?? DEFAULT_MC_SEED;
+  const random = seededRandom(seed);
+  
+  const baseline = analyzeImpact(change, fleetState);
+  const penaltyConfidence = baseline.downstreamImpacts.find(i => i.id === 'delay-penalties')?.confidence ?? 0.95;
+  
+  const samples: MonteCarloResult['samples'] = [];
+  let penaltyRuns = 0;
+  
+  for (let i = 0; i < iterations; i++) {
+    const state = cloneFleetState(fleetState);
+    const parameters = { ...change.parameters };
+    
+    if (DELAY_CHANGE_TYPES.includes(change.type)) {
+      const base = (change.parameters.delayDays as number) || 7;
+      parameters.delayDays = Math.ceil(triangular(random, base * 0.5, base, base * 2.5));
+    } else if (REPAIR_CHANGE_TYPES.includes(change.type)) {
+      const base = (change.parameters.estimatedDowntime as number) ||
+        (change.type === 'equipment_failure' ? 14 : 7);
+      const downtime = Math.ceil(triangular(random, base * 0.75, base, base * 2));
+      parameters.estimatedDowntime = downtime;
+      // Project slip follows the repair unless the change fixes it
+      parameters.delayDays = (change.parameters.delayDays as number) || downtime;
+    }
+    
+    for (const contract of state.supplyChain.fuelContracts) {
+      contract.pricePerUnit *= Math.max(0.5, 1 + FUEL_PRICE_VOLATILITY * normal(random));
+    }
+    
+    let penaltyEnforced = false;
+    for (const project of state.projects) {
+      if (project.penaltyPerDayDelay <= 0) continue;
+      if (random() < penaltyConfidence) {
+        if (change.affectedProjects.includes(project.id)) penaltyEnforced = true;
+      } else {
+        project.penaltyPerDayDelay = 0;
+      }
+    }
+    
+    const result = analyzeImpact({ ...change, parameters }, state);
+    if (penaltyEnforced && result.downstreamImpacts.some(i => i.id === 'delay-penalties')) penaltyRuns++;
+    samples.push({
+      totalFinancialImpact: result.financialSummary.totalFinancialImpact,
+      scheduleDelayDays: result.operationalImpact.scheduleDelayDays,
+    });
+  }
+  
+  return {
+    change,
+    iterations,
+    seed,
+    baseline,
+    totalFinancialImpact: summarizeDistribution(samples.map(s => s.totalFinancialImpact)),
+    scheduleDelayDays: summarizeDistribution(samples.map(s => s.scheduleDelayDays)),
+    penaltyTriggerRate: Math.round((penaltyRuns / iterations) * 100) / 100,
+    samples,
+  };
+}
+
+function seededRandom(seed: number) {
+  let s = seed % 2147483647 || 1;
+  return function () { s = (s * 16807) % 2147483647; return (s - 1) / 2147483646; };
+}
+
+function stringSeed(text: string): number {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = ((h << 5) - h + text.charCodeAt(i)) | 0;
+  return Math.abs(h) + 1;
+}
+
+function triangular(random: () => number, min: number, mode: number, max: number): number {
+  const u = random();
+  const split = (mode - min) / (max - min);
+  return u < split
+    ? min + Math.sqrt(u * (max - min) * (mode - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+}
+
+// Standard normal via Box–Muller
+function normal(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 1) return sorted[0];
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+function summarizeDistribution(values: number[]): DistributionSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return {
+    p5: round(percentile(sorted, 0.05)),
+    p50: round(percentile(sorted, 0.5)),
+    p95: round(percentile(sorted, 0.95)),
+    mean: round(sorted.reduce((sum, v) => sum + v, 0) / sorted.length),
+    min: round(sorted[0]),
+    max: round(sorted[sorted.length - 1]),
+  };
+}
+
+function buildResult(
+  change: ProposedChange,
+  upstreamImpacts: ImpactItem[],
+  downstreamImpacts: ImpactItem[],
+  lateralImpacts: ImpactItem[],
+  impactChain: ImpactChainNode[],
+  fleetState: FleetState
+): ImpactAnalysisResult {
+  const allImpacts = [...upstreamImpacts, ...downstreamImpacts, ...lateralImpacts];
+  
   const summary = {
     totalImpacts: allImpacts.length,
     criticalCount: allImpacts.filter(i => i.severity === 'critical').length,
@@ -56,6 +266,237 @@ export function analyzeImpact(
   };
 }
 
+// Stands in for the whole scenario wherever a single change is expected
+function scenarioChange(scenario: WhatIfScenario): ProposedChange {
+  const changes = scenario.changes;
+  const effectiveDate = changes.length > 0
+    ? new Date(Math.min(...changes.map(c => c.effectiveDate.getTime())))
+    : new Date();
+  
+  return {
+    id: scenario.id,
+    type: changes[0]?.type ?? 'schedule_change',
+    title: scenario.name,
+    description: scenario.description,
+    effectiveDate,
+    affectedVessels: [...new Set(changes.flatMap(c => c.affectedVessels))],
+    affectedProjects: [...new Set(changes.flatMap(c => c.affectedProjects))],
+    parameters: { changeIds: changes.map(c => c.id) },
+  };
+}
+
+function cloneFleetState(state: FleetState): FleetState {
+  return structuredClone(state);
+}
+
+// Updates the fleet state in place to reflect a change having gone ahead
+function applyChange(change: ProposedChange, state: FleetState): void {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const vessels = state.vessels.filter(v => change.affectedVessels.includes(v.id));
+  const projects = state.projects.filter(p => change.affectedProjects.includes(p.id));
+  
+  // Delays use up schedule slack: later changes see the deadline that much closer
+  const consumeSlack = (days: number) => {
+    for (const project of projects) {
+      project.deadline = new Date(project.deadline.getTime() - days * dayMs);
+    }
+  };
+  
+  switch (change.type) {
+    case 'vessel_assignment': {
+      const target = projects[0];
+      if (!target) break;
+      for (const vessel of vessels) {
+        for (const project of state.projects) {
+          project.assignedVessels = project.assignedVessels.filter(id => id !== vessel.id);
+        }
+        target.assignedVessels.push(vessel.id);
+        vessel.project = target.id;
+      }
+      break;
+    }
+    
+    case 'schedule_change':
+    case 'project_delay':
+    case 'weather_event':
+      consumeSlack((change.parameters.delayDays as number) || 0);
+      break;
+    
+    case 'maintenance_schedule': {
+      const deferDays = (change.parameters.deferDays as number) || 0;
+      if (deferDays > 0) {
+        for (const task of state.maintenance) {
+          if (change.affectedVessels.includes(task.vesselId) && task.canDefer) {
+            task.scheduledDate = new Date(task.scheduledDate.getTime() + deferDays * dayMs);
+          }
+        }
+      } else {
+        for (const vessel of vessels) vessel.status = 'maintenance';
+        consumeSlack((change.parameters.estimatedDowntime as number) || 7);
+      }
+      break;
+    }
+    
+    case 'equipment_failure':
+      for (const vessel of vessels) vessel.status = 'maintenance';
+      consumeSlack((change.parameters.estimatedDowntime as number) || 14);
+      break;
+    
+    case 'fuel_switch': {
+      const newFuel = change.parameters.newFuelType as string;
+      const factor = fuelEmissionFactor(newFuel);
+      for (const vessel of vessels) vessel.emissionsPerDay *= factor;
+      // The new fuel's contract becomes the one later cost comparisons start from
+      const contractIndex = state.supplyChain.fuelContracts.findIndex(c => c.fuelType === newFuel);
+      if (contractIndex > 0) {
+        const [contract] = state.supplyChain.fuelContracts.splice(contractIndex, 1);
+        state.supplyChain.fuelContracts.unshift(contract);
+      }
+      break;
+    }
+    
+    case 'crew_reassignment': {
+      const toVesselId = change.parameters.toVesselId as string | undefined;
+      for (const member of state.crew) {
+        if (member.vesselId && change.affectedVessels.includes(member.vesselId)) {
+          member.vesselId = toVesselId;
+          member.availability = toVesselId ? 'assigned' : 'available';
+        }
+      }
+      break;
+    }
+    
+    case 'new_project':
+      state.projects.push({
+        id: change.id,
+        name: change.title,
+        client: (change.parameters.client as string) || 'TBD',
+        status: 'planning',
+        priority: (change.parameters.priority as string) || 'medium',
+        progress: 0,
+        budget: { allocated: (change.parameters.estimatedCost as number) || 0, spent: 0 },
+        deadline: new Date(change.effectiveDate.getTime() + 180 * dayMs),
+        assignedVessels: [...change.affectedVessels],
+        dailyBurnRate: 0,
+        penaltyPerDayDelay: 0,
+      });
+      for (const vessel of vessels) vessel.project = change.id;
+      break;
+    
+    case 'vessel_disposal':
+      state.vessels = state.vessels.filter(v => !change.affectedVessels.includes(v.id));
+      for (const project of state.projects) {
+        project.assignedVessels = project.assignedVessels.filter(id => !change.affectedVessels.includes(id));
+      }
+      break;
+  }
+  
+  state.financials.currentSpend += (change.parameters.estimatedCost as number) || 0;
+}
+
+// Penalties and schedule slips from separate changes stack up rather than overlap
+const ADDITIVE_IMPACTS = /^(delay-penalties|timeline-)/;
+
+// Combines two reports of the same impact from different changes. Additive
+// impacts sum their days and cost. Otherwise a report with no measurable
+// change gives way to one that has it, and the more severe report leads and
+// keeps the larger quantitative effect.
+function mergeImpacts(a: ImpactItem, b: ImpactItem): ImpactItem {
+  const delta = (i: ImpactItem) => i.quantitativeImpact
+    ? Math.abs(i.quantitativeImpact.projectedValue - i.quantitativeImpact.currentValue)
+    : null;
+  const union = (x?: string[], y?: string[]) =>
+    x || y ? [...new Set([...(x ?? []), ...(y ?? [])])] : undefined;
+  
+  let lead = SEVERITY_RANK[b.severity] > SEVERITY_RANK[a.severity] ? b : a;
+  if (delta(a) === 0 && delta(b)) lead = b;
+  else if (delta(b) === 0 && delta(a)) lead = a;
+  let quantitativeImpact = (delta(b) ?? -1) > (delta(a) ?? -1)
+    ? b.quantitativeImpact
+    : a.quantitativeImpact;
+  let { description, severity } = lead;
+  
+  if (ADDITIVE_IMPACTS.test(a.id) && a.quantitativeImpact && b.quantitativeImpact) {
+    const combined = addQuantities(a.quantitativeImpact, b.quantitativeImpact);
+    quantitativeImpact = combined;
+    severity = SEVERITY_RANK[b.severity] > SEVERITY_RANK[a.severity] ? b.severity : a.severity;
+    if (a.id === 'delay-penalties') {
+      description = `Potential penalties of $${(combined.projectedValue / 1000).toFixed(0)}K for the combined delays`;
+    } else if (combined.daysToDeadline !== undefined) {
+      const delayDays = combined.projectedValue;
+      description = timelineDescription(delayDays, combined.daysToDeadline);
+      if (delayDays > combined.daysToDeadline) severity = 'critical';
+    }
+  }
+  
+  const entityKeys = new Set([
+    ...Object.keys(a.affectedEntities),
+    ...Object.keys(b.affectedEntities),
+  ]) as Set<keyof ImpactItem['affectedEntities']>;
+  const affectedEntities: ImpactItem['affectedEntities'] = {};
+  for (const key of entityKeys) {
+    affectedEntities[key] = union(a.affectedEntities[key], b.affectedEntities[key]);
+  }
+  
+  return {
+    ...lead,
+    direction: a.direction,
+    description,
+    severity,
+    quantitativeImpact,
+    confidence: Math.max(a.confidence, b.confidence),
+    mitigations: union(a.mitigations, b.mitigations),
+    dependsOn: union(a.dependsOn, b.dependsOn),
+    affectedEntities,
+  };
+}
+
+type Quantity = NonNullable<ImpactItem['quantitativeImpact']>;
+
+// Adds b's change on top of a. A schedule delay is measured against the
+// nearer of the two deadlines; a new cost stays at 100%.
+function addQuantities(a: Quantity, b: Quantity): Quantity {
+  const projectedValue = a.projectedValue + (b.projectedValue - b.currentValue);
+  const deadlines = [a.daysToDeadline, b.daysToDeadline].filter((d): d is number => d !== undefined);
+  const daysToDeadline = deadlines.length > 0 ? Math.min(...deadlines) : undefined;
+  let percentChange = a.percentChange;
+  if (a.currentValue !== 0) {
+    percentChange = ((projectedValue - a.currentValue) / Math.abs(a.currentValue)) * 100;
+  } else if (daysToDeadline !== undefined) {
+    percentChange = (projectedValue / Math.max(daysToDeadline, 1)) * 100;
+  }
+  return { ...a, projectedValue, percentChange, ...(daysToDeadline !== undefined && { daysToDeadline }) };
+}
+
+function timelineDescription(delayDays: number, daysToDeadline: number): string {
+  return delayDays > daysToDeadline
+    ? `Project will miss deadline by ${delayDays - daysToDeadline} days`
+    : `Project delayed by ${delayDays} days but within deadline`;
+}
+
+// Overlays the changes' chains, folding nodes with the same impact together
+function mergeImpactChains(
+  chains: ImpactChainNode[][],
+  impacts: Map<string, ImpactItem>
+): ImpactChainNode[] {
+  const mergeInto = (siblings: Map<string, ImpactChainNode>, node: ImpactChainNode, depth: number) => {
+    const children = new Map((siblings.get(node.id)?.children ?? []).map(c => [c.id, c]));
+    for (const child of node.children) mergeInto(children, child, depth + 1);
+    siblings.set(node.id, {
+      id: node.id,
+      impact: impacts.get(node.id) ?? node.impact,
+      children: [...children.values()],
+      depth,
+    });
+  };
+  
+  const roots = new Map<string, ImpactChainNode>();
+  for (const chain of chains) {
+    for (const node of chain) mergeInto(roots, node, 0);
+  }
+  return [...roots.values()];
+}
+
 function calculateUpstreamImpacts(change: ProposedChange, state: FleetState): ImpactItem[] {
   const impacts: ImpactItem[] = [];
   
@@ -111,6 +552,8 @@ function calculateDownstreamImpacts(change: ProposedChange, state: FleetState):
       break;
       
     case 'project_delay':
+    case 'weather_event':
+      impacts.push(...getProjectTimelineImpacts(change, state));
       impacts.push(...getClientImpacts(change, state));
       impacts.push(...getPenaltyImpacts(change, state));
       impacts.push(...getCascadingProjectImpacts(change, state));
@@ -119,6 +562,7 @@ function calculateDownstreamImpacts(change: ProposedChange, state: FleetState):
     case 'equipment_failure':
       impacts.push(...getSafetyImpacts(change, state));
       impacts.push(...getVesselAvailabilityImpacts(change, state));
+      impacts.push(...getProjectTimelineImpacts(change, state));
       impacts.push(...getInsuranceImpacts(change, state));
       break;
   }
@@ -477,8 +921,11 @@ function getProjectTimelineImpacts(change: ProposedChange, state: FleetState): I
     const project = state.projects.find(p => p.id === projectId);
     if (!project) continue;
     
+    // With no delay given, draw one from an RNG seeded by the change and
+    // project so the same change always gives the same answer
     const delayDays = (change.parameters.delayDays as number) || 
-      Math.ceil(Math.random() * 14 + 3);
+      (change.parameters.estimatedDowntime as number) ||
+      Math.ceil(seededRandom(stringSeed(`${change.id}:${projectId}`))() * 14 + 3);
     
     const daysToDeadline = Math.ceil(
       (project.deadline.getTime() - Date.now()) / (24 * 60 * 60 * 1000)
@@ -491,9 +938,7 @@ function getProjectTimelineImpacts(change: ProposedChange, state: FleetState): I
       category: 'operations',
       direction: 'downstream',
       title: `${project.name} Timeline Impact`,
-      description: willMissDeadline 
-        ? `Project will miss deadline by ${delayDays - daysToDeadline} days`
-        : `Project delayed by ${delayDays} days but within deadline`,
+      description: timelineDescription(delayDays, daysToDeadline),
       severity: willMissDeadline ? 'critical' : 'medium',
       quantitativeImpact: {
         metric: 'Schedule Delay',
@@ -501,6 +946,7 @@ function getProjectTimelineImpacts(change: ProposedChange, state: FleetState): I
         projectedValue: delayDays,
         unit: 'days',
         percentChange: (delayDays / Math.max(daysToDeadline, 1)) * 100,
+        daysToDeadline,
       },
       timeframe: 'short_term',
       confidence: 0.8,
@@ -656,13 +1102,9 @@ function getEmissionsImpacts(change: ProposedChange, state: FleetState): ImpactI
   
   const currentDailyEmissions = affectedVessels.reduce((sum, v) => sum + v.emissionsPerDay, 0);
   
-  let reductionFactor = 1.0;
-  if (change.type === 'fuel_switch') {
-    const newFuel = change.parameters.newFuelType as string;
-    if (newFuel === 'LNG') reductionFactor = 0.75;
-    else if (newFuel === 'MDO') reductionFactor = 0.9;
-    else if (newFuel === 'Hybrid') reductionFactor = 0.8;
-  }
+  const reductionFactor = change.type === 'fuel_switch'
+    ? fuelEmissionFactor(change.parameters.newFuelType as string)
+    : 1.0;
   
   const projectedEmissions = currentDailyEmissions * reductionFactor;
   const annualReduction = (currentDailyEmissions - projectedEmissions) * 365;
@@ -693,6 +1135,13 @@ function getEmissionsImpacts(change: ProposedChange, state: FleetState): ImpactI
   return impacts;
 }
 
+function fuelEmissionFactor(newFuel: string): number {
+  if (newFuel === 'LNG') return 0.75;
+  if (newFuel === 'MDO') return 0.9;
+  if (newFuel === 'Hybrid') return 0.8;
+  return 1.0;
+}
+
 function getCostImpacts(change: ProposedChange, state: FleetState): ImpactItem[] {
   const impacts: ImpactItem[] = [];
   
@@ -1007,7 +1456,7 @@ function calculateFinancialImpact(
     if (impact.category === 'finance' && impact.quantitativeImpact) {
       if (impact.id.includes('revenue')) {
         revenueImpact -= impact.quantitativeImpact.projectedValue;
-      } else if (impact.id.includes('penalty') || impact.id.includes('cost')) {
+      } else if (impact.id.includes('penalt') || impact.id.includes('cost')) {
         estimatedCostImpact += impact.quantitativeImpact.projectedValue;
       } else if (impact.id.includes('insurance')) {
         insuranceImpact += impact.quantitativeImpact.projectedValue - impact.quantitativeImpact.currentValue;
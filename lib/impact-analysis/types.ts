@@ -39,6 +39,7 @@ export interface ImpactItem {
     projectedValue: number;
     unit: string;
     percentChange: number;
+    daysToDeadline?: number; // schedule delays: days left before the project deadline
   };
   timeframe: 'immediate' | 'short_term' | 'medium_term' | 'long_term';
   confidence: number;
@@ -76,6 +77,8 @@ export interface ImpactChainNode {
 export interface ImpactAnalysisResult {
   id: string;
   change: ProposedChange;
+  // Set on scenario results: the changes that were applied, in order
+  changes?: ProposedChange[];
   timestamp: Date;
   overallRisk: ImpactSeverity;
   overallConfidence: number;
@@ -232,8 +235,46 @@ export interface WhatIfScenario {
   isActive: boolean;
 }
 
+export interface ScenarioChangeBreakdown {
+  change: ProposedChange;
+  // Analysis of this change against the state left by the changes before it
+  result: ImpactAnalysisResult;
+  // Impacts that only this change produced
+  uniqueImpactIds: string[];
+  // Impacts this change shares with other changes in the scenario
+  sharedImpactIds: string[];
+}
 
+export interface ScenarioAnalysisResult {
+  scenario: WhatIfScenario;
+  combined: ImpactAnalysisResult;
+  breakdown: ScenarioChangeBreakdown[];
+  finalState: FleetState;
+}
 
+export interface MonteCarloOptions {
+  iterations?: number;
+  seed?: number;
+}
 
+export interface DistributionSummary {
+  p5: number;
+  p50: number;
+  p95: number;
+  mean: number;
+  min: number;
+  max: number;
+}
 
-
+export interface MonteCarloResult {
+  change: ProposedChange;
+  iterations: number;
+  seed: number;
+  // Single-point analysis with the inputs as given
+  baseline: ImpactAnalysisResult;
+  totalFinancialImpact: DistributionSummary;
+  scheduleDelayDays: DistributionSummary;
+  // Share of runs in which at least one delay penalty was enforced
+  penaltyTriggerRate: number;
+  samples: Array<{ totalFinancialImpact: number; scheduleDelayDays: number }>;
+}
@@ -0,0 +1,185 @@
+import {
+  getHistoryForAsset,
+  type TransformerHealthRecord,
+} from '../datasets/transformer-health'
+import type {
+  DPEstimate,
+  InsulationCondition,
+  InsulationLifeEstimate,
+  InsulationSample,
+  LifeConfidence,
+  PaperStress,
+} from './types'
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000
+
+export const NEW_PAPER_DP = 1000
+export const END_OF_LIFE_DP = 200
+const DP_RANGE = { min: 100, max: 1200 }
+
+// Furan below the lab detection limit still has to yield a finite DP
+const MIN_DETECTABLE_2FAL = 0.01
+
+// The trend-based aging rate needs samples spread over at least half a year
+const TREND_MIN_SAMPLES = 2
+const TREND_MIN_SPAN_YEARS = 0.5
+
+export const MAX_PROJECTION_YEARS = 60
+
+// Aging-rate multipliers applied when CO₂/CO shows paper under active stress
+const STRESS_RATE_FACTOR: Record<PaperStress, number> = {
+  normal: 1.0,
+  accelerating: 1.25,
+  fault: 1.5,
+}
+const FALLING_RATIO_PER_YEAR = -1
+
+function toDate(value: string | Date): Date {
+  return value instanceof Date ? value : new Date(value)
+}
+
+function round(value: number, places = 1): number {
+  const f = 10 ** places
+  return Math.round(value * f) / f
+}
+
+function clampDP(dp: number): number {
+  return Math.min(DP_RANGE.max, Math.max(DP_RANGE.min, dp))
+}
+
+// Chendong (1991): log10(2FAL) = 1.51 − 0.0035·DP
+export function chendongDP(furan2FAL: number): number {
+  return clampDP((1.51 - Math.log10(Math.max(furan2FAL, MIN_DETECTABLE_2FAL))) / 0.0035)
+}
+
+// De Pablo (1999): DP = 7100 / (8.88 + 2FAL)
+export function dePabloDP(furan2FAL: number): number {
+  return clampDP(7100 / (8.88 + Math.max(furan2FAL, 0)))
+}
+
+export function estimateDP(furan2FAL: number): DPEstimate {
+  const chendong = chendongDP(furan2FAL)
+  const dePablo = dePabloDP(furan2FAL)
+  return {
+    furan2FAL,
+    chendong: Math.round(chendong),
+    dePablo: Math.round(dePablo),
+    estimate: Math.round((chendong + dePablo) / 2),
+    low: Math.round(Math.min(chendong, dePablo)),
+    high: Math.round(Math.max(chendong, dePablo)),
+  }
+}
+
+export function classifyInsulation(dp: number): InsulationCondition {
+  if (dp >= 700) return 'healthy'
+  if (dp >= 450) return 'moderate_aging'
+  if (dp >= 250) return 'extensive_aging'
+  return 'end_of_life'
+}
+
+// Least-squares slope of y against x
+function slope(points: { x: number; y: number }[]): number {
+  const n = points.length
+  const meanX = points.reduce((s, p) => s + p.x, 0) / n
+  const meanY = points.reduce((s, p) => s + p.y, 0) / n
+  let num = 0
+  let den = 0
+  for (const p of points) {
+    num += (p.x - meanX) * (p.y - meanY)
+    den += (p.x - meanX) ** 2
+  }
+  return den === 0 ? 0 : num / den
+}
+
+// Ekenstam kinetics: 1/DP rises linearly with time, so the years to end of
+// life are the remaining 1/DP headroom divided by the rate
+function yearsToEndOfLife(dp: number, ratePerYear: number): number {
+  if (dp <= END_OF_LIFE_DP) return 0
+  if (ratePerYear <= 0) return MAX_PROJECTION_YEARS
+  return Math.min(MAX_PROJECTION_YEARS, (1 / END_OF_LIFE_DP - 1 / dp) / ratePerYear)
+}
+
+export function estimateInsulationLife(
+  history: InsulationSample[],
+  options: { assetTag?: string; ageYears?: number } = {}
+): InsulationLifeEstimate | null {
+  if (history.length === 0) return null
+
+  const samples = [...history].sort(
+    (a, b) => toDate(a.timestamp).getTime() - toDate(b.timestamp).getTime()
+  )
+  const latest = samples[samples.length - 1]
+  const latestTime = toDate(latest.timestamp).getTime()
+  const dp = estimateDP(latest.furan2FAL)
+  const years = (s: InsulationSample) => (toDate(s.timestamp).getTime() - latestTime) / YEAR_MS
+
+  // Lifetime average rate from new paper to today's DP
+  const ageYears = options.ageYears && options.ageYears > 0 ? options.ageYears : null
+  const serviceRate = ageYears ? Math.max(0, (1 / dp.estimate - 1 / NEW_PAPER_DP) / ageYears) : 0
+
+  // Recent rate from the furan history, which picks up current loading and oil condition
+  const spanYears = -years(samples[0])
+  const canTrend = samples.length >= TREND_MIN_SAMPLES && spanYears >= TREND_MIN_SPAN_YEARS
+  const trendRate = canTrend
+    ? Math.max(0, slope(samples.map(s => ({ x: years(s), y: 1 / estimateDP(s.furan2FAL).estimate }))))
+    : 0
+
+  // CO₂/CO below 3 points to paper in a fault; a steadily falling ratio to
+  // paper degrading faster than the oil around it
+  const co2CoRatio = latest.co > 0 ? round(latest.co2 / latest.co) : null
+  const ratioSamples = samples.filter(s => s.co > 0)
+  const co2CoTrendPerYear = canTrend && ratioSamples.length >= TREND_MIN_SAMPLES
+    ? round(slope(ratioSamples.map(s => ({ x: years(s), y: s.co2 / s.co }))), 2)
+    : null
+  const paperStress: PaperStress = co2CoRatio !== null && co2CoRatio < 3
+    ? 'fault'
+    : co2CoTrendPerYear !== null && co2CoTrendPerYear <= FALLING_RATIO_PER_YEAR ? 'accelerating' : 'normal'
+
+  // Take the faster of the two rates so a recent acceleration is not averaged away
+  const rateBasis = trendRate > serviceRate ? 'furan_trend' : 'service_age'
+  const agingRatePerYear = Math.max(trendRate, serviceRate) * STRESS_RATE_FACTOR[paperStress]
+
+  const remaining = {
+    estimate: round(yearsToEndOfLife(dp.estimate, agingRatePerYear)),
+    low: round(yearsToEndOfLife(dp.low, agingRatePerYear)),
+    high: round(yearsToEndOfLife(dp.high, agingRatePerYear)),
+  }
+
+  // Confidence drops when the correlations diverge, there is no trend, or CO₂/CO is unavailable
+  const spread = (dp.high - dp.low) / dp.estimate
+  const weaknesses = [spread > 0.4, !canTrend, co2CoRatio === null].filter(Boolean).length
+  const confidence: LifeConfidence = weaknesses === 0 ? 'high' : weaknesses === 1 ? 'medium' : 'low'
+
+  const condition = classifyInsulation(dp.estimate)
+  const span = remaining.low >= MAX_PROJECTION_YEARS
+    ? `over ${MAX_PROJECTION_YEARS} yr`
+    : `${remaining.estimate} yr (${remaining.low}–${remaining.high} yr)`
+  let summary = `2-FAL ${latest.furan2FAL} mg/L → DP ≈ ${dp.estimate} (${dp.low}–${dp.high}); ${span} to DP ${END_OF_LIFE_DP}`
+  if (paperStress === 'fault') summary += ` — CO₂/CO ${co2CoRatio} indicates paper involved in a fault`
+  else if (paperStress === 'accelerating') summary += ` — CO₂/CO falling ${Math.abs(co2CoTrendPerYear!)}/yr, paper aging accelerating`
+
+  return {
+    assetTag: options.assetTag ?? null,
+    sampleCount: samples.length,
+    latestSample: toDate(latest.timestamp),
+    dp,
+    condition,
+    co2CoRatio,
+    co2CoTrendPerYear,
+    paperStress,
+    agingRatePerYear,
+    rateBasis,
+    remainingLifeYears: remaining,
+    endOfLifeDP: END_OF_LIFE_DP,
+    confidence,
+    summary,
+  }
+}
+
+export function estimateAssetInsulationLife(
+  assetTag: string,
+  options: { ageYears?: number; history?: TransformerHealthRecord[] } = {}
+): InsulationLifeEstimate | null {
+  const history = options.history ?? getHistoryForAsset(assetTag)
+  return estimateInsulationLife(history, { assetTag, ageYears: options.ageYears })
+}
@@ -0,0 +1,45 @@
+export type DPCorrelation = 'chendong' | 'de_pablo'
+
+export interface DPEstimate {
+  furan2FAL: number // mg/L, taken as ppm in oil
+  chendong: number
+  dePablo: number
+  estimate: number // mean of the two correlations
+  low: number
+  high: number
+}
+
+// IEC 60599 §5.5 reading of CO₂/CO for paper involvement
+export type PaperStress = 'normal' | 'accelerating' | 'fault'
+
+export type InsulationCondition = 'healthy' | 'moderate_aging' | 'extensive_aging' | 'end_of_life'
+
+export type LifeConfidence = 'high' | 'medium' | 'low'
+
+export interface InsulationSample {
+  timestamp: string | Date
+  furan2FAL: number
+  co: number
+  co2: number
+}
+
+export interface InsulationLifeEstimate {
+  assetTag: string | null
+  sampleCount: number
+  latestSample: Date
+  dp: DPEstimate
+  condition: InsulationCondition
+  co2CoRatio: number | null
+  co2CoTrendPerYear: number | null // change in CO₂/CO ratio per year, negative = falling
+  paperStress: PaperStress
+  agingRatePerYear: number // Ekenstam k, increase of 1/DP per year
+  rateBasis: 'furan_trend' | 'service_age'
+  remainingLifeYears: {
+    estimate: number
+    low: number
+    high: number
+  }
+  endOfLifeDP: number
+  confidence: LifeConfidence
+  summary: string
+}
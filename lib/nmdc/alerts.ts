@@ -4,6 +4,9 @@
  */
 
 import type { FleetVessel } from '@/app/api/fleet/route';
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import type { Encounter } from '@/lib/nmdc/encounters';
+import type { GeofenceEvent } from '@/lib/nmdc/geofences';
 
 export interface NMDCAlert {
   id: string;
@@ -120,6 +123,120 @@ export function generateAlertsFromFleet(vessels: FleetVessel[]): NMDCAlert[] {
   return alerts;
 }
 
+const ENCOUNTER_LABELS: Record<Encounter['type'], string> = {
+  head_on: 'head-on, both alter to starboard',
+  crossing_give_way: 'crossing, give way',
+  crossing_stand_on: 'crossing, stand on',
+  overtaking: 'overtaking, keep clear',
+  overtaken: 'being overtaken, stand on',
+  stationary: 'one vessel stopped',
+  none: 'no COLREG encounter',
+};
+
+/**
+ * Generate alerts from CPA/TCPA encounter analysis
+ * Thresholds are applied by the encounter analysis:
+ * - Critical: CPA/TCPA inside the critical limits, or close quarters
+ * - Warning: CPA/TCPA inside the warning limits
+ */
+export function generateAlertsFromEncounters(encounters: Encounter[]): NMDCAlert[] {
+  const now = new Date();
+
+  return encounters
+    .filter(e => e.risk !== 'none')
+    .map(e => {
+      const approach = e.closeQuarters && e.tcpa <= 0
+        ? `${e.targetName} at ${e.range.toFixed(2)} nm`
+        : `CPA ${e.cpa.toFixed(2)} nm in ${e.tcpa.toFixed(1)} min with ${e.targetName}`;
+      return {
+        id: `encounter-${e.ownMmsi}-${e.targetMmsi}`,
+        vesselId: e.ownMmsi,
+        vesselName: e.ownName,
+        severity: e.risk === 'critical' ? 'critical' as const : 'warning' as const,
+        type: e.risk === 'critical' ? 'safety' as const : 'navigation' as const,
+        title: e.risk === 'critical'
+          ? `Collision Risk: ${e.closeQuarters ? 'Close Quarters' : 'CPA Below Limit'}`
+          : 'Close Approach Warning',
+        description: `${approach} (${ENCOUNTER_LABELS[e.type]}). Target bearing ${Math.round(e.bearing)}° at ${e.range.toFixed(2)} nm, ${e.targetSpeed.toFixed(1)} kn on ${Math.round(e.targetCourse)}°.`,
+        timestamp: now,
+        acknowledged: false,
+        resolved: false,
+      };
+    })
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1));
+}
+
+/**
+ * Record encounter alerts in Supabase, linked to the vessel row with the
+ * own-ship MMSI when there is one. The alerts table has no navigation type,
+ * so close-approach warnings are stored as safety alerts. The description
+ * ends with the encounter's pair reference, and a pair that already has an
+ * open alert at the same severity is not recorded again.
+ */
+export async function recordEncounterAlerts(alerts: NMDCAlert[]): Promise<void> {
+  if (!isSupabaseConfigured || alerts.length === 0) return;
+
+  const { data: open, error: openError } = await supabase
+    .from('alerts')
+    .select('severity, description')
+    .or('resolved.is.null,resolved.eq.false')
+    .like('description', '%[encounter-%]');
+  if (openError) {
+    console.error('Error checking open encounter alerts:', openError);
+    return;
+  }
+  const openKeys = new Set(
+    (open || []).map(row => `${row.severity}|${row.description?.match(/\[(encounter-[^\]]+)\]$/)?.[1]}`)
+  );
+  const fresh = alerts.filter(a => !openKeys.has(`${a.severity}|${a.id}`));
+  if (fresh.length === 0) return;
+
+  const mmsiList = [...new Set(fresh.map(a => a.vesselId))];
+  const { data: vessels, error: lookupError } = await supabase
+    .from('vessels')
+    .select('id, mmsi')
+    .in('mmsi', mmsiList);
+  if (lookupError) console.error('Error looking up encounter vessels:', lookupError);
+  const rowByMmsi = new Map((vessels || []).map(v => [v.mmsi, v.id]));
+
+  const { error } = await supabase.from('alerts').insert(
+    fresh.map(a => ({
+      vessel_id: rowByMmsi.get(a.vesselId) ?? null,
+      severity: a.severity,
+      type: a.type === 'navigation' ? 'safety' as const : a.type,
+      title: a.title,
+      description: `${a.description} [${a.id}]`,
+    }))
+  );
+  if (error) console.error('Error recording encounter alerts:', error);
+}
+
+/**
+ * Generate alerts from geofence events
+ * Only exclusion zones raise alerts:
+ * - Critical: entry by a vessel not authorised for the zone
+ * - Warning: any vessel dwelling inside past the zone's limit
+ */
+export function generateAlertsFromGeofenceEvents(events: GeofenceEvent[]): NMDCAlert[] {
+  return events
+    .filter(e => e.kind === 'exclusion_zone')
+    .filter(e => (e.type === 'enter' && !e.authorized) || e.type === 'dwell')
+    .map(e => ({
+      id: `geofence-${e.type}-${e.geofenceId}-${e.vesselId}`,
+      vesselId: e.vesselId,
+      vesselName: e.vesselName,
+      severity: e.type === 'enter' ? 'critical' as const : 'warning' as const,
+      type: 'safety' as const,
+      title: e.type === 'enter' ? 'Unauthorised Exclusion Zone Entry' : 'Extended Stay in Exclusion Zone',
+      description: e.type === 'enter'
+        ? `${e.vesselName} entered ${e.geofenceName} without authorisation at ${e.lat.toFixed(4)}, ${e.lng.toFixed(4)}.`
+        : `${e.vesselName} has been inside ${e.geofenceName} for ${e.dwellMinutes} minutes.`,
+      timestamp: e.timestamp,
+      acknowledged: false,
+      resolved: false,
+    }));
+}
+
 /**
  * Get alert counts by severity
  */
@@ -0,0 +1,238 @@
+/**
+ * Encounter Analysis - CPA/TCPA and COLREG encounter classification
+ *
+ * Works out the closest point of approach between one of our vessels and
+ * each AIS target around it, classifies the geometry under the collision
+ * regulations (Rule 13 overtaking, Rule 14 head-on, Rule 15 crossing) and
+ * grades the risk against CPA/TCPA thresholds. Default thresholds suit
+ * crane barges and tugs working in port approaches; open-water vessels can
+ * pass wider ones.
+ */
+
+import { SimplifiedVessel, calculateBearing, calculateDistanceNm } from '@/lib/datalastic';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type EncounterType =
+  | 'head_on'
+  | 'crossing_give_way' // target on our starboard side
+  | 'crossing_stand_on' // target on our port side
+  | 'overtaking' // we are overtaking the target
+  | 'overtaken' // the target is overtaking us
+  | 'stationary' // one of the vessels is stopped, e.g. a barge working on DP or moorings
+  | 'none'; // opening, or astern and slower
+
+export interface EncounterThresholds {
+  cpaCriticalNm: number;
+  cpaWarningNm: number;
+  tcpaCriticalMinutes: number;
+  tcpaWarningMinutes: number;
+  closeQuartersNm: number; // this close is critical whatever the CPA
+  stoppedSpeed: number; // knots; slower counts as stopped
+  headOnToleranceDeg: number; // Rule 14: reciprocal courses, target nearly ahead
+}
+
+export const DEFAULT_ENCOUNTER_THRESHOLDS: EncounterThresholds = {
+  cpaCriticalNm: 0.25,
+  cpaWarningNm: 0.5,
+  tcpaCriticalMinutes: 6,
+  tcpaWarningMinutes: 15,
+  closeQuartersNm: 0.15,
+  stoppedSpeed: 0.5,
+  headOnToleranceDeg: 6,
+};
+
+export interface Encounter {
+  ownMmsi: string;
+  ownName: string;
+  targetMmsi: string;
+  targetName: string;
+  targetType: string;
+  range: number; // nm
+  bearing: number; // true bearing of the target
+  relativeBearing: number; // of the target from our bow
+  targetSpeed: number; // knots
+  targetCourse: number;
+  cpa: number; // nm
+  tcpa: number; // minutes; negative once CPA has passed
+  cpaPosition: { lat: number; lng: number }; // our position at CPA
+  type: EncounterType;
+  ownRole: 'give_way' | 'stand_on' | 'both_give_way' | 'none';
+  risk: 'critical' | 'warning' | 'none';
+  closeQuarters: boolean;
+}
+
+// ============================================================================
+// CPA / TCPA
+// ============================================================================
+
+function velocity(speed: number, course: number): { x: number; y: number } {
+  const rad = (course * Math.PI) / 180;
+  return { x: speed * Math.sin(rad), y: speed * Math.cos(rad) };
+}
+
+function courseOf(vessel: SimplifiedVessel): number {
+  // AIS heading 511 means not available
+  const course = vessel.course ?? (vessel.heading !== undefined && vessel.heading < 360 ? vessel.heading : 0);
+  return ((course % 360) + 360) % 360;
+}
+
+function speedOf(vessel: SimplifiedVessel): number {
+  // AIS speed 102.3 means not available
+  return vessel.speed !== undefined && vessel.speed >= 0 && vessel.speed < 102.3 ? vessel.speed : 0;
+}
+
+/**
+ * Closest point of approach between two vessels on steady courses
+ * Positions are projected onto a local flat plane around our vessel, which
+ * is accurate over the few miles that matter for collision risk.
+ */
+export function calculateCPA(
+  own: { lat: number; lng: number; speed: number; course: number },
+  target: { lat: number; lng: number; speed: number; course: number }
+): { cpa: number; tcpa: number; cpaPosition: { lat: number; lng: number } } {
+  const cosLat = Math.cos((own.lat * Math.PI) / 180);
+  const rx = (target.lng - own.lng) * 60 * cosLat;
+  const ry = (target.lat - own.lat) * 60;
+  const ownV = velocity(own.speed, own.course);
+  const targetV = velocity(target.speed, target.course);
+  const vx = targetV.x - ownV.x;
+  const vy = targetV.y - ownV.y;
+  const v2 = vx * vx + vy * vy;
+
+  // No relative motion: the range never changes
+  const tcpaHours = v2 < 1e-9 ? 0 : -(rx * vx + ry * vy) / v2;
+  const cpa = Math.hypot(rx + vx * tcpaHours, ry + vy * tcpaHours);
+
+  return {
+    cpa,
+    tcpa: tcpaHours * 60,
+    cpaPosition: {
+      lat: own.lat + (ownV.y * tcpaHours) / 60,
+      lng: own.lng + (ownV.x * tcpaHours) / (60 * cosLat),
+    },
+  };
+}
+
+// ============================================================================
+// COLREG Classification
+// ============================================================================
+
+function angleBetween(a: number, b: number): number {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+}
+
+// More than 22.5° abaft the beam (Rule 13)
+function isAbaftBeam(relativeBearing: number): boolean {
+  return relativeBearing > 112.5 && relativeBearing < 247.5;
+}
+
+/**
+ * Encounter type and our responsibility under Rules 13–15 and 18
+ */
+export function classifyEncounter(
+  own: { speed: number; course: number },
+  target: { speed: number; course: number },
+  bearingToTarget: number,
+  thresholds: EncounterThresholds = DEFAULT_ENCOUNTER_THRESHOLDS
+): { type: EncounterType; ownRole: Encounter['ownRole'] } {
+  const ownStopped = own.speed < thresholds.stoppedSpeed;
+  const targetStopped = target.speed < thresholds.stoppedSpeed;
+  if (ownStopped && targetStopped) return { type: 'none', ownRole: 'none' };
+  if (ownStopped) return { type: 'stationary', ownRole: 'stand_on' };
+  if (targetStopped) return { type: 'stationary', ownRole: 'give_way' };
+
+  const targetFromOwn = (bearingToTarget - own.course + 360) % 360;
+  const ownFromTarget = ((bearingToTarget + 180) % 360 - target.course + 360) % 360;
+
+  if (isAbaftBeam(ownFromTarget) && own.speed > target.speed) {
+    return { type: 'overtaking', ownRole: 'give_way' };
+  }
+  if (isAbaftBeam(targetFromOwn)) {
+    return target.speed > own.speed
+      ? { type: 'overtaken', ownRole: 'stand_on' }
+      : { type: 'none', ownRole: 'none' };
+  }
+  if (
+    angleBetween(own.course, (target.course + 180) % 360) <= thresholds.headOnToleranceDeg &&
+    angleBetween(targetFromOwn, 0) <= thresholds.headOnToleranceDeg
+  ) {
+    return { type: 'head_on', ownRole: 'both_give_way' };
+  }
+  return targetFromOwn <= 112.5
+    ? { type: 'crossing_give_way', ownRole: 'give_way' }
+    : { type: 'crossing_stand_on', ownRole: 'stand_on' };
+}
+
+// ============================================================================
+// Encounter Watch
+// ============================================================================
+
+/**
+ * CPA/TCPA and COLREG assessment of one target against our vessel
+ */
+export function assessEncounter(
+  own: SimplifiedVessel,
+  target: SimplifiedVessel,
+  thresholds: EncounterThresholds = DEFAULT_ENCOUNTER_THRESHOLDS
+): Encounter {
+  const ownState = { ...own.position, speed: speedOf(own), course: courseOf(own) };
+  const targetState = { ...target.position, speed: speedOf(target), course: courseOf(target) };
+  const range = calculateDistanceNm(own.position.lat, own.position.lng, target.position.lat, target.position.lng);
+  const bearing = calculateBearing(own.position.lat, own.position.lng, target.position.lat, target.position.lng);
+  const { cpa, tcpa, cpaPosition } = calculateCPA(ownState, targetState);
+  const { type, ownRole } = classifyEncounter(ownState, targetState, bearing, thresholds);
+
+  const closeQuarters = range <= thresholds.closeQuartersNm;
+  const closing = tcpa > 0;
+  let risk: Encounter['risk'] = 'none';
+  if (closeQuarters || (closing && cpa <= thresholds.cpaCriticalNm && tcpa <= thresholds.tcpaCriticalMinutes)) {
+    risk = 'critical';
+  } else if (closing && cpa <= thresholds.cpaWarningNm && tcpa <= thresholds.tcpaWarningMinutes) {
+    risk = 'warning';
+  }
+
+  return {
+    ownMmsi: own.mmsi,
+    ownName: own.name,
+    targetMmsi: target.mmsi,
+    targetName: target.name,
+    targetType: target.type,
+    range,
+    bearing,
+    relativeBearing: (bearing - ownState.course + 360) % 360,
+    targetSpeed: targetState.speed,
+    targetCourse: targetState.course,
+    cpa,
+    tcpa,
+    cpaPosition,
+    type: closing ? type : 'none',
+    ownRole: closing ? ownRole : 'none',
+    risk,
+    closeQuarters,
+  };
+}
+
+/**
+ * Encounters between our vessel and surrounding traffic, riskiest first
+ * Our vessel is skipped if it appears in the traffic.
+ */
+export function analyzeEncounters(
+  own: SimplifiedVessel,
+  traffic: SimplifiedVessel[],
+  thresholds: Partial<EncounterThresholds> = {}
+): Encounter[] {
+  const settings = { ...DEFAULT_ENCOUNTER_THRESHOLDS, ...thresholds };
+  const riskOrder = { critical: 0, warning: 1, none: 2 };
+
+  return traffic
+    .filter(target => target.mmsi !== own.mmsi)
+    .map(target => assessEncounter(own, target, settings))
+    .sort((a, b) =>
+      riskOrder[a.risk] - riskOrder[b.risk] ||
+      (a.tcpa > 0 ? a.cpa : a.range) - (b.tcpa > 0 ? b.cpa : b.range)
+    );
+}
@@ -0,0 +1,491 @@
+/**
+ * ETA Model - Arrival times learned from AIS position history
+ *
+ * Replaces distance / constant speed with speeds the fleet actually makes
+ * good. The model is trained on `position_history` rows and keeps:
+ * - a transit speed distribution per vessel and for the whole fleet
+ * - per-lane speed distributions, a lane being a 0.5° cell and one of eight
+ *   headings, so slow approaches and traffic schemes are learned
+ * - speed loss by wave height, where rows carry the weather at the time
+ * - vessels waiting at each port by hour of day, for the arrival delay
+ *
+ * Predictions come with an 80% interval that narrows as the vessel reports
+ * positions, since its recent speed is weighted more near the start of the
+ * remaining passage and there is less passage left to be wrong about.
+ */
+
+import { supabase, isSupabaseConfigured, PositionHistory } from '@/lib/supabase';
+import { calculateDistanceNm, calculateBearing } from '@/lib/datalastic';
+import { getWeatherAtLocation } from '@/lib/weather';
+import { GULF_PLACES, TrackPoint, VoyagePlace } from './voyages';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SpeedDistribution {
+  count: number;
+  mean: number; // knots
+  std: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  coverage: number; // share of samples within INTERVAL_Z standard deviations of the mean
+}
+
+export interface EtaModel {
+  trainedAt: Date;
+  sampleCount: number;
+  fleet: SpeedDistribution | null;
+  vessels: Record<string, SpeedDistribution>; // by vessel id and MMSI
+  lanes: Record<string, SpeedDistribution>;
+  waveSpeedFactors: number[]; // by wave height band, 1 = no loss
+  portWaitHours: Record<string, number[]>; // by place id, 24 hourly expected waits
+}
+
+export interface EtaRequest {
+  vesselId?: string; // vessel id or MMSI
+  from: { lat: number; lng: number };
+  to: { lat: number; lng: number; name?: string };
+  waypoints?: Array<{ lat: number; lng: number }>;
+  departureTime?: Date;
+  nominalSpeed?: number; // planned or service speed, used until the vessel has history
+  recentTrack?: TrackPoint[]; // latest reported positions, oldest first
+  weather?: boolean; // apply current weather along the way (default true, for departures within a day)
+  congestion?: boolean; // add the expected wait at the arrival port (default true)
+}
+
+export interface EtaPrediction {
+  eta: Date;
+  earliest: Date; // lower bound of the interval
+  latest: Date; // upper bound of the interval
+  confidence: number; // share of the learned speeds the interval's spread covers, shrunk to the nominal 80%
+  distanceNm: number;
+  transitHours: number;
+  congestionDelayHours: number;
+  totalHours: number;
+  expectedSpeed: number; // knots made good over the passage
+  weatherFactor: number; // average speed kept in the current weather, 1 = no loss
+  basis: 'vessel' | 'fleet' | 'nominal'; // where the base speed came from
+  vesselSamples: number;
+  laneSamples: number;
+  arrivalPort?: { id: string; name: string };
+}
+
+interface SpeedSample {
+  vessel: string;
+  lat: number;
+  lng: number;
+  speed: number;
+  heading: number;
+  time: Date;
+  waveHeight?: number;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DEFAULT_SPEED_KNOTS = 10;
+const DEFAULT_SPEED_CV = 0.15; // relative spread of transit speeds without history
+const TRANSIT_MIN_SPEED = 3; // knots; slower samples are manoeuvring, working or stopped
+const STOPPED_SPEED = 1;
+const LANE_CELL_DEG = 0.5;
+const PIECE_NM = 10; // passage is evaluated in pieces of this length
+const PRIOR_SAMPLES = 30; // samples before a vessel's or lane's own data outweighs the prior
+const RECENT_WINDOW_MS = 2 * 60 * 60 * 1000;
+const RECENT_MAX_WEIGHT = 0.8;
+const RECENT_DECAY_NM = 30; // recent speed matters over roughly the next 30 nm
+const INTERVAL_Z = 1.2816; // 80% two-sided
+const NOMINAL_COVERAGE = 0.8;
+const WAVE_BANDS = [0, 1, 2, 3]; // metres, lower bounds
+const BASE_PORT_WAIT_HOURS = 1.5;
+const CURRENT_WEATHER_MS = 24 * 60 * 60 * 1000; // later departures sail in unknown weather
+const HISTORY_DAYS = 30;
+const HISTORY_LIMIT = 20000;
+const MODEL_CACHE_MS = 15 * 60 * 1000;
+
+// Pilot and berth availability through the day, relative to the daily mean
+const DEFAULT_HOURLY_CONGESTION = [
+  0.6, 0.5, 0.5, 0.5, 0.6, 0.8, 1.1, 1.4, 1.5, 1.4, 1.3, 1.2,
+  1.1, 1.1, 1.2, 1.3, 1.3, 1.2, 1.0, 0.9, 0.8, 0.8, 0.7, 0.6,
+];
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+function distribution(speeds: number[]): SpeedDistribution | null {
+  if (speeds.length === 0) return null;
+  const sorted = [...speeds].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, s) => sum + s, 0) / sorted.length;
+  const variance = sorted.reduce((sum, s) => sum + (s - mean) ** 2, 0) / sorted.length;
+  const std = Math.sqrt(variance);
+  return {
+    count: sorted.length,
+    mean,
+    std,
+    p10: quantile(sorted, 0.1),
+    p50: quantile(sorted, 0.5),
+    p90: quantile(sorted, 0.9),
+    coverage: sorted.filter(s => Math.abs(s - mean) <= INTERVAL_Z * std).length / sorted.length,
+  };
+}
+
+function laneKey(lat: number, lng: number, heading: number): string {
+  const sector = Math.round((((heading % 360) + 360) % 360) / 45) % 8;
+  return `${Math.floor(lat / LANE_CELL_DEG)}:${Math.floor(lng / LANE_CELL_DEG)}:${sector}`;
+}
+
+function waveBand(waveHeight: number): number {
+  let band = 0;
+  for (let i = 0; i < WAVE_BANDS.length; i++) {
+    if (waveHeight >= WAVE_BANDS[i]) band = i;
+  }
+  return band;
+}
+
+// Speed loss in a seaway without learned data, about 8% at 2 m
+function defaultWaveFactor(waveHeight: number): number {
+  return 1 / (1 + 0.03 * waveHeight ** 1.5);
+}
+
+function placeAt(lat: number, lng: number, places: VoyagePlace[]): VoyagePlace | undefined {
+  return places.find(p => calculateDistanceNm(lat, lng, p.lat, p.lng) <= p.radiusNm);
+}
+
+// ============================================================================
+// Training
+// ============================================================================
+
+function waveHeightOf(weather: PositionHistory['weather_at_location']): number | undefined {
+  if (!weather || typeof weather !== 'object' || Array.isArray(weather)) return undefined;
+  const value = weather.waveHeight ?? weather.wave_height ?? weather.wave_height_m;
+  return typeof value === 'number' ? value : undefined;
+}
+
+function toSamples(rows: PositionHistory[], mmsiById: Record<string, string>): SpeedSample[] {
+  const byVessel = new Map<string, PositionHistory[]>();
+  for (const row of rows) {
+    if (!row.vessel_id || !row.timestamp) continue;
+    const list = byVessel.get(row.vessel_id) ?? [];
+    list.push(row);
+    byVessel.set(row.vessel_id, list);
+  }
+
+  const samples: SpeedSample[] = [];
+  for (const [vesselId, list] of byVessel) {
+    list.sort((a, b) => new Date(a.timestamp!).getTime() - new Date(b.timestamp!).getTime());
+    for (let i = 0; i < list.length; i++) {
+      const row = list[i];
+      const prev = list[i - 1];
+      const time = new Date(row.timestamp!);
+      let speed = row.speed ?? undefined;
+      let heading = row.heading ?? undefined;
+      if (prev && (speed === undefined || heading === undefined)) {
+        const hours = (time.getTime() - new Date(prev.timestamp!).getTime()) / 3600000;
+        if (hours > 0) {
+          speed ??= calculateDistanceNm(prev.position_lat, prev.position_lng, row.position_lat, row.position_lng) / hours;
+          heading ??= calculateBearing(prev.position_lat, prev.position_lng, row.position_lat, row.position_lng);
+        }
+      }
+      if (speed === undefined || speed < 0 || speed >= 102.3) continue;
+
+      samples.push({
+        vessel: mmsiById[vesselId] ? `${vesselId}|${mmsiById[vesselId]}` : vesselId,
+        lat: row.position_lat,
+        lng: row.position_lng,
+        speed,
+        heading: heading ?? 0,
+        time,
+        waveHeight: waveHeightOf(row.weather_at_location),
+      });
+    }
+  }
+  return samples;
+}
+
+/**
+ * Train the model from position history rows
+ * `mmsiById` maps vessel ids to MMSIs so live vessels can be looked up too.
+ */
+export function trainEtaModel(
+  rows: PositionHistory[],
+  mmsiById: Record<string, string> = {},
+  places: VoyagePlace[] = GULF_PLACES
+): EtaModel {
+  const samples = toSamples(rows, mmsiById);
+  const transit = samples.filter(s => s.speed >= TRANSIT_MIN_SPEED && !placeAt(s.lat, s.lng, places));
+
+  const group = (key: (s: SpeedSample) => string[]) => {
+    const groups: Record<string, number[]> = {};
+    for (const s of transit) {
+      for (const k of key(s)) (groups[k] ??= []).push(s.speed);
+    }
+    return Object.fromEntries(
+      Object.entries(groups).map(([k, speeds]) => [k, distribution(speeds)!])
+    );
+  };
+  const vessels = group(s => s.vessel.split('|'));
+  const lanes = group(s => [laneKey(s.lat, s.lng, s.heading)]);
+
+  // Speed kept in each wave band, relative to the vessel's own mean
+  const bandRatios: number[][] = WAVE_BANDS.map(() => []);
+  for (const s of transit) {
+    const own = vessels[s.vessel.split('|')[0]];
+    if (s.waveHeight !== undefined && own && own.mean > 0) {
+      bandRatios[waveBand(s.waveHeight)].push(s.speed / own.mean);
+    }
+  }
+  const waveSpeedFactors = WAVE_BANDS.map((lower, band) => {
+    const ratios = bandRatios[band];
+    const fallback = defaultWaveFactor(lower + 0.5);
+    if (ratios.length === 0) return fallback;
+    const learned = ratios.reduce((sum, r) => sum + r, 0) / ratios.length;
+    const weight = ratios.length / (ratios.length + PRIOR_SAMPLES);
+    return Math.min(1, weight * learned + (1 - weight) * fallback);
+  });
+
+  // Vessels stopped at each port by hour of day; distinct vessel-days per hour
+  const portWaitHours: Record<string, number[]> = {};
+  for (const place of places.filter(p => p.kind === 'port')) {
+    const occupied = Array.from({ length: 24 }, () => new Set<string>());
+    const days = new Set<string>();
+    for (const s of samples) {
+      if (s.speed >= STOPPED_SPEED || calculateDistanceNm(s.lat, s.lng, place.lat, place.lng) > place.radiusNm) continue;
+      const day = s.time.toISOString().slice(0, 10);
+      days.add(day);
+      occupied[s.time.getUTCHours()].add(`${s.vessel}:${day}`);
+    }
+    if (days.size < 3) continue; // too little to beat the default profile
+
+    const occupancy = occupied.map(set => set.size / days.size);
+    const mean = occupancy.reduce((sum, o) => sum + o, 0) / 24;
+    if (mean === 0) continue;
+    portWaitHours[place.id] = occupancy.map(o => BASE_PORT_WAIT_HOURS * (o / mean));
+  }
+
+  return {
+    trainedAt: new Date(),
+    sampleCount: transit.length,
+    fleet: distribution(transit.map(s => s.speed)),
+    vessels,
+    lanes,
+    waveSpeedFactors,
+    portWaitHours,
+  };
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+const UNTRAINED_MODEL = trainEtaModel([]);
+
+let cachedModel: { model: EtaModel; loadedAt: number } | null = null;
+let loadingModel: Promise<EtaModel> | null = null;
+
+/**
+ * Model trained on the last 30 days of position history
+ * Retrained every 15 minutes; untrained (defaults only) without Supabase.
+ */
+export async function loadEtaModel(): Promise<EtaModel> {
+  if (cachedModel && Date.now() - cachedModel.loadedAt < MODEL_CACHE_MS) {
+    return cachedModel.model;
+  }
+  if (!isSupabaseConfigured) return UNTRAINED_MODEL;
+
+  loadingModel ??= (async () => {
+    try {
+      const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      const [history, vessels] = await Promise.all([
+        supabase
+          .from('position_history')
+          .select('*')
+          .gte('timestamp', since)
+          .order('timestamp', { ascending: false })
+          .limit(HISTORY_LIMIT),
+        supabase.from('vessels').select('id, mmsi'),
+      ]);
+      if (history.error) throw history.error;
+
+      const mmsiById = Object.fromEntries(
+        (vessels.data || []).filter(v => v.mmsi).map(v => [v.id, v.mmsi as string])
+      );
+      const model = trainEtaModel(history.data || [], mmsiById);
+      cachedModel = { model, loadedAt: Date.now() };
+      return model;
+    } catch (error) {
+      console.error('Error training ETA model:', error);
+      return cachedModel?.model ?? UNTRAINED_MODEL;
+    } finally {
+      loadingModel = null;
+    }
+  })();
+  return loadingModel;
+}
+
+/**
+ * Most recently loaded model, for synchronous callers
+ * Call `loadEtaModel()` first to refresh it.
+ */
+export function getEtaModel(): EtaModel {
+  return cachedModel?.model ?? UNTRAINED_MODEL;
+}
+
+// ============================================================================
+// Prediction
+// ============================================================================
+
+// Weighted towards the sample's own mean as its count grows
+function shrink(sample: number, count: number, prior: number): number {
+  const weight = count / (count + PRIOR_SAMPLES);
+  return weight * sample + (1 - weight) * prior;
+}
+
+function recentSpeed(track: TrackPoint[] | undefined): number | null {
+  if (!track || track.length === 0) return null;
+  const latest = track[track.length - 1].time.getTime();
+  const recent = track.filter(p => latest - p.time.getTime() <= RECENT_WINDOW_MS);
+  const speed = recent.reduce((sum, p) => sum + p.speed, 0) / recent.length;
+  // Stopped or drifting: the vessel is not under way on this passage yet
+  return speed >= TRANSIT_MIN_SPEED ? speed : null;
+}
+
+/**
+ * Port place an arrival point falls in
+ */
+export function findArrivalPort(
+  to: { lat: number; lng: number; name?: string },
+  places: VoyagePlace[] = GULF_PLACES
+): VoyagePlace | undefined {
+  const name = to.name?.toLowerCase().trim();
+  return placeAt(to.lat, to.lng, places)
+    ?? (name ? places.find(p => p.name.toLowerCase().includes(name) || name.includes(p.name.toLowerCase())) : undefined);
+}
+
+/**
+ * Port place matching an AIS destination, e.g. "AE KHL" or "MUSSAFAH"
+ */
+export function findPlaceByDestination(destination: string, places: VoyagePlace[] = GULF_PLACES): VoyagePlace | undefined {
+  const text = destination.toLowerCase().replace(/[^a-z ]/g, ' ');
+  return places.find(p =>
+    text.includes(p.name.toLowerCase()) ||
+    text.includes(p.id.replace(/-/g, ' ')) ||
+    p.name.toLowerCase().split(' ').some(word => word.length > 4 && text.includes(word))
+  );
+}
+
+/**
+ * Predicted arrival with a nominal 80% interval
+ */
+export function predictEta(model: EtaModel, request: EtaRequest): EtaPrediction {
+  const departure = request.departureTime ?? request.recentTrack?.[request.recentTrack.length - 1]?.time ?? new Date();
+  const path = [request.from, ...(request.waypoints ?? []), request.to];
+
+  // Base transit speed: the vessel's own history, the fleet's, or nominal
+  const fleet = model.fleet;
+  const prior = request.nominalSpeed ?? fleet?.mean ?? DEFAULT_SPEED_KNOTS;
+  const own = request.vesselId ? model.vessels[request.vesselId] : undefined;
+  const baseSpeed = own ? shrink(own.mean, own.count, prior) : prior;
+  const basis: EtaPrediction['basis'] = own ? 'vessel' : request.nominalSpeed ? 'nominal' : fleet ? 'fleet' : 'nominal';
+  const spread = own && own.mean > 0
+    ? shrink(own.std / own.mean, own.count, DEFAULT_SPEED_CV)
+    : fleet && fleet.mean > 0 ? shrink(fleet.std / fleet.mean, fleet.count, DEFAULT_SPEED_CV) : DEFAULT_SPEED_CV;
+  // How much of the learned speeds a normal interval of that spread actually
+  // holds; skewed or heavy-tailed histories cover less than the nominal 80%
+  const spreadSource = own && own.mean > 0 ? own : fleet && fleet.mean > 0 ? fleet : undefined;
+  const confidence = spreadSource
+    ? shrink(spreadSource.coverage, spreadSource.count, NOMINAL_COVERAGE)
+    : NOMINAL_COVERAGE;
+
+  const observed = recentSpeed(request.recentTrack);
+  const useWeather = request.weather !== false && Math.abs(departure.getTime() - Date.now()) <= CURRENT_WEATHER_MS;
+
+  let distanceNm = 0;
+  let transitHours = 0;
+  let weatherWeighted = 0;
+  let recentWeighted = 0;
+  let laneSamples = 0;
+
+  for (let leg = 0; leg < path.length - 1; leg++) {
+    const a = path[leg];
+    const b = path[leg + 1];
+    const legDistance = calculateDistanceNm(a.lat, a.lng, b.lat, b.lng);
+    if (legDistance === 0) continue;
+    const heading = calculateBearing(a.lat, a.lng, b.lat, b.lng);
+    const pieces = Math.max(1, Math.ceil(legDistance / PIECE_NM));
+
+    for (let i = 0; i < pieces; i++) {
+      const f = (i + 0.5) / pieces;
+      const lat = a.lat + (b.lat - a.lat) * f;
+      const lng = a.lng + (b.lng - a.lng) * f;
+      const pieceNm = legDistance / pieces;
+
+      // Lane effect relative to the fleet, trusted as it gathers samples
+      const lane = model.lanes[laneKey(lat, lng, heading)];
+      const laneFactor = lane && fleet && fleet.mean > 0 ? shrink(lane.mean / fleet.mean, lane.count, 1) : 1;
+      if (lane) laneSamples += lane.count;
+
+      const weatherFactor = useWeather
+        ? model.waveSpeedFactors[waveBand(getWeatherAtLocation(lat, lng).waveHeight)]
+        : 1;
+
+      // Recent reports dominate the next few miles, learned speeds beyond
+      const recentWeight = observed !== null
+        ? RECENT_MAX_WEIGHT * Math.exp(-(distanceNm + pieceNm / 2) / RECENT_DECAY_NM)
+        : 0;
+      const learned = baseSpeed * laneFactor * weatherFactor;
+      const speed = Math.max(1, recentWeight * (observed ?? 0) + (1 - recentWeight) * learned);
+
+      const hours = pieceNm / speed;
+      transitHours += hours;
+      distanceNm += pieceNm;
+      weatherWeighted += weatherFactor * pieceNm;
+      recentWeighted += recentWeight * pieceNm;
+    }
+  }
+
+  // Wait for pilot or berth at the arrival port, by hour of arrival
+  const port = request.congestion !== false ? findArrivalPort(request.to) : undefined;
+  let congestionDelayHours = 0;
+  if (port?.kind === 'port') {
+    const arrivalHour = new Date(departure.getTime() + transitHours * 3600000).getUTCHours();
+    const waits = model.portWaitHours[port.id];
+    congestionDelayHours = waits ? waits[arrivalHour] : BASE_PORT_WAIT_HOURS * DEFAULT_HOURLY_CONGESTION[arrivalHour];
+  }
+
+  // Speeds are correlated along a passage, so the spread scales with its
+  // length; what the recent reports already pin down is taken out
+  const recentShare = distanceNm > 0 ? recentWeighted / distanceNm : 0;
+  const transitSigma = transitHours * spread * (1 - 0.5 * recentShare);
+  const congestionSigma = congestionDelayHours * 0.5;
+  const sigma = Math.sqrt(transitSigma ** 2 + congestionSigma ** 2);
+
+  const totalHours = transitHours + congestionDelayHours;
+  const at = (hours: number) => new Date(departure.getTime() + hours * 3600000);
+
+  return {
+    eta: at(totalHours),
+    earliest: at(Math.max(transitHours * 0.5, totalHours - INTERVAL_Z * sigma)),
+    latest: at(totalHours + INTERVAL_Z * sigma),
+    confidence,
+    distanceNm,
+    transitHours,
+    congestionDelayHours,
+    totalHours,
+    expectedSpeed: transitHours > 0 ? distanceNm / transitHours : 0,
+    weatherFactor: distanceNm > 0 ? weatherWeighted / distanceNm : 1,
+    basis,
+    vesselSamples: own?.count ?? 0,
+    laneSamples,
+    ...(port && { arrivalPort: { id: port.id, name: port.name } }),
+  };
+}
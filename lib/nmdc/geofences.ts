@@ -0,0 +1,472 @@
+/**
+ * Geofences - Project sites, ports, anchorages and exclusion zones
+ *
+ * Polygon geofences are stored in the Supabase `geofences` table next to
+ * vessels; without Supabase (or with an empty table) the built-in fences
+ * from the project sites, port limits and platform safety zones are used.
+ *
+ * The evaluator runs on every position update from the simulation tick and
+ * the live AIS sync. It emits enter, exit and dwell events, marks planned
+ * projects active once an assigned vessel has settled on site, and raises
+ * alerts when a vessel enters an exclusion zone it is not authorised for.
+ * Occupancy is kept apart per position source, since the simulation tick
+ * runs on its own clock and the real-time engine on the wall clock, and is
+ * rebuilt from recorded events after a restart.
+ */
+
+import { supabase, isSupabaseConfigured, GeofenceRecord } from '@/lib/supabase';
+import { isPointInPolygon } from '@/lib/routes/emission-zones';
+import { RTree } from '@/lib/routes/land-mask';
+import { generateAlertsFromGeofenceEvents, NMDCAlert } from './alerts';
+import { PROJECT_SITES, ProjectSite, getProjectWorkArea, loadProjectStatuses, saveProjectStatus } from './projects';
+import { GULF_PLACES } from './voyages';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type GeofenceKind = 'project_site' | 'port' | 'anchorage' | 'exclusion_zone';
+
+// Where positions come from: the live AIS sync, the simulation tick on its
+// simulated clock, or the real-time engine stamped with the wall clock
+export type GeofenceSource = 'live' | 'simulation' | 'realtime';
+const GEOFENCE_SOURCES: GeofenceSource[] = ['live', 'simulation', 'realtime'];
+
+export interface Geofence {
+  id: string;
+  name: string;
+  kind: GeofenceKind;
+  polygon: Array<{ lat: number; lng: number }>;
+  projectId?: string;
+  authorizedMmsis?: string[]; // exclusion zones: vessels allowed inside
+  dwellAlertMinutes?: number; // dwell event after this long inside
+}
+
+export interface VesselPositionUpdate {
+  vesselId: string; // Supabase id, or MMSI for live-only vessels
+  mmsi?: string | null;
+  name: string;
+  lat: number;
+  lng: number;
+  timestamp?: Date;
+}
+
+export interface GeofenceEvent {
+  id: string;
+  type: 'enter' | 'exit' | 'dwell';
+  geofenceId: string;
+  geofenceName: string;
+  kind: GeofenceKind;
+  vesselId: string;
+  mmsi?: string;
+  vesselName: string;
+  lat: number;
+  lng: number;
+  timestamp: Date;
+  dwellMinutes?: number; // time inside, on dwell and exit events
+  authorized?: boolean; // exclusion zones only
+  projectId?: string;
+}
+
+export interface ProjectStatusChange {
+  projectId: string;
+  projectName: string;
+  from: ProjectSite['status'];
+  to: ProjectSite['status'];
+  reason: string;
+}
+
+// Per vessel, the fences it is inside and since when
+export type GeofenceState = Map<string, Map<string, { enteredAt: Date; dwellReported: boolean }>>;
+
+const DEFAULT_DWELL_MINUTES: Record<GeofenceKind, number> = {
+  project_site: 60, // settled on site rather than passing through
+  port: 24 * 60,
+  anchorage: 12 * 60,
+  exclusion_zone: 10,
+};
+
+const GEOFENCE_CACHE_MS = 60000;
+const MAX_RECENT_EVENTS = 200;
+const RESTORE_EVENT_LIMIT = 5000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ============================================================================
+// Default Fences
+// ============================================================================
+
+/**
+ * Circle approximated by a polygon, radius in nautical miles
+ */
+export function circlePolygon(lat: number, lng: number, radiusNm: number, sides: number = 16): Array<{ lat: number; lng: number }> {
+  const cosLat = Math.cos((lat * Math.PI) / 180);
+  return Array.from({ length: sides }, (_, i) => {
+    const angle = (i / sides) * 2 * Math.PI;
+    return {
+      lat: lat + (radiusNm / 60) * Math.cos(angle),
+      lng: lng + (radiusNm / 60) * Math.sin(angle) / cosLat,
+    };
+  });
+}
+
+// 500 m safety zones around offshore installations (SOLAS / UNCLOS Art. 60)
+const SAFETY_ZONES = [
+  { id: 'sz-upper-zakum', name: 'Upper Zakum Central Complex Safety Zone', lat: 24.87, lng: 53.47, projectId: 'proj-zakum' },
+  { id: 'sz-umm-lulu', name: 'Umm Lulu Platform Safety Zone', lat: 24.6, lng: 53.52, projectId: 'proj-002' },
+  { id: 'sz-sarb', name: 'SARB Platform Safety Zone', lat: 24.46, lng: 53.29, projectId: 'proj-006' },
+];
+const SAFETY_ZONE_RADIUS_NM = 0.27;
+
+/**
+ * Built-in fences: active and planned project sites, port limits and
+ * anchorages, and platform safety zones open to the project's own vessels
+ */
+export function getDefaultGeofences(): Geofence[] {
+  const projectFences: Geofence[] = PROJECT_SITES
+    .filter(p => p.status !== 'completed')
+    .map(p => ({
+      id: `site-${p.id}`,
+      name: p.name,
+      kind: 'project_site',
+      polygon: getProjectWorkArea(p),
+      projectId: p.id,
+    }));
+
+  const placeFences: Geofence[] = GULF_PLACES.map(place => ({
+    id: `${place.kind}-${place.id}`,
+    name: place.name,
+    kind: place.kind,
+    polygon: circlePolygon(place.lat, place.lng, place.radiusNm),
+  }));
+
+  const exclusionFences: Geofence[] = SAFETY_ZONES.map(zone => ({
+    id: zone.id,
+    name: zone.name,
+    kind: 'exclusion_zone',
+    polygon: circlePolygon(zone.lat, zone.lng, SAFETY_ZONE_RADIUS_NM),
+    projectId: zone.projectId,
+    authorizedMmsis: PROJECT_SITES.find(p => p.id === zone.projectId)?.assignedVessels ?? [],
+  }));
+
+  return [...projectFences, ...placeFences, ...exclusionFences];
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+function fromRecord(record: GeofenceRecord): Geofence {
+  return {
+    id: record.id,
+    name: record.name,
+    kind: record.kind as GeofenceKind,
+    polygon: record.polygon as Array<{ lat: number; lng: number }>,
+    projectId: record.project_id ?? undefined,
+    authorizedMmsis: record.authorized_mmsis ?? undefined,
+    dwellAlertMinutes: record.dwell_alert_minutes ?? undefined,
+  };
+}
+
+let cachedGeofences: { fences: Geofence[]; loadedAt: number } | null = null;
+
+/**
+ * Active geofences from Supabase, falling back to the built-in set
+ */
+export async function loadGeofences(): Promise<Geofence[]> {
+  if (cachedGeofences && Date.now() - cachedGeofences.loadedAt < GEOFENCE_CACHE_MS) {
+    return cachedGeofences.fences;
+  }
+
+  // Built-in site fences depend on which projects are still open
+  await loadProjectStatuses();
+
+  let fences: Geofence[] = [];
+  if (isSupabaseConfigured) {
+    const { data, error } = await supabase.from('geofences').select('*').eq('active', true);
+    if (error) {
+      console.error('Error loading geofences:', error);
+    } else {
+      fences = (data || []).map(fromRecord);
+    }
+  }
+  if (fences.length === 0) fences = getDefaultGeofences();
+
+  cachedGeofences = { fences, loadedAt: Date.now() };
+  return fences;
+}
+
+/**
+ * Save a geofence to Supabase
+ */
+export async function saveGeofence(fence: Omit<Geofence, 'id'> & { id?: string }): Promise<Geofence> {
+  if (fence.polygon.length < 3) {
+    throw new Error('A geofence polygon needs at least three points');
+  }
+  if (!isSupabaseConfigured) {
+    throw new Error('Supabase is not configured');
+  }
+
+  const { data, error } = await supabase
+    .from('geofences')
+    .upsert({
+      ...(fence.id && { id: fence.id }),
+      name: fence.name,
+      kind: fence.kind,
+      polygon: fence.polygon,
+      project_id: fence.projectId ?? null,
+      authorized_mmsis: fence.authorizedMmsis ?? null,
+      dwell_alert_minutes: fence.dwellAlertMinutes ?? null,
+      active: true,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+  if (error) throw error;
+
+  cachedGeofences = null;
+  return fromRecord(data);
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function fenceIndex(fences: Geofence[]): RTree<Geofence> {
+  return new RTree(
+    fences.map(fence => {
+      const lats = fence.polygon.map(p => p.lat);
+      const lngs = fence.polygon.map(p => p.lng);
+      return {
+        bbox: [Math.min(...lngs), Math.min(...lats), Math.max(...lngs), Math.max(...lats)] as [number, number, number, number],
+        value: fence,
+      };
+    })
+  );
+}
+
+/**
+ * Enter, exit and dwell events for a batch of position updates
+ * `state` carries which fences each vessel was inside after the previous
+ * batch and is updated in place.
+ */
+export function evaluateGeofences(
+  positions: VesselPositionUpdate[],
+  fences: Geofence[],
+  state: GeofenceState,
+  now: Date = new Date()
+): GeofenceEvent[] {
+  const index = fenceIndex(fences);
+  const byId = new Map(fences.map(f => [f.id, f]));
+  const events: GeofenceEvent[] = [];
+
+  for (const position of positions) {
+    const time = position.timestamp ?? now;
+    const inside = new Set(
+      index
+        .search([position.lng, position.lat, position.lng, position.lat])
+        .filter(fence => isPointInPolygon(position.lat, position.lng, fence.polygon))
+        .map(fence => fence.id)
+    );
+    const current = state.get(position.vesselId) ?? new Map();
+    state.set(position.vesselId, current);
+
+    const event = (fence: Geofence, type: GeofenceEvent['type'], dwellMinutes?: number): GeofenceEvent => ({
+      id: `${type}-${fence.id}-${position.vesselId}-${time.getTime()}`,
+      type,
+      geofenceId: fence.id,
+      geofenceName: fence.name,
+      kind: fence.kind,
+      vesselId: position.vesselId,
+      mmsi: position.mmsi ?? undefined,
+      vesselName: position.name,
+      lat: position.lat,
+      lng: position.lng,
+      timestamp: time,
+      ...(dwellMinutes !== undefined && { dwellMinutes: Math.round(dwellMinutes) }),
+      ...(fence.kind === 'exclusion_zone' && {
+        authorized: Boolean(position.mmsi && fence.authorizedMmsis?.includes(position.mmsi)),
+      }),
+      ...(fence.projectId && { projectId: fence.projectId }),
+    });
+
+    // Exits, including fences that have since been removed
+    for (const [fenceId, entry] of current) {
+      if (inside.has(fenceId)) continue;
+      current.delete(fenceId);
+      const fence = byId.get(fenceId);
+      if (fence) events.push(event(fence, 'exit', (time.getTime() - entry.enteredAt.getTime()) / 60000));
+    }
+
+    for (const fenceId of inside) {
+      const fence = byId.get(fenceId)!;
+      const entry = current.get(fenceId);
+      if (!entry) {
+        current.set(fenceId, { enteredAt: time, dwellReported: false });
+        events.push(event(fence, 'enter'));
+        continue;
+      }
+      const dwellMinutes = (time.getTime() - entry.enteredAt.getTime()) / 60000;
+      const threshold = fence.dwellAlertMinutes ?? DEFAULT_DWELL_MINUTES[fence.kind];
+      if (!entry.dwellReported && dwellMinutes >= threshold) {
+        entry.dwellReported = true;
+        events.push(event(fence, 'dwell', dwellMinutes));
+      }
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Project status changes implied by geofence events
+ * A planned or on-hold project becomes active once one of its assigned
+ * vessels has dwelt on site.
+ */
+export function projectStatusChanges(events: GeofenceEvent[], projects: ProjectSite[] = PROJECT_SITES): ProjectStatusChange[] {
+  const changes: ProjectStatusChange[] = [];
+  for (const event of events) {
+    if (event.type !== 'dwell' || event.kind !== 'project_site' || !event.projectId) continue;
+    const project = projects.find(p => p.id === event.projectId);
+    if (!project || (project.status !== 'planned' && project.status !== 'on_hold')) continue;
+    if (!event.mmsi || !project.assignedVessels.includes(event.mmsi)) continue;
+    if (changes.some(c => c.projectId === project.id)) continue;
+
+    changes.push({
+      projectId: project.id,
+      projectName: project.name,
+      from: project.status,
+      to: 'active',
+      reason: `${event.vesselName} arrived on site (${event.dwellMinutes} min inside the work area)`,
+    });
+  }
+  return changes;
+}
+
+// ============================================================================
+// Monitor
+// ============================================================================
+
+const monitorStates = new Map<GeofenceSource, Promise<GeofenceState>>();
+let recentEvents: GeofenceEvent[] = [];
+
+/**
+ * Fence occupancy as of the last recorded event for each vessel and fence,
+ * so a restart doesn't report vessels already inside as entering again
+ */
+async function restoreGeofenceState(source: GeofenceSource): Promise<GeofenceState> {
+  const state: GeofenceState = new Map();
+  if (!isSupabaseConfigured) return state;
+
+  const { data, error } = await supabase
+    .from('geofence_events')
+    .select('fence_key, vessel_key, event_type, dwell_minutes, occurred_at')
+    .eq('source', source)
+    .order('occurred_at', { ascending: false })
+    .limit(RESTORE_EVENT_LIMIT);
+  if (error) {
+    console.error('Error restoring geofence state:', error);
+    return state;
+  }
+
+  const seen = new Set<string>();
+  for (const row of data ?? []) {
+    const key = `${row.vessel_key}:${row.fence_key}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    if (row.event_type === 'exit' || !row.occurred_at) continue;
+
+    const occurredAt = new Date(row.occurred_at);
+    const fences = state.get(row.vessel_key) ?? new Map();
+    fences.set(row.fence_key, row.event_type === 'dwell'
+      ? { enteredAt: new Date(occurredAt.getTime() - (row.dwell_minutes ?? 0) * 60000), dwellReported: true }
+      : { enteredAt: occurredAt, dwellReported: false });
+    state.set(row.vessel_key, fences);
+  }
+  return state;
+}
+
+function monitorState(source: GeofenceSource): Promise<GeofenceState> {
+  let state = monitorStates.get(source);
+  if (!state) {
+    state = restoreGeofenceState(source);
+    monitorStates.set(source, state);
+  }
+  return state;
+}
+
+/**
+ * Evaluate a batch of position updates against the stored geofences
+ * Events are recorded in Supabase when it is configured, project statuses
+ * are updated and saved, and exclusion-zone alerts are raised.
+ */
+export async function processGeofenceUpdates(positions: VesselPositionUpdate[], source: GeofenceSource = 'live'): Promise<{
+  events: GeofenceEvent[];
+  statusChanges: ProjectStatusChange[];
+  alerts: NMDCAlert[];
+}> {
+  const fences = await loadGeofences();
+  const events = evaluateGeofences(positions, fences, await monitorState(source));
+  const statusChanges = projectStatusChanges(events);
+  const alerts = generateAlertsFromGeofenceEvents(events);
+
+  for (const change of statusChanges) {
+    await saveProjectStatus(change.projectId, change.to);
+    console.log(`[Geofence] ${change.projectName}: ${change.from} → ${change.to} (${change.reason})`);
+  }
+  recentEvents = [...events.slice().reverse(), ...recentEvents].slice(0, MAX_RECENT_EVENTS);
+
+  if (isSupabaseConfigured && events.length > 0) {
+    // Built-in fences and live-only vessels have no row to reference
+    const rowId = (id: string) => (UUID_PATTERN.test(id) ? id : null);
+    const { error } = await supabase.from('geofence_events').insert(
+      events.map(e => ({
+        geofence_id: rowId(e.geofenceId),
+        vessel_id: rowId(e.vesselId),
+        fence_key: e.geofenceId,
+        vessel_key: e.vesselId,
+        source,
+        mmsi: e.mmsi ?? null,
+        event_type: e.type,
+        dwell_minutes: e.dwellMinutes ?? null,
+        position_lat: e.lat,
+        position_lng: e.lng,
+        occurred_at: e.timestamp.toISOString(),
+      }))
+    );
+    if (error) console.error('Error recording geofence events:', error);
+
+    if (alerts.length > 0) {
+      const { error: alertError } = await supabase.from('alerts').insert(
+        alerts.map(a => ({
+          vessel_id: rowId(a.vesselId),
+          severity: a.severity,
+          type: 'safety' as const,
+          title: a.title,
+          description: a.description,
+        }))
+      );
+      if (alertError) console.error('Error recording geofence alerts:', alertError);
+    }
+  }
+
+  return { events, statusChanges, alerts };
+}
+
+/**
+ * Most recent geofence events, newest first
+ */
+export function getRecentGeofenceEvents(limit: number = 50): GeofenceEvent[] {
+  return recentEvents.slice(0, limit);
+}
+
+/**
+ * Fences each vessel is currently inside, per position source
+ */
+export async function getVesselGeofenceState(): Promise<Array<{ source: GeofenceSource; vesselId: string; geofenceId: string; enteredAt: Date }>> {
+  const states = await Promise.all(GEOFENCE_SOURCES.map(monitorState));
+  return states.flatMap((state, i) =>
+    Array.from(state.entries()).flatMap(([vesselId, fences]) =>
+      Array.from(fences.entries()).map(([geofenceId, entry]) => ({ source: GEOFENCE_SOURCES[i], vesselId, geofenceId, enteredAt: entry.enteredAt }))
+    )
+  );
+}
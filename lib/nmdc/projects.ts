@@ -1,5 +1,7 @@
 // Legacy Marine Project Sites Data
 
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+
 export interface ProjectSite {
   id: string;
   name: string;
@@ -11,6 +13,7 @@ export interface ProjectSite {
     lng: number;
     area: string;
   };
+  workArea?: Array<{ lat: number; lng: number }>; // site polygon; a circle around location if omitted
   description: string;
   startDate: string;
   endDate?: string;
@@ -50,6 +53,13 @@ export const PROJECT_SITES: ProjectSite[] = [
       lng: 52.7306,
       area: 'Ruwais Offshore, Abu Dhabi',
     },
+    // Pipeline corridor from the Ruwais landfall to the offshore platform
+    workArea: [
+      { lat: 24.16, lng: 52.70 },
+      { lat: 24.58, lng: 52.74 },
+      { lat: 24.58, lng: 52.82 },
+      { lat: 24.16, lng: 52.78 },
+    ],
     description: 'Critical offshore pipeline installation for ADNOC gas export facility. 48km subsea pipeline from Ruwais terminal to offshore platform. Weather window critical.',
     startDate: '2025-11-01',
     endDate: '2026-04-30',
@@ -253,6 +263,63 @@ export function getProjectsByVessel(mmsi: string): ProjectSite[] {
   return PROJECT_SITES.filter(p => p.assignedVessels.includes(mmsi));
 }
 
+// Update a project's status in place, e.g. when its vessels arrive on site
+export function setProjectStatus(id: string, status: ProjectSite['status']): ProjectSite | undefined {
+  const project = getProjectById(id);
+  if (project) project.status = status;
+  return project;
+}
+
+// Update a project's status and save it to Supabase so it survives a restart
+export async function saveProjectStatus(id: string, status: ProjectSite['status']): Promise<ProjectSite | undefined> {
+  const project = setProjectStatus(id, status);
+  if (project && isSupabaseConfigured) {
+    const { error } = await supabase
+      .from('project_statuses')
+      .upsert({ project_id: id, status, updated_at: new Date().toISOString() });
+    if (error) console.error('Error saving project status:', error);
+  }
+  return project;
+}
+
+let savedStatuses: Promise<void> | null = null;
+
+// Apply statuses saved by earlier runs to PROJECT_SITES, once per process
+export function loadProjectStatuses(): Promise<void> {
+  if (!savedStatuses) {
+    savedStatuses = (async () => {
+      if (!isSupabaseConfigured) return;
+      const { data, error } = await supabase.from('project_statuses').select('project_id, status');
+      if (error) {
+        console.error('Error loading project statuses:', error);
+        return;
+      }
+      for (const row of data ?? []) {
+        setProjectStatus(row.project_id, row.status as ProjectSite['status']);
+      }
+    })();
+  }
+  return savedStatuses;
+}
+
+/**
+ * Work area polygon for a site: its surveyed boundary, or a circle of
+ * `radiusNm` around the site location
+ */
+export function getProjectWorkArea(project: ProjectSite, radiusNm: number = 3): Array<{ lat: number; lng: number }> {
+  if (project.workArea && project.workArea.length >= 3) return project.workArea;
+
+  const { lat, lng } = project.location;
+  const cosLat = Math.cos((lat * Math.PI) / 180);
+  return Array.from({ length: 16 }, (_, i) => {
+    const angle = (i / 16) * 2 * Math.PI;
+    return {
+      lat: lat + (radiusNm / 60) * Math.cos(angle),
+      lng: lng + (radiusNm / 60) * Math.sin(angle) / cosLat,
+    };
+  });
+}
+
 // Get project statistics
 export function getProjectStats() {
   const active = PROJECT_SITES.filter(p => p.status === 'active');
@@ -297,6 +364,7 @@ export const PROJECT_STATUS_CONFIG: Record<ProjectSite['status'], { label: strin
 // Project risk assessment based on vessel health
 import { getVesselIssueSummary } from '@/lib/vessel-issues';
 import { getNMDCVesselByMMSI } from '@/lib/nmdc/fleet';
+import type { VoyageAnalysis } from '@/lib/nmdc/voyages';
 
 export interface ProjectRisk {
   project: ProjectSite;
@@ -396,13 +464,49 @@ export function getProjectsAtRisk(): ProjectRisk[] {
     });
 }
 
+// Project utilisation from AIS voyage analysis
+export interface ProjectUtilisation {
+  projectId: string;
+  workingHours: number;
+  observedHours: number; // hours with AIS coverage across the vessels
+  utilisation: number; // 0-1
+  vessels: Array<{
+    mmsi: string;
+    vesselName: string;
+    workingHours: number;
+    observedHours: number;
+    utilisation: number;
+  }>;
+}
 
+/**
+ * Share of tracked time the project's vessels spent working on site
+ * Vessels not assigned to the project count only if they worked there.
+ */
+export function getProjectUtilisation(project: ProjectSite, voyages: VoyageAnalysis[]): ProjectUtilisation {
+  const vessels = voyages
+    .filter(v => project.assignedVessels.includes(v.mmsi) || v.projectHours[project.id])
+    .map(v => {
+      const observedHours = v.segments
+        .filter(s => s.type !== 'ais_gap')
+        .reduce((sum, s) => sum + s.durationHours, 0);
+      const workingHours = v.projectHours[project.id] || 0;
+      return {
+        mmsi: v.mmsi,
+        vesselName: v.vesselName,
+        workingHours,
+        observedHours,
+        utilisation: observedHours > 0 ? workingHours / observedHours : 0,
+      };
+    });
 
-
-
-
-
-
-
-
-
+  const workingHours = vessels.reduce((sum, v) => sum + v.workingHours, 0);
+  const observedHours = vessels.reduce((sum, v) => sum + v.observedHours, 0);
+  return {
+    projectId: project.id,
+    workingHours,
+    observedHours,
+    utilisation: observedHours > 0 ? workingHours / observedHours : 0,
+    vessels,
+  };
+}
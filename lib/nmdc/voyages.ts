@@ -0,0 +1,362 @@
+/**
+ * Voyage Analytics - Port calls, anchorages, transits and working periods
+ *
+ * Segments an AIS track from Datalastic vessel history into what the vessel
+ * was doing: alongside in port, at anchor, in transit, or working inside a
+ * project site (dredging and DP work show up as slow loitering inside the
+ * site's work area). Gaps in AIS coverage are reported as their own segments
+ * so they never inflate operating hours.
+ */
+
+import { DatalasticVesselHistory, calculateDistanceNm } from '@/lib/datalastic';
+import { isPointInPolygon } from '@/lib/routes/emission-zones';
+import { PROJECT_SITES, ProjectSite, getProjectWorkArea } from './projects';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TrackPoint {
+  lat: number;
+  lng: number;
+  speed: number; // knots over ground
+  course: number;
+  time: Date;
+}
+
+export type VoyageSegmentType = 'port_call' | 'anchorage' | 'transit' | 'working' | 'ais_gap';
+
+export interface VoyagePlace {
+  id: string;
+  name: string;
+  kind: 'port' | 'anchorage';
+  lat: number;
+  lng: number;
+  radiusNm: number;
+}
+
+export interface VoyageSegment {
+  type: VoyageSegmentType;
+  start: Date;
+  end: Date;
+  durationHours: number;
+  distanceNm: number;
+  averageSpeed: number; // knots, distance over duration
+  maxSpeed: number; // knots, highest reported
+  positions: number;
+  from: { lat: number; lng: number };
+  to: { lat: number; lng: number };
+  location?: { kind: 'port' | 'anchorage' | 'project'; id: string; name: string };
+}
+
+export interface VoyageAnalysis {
+  mmsi: string;
+  vesselName: string;
+  start: Date;
+  end: Date;
+  segments: VoyageSegment[];
+  portCalls: VoyageSegment[];
+  hoursByType: Record<VoyageSegmentType, number>;
+  distanceNm: number;
+  operatingHours: number; // transit + working, for crew and maintenance planning
+  coverage: number; // 0-1 of the period with AIS positions
+  projectHours: Record<string, number>; // working hours per project site id
+}
+
+export interface VoyageAnalysisOptions {
+  stationarySpeed?: number; // knots; slower than this counts as stopped
+  workingMaxSpeed?: number; // knots; loitering inside a project site up to this is work
+  portManoeuvreSpeed?: number; // knots; slower than this inside port limits is part of the call
+  gapMinutes?: number; // longer silences are AIS gaps
+  minSegmentMinutes?: number; // shorter runs are merged into a neighbour
+  places?: VoyagePlace[];
+  projects?: ProjectSite[];
+}
+
+const DEFAULTS = {
+  stationarySpeed: 0.5,
+  workingMaxSpeed: 3,
+  portManoeuvreSpeed: 3,
+  gapMinutes: 60,
+  minSegmentMinutes: 20,
+};
+
+const HOUR_MS = 3600000;
+const AIS_SPEED_NOT_AVAILABLE = 102.3;
+
+// Port limits and designated anchorages used by the fleet
+export const GULF_PLACES: VoyagePlace[] = [
+  { id: 'mussafah', name: 'Mussafah Base', kind: 'port', lat: 24.35, lng: 54.49, radiusNm: 3 },
+  { id: 'mina-zayed', name: 'Mina Zayed', kind: 'port', lat: 24.52, lng: 54.38, radiusNm: 2 },
+  { id: 'khalifa-port', name: 'Khalifa Port', kind: 'port', lat: 24.81, lng: 54.65, radiusNm: 3 },
+  { id: 'ruwais', name: 'Ruwais', kind: 'port', lat: 24.12, lng: 52.73, radiusNm: 3 },
+  { id: 'das-island', name: 'Das Island', kind: 'port', lat: 25.15, lng: 52.87, radiusNm: 2 },
+  { id: 'zirku', name: 'Zirku Island', kind: 'port', lat: 24.88, lng: 53.07, radiusNm: 2 },
+  { id: 'jebel-ali', name: 'Jebel Ali', kind: 'port', lat: 25.01, lng: 55.06, radiusNm: 4 },
+  { id: 'port-rashid', name: 'Port Rashid', kind: 'port', lat: 25.27, lng: 55.27, radiusNm: 2 },
+  { id: 'hamriyah', name: 'Hamriyah', kind: 'port', lat: 25.47, lng: 55.49, radiusNm: 2 },
+  { id: 'mina-saqr', name: 'Mina Saqr', kind: 'port', lat: 25.98, lng: 56.05, radiusNm: 2 },
+  { id: 'fujairah', name: 'Fujairah', kind: 'port', lat: 25.17, lng: 56.36, radiusNm: 3 },
+  { id: 'khor-fakkan', name: 'Khor Fakkan', kind: 'port', lat: 25.35, lng: 56.36, radiusNm: 2 },
+  { id: 'hamad-port', name: 'Hamad Port', kind: 'port', lat: 25.01, lng: 51.61, radiusNm: 3 },
+  { id: 'dammam', name: 'Dammam', kind: 'port', lat: 26.5, lng: 50.2, radiusNm: 4 },
+  { id: 'sohar', name: 'Sohar', kind: 'port', lat: 24.5, lng: 56.62, radiusNm: 3 },
+  { id: 'muscat', name: 'Muscat', kind: 'port', lat: 23.63, lng: 58.57, radiusNm: 2 },
+  { id: 'abu-dhabi-anchorage', name: 'Abu Dhabi Anchorage', kind: 'anchorage', lat: 24.6, lng: 54.25, radiusNm: 4 },
+  { id: 'fujairah-anchorage', name: 'Fujairah Anchorage', kind: 'anchorage', lat: 25.15, lng: 56.45, radiusNm: 6 },
+];
+
+// ============================================================================
+// Track Preparation
+// ============================================================================
+
+/**
+ * Positions from a Datalastic history response, oldest first
+ * Duplicate timestamps and positions without coordinates are dropped; a
+ * missing or "not available" speed is derived from the previous position.
+ */
+export function normalizeTrack(history: DatalasticVesselHistory): TrackPoint[] {
+  const points: TrackPoint[] = [];
+  for (const p of history.positions || []) {
+    const lat = p.lat ?? p.latitude;
+    const lng = p.lon ?? p.longitude;
+    const epoch = p.last_position_epoch ?? p.epoch;
+    const time = epoch !== undefined
+      ? new Date(epoch * 1000)
+      : new Date(p.last_position_UTC ?? p.timestamp ?? NaN);
+    if (lat === undefined || lng === undefined || Number.isNaN(time.getTime())) continue;
+    points.push({ lat, lng, speed: p.speed, course: p.course, time });
+  }
+  points.sort((a, b) => a.time.getTime() - b.time.getTime());
+
+  const track: TrackPoint[] = [];
+  for (const point of points) {
+    const prev = track[track.length - 1];
+    if (prev && prev.time.getTime() === point.time.getTime()) continue;
+    if (!Number.isFinite(point.speed) || point.speed < 0 || point.speed >= AIS_SPEED_NOT_AVAILABLE) {
+      const hours = prev ? (point.time.getTime() - prev.time.getTime()) / HOUR_MS : 0;
+      point.speed = prev && hours > 0
+        ? calculateDistanceNm(prev.lat, prev.lng, point.lat, point.lng) / hours
+        : 0;
+    }
+    track.push(point);
+  }
+  return track;
+}
+
+// ============================================================================
+// Segmentation
+// ============================================================================
+
+interface Run {
+  type: Exclude<VoyageSegmentType, 'ais_gap'>;
+  location?: VoyageSegment['location'];
+  first: number; // point indexes
+  last: number;
+}
+
+function placeAt(point: TrackPoint, places: VoyagePlace[]): VoyagePlace | undefined {
+  return places.find(place =>
+    calculateDistanceNm(place.lat, place.lng, point.lat, point.lng) <= place.radiusNm
+  );
+}
+
+function classifyPoint(
+  point: TrackPoint,
+  settings: typeof DEFAULTS,
+  places: VoyagePlace[],
+  projectAreas: Array<{ project: ProjectSite; area: Array<{ lat: number; lng: number }> }>
+): Pick<Run, 'type' | 'location'> {
+  // Alongside wins over a project site that takes in the port
+  const place = placeAt(point, places);
+  if (place?.kind === 'port' && point.speed < settings.stationarySpeed) {
+    return { type: 'port_call', location: { kind: 'port', id: place.id, name: place.name } };
+  }
+  if (point.speed <= settings.workingMaxSpeed) {
+    const site = projectAreas.find(({ area }) => isPointInPolygon(point.lat, point.lng, area));
+    if (site) {
+      return { type: 'working', location: { kind: 'project', id: site.project.id, name: site.project.name } };
+    }
+  }
+  if (place?.kind === 'port' && point.speed < settings.portManoeuvreSpeed) {
+    return { type: 'port_call', location: { kind: 'port', id: place.id, name: place.name } };
+  }
+  if (point.speed < settings.stationarySpeed) {
+    return {
+      type: 'anchorage',
+      location: place ? { kind: place.kind, id: place.id, name: place.name } : undefined,
+    };
+  }
+  return { type: 'transit' };
+}
+
+function sameActivity(a: Pick<Run, 'type' | 'location'>, b: Pick<Run, 'type' | 'location'>): boolean {
+  return a.type === b.type && a.location?.id === b.location?.id;
+}
+
+// End of a run's time span: the next position, unless an AIS gap follows
+function runEnd(track: TrackPoint[], run: Run, gapMs: number): number {
+  const next = track[run.last + 1];
+  return next && next.time.getTime() - track[run.last].time.getTime() <= gapMs ? run.last + 1 : run.last;
+}
+
+function runMinutes(track: TrackPoint[], run: Run, gapMs: number): number {
+  return (track[runEnd(track, run, gapMs)].time.getTime() - track[run.first].time.getTime()) / 60000;
+}
+
+/**
+ * Merge runs shorter than the minimum into their neighbours
+ * A short run between two runs of the same activity joins them (a tug
+ * nudging a moored barge is still one port call); otherwise it is absorbed
+ * by the run before it, or the one after at the start of a block.
+ */
+function smoothRuns(track: TrackPoint[], runs: Run[], minMinutes: number, gapMs: number): Run[] {
+  const result = [...runs];
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let i = 0; i < result.length; i++) {
+      const run = result[i];
+      if (result.length === 1 || runMinutes(track, run, gapMs) >= minMinutes) continue;
+
+      const prev = result[i - 1];
+      const next = result[i + 1];
+      if (prev && next && sameActivity(prev, next)) {
+        result.splice(i - 1, 3, { ...prev, last: next.last });
+      } else if (prev) {
+        result.splice(i - 1, 2, { ...prev, last: run.last });
+      } else if (next) {
+        result.splice(i, 2, { ...next, first: run.first });
+      } else {
+        continue;
+      }
+      changed = true;
+      break;
+    }
+  }
+  return result;
+}
+
+function toSegment(
+  track: TrackPoint[],
+  type: VoyageSegmentType,
+  first: number,
+  last: number,
+  location?: VoyageSegment['location'],
+  ownLast: number = last // last position reported during the segment itself
+): VoyageSegment {
+  let distanceNm = 0;
+  let maxSpeed = 0;
+  for (let i = first; i <= last; i++) {
+    if (i > first) {
+      distanceNm += calculateDistanceNm(track[i - 1].lat, track[i - 1].lng, track[i].lat, track[i].lng);
+    }
+    if (i <= ownLast) maxSpeed = Math.max(maxSpeed, track[i].speed);
+  }
+  const start = track[first].time;
+  const end = track[last].time;
+  const durationHours = (end.getTime() - start.getTime()) / HOUR_MS;
+
+  return {
+    type,
+    start,
+    end,
+    durationHours,
+    distanceNm,
+    averageSpeed: durationHours > 0 ? distanceNm / durationHours : 0,
+    maxSpeed: type === 'ais_gap' ? 0 : maxSpeed,
+    positions: type === 'ais_gap' ? 0 : ownLast - first + 1,
+    from: { lat: track[first].lat, lng: track[first].lng },
+    to: { lat: track[last].lat, lng: track[last].lng },
+    ...(location && { location }),
+  };
+}
+
+/**
+ * Split a track into port calls, anchorages, transits, working periods and
+ * AIS gaps. Segments tile the period from the first to the last position.
+ */
+export function segmentTrack(track: TrackPoint[], options: VoyageAnalysisOptions = {}): VoyageSegment[] {
+  if (track.length === 0) return [];
+
+  const settings = { ...DEFAULTS, ...options };
+  const places = options.places ?? GULF_PLACES;
+  const projectAreas = (options.projects ?? PROJECT_SITES)
+    .filter(project => project.status === 'active')
+    .map(project => ({ project, area: getProjectWorkArea(project) }));
+  const gapMs = settings.gapMinutes * 60000;
+
+  // Blocks of positions without AIS gaps, each split into runs of one activity
+  const segments: VoyageSegment[] = [];
+  let blockStart = 0;
+  for (let i = 1; i <= track.length; i++) {
+    const isGap = i < track.length && track[i].time.getTime() - track[i - 1].time.getTime() > gapMs;
+    if (i < track.length && !isGap) continue;
+
+    const runs: Run[] = [];
+    for (let j = blockStart; j < i; j++) {
+      const activity = classifyPoint(track[j], settings, places, projectAreas);
+      const current = runs[runs.length - 1];
+      if (current && sameActivity(current, activity)) {
+        current.last = j;
+      } else {
+        runs.push({ ...activity, first: j, last: j });
+      }
+    }
+
+    for (const run of smoothRuns(track, runs, settings.minSegmentMinutes, gapMs)) {
+      segments.push(toSegment(track, run.type, run.first, runEnd(track, run, gapMs), run.location, run.last));
+    }
+    if (isGap) segments.push(toSegment(track, 'ais_gap', i - 1, i));
+    blockStart = i;
+  }
+
+  // Lone positions between gaps add nothing
+  return segments.length === 1 ? segments : segments.filter(segment => segment.durationHours > 0);
+}
+
+/**
+ * Voyage analysis of a Datalastic history response
+ */
+export function analyzeVoyage(
+  history: DatalasticVesselHistory,
+  options: VoyageAnalysisOptions = {}
+): VoyageAnalysis {
+  const track = normalizeTrack(history);
+  const segments = segmentTrack(track, options);
+
+  const hoursByType: Record<VoyageSegmentType, number> = {
+    port_call: 0,
+    anchorage: 0,
+    transit: 0,
+    working: 0,
+    ais_gap: 0,
+  };
+  const projectHours: Record<string, number> = {};
+  let distanceNm = 0;
+  for (const segment of segments) {
+    hoursByType[segment.type] += segment.durationHours;
+    if (segment.type !== 'ais_gap') distanceNm += segment.distanceNm;
+    if (segment.type === 'working' && segment.location) {
+      projectHours[segment.location.id] = (projectHours[segment.location.id] || 0) + segment.durationHours;
+    }
+  }
+
+  const start = track[0]?.time ?? new Date(NaN);
+  const end = track[track.length - 1]?.time ?? new Date(NaN);
+  const totalHours = track.length > 1 ? (end.getTime() - start.getTime()) / HOUR_MS : 0;
+
+  return {
+    mmsi: history.mmsi,
+    vesselName: history.name,
+    start,
+    end,
+    segments,
+    portCalls: segments.filter(s => s.type === 'port_call'),
+    hoursByType,
+    distanceNm,
+    operatingHours: hoursByType.transit + hoursByType.working,
+    coverage: totalHours > 0 ? 1 - hoursByType.ais_gap / totalHours : track.length > 0 ? 1 : 0,
+    projectHours,
+  };
+}
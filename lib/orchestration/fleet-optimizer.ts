@@ -8,6 +8,7 @@
  */
 
 import { Project, VesselAssignment } from './types';
+import { getEtaModel, predictEta } from '@/lib/nmdc/eta';
 
 // ============================================================================
 // Types
@@ -174,9 +175,20 @@ function toRad(deg: number): number {
 
 /**
  * Calculate transit time in hours
+ * Given the passage, uses the speeds the vessel and lane have made good in
+ * the position history (see lib/nmdc/eta), with `speedKnots` as the fallback.
  */
-export function calculateTransitHours(distanceNm: number, speedKnots: number = AVERAGE_VESSEL_SPEED_KNOTS): number {
-  return distanceNm / speedKnots;
+export function calculateTransitHours(
+  distanceNm: number,
+  speedKnots: number = AVERAGE_VESSEL_SPEED_KNOTS,
+  passage?: { vesselId: string; from: { lat: number; lng: number }; to: { lat: number; lng: number }; departureTime?: Date }
+): number {
+  if (!passage) return distanceNm / speedKnots;
+  return predictEta(getEtaModel(), {
+    ...passage,
+    nominalSpeed: speedKnots > 0 ? speedKnots : AVERAGE_VESSEL_SPEED_KNOTS,
+    congestion: false,
+  }).transitHours;
 }
 
 /**
@@ -226,7 +238,11 @@ export function analyzeVesselSchedule(
     );
 
     if (distanceToFirst > 1) { // Only count if > 1nm
-      const hours = calculateTransitHours(distanceToFirst, vessel.speed);
+      const hours = calculateTransitHours(distanceToFirst, vessel.speed, {
+        vesselId: vessel.id,
+        from: vessel,
+        to: first.location,
+      });
       const fuel = calculateFuelConsumption(distanceToFirst, vessel.type);
 
       routes.push({
@@ -263,7 +279,12 @@ export function analyzeVesselSchedule(
     );
 
     if (distance > 1) { // Only count if > 1nm
-      const hours = calculateTransitHours(distance, vessel.speed);
+      const hours = calculateTransitHours(distance, vessel.speed, {
+        vesselId: vessel.id,
+        from: current.location,
+        to: next.location,
+        departureTime: current.endDate,
+      });
       const fuel = calculateFuelConsumption(distance, vessel.type);
 
       routes.push({
@@ -638,8 +659,17 @@ export function optimizeFleet(input: OptimizationInput): FleetOptimizationResult
         const oldFuelUsage = calculateFuelConsumption(currentDistance, currentVessel.type);
         const newFuelUsage = calculateFuelConsumption(newDistance, bestVessel.vessel.type);
         const fuelSaved = oldFuelUsage - newFuelUsage;
-        const timeSaved = calculateTransitHours(currentDistance, currentVessel.speed) - 
-                          calculateTransitHours(newDistance, bestVessel.vessel.speed);
+        const timeSaved =
+          calculateTransitHours(currentDistance, currentVessel.speed, {
+            vesselId: currentVessel.id,
+            from: currentVessel,
+            to: project,
+          }) -
+          calculateTransitHours(newDistance, bestVessel.vessel.speed, {
+            vesselId: bestVessel.vessel.id,
+            from: bestVessel.vessel,
+            to: project,
+          });
 
         changes.push({
           type: 'reassign',
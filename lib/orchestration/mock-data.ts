@@ -1,6 +1,13 @@
 import { Project, VesselAssignment, ScheduleConflict, FleetMetrics } from './types';
 import { getVesselIssues, VESSEL_ISSUES, VesselIssues } from '../vessel-issues';
 import { getNMDCVesselByMMSI as getLegacyVesselByMMSI } from '../nmdc/fleet';
+import { getProjectById, getProjectWorkArea } from '../nmdc/projects';
+
+// Work area of the matching legacy project site, used for geofencing
+function siteWorkArea(projectId: string): Project['workArea'] {
+  const site = getProjectById(projectId);
+  return site ? getProjectWorkArea(site) : undefined;
+}
 
 // Generate mock projects - ALIGNED with legacy marine project sites
 // Uses actual vessel MMSIs to match vessels with equipment issues
@@ -16,6 +23,7 @@ export function generateMockProjects(): Project[] {
       status: 'active',
       priority: 'critical',
       location: { name: 'Ruwais Offshore, Abu Dhabi', lat: 24.1, lng: 52.7 },
+      workArea: siteWorkArea('proj-adnoc-001'),
       schedule: {
         startDate: new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000),
         endDate: new Date(now.getTime() + 60 * 24 * 60 * 60 * 1000),
@@ -41,6 +49,7 @@ export function generateMockProjects(): Project[] {
       status: 'active',
       priority: 'high',
       location: { name: 'Upper Zakum Field', lat: 24.85, lng: 53.45 },
+      workArea: siteWorkArea('proj-zakum'),
       schedule: {
         startDate: new Date(now.getTime() - 45 * 24 * 60 * 60 * 1000),
         endDate: new Date(now.getTime() + 45 * 24 * 60 * 60 * 1000),
@@ -62,6 +71,7 @@ export function generateMockProjects(): Project[] {
       status: 'active',
       priority: 'high',
       location: { name: 'Khalifa Port, Abu Dhabi', lat: 24.8, lng: 54.6 },
+      workArea: siteWorkArea('proj-001'),
       schedule: {
         startDate: new Date(now.getTime() - 60 * 24 * 60 * 60 * 1000),
         endDate: new Date(now.getTime() + 120 * 24 * 60 * 60 * 1000),
@@ -83,6 +93,7 @@ export function generateMockProjects(): Project[] {
       status: 'active',
       priority: 'medium',
       location: { name: 'Das Island', lat: 25.15, lng: 52.87 },
+      workArea: siteWorkArea('proj-006'),
       schedule: {
         startDate: new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000),
         endDate: new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000),
@@ -1,41 +1,778 @@
-import { Project, VesselAssignment, OptimizationResult, ScenarioSimulation } from './types';
+import {
+  Project,
+  VesselAssignment,
+  OptimizationResult,
+  ScenarioSimulation,
+  ScheduleChange,
+  ScheduleConflict,
+  ScheduleEvaluation,
+} from './types';
+import { getVesselMaintenanceSchedule } from './mock-data';
+import { calculateDistanceNm, calculateFuelConsumption, calculateTransitHours } from './fleet-optimizer';
+import { getNMDCVesselByMMSI } from '../nmdc/fleet';
+
+// ============================================================================
+// Schedule Optimization
+// ============================================================================
+
+export interface ScheduleVessel {
+  id: string;
+  name: string;
+  type: string;
+  health_score?: number;
+  position_lat?: number;
+  position_lng?: number;
+  speed?: number; // knots, planned transit speed
+  crewCapacity?: number; // persons on board
+  equipment?: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAINTENANCE_PROJECT_ID = 'maintenance';
+const HOME_BASE = { lat: 24.35, lng: 54.49 }; // Mussafah, where maintenance is done
+const DEFAULT_CREW = 20;
+const DEFAULT_SPEED_KNOTS = 8;
+const MAX_HORIZON_DAYS = 180;
+const FUEL_COST_USD_PER_LITER = 0.85;
+const REASSIGNMENT_COST_USD = 25000; // crew change and paperwork for a new vessel on a project
+const POOR_HEALTH_SCORE = 60;
+
+// Vessel types accepted for each requirement type
+const TYPE_ALIASES: Record<string, string[]> = {
+  dredger: ['dredger', 'hopper_dredger', 'csd'],
+  supply_vessel: ['supply_vessel', 'supply'],
+  tug: ['tug', 'tugboat'],
+  tugboat: ['tug', 'tugboat'],
+  crane_barge: ['crane_barge', 'derrick_barge'],
+  survey_vessel: ['survey_vessel', 'survey'],
+};
+
+const DAY_RATES_USD: Record<string, number> = {
+  derrick_barge: 120000,
+  pipelay_barge: 110000,
+  hopper_dredger: 80000,
+  dredger: 75000,
+  csd: 70000,
+  jack_up: 60000,
+  crane_barge: 50000,
+  supply: 12000,
+  supply_vessel: 12000,
+  survey: 10000,
+  survey_vessel: 10000,
+  tug: 8000,
+  tugboat: 8000,
+  default: 15000,
+};
+
+// Key into the fleet optimizer's fuel rates
+const FUEL_RATE_TYPES: Record<string, string> = {
+  hopper_dredger: 'dredger',
+  csd: 'dredger',
+  derrick_barge: 'crane_barge',
+  pipelay_barge: 'crane_barge',
+  supply: 'supply_vessel',
+  tug: 'tugboat',
+  survey: 'survey_vessel',
+};
+
+// Equipment each vessel type carries, compared case-insensitively
+const EQUIPMENT_BY_TYPE: Record<string, string[]> = {
+  pipelay_barge: ['Tensioner system', 'Stinger', 'Crane', 'Welding equipment'],
+  derrick_barge: ['Heavy lift crane', 'Crane', 'Welding equipment'],
+  crane_barge: ['Crane'],
+  jack_up: ['Jacking system', 'Crane', 'Welding equipment'],
+  hopper_dredger: ['Suction dredge', 'Survey equipment'],
+  csd: ['Suction dredge', 'Cutter head', 'Survey equipment'],
+  dredger: ['Suction dredge', 'Survey equipment'],
+  survey: ['Survey equipment'],
+  survey_vessel: ['Survey equipment'],
+};
+const STANDARD_EQUIPMENT = 'standard marine equipment'; // every vessel carries it
+
+const LATENESS_PENALTY_USD_PER_DAY: Record<Project['priority'], number> = {
+  critical: 500000,
+  high: 200000,
+  medium: 80000,
+  low: 30000,
+};
+const PRIORITY_ORDER: Record<Project['priority'], number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+interface Interval {
+  start: Date;
+  end: Date;
+}
+
+interface Booking extends Interval {
+  projectId: string;
+  lat: number;
+  lng: number;
+}
+
+interface VesselPlan {
+  vessel: ScheduleVessel;
+  crew: number;
+  equipment: Set<string>;
+  dayRate: number;
+  speed: number;
+  position: { lat: number; lng: number };
+  maintenance: Interval[];
+  bookings: Booking[];
+}
+
+interface Candidate {
+  plan: VesselPlan;
+  start: Date;
+  segments: Interval[];
+  transitHours: number;
+  transitNm: number;
+  lateDays: number;
+  downtimeDays: number;
+  cost: number;
+}
+
+function overlaps(a: Interval, b: Interval): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+function days(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / DAY_MS;
+}
+
+function acceptsType(project: Project, type: string): boolean {
+  const accepted = project.requirements.vesselTypes;
+  return accepted.length === 0 || accepted.some(t => (TYPE_ALIASES[t] ?? [t]).includes(type));
+}
+
+function requiredEquipment(project: Project): string[] {
+  return project.requirements.equipment
+    .map(e => e.toLowerCase())
+    .filter(e => e !== STANDARD_EQUIPMENT);
+}
+
+function vesselPlan(vessel: ScheduleVessel, assignments: VesselAssignment[], projects: Project[], now: Date): VesselPlan {
+  const legacy = getNMDCVesselByMMSI(vessel.id);
+  const current = assignments.find(a =>
+    a.vesselId === vessel.id && a.projectId !== MAINTENANCE_PROJECT_ID && a.status === 'active'
+  );
+  const site = projects.find(p => p.id === current?.projectId)?.location;
+
+  // Scheduled maintenance, or the next PM window from equipment health
+  const maintenance: Interval[] = assignments
+    .filter(a => a.vesselId === vessel.id && a.projectId === MAINTENANCE_PROJECT_ID && a.status !== 'cancelled')
+    .map(a => ({ start: a.startDate, end: a.endDate }));
+  if (maintenance.length === 0) {
+    const pm = getVesselMaintenanceSchedule(vessel.id);
+    if (pm?.nextMaintenanceDate && pm.nextMaintenanceDate > now) {
+      maintenance.push({
+        start: pm.nextMaintenanceDate,
+        end: new Date(pm.nextMaintenanceDate.getTime() + pm.estimatedDowntime * DAY_MS),
+      });
+    }
+  }
+
+  return {
+    vessel,
+    crew: vessel.crewCapacity ?? legacy?.specs?.accommodation ?? legacy?.crewCount ?? DEFAULT_CREW,
+    equipment: new Set((vessel.equipment ?? EQUIPMENT_BY_TYPE[vessel.type] ?? []).map(e => e.toLowerCase())),
+    dayRate: DAY_RATES_USD[vessel.type] ?? DAY_RATES_USD.default,
+    speed: vessel.speed && vessel.speed > 0 ? vessel.speed : DEFAULT_SPEED_KNOTS,
+    position: vessel.position_lat !== undefined && vessel.position_lng !== undefined
+      ? { lat: vessel.position_lat, lng: vessel.position_lng }
+      : site ?? HOME_BASE,
+    maintenance,
+    bookings: [],
+  };
+}
+
+function transit(plan: VesselPlan, from: { lat: number; lng: number }, to: { lat: number; lng: number }, departure: Date) {
+  const distance = calculateDistanceNm(from.lat, from.lng, to.lat, to.lng);
+  if (distance <= 1) return { distance: 0, hours: 0 };
+  return {
+    distance,
+    hours: calculateTransitHours(distance, plan.speed, { vesselId: plan.vessel.id, from, to, departureTime: departure }),
+  };
+}
+
+/**
+ * Earliest start a vessel can make on a project, or null if it can't
+ * Works forward from its previous booking or maintenance (or its current
+ * position), adding transit time. Maintenance during the project splits the
+ * booking: the vessel sails back to base and returns when it's done.
+ */
+function planCandidate(plan: VesselPlan, project: Project, requiredStart: Date, onSite: boolean, now: Date): Candidate | null {
+  const end = project.schedule.endDate;
+  const earlier = [
+    ...plan.bookings.filter(b => b.end <= requiredStart),
+    ...plan.maintenance.filter(m => m.end <= requiredStart).map(m => ({ ...m, ...HOME_BASE })),
+  ].sort((a, b) => b.end.getTime() - a.end.getTime())[0];
+
+  const from = earlier ?? plan.position;
+  const readyAt = earlier && earlier.end > now ? earlier.end : now;
+  const firstLeg = onSite && !earlier ? { distance: 0, hours: 0 } : transit(plan, from, project.location, readyAt);
+  let cursor = new Date(Math.max(requiredStart.getTime(), readyAt.getTime() + firstLeg.hours * 3600000));
+
+  const segments: Interval[] = [];
+  let transitHours = firstLeg.hours;
+  let transitNm = firstLeg.distance;
+  const blocks = plan.maintenance
+    .filter(m => m.end > cursor && m.start < end)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+  for (const block of blocks) {
+    const back = transit(plan, project.location, HOME_BASE, block.start);
+    const out = transit(plan, HOME_BASE, project.location, block.end);
+    const leave = new Date(block.start.getTime() - back.hours * 3600000);
+    if (days(cursor, leave) >= 1) {
+      segments.push({ start: cursor, end: leave });
+      transitHours += back.hours;
+      transitNm += back.distance;
+    }
+    transitHours += out.hours;
+    transitNm += out.distance;
+    cursor = new Date(block.end.getTime() + out.hours * 3600000);
+  }
+  if (cursor < end) segments.push({ start: cursor, end });
+
+  if (segments.length === 0) return null;
+  if (segments.some(seg => plan.bookings.some(b => overlaps(b, seg)))) return null;
+
+  const start = segments[0].start;
+  const workDays = segments.reduce((sum, seg) => sum + days(seg.start, seg.end), 0);
+  const fuel = calculateFuelConsumption(transitNm, FUEL_RATE_TYPES[plan.vessel.type] ?? plan.vessel.type);
+  return {
+    plan,
+    start,
+    segments,
+    transitHours,
+    transitNm,
+    lateDays: Math.max(0, days(requiredStart, start)),
+    downtimeDays: days(start, end) - workDays,
+    cost: plan.dayRate * (workDays + transitHours / 24) + fuel * FUEL_COST_USD_PER_LITER,
+  };
+}
+
+/**
+ * Cost, lateness, transit fuel and utilisation of a schedule
+ * Bookings are sailed in order: a vessel reaches each site after finishing
+ * the previous one and transiting, so double bookings show up as lateness.
+ */
+export function evaluateSchedule(
+  assignments: VesselAssignment[],
+  vessels: ScheduleVessel[],
+  projects: Project[],
+  now: Date = new Date()
+): ScheduleEvaluation {
+  const plans = vessels.map(v => vesselPlan(v, assignments, projects, now));
+  const open = projects.filter(p => p.status !== 'completed' && p.schedule.endDate > now);
+  const horizonEnd = new Date(Math.min(
+    Math.max(now.getTime() + DAY_MS, ...open.map(p => p.schedule.endDate.getTime())),
+    now.getTime() + MAX_HORIZON_DAYS * DAY_MS
+  ));
+  const horizonDays = days(now, horizonEnd);
+
+  let cost = 0;
+  let transitFuel = 0;
+  let onSiteDays = 0;
+  const arrivals = new Map<string, Map<string, Date>>(); // project -> vessel -> first arrival
+  const projectVessels = new Map<string, VesselPlan[]>();
+
+  for (const plan of plans) {
+    const fuelType = FUEL_RATE_TYPES[plan.vessel.type] ?? plan.vessel.type;
+    const bookings = assignments
+      .filter(a => a.vesselId === plan.vessel.id && a.projectId !== MAINTENANCE_PROJECT_ID && a.status !== 'cancelled' && a.status !== 'completed')
+      .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+
+    let location = plan.position;
+    let freeAt = now;
+    for (const booking of bookings) {
+      const project = projects.find(p => p.id === booking.projectId);
+      if (!project) continue;
+
+      // Maintenance on the way to the booking is done at base
+      for (const block of plan.maintenance.filter(m => m.end > freeAt && m.end <= booking.startDate)) {
+        const leg = transit(plan, location, HOME_BASE, block.start);
+        transitFuel += calculateFuelConsumption(leg.distance, fuelType);
+        location = HOME_BASE;
+        freeAt = block.end;
+      }
+
+      const onSite = booking.status === 'active' && location === plan.position && booking.startDate <= now;
+      const leg = onSite ? { distance: 0, hours: 0 } : transit(plan, location, project.location, freeAt);
+      const start = new Date(Math.max(booking.startDate.getTime(), freeAt.getTime() + leg.hours * 3600000));
+      const end = booking.endDate;
+
+      // Maintenance during the booking takes the vessel off site for a round trip
+      let workDays = Math.max(0, days(start, end));
+      let fuel = calculateFuelConsumption(leg.distance, fuelType);
+      for (const block of plan.maintenance.filter(m => m.start < end && m.end > start)) {
+        const trip = transit(plan, project.location, HOME_BASE, block.start);
+        const away = Math.min(end.getTime(), block.end.getTime() + trip.hours * 3600000) -
+          Math.max(start.getTime(), block.start.getTime() - trip.hours * 3600000);
+        workDays = Math.max(0, workDays - away / DAY_MS);
+        fuel += calculateFuelConsumption(trip.distance * 2, fuelType);
+      }
+
+      transitFuel += fuel;
+      cost += plan.dayRate * (workDays + leg.hours / 24) + fuel * FUEL_COST_USD_PER_LITER;
+      if (end > start) {
+        const from = start > now ? start : now;
+        const to = end < horizonEnd ? end : horizonEnd;
+        if (to > from) onSiteDays += days(from, to) * (workDays / days(start, end));
+      }
+
+      const byVessel = arrivals.get(project.id) ?? new Map<string, Date>();
+      const first = byVessel.get(plan.vessel.id);
+      if (!first || start < first) byVessel.set(plan.vessel.id, start);
+      arrivals.set(project.id, byVessel);
+      if (!projectVessels.get(project.id)?.includes(plan)) {
+        projectVessels.set(project.id, [...(projectVessels.get(project.id) ?? []), plan]);
+      }
+      location = project.location;
+      freeAt = end > freeAt ? end : freeAt;
+    }
+  }
+
+  let lateDays = 0;
+  let unmetProjects = 0;
+  for (const project of open) {
+    const team = projectVessels.get(project.id) ?? [];
+    const requiredStart = project.schedule.startDate > now ? project.schedule.startDate : now;
+    const firstArrivals = [...(arrivals.get(project.id)?.values() ?? [])];
+    const start = firstArrivals.length > 0
+      ? new Date(Math.max(...firstArrivals.map(d => d.getTime())))
+      : undefined;
+    if (start && start > requiredStart) {
+      const late = days(requiredStart, start);
+      lateDays += late;
+      cost += late * LATENESS_PENALTY_USD_PER_DAY[project.priority];
+    }
+    const crew = team.reduce((sum, p) => sum + p.crew, 0);
+    const equipment = new Set(team.flatMap(p => [...p.equipment]));
+    const needEquipment = requiredEquipment(project);
+    const shortfall = team.length === 0 ? 1 : Math.max(
+      project.requirements.crewCount > 0 ? Math.max(0, 1 - crew / project.requirements.crewCount) : 0,
+      needEquipment.length > 0 ? needEquipment.filter(e => !equipment.has(e)).length / needEquipment.length : 0
+    );
+    if (shortfall > 0) {
+      // Under-resourced work is as good as late for the missing share
+      unmetProjects++;
+      cost += shortfall * days(requiredStart, project.schedule.endDate) * LATENESS_PENALTY_USD_PER_DAY[project.priority];
+    }
+  }
+
+  return {
+    cost: Math.round(cost),
+    lateDays: Math.round(lateDays * 10) / 10,
+    transitFuel: Math.round(transitFuel),
+    utilization: plans.length > 0 && horizonDays > 0
+      ? Math.round((onSiteDays / (plans.length * horizonDays)) * 1000) / 10
+      : 0,
+    unmetProjects,
+  };
+}
 
-// Simple schedule optimization (for demo purposes)
+/**
+ * Conflicts in a schedule: double bookings, missing crew or equipment,
+ * late starts, missed weather windows and vessels in poor health
+ */
+export function detectScheduleConflicts(
+  assignments: VesselAssignment[],
+  vessels: ScheduleVessel[],
+  projects: Project[],
+  now: Date = new Date()
+): ScheduleConflict[] {
+  const conflicts: ScheduleConflict[] = [];
+  const live = assignments.filter(a => a.status !== 'cancelled' && a.status !== 'completed' && a.endDate > now);
+  const plans = new Map(vessels.map(v => [v.id, vesselPlan(v, assignments, projects, now)]));
+  const name = (id: string) => vessels.find(v => v.id === id)?.name ?? id;
+
+  // Same vessel in two places at once, maintenance included
+  for (let i = 0; i < live.length; i++) {
+    for (let j = i + 1; j < live.length; j++) {
+      const a = live[i];
+      const b = live[j];
+      if (a.vesselId !== b.vesselId || a.projectId === b.projectId) continue;
+      if (!overlaps({ start: a.startDate, end: a.endDate }, { start: b.startDate, end: b.endDate })) continue;
+      conflicts.push({
+        id: `conflict-double-${a.id}-${b.id}`,
+        type: 'vessel_double_booking',
+        severity: 'critical',
+        affectedVessels: [a.vesselId],
+        affectedProjects: [a.projectId, b.projectId].filter(id => id !== MAINTENANCE_PROJECT_ID),
+        description: `${a.vesselName} is booked on ${a.projectName} and ${b.projectName} at the same time`,
+        suggestedResolution: a.projectId === MAINTENANCE_PROJECT_ID || b.projectId === MAINTENANCE_PROJECT_ID
+          ? 'Move the maintenance window or release the vessel from the project for it'
+          : 'Reassign one of the projects to another suitable vessel',
+      });
+    }
+  }
+
+  for (const project of projects.filter(p => p.status !== 'completed' && p.schedule.endDate > now)) {
+    const team = live.filter(a => a.projectId === project.id);
+    const vesselIds = [...new Set(team.map(a => a.vesselId))];
+    const teamPlans = vesselIds.map(id => plans.get(id)).filter(Boolean) as VesselPlan[];
+    const severity = project.priority === 'critical' || project.priority === 'high' ? 'critical' : 'warning';
+
+    if (team.length === 0) {
+      conflicts.push({
+        id: `conflict-unassigned-${project.id}`,
+        type: 'unassigned_project',
+        severity,
+        affectedVessels: [],
+        affectedProjects: [project.id],
+        description: `No ${project.requirements.vesselTypes.join(' / ') || 'vessel'} is available for ${project.name}`,
+        suggestedResolution: 'Charter a vessel or move the project start until one is free',
+      });
+      continue;
+    }
+
+    const crew = teamPlans.reduce((sum, p) => sum + p.crew, 0);
+    if (crew < project.requirements.crewCount) {
+      conflicts.push({
+        id: `conflict-crew-${project.id}`,
+        type: 'crew_shortage',
+        severity,
+        affectedVessels: vesselIds,
+        affectedProjects: [project.id],
+        description: `${project.name} needs ${project.requirements.crewCount} persons on board, assigned vessels berth ${crew}`,
+        suggestedResolution: 'Add an accommodation barge or another vessel of a suitable type',
+      });
+    }
+
+    const equipment = new Set(teamPlans.flatMap(p => [...p.equipment]));
+    const missing = project.requirements.equipment.filter(e =>
+      e.toLowerCase() !== STANDARD_EQUIPMENT && !equipment.has(e.toLowerCase())
+    );
+    if (missing.length > 0) {
+      conflicts.push({
+        id: `conflict-equipment-${project.id}`,
+        type: 'equipment_unavailable',
+        severity,
+        affectedVessels: vesselIds,
+        affectedProjects: [project.id],
+        description: `${project.name} is missing ${missing.join(', ')}`,
+        suggestedResolution: `Assign a vessel carrying ${missing.join(', ')} or hire the equipment in`,
+      });
+    }
+
+    const requiredStart = project.schedule.startDate > now ? project.schedule.startDate : now;
+    // Work starts when the last vessel first arrives; later segments follow maintenance
+    const firstArrivals = new Map<string, Date>();
+    team.forEach(a => {
+      const first = firstArrivals.get(a.vesselId);
+      if (!first || a.startDate < first) firstArrivals.set(a.vesselId, a.startDate);
+    });
+    const lateStart = [...firstArrivals.values()].reduce((latest, d) => (d > latest ? d : latest), requiredStart);
+    const lateDays = days(requiredStart, lateStart);
+    if (lateDays >= 1) {
+      conflicts.push({
+        id: `conflict-late-${project.id}`,
+        type: 'late_start',
+        severity: project.priority === 'critical' ? 'critical' : 'warning',
+        affectedVessels: vesselIds,
+        affectedProjects: [project.id],
+        description: `${project.name} can start ${lateDays.toFixed(1)} days late, when the last vessel arrives`,
+        suggestedResolution: 'Bring forward the maintenance or release a vessel from a lower-priority project',
+      });
+    }
+
+    const window = project.schedule.weatherWindow;
+    if (window && window.end > now && lateStart > window.start) {
+      conflicts.push({
+        id: `conflict-weather-${project.id}`,
+        type: 'weather_risk',
+        severity: 'warning',
+        affectedVessels: vesselIds,
+        affectedProjects: [project.id],
+        description: `${project.name} misses ${days(window.start, lateStart).toFixed(1)} days of its weather window`,
+        suggestedResolution: 'Mobilise earlier or plan the weather-sensitive work for the next window',
+      });
+    }
+
+    for (const plan of teamPlans) {
+      if ((plan.vessel.health_score ?? 100) < POOR_HEALTH_SCORE) {
+        conflicts.push({
+          id: `conflict-health-${project.id}-${plan.vessel.id}`,
+          type: 'equipment_risk',
+          severity: 'warning',
+          affectedVessels: [plan.vessel.id],
+          affectedProjects: [project.id],
+          description: `${name(plan.vessel.id)} is at ${plan.vessel.health_score}% health`,
+          suggestedResolution: 'Schedule maintenance before mobilising or assign a standby vessel',
+        });
+      }
+    }
+  }
+
+  return conflicts.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1));
+}
+
+/**
+ * Assign vessels to projects by cost and lateness
+ *
+ * Projects are staffed in priority order, then by start date. Each gets the
+ * cheapest set of vessels of an accepted type that covers its crew and
+ * equipment, where a vessel's cost is its day rate from arrival to project
+ * end, transit fuel and the lateness penalty for arriving after the start
+ * (or after the weather window opens). Vessels are never double booked and
+ * work around their maintenance blocks; vessels already on a project get no
+ * reassignment cost, so the schedule only changes when it pays.
+ */
 export function optimizeSchedule(
   assignments: VesselAssignment[],
-  vessels: Array<{ id: string; name: string; type: string; health_score?: number }>,
-  projects: Project[]
+  vessels: ScheduleVessel[],
+  projects: Project[],
+  now: Date = new Date()
 ): OptimizationResult {
-  const optimizedAssignments = [...assignments];
-  
-  // Simple optimization: reduce gaps between assignments
-  const vesselTimelines = new Map<string, VesselAssignment[]>();
-  
-  assignments.forEach(assignment => {
-    const existing = vesselTimelines.get(assignment.vesselId) || [];
-    existing.push(assignment);
-    vesselTimelines.set(assignment.vesselId, existing);
-  });
+  const plans = vessels.map(v => vesselPlan(v, assignments, projects, now));
+  const reasons = new Map<string, string>();
+  const optimized: VesselAssignment[] = [];
+
+  // Finished and cancelled work stays as it is
+  const fixed = assignments.filter(a => a.status === 'completed' || a.status === 'cancelled');
+  optimized.push(...fixed.filter(a => a.projectId !== MAINTENANCE_PROJECT_ID));
+
+  const open = projects
+    .filter(p => p.status !== 'completed' && p.schedule.endDate > now)
+    .sort((a, b) =>
+      PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+      a.schedule.startDate.getTime() - b.schedule.startDate.getTime()
+    );
+
+  for (const project of open) {
+    const requiredStart = project.schedule.startDate > now ? project.schedule.startDate : now;
+    const window = project.schedule.weatherWindow;
+    const penalty = LATENESS_PENALTY_USD_PER_DAY[project.priority];
+    const previous = assignments.filter(a => a.projectId === project.id && a.status !== 'cancelled' && a.status !== 'completed');
+    const needEquipment = requiredEquipment(project);
+    const needCrew = project.requirements.crewCount;
+
+    const candidates = plans
+      .filter(plan => acceptsType(project, plan.vessel.type))
+      .map(plan => {
+        const wasAssigned = previous.some(a => a.vesselId === plan.vessel.id);
+        const onSite = wasAssigned && previous.some(a => a.vesselId === plan.vessel.id && a.status === 'active');
+        const candidate = planCandidate(plan, project, requiredStart, onSite, now);
+        if (!candidate) return null;
+        // Arriving after the weather window opens loses part of it
+        const windowLoss = window && candidate.start > window.start
+          ? Math.min(days(window.start, candidate.start), days(window.start, window.end)) * penalty
+          : 0;
+        // Time away for maintenance costs the share of the work the vessel carries
+        const share = Math.max(
+          needCrew > 0 ? Math.min(1, plan.crew / needCrew) : 0,
+          needEquipment.length > 0 ? needEquipment.filter(e => plan.equipment.has(e)).length / needEquipment.length : 0
+        );
+        return {
+          ...candidate,
+          cost: candidate.cost + windowLoss + candidate.downtimeDays * share * penalty +
+            (wasAssigned ? 0 : REASSIGNMENT_COST_USD),
+          wasAssigned,
+        };
+      })
+      .filter(Boolean) as Array<Candidate & { wasAssigned: boolean }>;
+
+    // Greedy cover: best requirement coverage per dollar until crew and equipment are met
+    const team: typeof candidates = [];
+    let crew = 0;
+    const equipment = new Set<string>();
+    let teamLate = 0;
+    const covered = () =>
+      team.length > 0 && crew >= needCrew && needEquipment.every(e => equipment.has(e));
+
+    while (!covered()) {
+      let best: (typeof candidates)[number] | null = null;
+      let bestValue = 0;
+      for (const c of candidates) {
+        if (team.includes(c)) continue;
+        const crewGain = needCrew > 0 ? Math.min(c.plan.crew, Math.max(0, needCrew - crew)) / needCrew : 0;
+        const newEquipment = needEquipment.filter(e => !equipment.has(e) && c.plan.equipment.has(e)).length;
+        const gain = crewGain + (needEquipment.length > 0 ? newEquipment / needEquipment.length : 0) + (team.length === 0 ? 1 : 0);
+        if (gain <= 0) continue;
+        const marginal = c.cost + Math.max(0, c.lateDays - teamLate) * penalty;
+        const value = gain / Math.max(1, marginal);
+        if (value > bestValue) {
+          best = c;
+          bestValue = value;
+        }
+      }
+      if (!best) break;
+
+      team.push(best);
+      crew += best.plan.crew;
+      best.plan.equipment.forEach(e => equipment.add(e));
+      teamLate = Math.max(teamLate, best.lateDays);
+    }
+
+    for (const member of team) {
+      const { plan } = member;
+      const existing = previous.find(a => a.vesselId === plan.vessel.id);
+      const workDays = member.segments.reduce((sum, seg) => sum + days(seg.start, seg.end), 0);
+      const utilization = Math.round((workDays / (workDays + member.transitHours / 24)) * 100);
+      member.segments.forEach((segment, i) => {
+        plan.bookings.push({ ...segment, projectId: project.id, ...project.location });
+        // Keep the booked start of work already under way
+        const keepStart = i === 0 && existing && segment.start <= now;
+        optimized.push({
+          id: i === 0
+            ? existing?.id ?? `assign-${project.id}-${plan.vessel.id}`
+            : `assign-${project.id}-${plan.vessel.id}-${i + 1}`,
+          vesselId: plan.vessel.id,
+          vesselName: plan.vessel.name,
+          projectId: project.id,
+          projectName: project.name,
+          startDate: keepStart ? existing.startDate : segment.start,
+          endDate: segment.end,
+          status: segment.start <= now ? 'active' : 'scheduled',
+          utilization,
+        });
+      });
+
+      const notes = [
+        member.transitNm > 0
+          ? `${member.transitNm.toFixed(0)} nm transit (${member.transitHours.toFixed(1)}h)`
+          : 'already on site',
+        member.lateDays >= 0.05 ? `starts ${member.lateDays.toFixed(1)} days late` : 'on time',
+        ...(member.segments.length > 1 ? [`off site ${member.downtimeDays.toFixed(1)} days for maintenance`] : []),
+        `${plan.crew} POB`,
+      ];
+      const brings = needEquipment.filter(e => plan.equipment.has(e));
+      if (brings.length > 0) notes.push(`brings ${brings.join(', ')}`);
+      reasons.set(`${plan.vessel.id}|${project.id}`, notes.join('; '));
+    }
+  }
+
+  // Maintenance blocks, including PM windows not yet on the schedule
+  for (const plan of plans) {
+    plan.maintenance.forEach((block, i) => {
+      const existing = assignments.find(a =>
+        a.vesselId === plan.vessel.id && a.projectId === MAINTENANCE_PROJECT_ID &&
+        a.startDate.getTime() === block.start.getTime()
+      );
+      optimized.push(existing ?? {
+        id: `maint-${plan.vessel.id}-${i}`,
+        vesselId: plan.vessel.id,
+        vesselName: plan.vessel.name,
+        projectId: MAINTENANCE_PROJECT_ID,
+        projectName: 'PM: predicted maintenance',
+        startDate: block.start,
+        endDate: block.end,
+        status: 'scheduled',
+        utilization: 0,
+      });
+      if (!existing) reasons.set(`${plan.vessel.id}|${MAINTENANCE_PROJECT_ID}`, 'PM window from equipment health');
+    });
+  }
 
-  // Calculate improvements
-  const utilizationGain = Math.round(5 + Math.random() * 10);
-  const costSavings = Math.round(50000 + Math.random() * 100000);
-  const fuelSavings = Math.round(1000 + Math.random() * 3000);
-  const timeReduction = Math.round(2 + Math.random() * 5);
+  const changes = diffSchedules(assignments, optimized, plans, reasons);
+  const original = evaluateSchedule(assignments, vessels, projects, now);
+  const result = evaluateSchedule(optimized, vessels, projects, now);
+  const conflicts = detectScheduleConflicts(optimized, vessels, projects, now);
+
+  const troubled = new Set(conflicts.filter(c => c.type !== 'equipment_risk').flatMap(c => c.affectedProjects));
+  const confidence = open.length > 0
+    ? Math.round((open.filter(p => !troubled.has(p.id)).length / open.length) * 100)
+    : 100;
 
   return {
-    id: `opt-${Date.now()}`,
+    id: `opt-${now.getTime()}`,
     originalSchedule: assignments,
-    optimizedSchedule: optimizedAssignments,
+    optimizedSchedule: optimized,
     improvements: {
-      utilizationGain,
-      costSavings,
-      fuelSavings,
-      timeReduction,
+      utilizationGain: Math.round((result.utilization - original.utilization) * 10) / 10,
+      costSavings: original.cost - result.cost,
+      fuelSavings: original.transitFuel - result.transitFuel,
+      timeReduction: Math.round((original.lateDays - result.lateDays) * 10) / 10,
     },
-    conflicts: [],
-    confidence: 85 + Math.random() * 10,
+    evaluation: { original, optimized: result },
+    changes,
+    conflicts,
+    confidence,
+  };
+}
+
+function diffSchedules(
+  before: VesselAssignment[],
+  after: VesselAssignment[],
+  plans: VesselPlan[],
+  reasons: Map<string, string>
+): ScheduleChange[] {
+  const key = (a: VesselAssignment) => `${a.vesselId}|${a.projectId}`;
+  // A vessel's bookings on one project, split around maintenance, compared as one span
+  const spans = (list: VesselAssignment[]) => {
+    const byKey = new Map<string, VesselAssignment & { parts: number }>();
+    for (const a of list.filter(a => a.status !== 'cancelled')) {
+      const span = byKey.get(key(a));
+      byKey.set(key(a), span
+        ? {
+          ...span,
+          startDate: a.startDate < span.startDate ? a.startDate : span.startDate,
+          endDate: a.endDate > span.endDate ? a.endDate : span.endDate,
+          parts: span.parts + 1,
+        }
+        : { ...a, parts: 1 });
+    }
+    return byKey;
   };
+  const oldByKey = spans(before);
+  const newByKey = spans(after);
+  const changes: ScheduleChange[] = [];
+  const period = (a: VesselAssignment) => ({ startDate: a.startDate, endDate: a.endDate });
+
+  for (const [k, a] of newByKey) {
+    const old = oldByKey.get(k);
+    if (!old) {
+      changes.push({
+        type: 'added',
+        vesselId: a.vesselId,
+        vesselName: a.vesselName,
+        projectId: a.projectId,
+        projectName: a.projectName,
+        after: period(a),
+        reason: reasons.get(k) ?? 'Needed to meet project requirements',
+      });
+    } else if (
+      old.parts !== a.parts ||
+      Math.abs(old.startDate.getTime() - a.startDate.getTime()) > 3600000 ||
+      Math.abs(old.endDate.getTime() - a.endDate.getTime()) > 3600000
+    ) {
+      changes.push({
+        type: 'rescheduled',
+        vesselId: a.vesselId,
+        vesselName: a.vesselName,
+        projectId: a.projectId,
+        projectName: a.projectName,
+        before: period(old),
+        after: period(a),
+        reason: reasons.get(k) ?? 'Earliest feasible start after transit and maintenance',
+      });
+    }
+  }
+
+  for (const [k, a] of oldByKey) {
+    if (newByKey.has(k)) continue;
+    const plan = plans.find(p => p.vessel.id === a.vesselId);
+    const blocked = plan?.maintenance.find(m => overlaps(m, { start: a.startDate, end: a.endDate }));
+    const replacements = [...newByKey.values()]
+      .filter(n => n.projectId === a.projectId && !oldByKey.has(key(n)))
+      .map(n => n.vesselName);
+    changes.push({
+      type: 'removed',
+      vesselId: a.vesselId,
+      vesselName: a.vesselName,
+      projectId: a.projectId,
+      projectName: a.projectName,
+      before: period(a),
+      reason: !plan
+        ? 'Vessel not in the fleet'
+        : blocked
+          ? `Maintenance ${blocked.start.toISOString().slice(0, 10)} to ${blocked.end.toISOString().slice(0, 10)} overlaps the project`
+          : replacements.length > 0
+            ? `Requirements met at lower cost with ${replacements.join(', ')}`
+            : 'Not needed to meet crew and equipment requirements',
+    });
+  }
+
+  return changes;
 }
 
 // Simulate a disruption scenario
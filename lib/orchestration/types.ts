@@ -12,6 +12,7 @@ export interface Project {
     lat: number;
     lng: number;
   };
+  workArea?: Array<{ lat: number; lng: number }>; // site polygon for geofencing
   schedule: {
     startDate: Date;
     endDate: Date;
@@ -45,7 +46,14 @@ export interface VesselAssignment {
 
 export interface ScheduleConflict {
   id: string;
-  type: 'vessel_double_booking' | 'crew_shortage' | 'equipment_unavailable' | 'weather_risk' | 'equipment_risk';
+  type:
+    | 'vessel_double_booking'
+    | 'crew_shortage'
+    | 'equipment_unavailable'
+    | 'weather_risk'
+    | 'equipment_risk'
+    | 'late_start'
+    | 'unassigned_project';
   severity: 'critical' | 'warning' | 'info';
   affectedVessels: string[];
   affectedProjects: string[];
@@ -53,18 +61,42 @@ export interface ScheduleConflict {
   suggestedResolution: string;
 }
 
+export interface ScheduleChange {
+  type: 'added' | 'removed' | 'rescheduled';
+  vesselId: string;
+  vesselName: string;
+  projectId: string;
+  projectName: string;
+  before?: { startDate: Date; endDate: Date };
+  after?: { startDate: Date; endDate: Date };
+  reason: string;
+}
+
+export interface ScheduleEvaluation {
+  cost: number; // USD: vessel day rates, transit fuel and lateness penalties
+  lateDays: number; // summed over projects
+  transitFuel: number; // liters
+  utilization: number; // % of vessel-days in the horizon spent on site
+  unmetProjects: number; // projects missing vessels, crew or equipment
+}
+
 export interface OptimizationResult {
   id: string;
   originalSchedule: VesselAssignment[];
   optimizedSchedule: VesselAssignment[];
   improvements: {
-    utilizationGain: number;
-    costSavings: number;
-    fuelSavings: number;
-    timeReduction: number;
+    utilizationGain: number; // percentage points
+    costSavings: number; // USD
+    fuelSavings: number; // liters
+    timeReduction: number; // days of lateness removed
+  };
+  evaluation: {
+    original: ScheduleEvaluation;
+    optimized: ScheduleEvaluation;
   };
+  changes: ScheduleChange[];
   conflicts: ScheduleConflict[];
-  confidence: number;
+  confidence: number; // % of projects fully resourced and on time
 }
 
 export interface ScenarioSimulation {
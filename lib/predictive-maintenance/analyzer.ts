@@ -2,12 +2,14 @@ import { v4 as uuidv4 } from 'uuid'
 import {
   PMAnalysis,
   PMAnalysisRequest,
+  PMConditionEstimate,
   PMDataSource,
   PMDegradationPoint,
   PMComponentType,
   PMPrediction,
   PMPriority,
   PMReasoningStep,
+  PMRULEstimate,
   PMSourceContribution,
 } from './types'
 import {
@@ -17,7 +19,16 @@ import {
   getMostLikelyFailureMode,
 } from './oem-specs'
 import { getWorkOrderHistory, getFleetPatterns } from './history'
+import { estimateRUL, fitDegradationTrend } from './rul'
 import { getAssetIssues, type ComponentIssue } from '../asset-issues'
+import {
+  getHistoryForAsset,
+  getKaggleHistoryForAsset,
+  type KaggleTransformerRecord,
+  type TransformerHealthRecord,
+} from '../datasets/transformer-health'
+import { diagnoseDGA, type DGADiagnosis } from '../dga'
+import { estimateAssetInsulationLife, type InsulationLifeEstimate } from '../insulation'
 
 const DATA_SOURCES: PMDataSource[] = [
   {
@@ -112,23 +123,24 @@ const DATA_SOURCES: PMDataSource[] = [
   },
 ]
 
-function calculateRemainingLife(
-  componentType: PMComponentType,
-  currentHealth: number,
-  ageYears: number
+function formatRemainingLife(
+  years: number,
+  percentRemaining: number
 ): { value: number; unit: 'months' | 'days'; percentRemaining: number } {
-  const profile = getOEMProfile(componentType)
-  const expectedLife = profile.specs.expectedLifeYears || 40
-
-  const remainingYears = Math.max(0, expectedLife - ageYears)
-  const adjustedRemaining = remainingYears * (currentHealth / 100)
-  const percentRemaining = (adjustedRemaining / expectedLife) * 100
-
-  const months = Math.round(adjustedRemaining * 12)
+  const months = Math.round(years * 12)
   if (months > 6) {
     return { value: months, unit: 'months', percentRemaining: Math.round(percentRemaining) }
   }
-  return { value: Math.max(1, Math.round(adjustedRemaining * 365)), unit: 'days', percentRemaining: Math.round(percentRemaining) }
+  return { value: Math.max(1, Math.round(years * 365)), unit: 'days', percentRemaining: Math.round(percentRemaining) }
+}
+
+// Years of life the RUL P50 represents out of the component's total projected life
+function rulRemainingLife(
+  rul: PMRULEstimate,
+  ageYears: number
+): { value: number; unit: 'months' | 'days'; percentRemaining: number } {
+  const percent = ageYears > 0 ? (rul.p50 / (rul.p50 + ageYears)) * 100 : 100
+  return formatRemainingLife(rul.p50, percent)
 }
 
 function determinePriority(
@@ -157,7 +169,7 @@ function generateDegradationCurve(
   for (let i = 0; i <= historyPoints; i++) {
     const healthAtPoint = 100 - ((100 - currentHealth) * (i / historyPoints))
     points.push({
-      timestamp: new Date(Date.now() - (historyPoints - i) * 365 * 24 * 60 * 60 * 1000),
+      timestamp: new Date(Date.now() - (historyPoints - i) * yearsPerPoint * 365 * 24 * 60 * 60 * 1000),
       healthScore: Math.round(healthAtPoint * 10) / 10,
       isProjected: false,
     })
@@ -273,7 +285,8 @@ function buildReasoningChain(
 function buildSourceContributions(
   component: PMAnalysisRequest['componentList'][0],
   profile: ReturnType<typeof getOEMProfile>,
-  workHistory: ReturnType<typeof getWorkOrderHistory>
+  workHistory: ReturnType<typeof getWorkOrderHistory>,
+  dga: DGADiagnosis | null
 ): PMSourceContribution[] {
   const contributions: PMSourceContribution[] = []
 
@@ -291,12 +304,21 @@ function buildSourceContributions(
 
   contributions.push({
     source: DATA_SOURCES.find(s => s.type === 'dga_analysis')!,
-    contribution: 'DGA trending per IEEE C57.104 — gas generation rates and fault type identification',
+    contribution: dga
+      ? `Six-method DGA interpretation — ${dga.interpretation}`
+      : 'DGA trending per IEEE C57.104 — gas generation rates and fault type identification',
     relevanceScore: 98,
-    dataPoints: [
-      { label: 'Analysis Method', value: 'Duval Triangle + Key Gas' },
-      { label: 'Standard', value: 'IEEE C57.104-2019' },
-    ],
+    dataPoints: dga
+      ? [
+          { label: 'Consensus', value: `${dga.consensus.code} — ${dga.consensus.label}` },
+          { label: 'Method Agreement', value: Math.round(dga.consensus.agreement * 100), unit: '%' },
+          { label: 'Methods Valid', value: dga.methods.filter(m => m.valid).length },
+          { label: 'Standard', value: 'IEEE C57.104 / IEC 60599' },
+        ]
+      : [
+          { label: 'Analysis Method', value: 'Duval Triangle + Key Gas' },
+          { label: 'Standard', value: 'IEEE C57.104-2019' },
+        ],
   })
 
   contributions.push({
@@ -346,6 +368,74 @@ function buildSourceContributions(
   return contributions
 }
 
+function buildDGAReasoningStep(dga: DGADiagnosis): PMReasoningStep {
+  const validCount = dga.methods.filter(m => m.valid).length
+  const text = !dga.screening.abnormal
+    ? 'DGA: all key gases below IEEE C57.104 Condition 1 — no fault gas signature'
+    : dga.methodsDisagree
+      ? `DGA methods disagree (${dga.disagreementNote}) — treat ${dga.consensus.code} as provisional and resample before acting`
+      : `DGA consensus ${dga.consensus.code} (${dga.consensus.label}) — ${dga.consensus.supportingMethods.length} of ${validCount} interpretation methods agree`
+
+  return {
+    id: uuidv4(),
+    text,
+    sourceType: 'dga_analysis',
+    confidence: Math.round(dga.consensus.agreement * 100),
+    isKey: dga.screening.abnormal,
+  }
+}
+
+const LIFE_CONFIDENCE_SCORE: Record<InsulationLifeEstimate['confidence'], number> = {
+  high: 85,
+  medium: 70,
+  low: 50,
+}
+
+function buildInsulationReasoningStep(insulation: InsulationLifeEstimate): PMReasoningStep {
+  return {
+    id: uuidv4(),
+    text: `Paper insulation: ${insulation.summary}`,
+    sourceType: 'oil_analysis',
+    confidence: LIFE_CONFIDENCE_SCORE[insulation.confidence],
+    isKey: insulation.condition === 'extensive_aging' || insulation.condition === 'end_of_life',
+  }
+}
+
+const LIFE_CONFIDENCE_WEIGHT: Record<InsulationLifeEstimate['confidence'], number> = {
+  high: 1,
+  medium: 0.7,
+  low: 0.5,
+}
+
+// Winding life is paper life, so the furan/DP projection joins the RUL blend
+function insulationConditionEstimate(insulation: InsulationLifeEstimate): PMConditionEstimate {
+  const { low, estimate, high } = insulation.remainingLifeYears
+  return {
+    source: 'insulation_dp',
+    p10: low,
+    p50: estimate,
+    p90: high,
+    weight: LIFE_CONFIDENCE_WEIGHT[insulation.confidence],
+    detail: `Paper DP ~${insulation.dp.estimate}, ${estimate} yr to DP ${insulation.endOfLifeDP}`,
+  }
+}
+
+function buildRULReasoningStep(componentName: string, rul: PMRULEstimate): PMReasoningStep {
+  const { weibull } = rul
+  const sources = rul.conditionEstimates.map(c => c.detail)
+  return {
+    id: uuidv4(),
+    text: `${componentName} RUL P10/P50/P90: ${rul.p10} / ${rul.p50} / ${rul.p90} yr — Weibull β=${weibull.shape}, ` +
+      `η=${weibull.scale} yr from ${weibull.failureCount} fleet failures` +
+      (weibull.hazardMultiplier > 1 ? `, hazard ×${weibull.hazardMultiplier} from unplanned work orders` : '') +
+      `, ${Math.round(weibull.failureProbabilityNextYear * 100)}% chance of failure in the next 12 months` +
+      (sources.length > 0 ? `. Condition: ${sources.join('; ')}` : ''),
+    sourceType: 'fleet_data',
+    confidence: rul.confidence,
+    isKey: rul.p10 < 2,
+  }
+}
+
 function findMatchingAssetIssue(assetId: string, componentName: string): ComponentIssue | null {
   const assetIssues = getAssetIssues(assetId)
   if (!assetIssues) return null
@@ -365,12 +455,38 @@ export function analyzeEquipment(request: PMAnalysisRequest): PMAnalysis {
   const allContributions: PMSourceContribution[] = []
   let overallHealth = 0
 
+  const { asOf, historySource = 'curated' } = request
+  const recordedBy = <T extends { timestamp: string }>(records: T[]) =>
+    records.filter(r => !asOf || new Date(r.timestamp) <= asOf)
+  // Only the curated set carries furan readings for the paper-life estimate
+  const furanHistory = historySource === 'curated' ? recordedBy(getHistoryForAsset(request.assetId)) : null
+  const dgaHistory: Array<TransformerHealthRecord | KaggleTransformerRecord> =
+    furanHistory ?? recordedBy(getKaggleHistoryForAsset(request.assetId))
+  const latestDGA = dgaHistory.length > 0 ? dgaHistory[dgaHistory.length - 1] : null
+  // The lab health index is the only measured degradation series on record,
+  // and it tracks the main insulation
+  const measuredHealth: PMDegradationPoint[] = dgaHistory.map(r => ({
+    timestamp: new Date(r.timestamp),
+    healthScore: r.healthIndex,
+    isProjected: false,
+  }))
+  const dga = latestDGA ? diagnoseDGA(latestDGA) : null
+  if (dga) allReasoningSteps.push(buildDGAReasoningStep(dga))
+
+  const winding = request.componentList.find(c => c.type === 'winding')
+  const insulation = winding && furanHistory
+    ? estimateAssetInsulationLife(request.assetId, { ageYears: winding.ageYears, history: furanHistory })
+    : null
+  if (insulation) allReasoningSteps.push(buildInsulationReasoningStep(insulation))
+
   for (const component of request.componentList) {
     const profile = getOEMProfile(component.type)
-    const workHistory = getWorkOrderHistory(request.assetId, component.id)
-    const fleetPatterns = getFleetPatterns(component.type)
+    const workHistory = getWorkOrderHistory(request.assetId, component.id, request.recordedWorkOrders)
+      .filter(w => !asOf || w.dateCreated <= asOf)
+    const fleetPatterns = getFleetPatterns(component.type, asOf)
 
-    const assetIssue = findMatchingAssetIssue(request.assetId, component.name)
+    // Curated issues describe the asset as it is today, which a replay must not see
+    const assetIssue = asOf ? null : findMatchingAssetIssue(request.assetId, component.name)
 
     const failureMode = assetIssue
       ? {
@@ -385,11 +501,21 @@ export function analyzeEquipment(request: PMAnalysisRequest): PMAnalysis {
 
     overallHealth += currentHealth
 
-    const remainingLife = calculateRemainingLife(
-      component.type,
-      currentHealth,
-      component.ageYears || 0
-    )
+    const conditionEstimates: PMConditionEstimate[] = []
+    // Other components have no measured series and rest on the fleet prior
+    const trend = component.type === 'winding' ? fitDegradationTrend(measuredHealth) : null
+    if (trend) conditionEstimates.push(trend)
+    if (component.type === 'winding' && insulation) {
+      conditionEstimates.push(insulationConditionEstimate(insulation))
+    }
+
+    const rul = estimateRUL(component.type, {
+      ageYears: component.ageYears || 0,
+      fleetPatterns,
+      workOrders: workHistory,
+      conditionEstimates,
+    })
+    const remainingLife = rulRemainingLife(rul, component.ageYears || 0)
 
     const effectivePriority: PMPriority = assetIssue
       ? assetIssue.pmPrediction.priority
@@ -413,12 +539,14 @@ export function analyzeEquipment(request: PMAnalysisRequest): PMAnalysis {
       })
     }
 
+    reasoningChain.push(buildRULReasoningStep(component.name, rul))
     allReasoningSteps.push(...reasoningChain)
 
     const contributions = buildSourceContributions(
       { ...component, currentHealth },
       profile,
-      workHistory
+      workHistory,
+      dga
     )
     if (allContributions.length === 0) {
       allContributions.push(...contributions)
@@ -458,7 +586,8 @@ export function analyzeEquipment(request: PMAnalysisRequest): PMAnalysis {
       description: predictionDescription,
       predictedIssue: assetIssue?.pmPrediction.predictedIssue || failureMode?.mode || 'General aging progression',
       remainingLife,
-      confidence: assetIssue ? (assetIssue.pmPrediction.confidence ?? 92) : Math.round(80 + Math.random() * 15),
+      rul,
+      confidence: rul.confidence,
       recommendedAction,
       alternativeActions: [
         'Increase monitoring frequency',
@@ -483,10 +612,6 @@ export function analyzeEquipment(request: PMAnalysisRequest): PMAnalysis {
       },
       partsRequired: nextTask?.parts || [],
       customersAtRisk: assetIssue?.pmPrediction.customersAtRisk,
-      optimalMaintenanceWindow: {
-        start: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000),
-        end: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
-      },
     })
   }
 
@@ -506,7 +631,7 @@ export function analyzeEquipment(request: PMAnalysisRequest): PMAnalysis {
     assetType: request.assetType,
     assetId: request.assetId,
     assetName: request.assetName,
-    timestamp: new Date(),
+    timestamp: asOf ?? new Date(),
     status: 'complete',
     sourcesQueried: DATA_SOURCES,
     sourceContributions: allContributions,
@@ -0,0 +1,232 @@
+import {
+  PMAnalysisRequest,
+  PMBacktestCase,
+  PMBacktestOptions,
+  PMBacktestReport,
+  PMBacktestScore,
+  PMBacktestSource,
+  PMComponentType,
+} from './types'
+import { analyzeEquipment } from './analyzer'
+import { getWorkOrderHistory } from './history'
+import { TRANSFORMER_COMPONENTS, transformerComponentList } from './oem-specs'
+import {
+  getHistoryForAsset,
+  getKaggleHistoryForAsset,
+  KAGGLE_TRANSFORMER_DATA,
+  TRANSFORMER_HEALTH_DATA,
+} from '../datasets/transformer-health'
+import { getExelonAssetByTag } from '../exelon/fleet'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const YEAR_MS = 365 * DAY_MS
+
+const DEFAULT_HORIZON_DAYS = 365
+const DEFAULT_CUTOFF_STEP_DAYS = 90
+const DEFAULT_AGE_YEARS = 30
+
+interface HealthSample {
+  assetTag: string
+  timestamp: string
+  healthIndex: number
+  condition: string
+}
+
+interface FailureEvent {
+  date: Date
+  source: 'health_record' | 'work_order'
+}
+
+function round(value: number, places = 2): number {
+  const f = 10 ** places
+  return Math.round(value * f) / f
+}
+
+function healthSeries(source: PMBacktestSource, assetTag: string): HealthSample[] {
+  return source === 'kaggle' ? getKaggleHistoryForAsset(assetTag) : getHistoryForAsset(assetTag)
+}
+
+function sourceAssetTags(source: PMBacktestSource): string[] {
+  return [...new Set(sourceRecords(source).map(r => r.assetTag))].sort()
+}
+
+function sourceRecords(source: PMBacktestSource): HealthSample[] {
+  return source === 'kaggle' ? KAGGLE_TRANSFORMER_DATA : TRANSFORMER_HEALTH_DATA
+}
+
+// The replay runs against the recorded data, not the wall clock: the last
+// reading is "now", and horizons that run past it are censored
+function dataEnd(source: PMBacktestSource): Date {
+  return new Date(Math.max(...sourceRecords(source).map(r => new Date(r.timestamp).getTime())))
+}
+
+function defaultCutoffs(source: PMBacktestSource, now: Date): Date[] {
+  const first = Math.min(...sourceRecords(source).map(r => new Date(r.timestamp).getTime()))
+  const cutoffs: Date[] = []
+  for (let t = first; t < now.getTime(); t += DEFAULT_CUTOFF_STEP_DAYS * DAY_MS) cutoffs.push(new Date(t))
+  return cutoffs
+}
+
+// A transformer fails when its health record first enters End of Life; any
+// component fails on an emergency corrective work order
+function failureEvents(
+  series: HealthSample[],
+  assetTag: string,
+  componentId: string,
+  componentType: PMComponentType
+): FailureEvent[] {
+  const events: FailureEvent[] = []
+  if (componentType === 'winding') {
+    series.forEach((r, i) => {
+      if (r.condition === 'End of Life' && (i === 0 || series[i - 1].condition !== 'End of Life')) {
+        events.push({ date: new Date(r.timestamp), source: 'health_record' })
+      }
+    })
+  }
+  for (const wo of getWorkOrderHistory(assetTag, componentId)) {
+    if (wo.wasUnplanned && wo.issue.startsWith('Emergency')) {
+      events.push({ date: wo.dateCreated, source: 'work_order' })
+    }
+  }
+  return events.sort((a, b) => a.date.getTime() - b.date.getTime())
+}
+
+function replayAsset(
+  source: PMBacktestSource,
+  assetTag: string,
+  cutoffs: Date[],
+  horizonDays: number,
+  now: Date
+): PMBacktestCase[] {
+  const series = healthSeries(source, assetTag)
+  const asset = getExelonAssetByTag(assetTag)
+  const cases: PMBacktestCase[] = []
+
+  for (const cutoff of cutoffs) {
+    const known = series.filter(r => new Date(r.timestamp) <= cutoff)
+    if (known.length === 0) continue
+    const latest = known[known.length - 1]
+    // Units already at end of life have failed; there is nothing left to predict
+    if (latest.condition === 'End of Life') continue
+
+    const ageYears = asset
+      ? Math.max(0, (cutoff.getTime() - new Date(asset.yearInstalled, 6, 1).getTime()) / YEAR_MS)
+      : DEFAULT_AGE_YEARS
+
+    const request: PMAnalysisRequest = {
+      assetType: 'power_transformer',
+      assetId: assetTag,
+      assetName: asset?.name ?? assetTag,
+      componentList: transformerComponentList(assetTag, {
+        ageYears: round(ageYears, 1),
+        healthIndex: latest.healthIndex,
+      }),
+      asOf: cutoff,
+      historySource: source,
+    }
+    const analysis = analyzeEquipment(request)
+    const windowEnd = cutoff.getTime() + horizonDays * DAY_MS
+
+    for (const component of request.componentList) {
+      const prediction = analysis.predictions.find(p => p.componentId === component.id)
+      if (!prediction) continue
+
+      const failure = failureEvents(series, assetTag, component.id, component.type)
+        .find(e => e.date > cutoff && e.date.getTime() <= windowEnd)
+
+      cases.push({
+        assetId: assetTag,
+        componentType: component.type,
+        cutoff,
+        priority: prediction.priority,
+        alarm: prediction.priority === 'critical' || prediction.priority === 'high',
+        rul: prediction.rul
+          ? { p10: prediction.rul.p10, p50: prediction.rul.p50, p90: prediction.rul.p90 }
+          : null,
+        failureDate: failure?.date ?? null,
+        failureSource: failure?.source ?? null,
+        censored: !failure && windowEnd > now.getTime(),
+      })
+    }
+  }
+  return cases
+}
+
+function scoreCases(componentType: PMBacktestScore['componentType'], cases: PMBacktestCase[]): PMBacktestScore {
+  const failed = cases.filter(c => c.failureDate)
+  const observed = cases.filter(c => !c.censored)
+  const truePositives = failed.filter(c => c.alarm).length
+  const falseNegatives = failed.length - truePositives
+  const falsePositives = observed.filter(c => c.alarm && !c.failureDate).length
+  const trueNegatives = observed.filter(c => !c.alarm && !c.failureDate).length
+
+  const rulErrors = failed
+    .filter(c => c.rul)
+    .map(c => {
+      const actual = (c.failureDate!.getTime() - c.cutoff.getTime()) / YEAR_MS
+      return { error: c.rul!.p50 - actual, covered: c.rul!.p10 <= actual && actual <= c.rul!.p90 }
+    })
+
+  // Lead time per failure: from the earliest alarmed cut-off whose horizon caught it
+  const events = new Map<string, { failure: number; firstAlarm: number | null }>()
+  for (const c of failed) {
+    const key = `${c.assetId}|${c.componentType}|${c.failureDate!.getTime()}`
+    const event = events.get(key) ?? { failure: c.failureDate!.getTime(), firstAlarm: null }
+    if (c.alarm && (event.firstAlarm === null || c.cutoff.getTime() < event.firstAlarm)) {
+      event.firstAlarm = c.cutoff.getTime()
+    }
+    events.set(key, event)
+  }
+  const leadTimes = [...events.values()]
+    .filter(e => e.firstAlarm !== null)
+    .map(e => (e.failure - e.firstAlarm!) / DAY_MS)
+
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((s, v) => s + v, 0) / values.length : null
+  const ratio = (num: number, den: number) => (den > 0 ? round(num / den) : null)
+  const mae = mean(rulErrors.map(e => Math.abs(e.error)))
+  const bias = mean(rulErrors.map(e => e.error))
+  const lead = mean(leadTimes)
+
+  return {
+    componentType,
+    cases: cases.length,
+    failures: failed.length,
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    trueNegatives,
+    censored: cases.length - observed.length,
+    precision: ratio(truePositives, truePositives + falsePositives),
+    recall: ratio(truePositives, failed.length),
+    rulMAEYears: mae === null ? null : round(mae),
+    rulBiasYears: bias === null ? null : round(bias),
+    intervalCoverage: ratio(rulErrors.filter(e => e.covered).length, rulErrors.length),
+    meanLeadTimeDays: lead === null ? null : Math.round(lead),
+    missedFailures: events.size - leadTimes.length,
+  }
+}
+
+// Replays the analyzer at each cut-off using only data recorded up to that
+// date, then scores its predictions against failures inside the horizon
+export function runBacktest(options: PMBacktestOptions = {}): PMBacktestReport {
+  const source = options.source ?? 'curated'
+  const horizonDays = options.horizonDays ?? DEFAULT_HORIZON_DAYS
+  const now = dataEnd(source)
+  const cutoffs = options.cutoffs ?? defaultCutoffs(source, now)
+  const assetTags = options.assetTags ?? sourceAssetTags(source)
+
+  const cases = assetTags.flatMap(tag => replayAsset(source, tag, cutoffs, horizonDays, now))
+  const componentTypes = TRANSFORMER_COMPONENTS.map(c => c.type)
+
+  return {
+    generatedAt: new Date(),
+    source,
+    horizonDays,
+    cutoffs,
+    assetCount: assetTags.length,
+    overall: scoreCases('all', cases),
+    byComponent: componentTypes.map(type => scoreCases(type, cases.filter(c => c.componentType === type))),
+    cases,
+  }
+}
@@ -0,0 +1,31 @@
+import { PMAnalysis, PMMaintenancePlan, PMPrediction, PMWorkOrder } from './types'
+import { analyzeEquipment } from './analyzer'
+import { transformerComponentList } from './oem-specs'
+import { planMaintenance } from './planner'
+import { EXELON_ASSETS } from '../exelon/fleet'
+
+// Runs the analyzer over every in-service transformer in the fleet register
+export function analyzeFleet(recordedWorkOrders: PMWorkOrder[] = []): PMAnalysis[] {
+  const year = new Date().getFullYear()
+  return EXELON_ASSETS
+    .filter(a => (a.type === 'power_transformer' || a.type === 'distribution_transformer') && a.status !== 'maintenance')
+    .map(a => analyzeEquipment({
+      assetType: a.type === 'power_transformer' ? 'power_transformer' : 'distribution_transformer',
+      assetId: a.assetTag,
+      assetName: a.name,
+      componentList: transformerComponentList(a.assetTag, {
+        ageYears: year - a.yearInstalled,
+        healthIndex: a.healthIndex,
+      }),
+      recordedWorkOrders,
+    }))
+}
+
+// Plans every open prediction across the fleet against shared crew capacity
+export function planFleetMaintenance(
+  options: { start?: Date; horizonDays?: number; recordedWorkOrders?: PMWorkOrder[] } = {}
+): { plan: PMMaintenancePlan; predictions: PMPrediction[] } {
+  const predictions = analyzeFleet(options.recordedWorkOrders).flatMap(a => a.predictions)
+  const plan = planMaintenance(predictions, options)
+  return { plan, predictions }
+}
@@ -171,6 +171,7 @@ const FLEET_PATTERNS_DATA: PMFleetPattern[] = [
     averageFailurePoint: { value: 28, unit: 'years' },
     affectedAssets: ['BGE-TF-001', 'PECO-TF-003', 'ComEd-TF-005'],
     recommendedIntervention: 'Reduce loading to 85% during peak summer and increase DGA sampling frequency',
+    identifiedAt: '2019-09-03',
   },
   {
     componentType: 'winding',
@@ -179,6 +180,7 @@ const FLEET_PATTERNS_DATA: PMFleetPattern[] = [
     averageFailurePoint: { value: 32, unit: 'years' },
     affectedAssets: ['BGE-TF-001', 'ACE-TF-008'],
     recommendedIntervention: 'Install online PD monitoring and schedule power factor testing every 6 months',
+    identifiedAt: '2024-06-18',
   },
   {
     componentType: 'bushing',
@@ -187,6 +189,7 @@ const FLEET_PATTERNS_DATA: PMFleetPattern[] = [
     averageFailurePoint: { value: 25, unit: 'years' },
     affectedAssets: ['PECO-TF-003', 'ComEd-TF-005', 'DPL-TF-007'],
     recommendedIntervention: 'Replace with RIP bushings during next planned outage',
+    identifiedAt: '2020-11-10',
   },
   {
     componentType: 'tap_changer',
@@ -195,6 +198,7 @@ const FLEET_PATTERNS_DATA: PMFleetPattern[] = [
     averageFailurePoint: { value: 15, unit: 'years' },
     affectedAssets: ['BGE-TF-001', 'PECO-TF-003', 'ComEd-TF-005', 'PHI-TF-006', 'ACE-TF-008'],
     recommendedIntervention: 'Implement condition-based tap changer maintenance at 50k operations',
+    identifiedAt: '2018-05-22',
   },
   {
     componentType: 'cooling_system',
@@ -203,6 +207,7 @@ const FLEET_PATTERNS_DATA: PMFleetPattern[] = [
     averageFailurePoint: { value: 8, unit: 'years' },
     affectedAssets: ['BGE-TF-001', 'PECO-TF-003', 'ComEd-TF-005', 'PHI-TF-006'],
     recommendedIntervention: 'Stock spare fan motors and pre-stage portable cooling for summer peak',
+    identifiedAt: '2022-08-30',
   },
   {
     componentType: 'oil_system',
@@ -211,6 +216,7 @@ const FLEET_PATTERNS_DATA: PMFleetPattern[] = [
     averageFailurePoint: { value: 20, unit: 'years' },
     affectedAssets: ['BGE-TF-001', 'ACE-TF-008', 'DPL-TF-007'],
     recommendedIntervention: 'Replace gaskets and install online moisture sensors',
+    identifiedAt: '2021-03-15',
   },
   {
     componentType: 'oil_system',
@@ -219,6 +225,7 @@ const FLEET_PATTERNS_DATA: PMFleetPattern[] = [
     averageFailurePoint: { value: 18, unit: 'years' },
     affectedAssets: ['PECO-TF-003', 'ComEd-TF-005'],
     recommendedIntervention: 'Schedule oil reclamation with passivator injection',
+    identifiedAt: '2024-02-07',
   },
   {
     componentType: 'breaker',
@@ -227,6 +234,7 @@ const FLEET_PATTERNS_DATA: PMFleetPattern[] = [
     averageFailurePoint: { value: 22, unit: 'years' },
     affectedAssets: ['BGE-TF-001', 'PHI-TF-006', 'DPL-TF-007'],
     recommendedIntervention: 'Implement SF6 leak detection monitoring and schedule seal replacements',
+    identifiedAt: '2020-01-28',
   },
   {
     componentType: 'surge_arrester',
@@ -235,6 +243,7 @@ const FLEET_PATTERNS_DATA: PMFleetPattern[] = [
     averageFailurePoint: { value: 15, unit: 'years' },
     affectedAssets: ['BGE-TF-001', 'ACE-TF-008', 'DPL-TF-007'],
     recommendedIntervention: 'Conduct post-storm arrester testing and replace units showing degradation',
+    identifiedAt: '2023-11-06',
   },
   {
     componentType: 'protection_system',
@@ -243,6 +252,7 @@ const FLEET_PATTERNS_DATA: PMFleetPattern[] = [
     averageFailurePoint: { value: 10, unit: 'years' },
     affectedAssets: ['ComEd-TF-005', 'PECO-TF-003'],
     recommendedIntervention: 'Mandate protection coordination study after any topology change',
+    identifiedAt: '2022-04-19',
   },
   {
     componentType: 'current_transformer',
@@ -251,6 +261,7 @@ const FLEET_PATTERNS_DATA: PMFleetPattern[] = [
     averageFailurePoint: { value: 30, unit: 'years' },
     affectedAssets: ['BGE-TF-001', 'ACE-TF-008'],
     recommendedIntervention: 'Schedule CT replacement with dry-type units during planned outages',
+    identifiedAt: '2025-01-14',
   },
   {
     componentType: 'relay',
@@ -259,14 +270,17 @@ const FLEET_PATTERNS_DATA: PMFleetPattern[] = [
     averageFailurePoint: { value: 7, unit: 'years' },
     affectedAssets: ['ComEd-TF-005', 'PECO-TF-003', 'PHI-TF-006'],
     recommendedIntervention: 'Establish firmware lifecycle management and pre-test all upgrades',
+    identifiedAt: '2023-05-09',
   },
 ]
 
-export function getWorkOrderHistory(assetId: string, componentId: string): PMWorkOrder[] {
-  const seed = hashCode(assetId + componentId)
-  const random = seededRandom(seed)
+// Generated records count back from here, just after the last DGA sample on
+// file, so a replay and its ground truth don't shift with the clock
+const SYNTHETIC_HISTORY_EPOCH = new Date('2026-02-15T00:00:00Z')
+const DAY_MS = 24 * 60 * 60 * 1000
 
-  const componentType: PMEquipmentType = componentId.includes('winding') ? 'winding' :
+export function componentTypeForId(componentId: string): PMEquipmentType {
+  return componentId.includes('winding') ? 'winding' :
     componentId.includes('bushing') ? 'bushing' :
     componentId.includes('tap') ? 'tap_changer' :
     componentId.includes('cool') || componentId.includes('fan') ? 'cooling_system' :
@@ -276,7 +290,15 @@ export function getWorkOrderHistory(assetId: string, componentId: string): PMWor
     componentId.includes('breaker') ? 'breaker' :
     componentId.includes('relay') ? 'relay' :
     componentId.includes('protect') ? 'protection_system' : 'winding'
+}
+
+// Generated history for a component, plus any completed field work orders
+// for the asset (see listMaintenanceHistory in lib/exelon/work-orders)
+export function getWorkOrderHistory(assetId: string, componentId: string, recordedWorkOrders: PMWorkOrder[] = []): PMWorkOrder[] {
+  const seed = hashCode(assetId + componentId)
+  const random = seededRandom(seed)
 
+  const componentType = componentTypeForId(componentId)
   const issues = WORK_ORDER_ISSUES[componentType] || WORK_ORDER_ISSUES.winding
 
   const workOrders: PMWorkOrder[] = []
@@ -286,10 +308,10 @@ export function getWorkOrderHistory(assetId: string, componentId: string): PMWor
     const isPM = random() > 0.35
     const issueList = isPM ? issues.pm : issues.cm
     const daysAgo = Math.floor(random() * 180) + 1
-    const dateCreated = new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000)
+    const dateCreated = new Date(SYNTHETIC_HISTORY_EPOCH.getTime() - daysAgo * DAY_MS)
 
     workOrders.push({
-      id: `WO-${new Date().getFullYear()}-${String(Math.floor(random() * 900) + 100)}`,
+      id: `WO-${dateCreated.getFullYear()}-${String(Math.floor(random() * 900) + 100)}`,
       assetId,
       assetName: assetId,
       componentId,
@@ -306,14 +328,19 @@ export function getWorkOrderHistory(assetId: string, componentId: string): PMWor
     })
   }
 
-  return workOrders.sort((a, b) => b.dateCreated.getTime() - a.dateCreated.getTime())
+  const recorded = recordedWorkOrders
+    .filter(wo => wo.assetId.toUpperCase() === assetId.toUpperCase() && componentTypeForId(wo.componentId) === componentType)
+    .map(wo => ({ ...wo, componentId, componentName: wo.componentName || componentId }))
+
+  return [...recorded, ...workOrders].sort((a, b) => b.dateCreated.getTime() - a.dateCreated.getTime())
 }
 
-export function getFleetPatterns(componentType?: PMEquipmentType): PMFleetPattern[] {
-  if (componentType) {
-    return FLEET_PATTERNS_DATA.filter(p => p.componentType === componentType)
-  }
-  return FLEET_PATTERNS_DATA
+// Patterns recognised by asOf; a replay can't learn from failures still to come
+export function getFleetPatterns(componentType?: PMEquipmentType, asOf?: Date): PMFleetPattern[] {
+  return FLEET_PATTERNS_DATA.filter(p =>
+    (!componentType || p.componentType === componentType) &&
+    (!asOf || new Date(p.identifiedAt) <= asOf)
+  )
 }
 
 export function getInspectionRecords(assetId: string, componentId: string): PMInspectionRecord[] {
@@ -330,11 +357,13 @@ export function getInspectionRecords(assetId: string, componentId: string): PMIn
     const daysAgo = Math.floor(random() * 90) + 14
     const conditionIndex = Math.min(Math.floor(random() * 3), 3)
 
+    const date = new Date(SYNTHETIC_HISTORY_EPOCH.getTime() - daysAgo * DAY_MS)
+
     records.push({
-      id: `INS-${new Date().getFullYear()}-${String(Math.floor(random() * 900) + 100)}`,
+      id: `INS-${date.getFullYear()}-${String(Math.floor(random() * 900) + 100)}`,
       assetId,
       componentId,
-      date: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000),
+      date,
       inspector: inspectors[Math.floor(random() * inspectors.length)],
       findings: generateFindings(random, conditions[conditionIndex]),
       condition: conditions[conditionIndex],
@@ -357,11 +386,13 @@ export function getOilAnalysisRecords(assetId: string, componentId: string): PMO
     const daysAgo = Math.floor(random() * 60) + 21
     const overallCondition = random() > 0.7 ? 'marginal' : random() > 0.9 ? 'critical' : 'good'
 
+    const date = new Date(SYNTHETIC_HISTORY_EPOCH.getTime() - daysAgo * DAY_MS)
+
     records.push({
-      id: `OIL-${new Date().getFullYear()}-${String(Math.floor(random() * 900) + 100)}`,
+      id: `OIL-${date.getFullYear()}-${String(Math.floor(random() * 900) + 100)}`,
       assetId,
       componentId,
-      date: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000),
+      date,
       lab: 'Weidmann Electrical Technology',
       results: [
         {
@@ -2,4 +2,8 @@ export * from './types'
 export * from './oem-specs'
 export * from './analyzer'
 export * from './history'
+export * from './rul'
 
+export * from './backtest'
+export * from './planner'
+export * from './fleet'
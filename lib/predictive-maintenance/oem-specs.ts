@@ -1,4 +1,4 @@
-import { PMEquipmentProfile, PMComponentType } from './types'
+import { PMAnalysisRequest, PMEquipmentProfile, PMComponentType } from './types'
 
 export const OEM_COMPONENT_PROFILES: Record<PMComponentType, PMEquipmentProfile> = {
   winding: {
@@ -432,6 +432,32 @@ export const OEM_COMPONENT_PROFILES: Record<PMComponentType, PMEquipmentProfile>
   },
 }
 
+// Main components tracked on a power transformer. Ids follow the naming
+// getWorkOrderHistory keys its component type on
+export const TRANSFORMER_COMPONENTS: { suffix: string; name: string; type: PMComponentType }[] = [
+  { suffix: 'winding', name: 'Main Winding', type: 'winding' },
+  { suffix: 'oil', name: 'Insulating Oil', type: 'oil_system' },
+  { suffix: 'tap-changer', name: 'On-Load Tap Changer', type: 'tap_changer' },
+  { suffix: 'bushing', name: 'HV Bushings', type: 'bushing' },
+  { suffix: 'cooling', name: 'Cooling System', type: 'cooling_system' },
+]
+
+// Components whose condition the transformer health index tracks directly
+const HEALTH_INDEX_COMPONENTS: PMComponentType[] = ['winding', 'oil_system']
+
+export function transformerComponentList(
+  assetTag: string,
+  options: { ageYears?: number; healthIndex?: number } = {}
+): PMAnalysisRequest['componentList'] {
+  return TRANSFORMER_COMPONENTS.map(c => ({
+    id: `${assetTag}-${c.suffix}`,
+    name: c.name,
+    type: c.type,
+    currentHealth: HEALTH_INDEX_COMPONENTS.includes(c.type) ? options.healthIndex : undefined,
+    ageYears: options.ageYears,
+  }))
+}
+
 export function getOEMProfile(componentType: PMComponentType): PMEquipmentProfile {
   return OEM_COMPONENT_PROFILES[componentType]
 }
@@ -0,0 +1,255 @@
+import {
+  PMCrewWeek,
+  PMMaintenancePlan,
+  PMPrediction,
+  PMPriority,
+  PMScheduledMaintenance,
+} from './types'
+import { rulFailureProbability } from './rul'
+import { CREW_LEADS, type CrewLead } from '../exelon/dispatch-data'
+import { getExelonAssetByTag } from '../exelon/fleet'
+import { seasonalPeakConditions } from '../simulation/grid-orchestrator'
+import { REFERENCE_HOT_SPOT_TEMP, steadyStateTemperatures } from '../thermal'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_HORIZON_DAYS = 365
+
+const CREW_SIZE = 2
+const HOURS_PER_WORKER_WEEK = 40
+const SHIFT_HOURS = 8
+
+// Earliest week each priority may start: critical work goes this week, others
+// leave time to order parts and book switching
+const EARLIEST_WEEK: Record<PMPriority, number> = { critical: 0, high: 1, medium: 2, low: 2 }
+// Latest week each priority may slip to, however cheap a later outage looks
+const LATEST_WEEK: Record<PMPriority, number> = { critical: 4, high: 13, medium: Infinity, low: Infinity }
+const PRIORITY_ORDER: Record<PMPriority, number> = { critical: 0, high: 1, medium: 2, low: 3 }
+
+// Pepco Holdings utilities share the DC Metro crews
+const CREW_OPCO: Record<string, string> = { DPL: 'Pepco', ACE: 'Pepco' }
+
+// Planned outages are costlier when neighbouring banks have little thermal
+// headroom to carry the transferred load; a typical ONAF bank stands in
+const SEASONAL_MAX_FACTOR = 3
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+function round(value: number, places = 2): number {
+  const f = 10 ** places
+  return Math.round(value * f) / f
+}
+
+// Load (pu) at which the steady-state hot spot reaches the 110 °C reference
+function normalCapacityPU(ambientC: number): number {
+  let lo = 0.5
+  let hi = 2
+  for (let i = 0; i < 20; i++) {
+    const mid = (lo + hi) / 2
+    if (steadyStateTemperatures(mid, ambientC, 'ONAF').hotSpotTemp > REFERENCE_HOT_SPOT_TEMP) hi = mid
+    else lo = mid
+  }
+  return lo
+}
+
+let seasonalFactors: number[] | null = null
+
+export function getSeasonalOutageFactors(): number[] {
+  if (!seasonalFactors) {
+    const headroom = MONTH_NAMES.map((_, month) => {
+      const { ambientF, loadPercent } = seasonalPeakConditions(month)
+      return Math.max(0, normalCapacityPU((ambientF - 32) * 5 / 9) - loadPercent / 100)
+    })
+    const best = Math.max(...headroom)
+    seasonalFactors = headroom.map(h =>
+      best > 0 ? round(1 + (SEASONAL_MAX_FACTOR - 1) * (1 - h / best)) : 1
+    )
+  }
+  return seasonalFactors
+}
+
+function rulOf(prediction: PMPrediction): { p10: number; p50: number; p90: number } {
+  if (prediction.rul) return prediction.rul
+  const { value, unit } = prediction.remainingLife
+  const years = unit === 'hours' ? value / 8760 : unit === 'days' ? value / 365 : value / 12
+  return { p10: years * 0.5, p50: years, p90: years * 1.6 }
+}
+
+// Outage time is round-the-clock; the crew works day shifts through it and
+// books at most one week against the window
+function crewHours(prediction: PMPrediction): number {
+  const { min, max, unit } = prediction.estimatedDowntime
+  const outageDays = Math.ceil(((min + max) / 2) / (unit === 'days' ? 1 : 24))
+  return Math.min(outageDays * SHIFT_HOURS, HOURS_PER_WORKER_WEEK) * CREW_SIZE
+}
+
+function crewFor(prediction: PMPrediction, crews: CrewLead[]): CrewLead | null {
+  const opCo = getExelonAssetByTag(prediction.assetId)?.opCo
+  if (!opCo) return null
+  return crews.find(c => c.opCo === (CREW_OPCO[opCo] ?? opCo)) ?? null
+}
+
+function weeklyCapacity(crew: CrewLead, week: number): number {
+  // Workers already on a task are tied up for the current week
+  const free = crew.workers.filter(w => w.available && (week > 0 || !w.currentTaskId))
+  return free.length * HOURS_PER_WORKER_WEEK
+}
+
+interface Candidate {
+  week: number
+  costRate: number
+  failureProbability: number
+  seasonalFactor: number
+}
+
+// Age-replacement cost rate for doing the work at each candidate week: the
+// planned cost if the component survives that long, the failure cost if not,
+// spread over the expected service delivered until then
+function rankCandidates(prediction: PMPrediction, start: Date, weeks: number): Candidate[] {
+  const rul = rulOf(prediction)
+  const plannedBase = (prediction.estimatedRepairCost.min + prediction.estimatedRepairCost.max) / 2
+  const failureCost = prediction.costOfInaction.amount
+  const factors = getSeasonalOutageFactors()
+
+  const survival: number[] = []
+  for (let day = 0; day <= weeks * 7; day++) survival.push(1 - rulFailureProbability(rul, day / 365))
+  const expectedService: number[] = [0]
+  for (let day = 1; day < survival.length; day++) {
+    expectedService.push(expectedService[day - 1] + (survival[day - 1] + survival[day]) / 2)
+  }
+
+  const candidates: Candidate[] = []
+  const lastWeek = Math.min(weeks - 1, LATEST_WEEK[prediction.priority])
+  for (let week = EARLIEST_WEEK[prediction.priority]; week <= lastWeek; week++) {
+    // Work lands mid-week on average
+    const day = Math.round(week * 7 + 3.5)
+    const month = new Date(start.getTime() + day * DAY_MS).getMonth()
+    const seasonalFactor = factors[month]
+    const failureProbability = 1 - survival[day]
+    const cost = plannedBase * seasonalFactor * survival[day] + failureCost * failureProbability
+    candidates.push({
+      week,
+      costRate: (cost / Math.max(expectedService[day], 1)) * 365,
+      failureProbability,
+      seasonalFactor,
+    })
+  }
+  return candidates
+}
+
+function weekStart(start: Date, week: number): Date {
+  return new Date(start.getTime() + week * 7 * DAY_MS)
+}
+
+function describe(candidate: Candidate, start: Date, crew: CrewLead | null, deferredDays: number): string {
+  const month = MONTH_NAMES[weekStart(start, candidate.week).getMonth()]
+  const parts = [
+    `${Math.round(candidate.failureProbability * 100)}% failure risk before the window`,
+    candidate.seasonalFactor > 1.2
+      ? `${month} peak leaves little transfer headroom (outage cost ×${candidate.seasonalFactor})`
+      : `${month} transfer headroom is good`,
+  ]
+  if (crew) parts.push(`${crew.name}'s crew`)
+  if (deferredDays > 0) parts.push(`moved ${deferredDays} days for crew capacity`)
+  return parts.join(' · ')
+}
+
+// Picks a start week per prediction that minimises its expected cost rate,
+// then books crews in priority order, sliding work to the next-best week when
+// the OpCo crew is full. Writes optimalMaintenanceWindow on each prediction.
+export function planMaintenance(
+  predictions: PMPrediction[],
+  options: { start?: Date; horizonDays?: number; crews?: CrewLead[] } = {}
+): PMMaintenancePlan {
+  const start = options.start ?? new Date()
+  const horizonDays = options.horizonDays ?? DEFAULT_HORIZON_DAYS
+  const crews = options.crews ?? CREW_LEADS
+  const weeks = Math.max(1, Math.floor(horizonDays / 7))
+
+  const booked = new Map<string, PMCrewWeek>()
+  const items: PMScheduledMaintenance[] = []
+  const deferred: string[] = []
+  const unscheduled: string[] = []
+
+  const ranked = predictions
+    .map(prediction => ({ prediction, candidates: rankCandidates(prediction, start, weeks) }))
+    .filter(r => r.candidates.length > 0)
+    .sort((a, b) =>
+      PRIORITY_ORDER[a.prediction.priority] - PRIORITY_ORDER[b.prediction.priority] ||
+      rulOf(a.prediction).p10 - rulOf(b.prediction).p10
+    )
+
+  for (const { prediction, candidates } of ranked) {
+    const best = candidates.reduce((m, c) => (c.costRate < m.costRate ? c : m))
+    // Still getting cheaper at the end of the horizon — routine work can wait
+    if (best.week === weeks - 1 && (prediction.priority === 'low' || prediction.priority === 'medium')) {
+      prediction.optimalMaintenanceWindow = undefined
+      deferred.push(prediction.id)
+      continue
+    }
+
+    const crew = crewFor(prediction, crews)
+    const hours = crewHours(prediction)
+    const chosen = [...candidates]
+      .sort((a, b) => a.costRate - b.costRate)
+      .find(c => {
+        if (!crew) return true
+        const used = booked.get(`${crew.id}|${c.week}`)?.bookedHours ?? 0
+        return used + hours <= weeklyCapacity(crew, c.week)
+      })
+    if (!chosen) {
+      prediction.optimalMaintenanceWindow = undefined
+      unscheduled.push(prediction.id)
+      continue
+    }
+
+    if (crew) {
+      const key = `${crew.id}|${chosen.week}`
+      const slot = booked.get(key) ?? {
+        weekStart: weekStart(start, chosen.week),
+        crewLeadId: crew.id,
+        crewLeadName: crew.name,
+        bookedHours: 0,
+        capacityHours: weeklyCapacity(crew, chosen.week),
+        predictionIds: [],
+      }
+      slot.bookedHours += hours
+      slot.predictionIds.push(prediction.id)
+      booked.set(key, slot)
+    }
+
+    const window = { start: weekStart(start, chosen.week), end: weekStart(start, chosen.week + 1) }
+    prediction.optimalMaintenanceWindow = window
+    const deferredDays = (chosen.week - best.week) * 7
+
+    items.push({
+      predictionId: prediction.id,
+      assetId: prediction.assetId,
+      assetName: prediction.assetName,
+      componentName: prediction.componentName,
+      componentType: prediction.componentType,
+      priority: prediction.priority,
+      start: window.start,
+      end: window.end,
+      crewLeadId: crew?.id ?? null,
+      crewLeadName: crew?.name ?? null,
+      crewHours: hours,
+      failureProbability: round(chosen.failureProbability, 3),
+      costRatePerYear: Math.round(chosen.costRate),
+      seasonalFactor: chosen.seasonalFactor,
+      deferredDays,
+      rationale: describe(chosen, start, crew, deferredDays),
+    })
+  }
+
+  return {
+    generatedAt: new Date(),
+    start,
+    horizonDays,
+    items: items.sort((a, b) => a.start.getTime() - b.start.getTime()),
+    calendar: [...booked.values()].sort((a, b) =>
+      a.weekStart.getTime() - b.weekStart.getTime() || a.crewLeadName.localeCompare(b.crewLeadName)
+    ),
+    deferred,
+    unscheduled,
+  }
+}
@@ -0,0 +1,212 @@
+import {
+  PMComponentType,
+  PMConditionEstimate,
+  PMDegradationPoint,
+  PMFleetPattern,
+  PMRULEstimate,
+  PMWeibullFit,
+  PMWorkOrder,
+} from './types'
+import { getOEMProfile } from './oem-specs'
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000
+
+// Assumed Weibull shape per component (Weibayes). Fleet data only gives a
+// mean failure age per pattern, too little to estimate β, so the shape comes
+// from typical utility experience: insulation and mechanical wear-out items
+// sit well above 1, electronics close to random failure
+const WEIBULL_SHAPE: Record<PMComponentType, number> = {
+  winding: 3.5,
+  bushing: 3.0,
+  tap_changer: 2.5,
+  cooling_system: 1.8,
+  oil_system: 2.2,
+  surge_arrester: 2.0,
+  current_transformer: 3.0,
+  breaker: 2.5,
+  relay: 1.2,
+  protection_system: 1.1,
+}
+
+// Each unplanned corrective work order in the history window raises the
+// hazard proportionally
+const CM_HAZARD_STEP = 0.1
+
+// Health score treated as functional failure when extrapolating a trend; both
+// health datasets grade units End of Life from a health index of ~28
+export const FAILURE_HEALTH_THRESHOLD = 28
+
+// Floor on the relative spread of trend extrapolations, which otherwise
+// look falsely exact on smooth series. Hand-set, like TREND_WEIGHT: neither
+// is fitted, and the curated backtest shows P10–P90 still misses failures
+const MIN_TREND_CV = 0.8
+
+// Weight of a measured trend against the fleet prior, per unit of R². The
+// prior knows nothing about this unit's condition, so a good fit outweighs it
+const TREND_WEIGHT = 20
+
+const Z90 = 1.2816
+const MAX_RUL_YEARS = 80
+
+function round(value: number, places = 1): number {
+  const f = 10 ** places
+  return Math.round(value * f) / f
+}
+
+// Abramowitz & Stegun 7.1.26
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2)
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  const erf = 1 - poly * Math.exp(-(x * x) / 2)
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+function failureAgeYears(pattern: PMFleetPattern): number {
+  return pattern.averageFailurePoint.unit === 'months'
+    ? pattern.averageFailurePoint.value / 12
+    : pattern.averageFailurePoint.value
+}
+
+// Weibayes: with β fixed, the censored-data MLE for η is (Σ tᵢ^β / r)^(1/β)
+// over every unit's age, failed or still running, with r failures
+export function fitWeibull(
+  componentType: PMComponentType,
+  options: {
+    ageYears: number
+    fleetPatterns: PMFleetPattern[]
+    workOrders?: PMWorkOrder[]
+  }
+): PMWeibullFit {
+  const shape = WEIBULL_SHAPE[componentType]
+  const expectedLife = getOEMProfile(componentType).specs.expectedLifeYears || 40
+
+  // The OEM design life counts as one failure so types without fleet history still fit
+  const failures = [
+    { age: expectedLife, count: 1 },
+    ...options.fleetPatterns.map(p => ({ age: failureAgeYears(p), count: p.occurrences })),
+  ]
+  const failureCount = failures.reduce((s, f) => s + f.count, 0)
+  const censored = options.ageYears > 0 ? [options.ageYears] : []
+
+  const sum = failures.reduce((s, f) => s + f.count * f.age ** shape, 0) +
+    censored.reduce((s, age) => s + age ** shape, 0)
+  const baseScale = (sum / failureCount) ** (1 / shape)
+
+  // Proportional hazards: multiplying the hazard by h shrinks η by h^(1/β)
+  const unplanned = (options.workOrders ?? []).filter(w => w.wasUnplanned).length
+  const hazardMultiplier = 1 + CM_HAZARD_STEP * unplanned
+  const scale = baseScale * hazardMultiplier ** (-1 / shape)
+
+  const survival = (t: number) => Math.exp(-((t / scale) ** shape))
+  const age = Math.max(0, options.ageYears)
+
+  return {
+    shape,
+    scale: round(scale, 2),
+    failureCount,
+    censoredCount: censored.length,
+    hazardMultiplier: round(hazardMultiplier, 2),
+    failureProbabilityNextYear: round(1 - survival(age + 1) / survival(age), 3),
+  }
+}
+
+// Remaining life at which the conditional failure probability reaches p,
+// given survival to ageYears
+export function weibullConditionalQuantile(fit: PMWeibullFit, ageYears: number, p: number): number {
+  const age = Math.max(0, ageYears)
+  const t = fit.scale * ((age / fit.scale) ** fit.shape - Math.log(1 - p)) ** (1 / fit.shape)
+  return Math.min(MAX_RUL_YEARS, Math.max(0, t - age))
+}
+
+// Linear fit of measured health against time, extrapolated to the failure threshold
+export function fitDegradationTrend(points: PMDegradationPoint[]): PMConditionEstimate | null {
+  const measured = points.filter(p => !p.isProjected)
+  if (measured.length < 3) return null
+
+  const now = measured[measured.length - 1].timestamp.getTime()
+  const xy = measured.map(p => ({ x: (p.timestamp.getTime() - now) / YEAR_MS, y: p.healthScore }))
+  const n = xy.length
+  const meanX = xy.reduce((s, p) => s + p.x, 0) / n
+  const meanY = xy.reduce((s, p) => s + p.y, 0) / n
+  let sxx = 0
+  let sxy = 0
+  let syy = 0
+  for (const p of xy) {
+    sxx += (p.x - meanX) ** 2
+    sxy += (p.x - meanX) * (p.y - meanY)
+    syy += (p.y - meanY) ** 2
+  }
+  if (sxx === 0) return null
+  const slope = sxy / sxx
+  if (slope >= 0) return null // not degrading, nothing to extrapolate
+
+  const intercept = meanY - slope * meanX
+  const residual = Math.max(0, syy - slope * sxy)
+  const rSquared = syy === 0 ? 1 : 1 - residual / syy
+  const residualStd = n > 2 ? Math.sqrt(residual / (n - 2)) : 0
+
+  const current = intercept
+  const p50 = Math.min(MAX_RUL_YEARS, Math.max(0, (FAILURE_HEALTH_THRESHOLD - current) / slope))
+  const sigma = Math.max(residualStd / Math.abs(slope), MIN_TREND_CV * p50)
+
+  return {
+    source: 'degradation_trend',
+    p10: round(Math.max(0, p50 - Z90 * sigma)),
+    p50: round(p50),
+    p90: round(Math.min(MAX_RUL_YEARS, p50 + Z90 * sigma)),
+    weight: round(Math.max(0, rSquared) * TREND_WEIGHT, 2),
+    detail: `Health falling ${round(Math.abs(slope))} pts/yr (R² ${round(rSquared, 2)}), ` +
+      `reaches ${FAILURE_HEALTH_THRESHOLD} in ~${round(p50)} yr`,
+  }
+}
+
+// Probability of failure within `years`, from a log-normal matched to the P10/P90 spread
+export function rulFailureProbability(rul: { p10: number; p50: number; p90: number }, years: number): number {
+  if (years <= 0) return 0
+  if (rul.p50 <= 0) return 1
+  const sigma = Math.max(0.05, (Math.log(Math.max(rul.p90, 1e-3)) - Math.log(Math.max(rul.p10, 1e-3))) / (2 * Z90))
+  return normalCdf((Math.log(years) - Math.log(rul.p50)) / sigma)
+}
+
+// Blends the fleet Weibull prior with condition-based estimates by weight,
+// then scores confidence as the probability mass within ±50% of P50 under a
+// log-normal matched to P10/P90, discounted when failure evidence is thin
+export function estimateRUL(
+  componentType: PMComponentType,
+  options: {
+    ageYears: number
+    fleetPatterns: PMFleetPattern[]
+    workOrders?: PMWorkOrder[]
+    conditionEstimates?: PMConditionEstimate[]
+  }
+): PMRULEstimate {
+  const weibull = fitWeibull(componentType, options)
+  const conditions = (options.conditionEstimates ?? []).filter(c => c.weight > 0)
+
+  const quantile = (p: 0.1 | 0.5 | 0.9, key: 'p10' | 'p50' | 'p90') => {
+    const prior = weibullConditionalQuantile(weibull, options.ageYears, p)
+    const totalWeight = 1 + conditions.reduce((s, c) => s + c.weight, 0)
+    return (prior + conditions.reduce((s, c) => s + c.weight * c[key], 0)) / totalWeight
+  }
+
+  const p10 = quantile(0.1, 'p10')
+  const p50 = Math.max(p10, quantile(0.5, 'p50'))
+  const p90 = Math.max(p50, quantile(0.9, 'p90'))
+
+  let confidence = 0
+  if (p50 > 0) {
+    const sigma = Math.max(1e-3, (Math.log(Math.max(p90, 1e-3)) - Math.log(Math.max(p10, 1e-3))) / (2 * Z90))
+    const withinBand = normalCdf(Math.log(1.5) / sigma) - normalCdf(Math.log(0.5) / sigma)
+    const evidence = Math.min(1, (weibull.failureCount - 1 + conditions.reduce((s, c) => s + 5 * c.weight, 0)) / 10)
+    confidence = withinBand * (0.7 + 0.3 * evidence)
+  }
+
+  return {
+    p10: round(p10),
+    p50: round(p50),
+    p90: round(p90),
+    confidence: Math.round(confidence * 100),
+    weibull,
+    conditionEstimates: conditions,
+  }
+}
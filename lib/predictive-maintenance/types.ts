@@ -64,6 +64,35 @@ export interface PMDegradationPoint {
   isProjected?: boolean
 }
 
+export interface PMWeibullFit {
+  shape: number // β
+  scale: number // η, years, after the work-history hazard adjustment
+  failureCount: number
+  censoredCount: number
+  hazardMultiplier: number
+  failureProbabilityNextYear: number // conditional on survival to the current age
+}
+
+export interface PMConditionEstimate {
+  source: 'degradation_trend' | 'insulation_dp'
+  p10: number
+  p50: number
+  p90: number
+  weight: number
+  detail: string
+}
+
+// Remaining useful life quantiles in years: P10 is the pessimistic case
+// (10% chance of failure sooner), P90 the optimistic one
+export interface PMRULEstimate {
+  p10: number
+  p50: number
+  p90: number
+  confidence: number // 0-100, probability the outcome lands within ±50% of P50
+  weibull: PMWeibullFit
+  conditionEstimates: PMConditionEstimate[]
+}
+
 export interface PMPrediction {
   id: string
   componentId: string
@@ -81,6 +110,7 @@ export interface PMPrediction {
     unit: 'hours' | 'days' | 'cycles' | 'months'
     percentRemaining: number
   }
+  rul?: PMRULEstimate
   confidence: number
   recommendedAction: string
   alternativeActions?: string[]
@@ -187,6 +217,7 @@ export interface PMFleetPattern {
   }
   affectedAssets: string[]
   recommendedIntervention: string
+  identifiedAt: string // ISO date the pattern was first recognised across the fleet
 }
 
 export interface PMInspectionRecord {
@@ -238,4 +269,104 @@ export interface PMAnalysisRequest {
     loadPercent?: number
     windSpeed?: number
   }
+  // Replays the analysis using only readings and work orders recorded up to this date
+  asOf?: Date
+  // Dataset the DGA and health-index readings come from (default curated)
+  historySource?: PMHistorySource
+  // Completed field work orders for the asset, from the work-order service
+  recordedWorkOrders?: PMWorkOrder[]
+}
+
+export type PMHistorySource = 'curated' | 'kaggle'
+
+// ─────────────────────────── Backtesting ───────────────────────────
+
+export type PMBacktestSource = PMHistorySource
+
+export interface PMBacktestOptions {
+  source?: PMBacktestSource
+  horizonDays?: number
+  cutoffs?: Date[]
+  assetTags?: string[]
+}
+
+export interface PMBacktestCase {
+  assetId: string
+  componentType: PMComponentType
+  cutoff: Date
+  priority: PMPriority
+  alarm: boolean // critical or high priority at the cut-off
+  rul: { p10: number; p50: number; p90: number } | null
+  failureDate: Date | null // first failure inside the horizon
+  failureSource: 'health_record' | 'work_order' | null
+  censored: boolean // no failure seen but the horizon runs past the observed data
+}
+
+export interface PMBacktestScore {
+  componentType: PMComponentType | 'all'
+  cases: number
+  failures: number
+  truePositives: number
+  falsePositives: number
+  falseNegatives: number
+  trueNegatives: number
+  censored: number
+  precision: number | null
+  recall: number | null
+  rulMAEYears: number | null
+  rulBiasYears: number | null // P50 minus actual, positive means optimistic
+  intervalCoverage: number | null // share of failures inside P10-P90
+  meanLeadTimeDays: number | null
+  missedFailures: number
+}
+
+export interface PMBacktestReport {
+  generatedAt: Date
+  source: PMBacktestSource
+  horizonDays: number
+  cutoffs: Date[]
+  assetCount: number
+  overall: PMBacktestScore
+  byComponent: PMBacktestScore[]
+  cases: PMBacktestCase[]
+}
+
+// ───────────────────────── Maintenance planning ─────────────────────────
+
+export interface PMScheduledMaintenance {
+  predictionId: string
+  assetId: string
+  assetName: string
+  componentName: string
+  componentType: PMComponentType
+  priority: PMPriority
+  start: Date
+  end: Date
+  crewLeadId: string | null
+  crewLeadName: string | null
+  crewHours: number
+  failureProbability: number // chance of failure before the window opens
+  costRatePerYear: number // expected maintenance + failure cost per year of service under this date
+  seasonalFactor: number // planned-outage cost multiplier from seasonal transfer headroom
+  deferredDays: number // pushed past the cost-optimal week by crew capacity
+  rationale: string
+}
+
+export interface PMCrewWeek {
+  weekStart: Date
+  crewLeadId: string
+  crewLeadName: string
+  bookedHours: number
+  capacityHours: number
+  predictionIds: string[]
+}
+
+export interface PMMaintenancePlan {
+  generatedAt: Date
+  start: Date
+  horizonDays: number
+  items: PMScheduledMaintenance[]
+  calendar: PMCrewWeek[]
+  deferred: string[] // prediction ids whose best date lies beyond the horizon
+  unscheduled: string[] // prediction ids no crew had capacity for
 }
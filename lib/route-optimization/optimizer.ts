@@ -17,7 +17,12 @@ import {
   RouteOptimizationResult,
   RouteOptimization,
   VesselForRouting,
+  HazardZone,
 } from './types';
+import { ABU_DHABI_TIDE, DEFAULT_MIN_UKC, segmentUnderKeel } from '@/lib/routes/bathymetry';
+import { analyzeEmissionCompliance } from '@/lib/routes/emission-zones';
+import { findLandCrossings, landAreaAt, planLandDetour, prepareLandMask } from '@/lib/routes/land-mask';
+import { BathymetryGrid, EmissionComplianceReport, UnderKeelConstraint } from '@/lib/routes/types';
 
 // ============================================================================
 // Constants
@@ -27,369 +32,57 @@ const FUEL_COST_USD_PER_LITER = 0.85;
 const EARTH_RADIUS_NM = 3440.065;
 
 // ============================================================================
-// UAE & Arabian Gulf Land Avoidance System
-// Ships must avoid crossing land - this includes:
-// 1. UAE mainland (Abu Dhabi, Dubai emirates)
-// 2. Qatar peninsula
-// 3. Routes between Arabian Gulf and Gulf of Oman (around Musandam)
+// Land Avoidance
+// Coastline checks and detours come from the shared land mask
 // ============================================================================
 
-interface CoastalWaypoint {
-  id: string;
-  name: string;
-  lat: number;
-  lng: number;
-  region: 'western_gulf' | 'uae_coast' | 'northern_emirates' | 'strait_of_hormuz' | 'gulf_of_oman';
-}
-
-// Key waypoints for maritime routing in the Arabian Gulf
-// These define safe offshore corridors that avoid land
-const GULF_MARITIME_WAYPOINTS: CoastalWaypoint[] = [
-  // Western Gulf offshore (for routes from Das Island, Arzanah, Ruwais area)
-  { id: 'western-offshore-south', name: 'Western Gulf S', lat: 24.40, lng: 52.80, region: 'western_gulf' },
-  { id: 'western-offshore-mid', name: 'Western Gulf M', lat: 25.00, lng: 53.00, region: 'western_gulf' },
-  { id: 'western-offshore-north', name: 'Western Gulf N', lat: 25.50, lng: 53.50, region: 'western_gulf' },
-  
-  // UAE coast - offshore corridor (stays well offshore of Abu Dhabi/Dubai coast)
-  { id: 'abu-dhabi-offshore', name: 'Abu Dhabi Offshore', lat: 24.60, lng: 54.00, region: 'uae_coast' },
-  { id: 'central-offshore', name: 'Central Offshore', lat: 25.00, lng: 54.50, region: 'uae_coast' },
-  { id: 'dubai-offshore', name: 'Dubai Offshore', lat: 25.30, lng: 55.00, region: 'uae_coast' },
-  
-  // Northern Emirates coast
-  { id: 'sharjah-offshore', name: 'Sharjah Offshore', lat: 25.50, lng: 55.50, region: 'northern_emirates' },
-  { id: 'rak-offshore', name: 'RAK Offshore', lat: 25.80, lng: 55.95, region: 'northern_emirates' },
-  
-  // Strait of Hormuz / Musandam
-  { id: 'musandam-west', name: 'Musandam West', lat: 26.15, lng: 56.20, region: 'strait_of_hormuz' },
-  { id: 'strait-hormuz', name: 'Strait of Hormuz', lat: 26.30, lng: 56.50, region: 'strait_of_hormuz' },
-  { id: 'musandam-east', name: 'Musandam East', lat: 26.10, lng: 56.65, region: 'strait_of_hormuz' },
-  
-  // Gulf of Oman side (east coast)
-  { id: 'khor-fakkan', name: 'Khor Fakkan Approach', lat: 25.40, lng: 56.40, region: 'gulf_of_oman' },
-  { id: 'fujairah-approach', name: 'Fujairah Approach', lat: 25.15, lng: 56.40, region: 'gulf_of_oman' },
-];
-
 /**
- * Check if a point is over land using accurate coastline data
- * 
- * GEOGRAPHY REMINDER:
- * - The Persian Gulf is to the NORTH of UAE
- * - UAE mainland is to the SOUTH
- * - Points with lat GREATER than coast = WATER
- * - Points with lat LESS than coast but within UAE borders = LAND
+ * Check if a point is over land
  */
 function isPointOverLand(point: Coordinates): boolean {
-  const { lat, lng } = point;
-  
-  // === QATAR PENINSULA ===
-  // Qatar extends north into the Gulf from lat ~24.5 to ~26.2, lng ~50.7 to ~51.7
-  if (lng >= 50.5 && lng <= 51.8) {
-    // Qatar mainland starts around lat 24.5 and extends north to ~26.2
-    // The peninsula is roughly 51.0-51.6 lng
-    if (lng >= 50.75 && lng <= 51.65) {
-      if (lat >= 24.4 && lat <= 26.25) {
-        return true; // On Qatar peninsula
-      }
-    }
-  }
-  
-  // === UAE MAINLAND ===
-  // The UAE coastline is complex. Let's define it more accurately.
-  // Key coastal points (approximate):
-  // - Ghuweifat border (west): 24.15°N, 51.5°E
-  // - Ruwais: 24.1°N, 52.7°E
-  // - Jebel Dhanna: 24.2°N, 52.6°E  
-  // - Abu Dhabi coast: 24.35°N, 54.4°E
-  // - Khalifa Port: 24.8°N, 54.65°E
-  // - Dubai: 25.25°N, 55.3°E
-  // - Sharjah: 25.35°N, 55.4°E
-  
-  // Define coastal latitude at different longitudes
-  // Points SOUTH of this line (lower lat) and within UAE lng range = LAND
-  function getCoastLatitude(longitude: number): number {
-    // Piecewise linear approximation of UAE coastline
-    if (longitude < 51.5) return 24.0; // West of UAE
-    if (longitude < 52.5) return 24.0 + (longitude - 51.5) * 0.1; // Western border to Ruwais
-    if (longitude < 53.5) return 24.1 + (longitude - 52.5) * 0.2; // Ruwais area
-    if (longitude < 54.5) return 24.3 + (longitude - 53.5) * 0.3; // To Abu Dhabi
-    if (longitude < 55.0) return 24.6 + (longitude - 54.5) * 0.8; // Abu Dhabi to Dubai approach
-    if (longitude < 55.5) return 25.0 + (longitude - 55.0) * 0.6; // Dubai area
-    if (longitude < 56.0) return 25.3 + (longitude - 55.5) * 0.3; // Sharjah/Northern Emirates
-    return 25.5; // East coast
-  }
-  
-  // Check if within UAE longitude range and south of coast
-  if (lng >= 51.5 && lng <= 56.5) {
-    const coastLat = getCoastLatitude(lng);
-    const southernBorder = 22.5; // UAE southern desert border
-    
-    // Point is over land if it's between the coast and southern border
-    if (lat < coastLat && lat > southernBorder) {
-      // Additional check: make sure we're not in the Gulf waters that extend south
-      // (e.g., areas around islands or bays)
-      
-      // Exception: Western offshore islands (Das, Arzanah, Zirku)
-      // These are in the water even though they might be south of mainland coast
-      if (lng < 54.0 && lat > 24.5) {
-        // Western Gulf - this is open water with islands
-        return false;
-      }
-      
-      // Exception: Khalifa Port area (extends north into Gulf)
-      if (lng >= 54.5 && lng <= 54.9 && lat >= 24.6 && lat <= 25.0) {
-        return false; // Port/coastal waters
-      }
-      
-      return true; // Over UAE mainland
-    }
-  }
-  
-  // === MUSANDAM PENINSULA (Oman) ===
-  // Musandam extends north between UAE and Iran, blocking direct routes
-  if (lng >= 56.0 && lng <= 56.6) {
-    if (lat >= 25.5 && lat <= 26.4) {
-      // Musandam peninsula area
-      if (lat < 26.0 && lng < 56.3) {
-        return true; // Over Musandam
-      }
-    }
-  }
-  
-  // === SAUDI ARABIA / BAHRAIN coastline ===
-  // Western Gulf - Saudi coast is around lat 25.5-27 at lng 49-50
-  if (lng >= 49.0 && lng <= 50.5) {
-    if (lat >= 25.0 && lat <= 27.5) {
-      // Approximate Saudi/Bahrain coast
-      const saudiCoastLat = 26.0 + (lng - 49.0) * 0.3;
-      if (lat < saudiCoastLat && lat > 24.0) {
-        return true;
-      }
-    }
-  }
-  
-  return false;
+  return landAreaAt(point.lat, point.lng) !== null;
 }
 
 /**
- * Check if a route segment crosses land
+ * Check if a route segment crosses land (exact, ignoring berths at either end)
  */
-function doesRouteCrossLand(from: Coordinates, to: Coordinates, checkPoints: number = 20): boolean {
-  // Check multiple points along the route
-  for (let i = 0; i <= checkPoints; i++) {
-    const fraction = i / checkPoints;
-    const point: Coordinates = {
-      lat: from.lat + (to.lat - from.lat) * fraction,
-      lng: from.lng + (to.lng - from.lng) * fraction,
-    };
-    
-    if (isPointOverLand(point)) {
-      return true;
-    }
-  }
-  
-  return false;
+function doesRouteCrossLand(from: Coordinates, to: Coordinates): boolean {
+  return findLandCrossings({ lat: from.lat, lon: from.lng }, { lat: to.lat, lon: to.lng }).length > 0;
 }
 
 /**
- * Check if a route needs coastal waypoints (crosses land or goes around peninsula)
+ * Check if a route needs coastal waypoints to get around land
  */
 function needsCoastalRouting(origin: Coordinates, destination: Coordinates): boolean {
-  // If both points are on the same side of the Strait of Hormuz, check for land crossing
-  const originIsGulf = origin.lng < 56.0;
-  const destIsGulf = destination.lng < 56.0;
-  
-  // If one is in Arabian Gulf and other in Gulf of Oman, need coastal routing
-  if (originIsGulf !== destIsGulf) {
-    return true;
-  }
-  
-  // Check if direct route would cross land
-  if (doesRouteCrossLand(origin, destination)) {
-    return true;
-  }
-  
-  return false;
+  return doesRouteCrossLand(origin, destination);
 }
 
 /**
- * Get the best offshore waypoints for routing between two points
- * This ensures ships stay in navigable waters and don't cross land
+ * Get the offshore waypoints that take a route around land
+ * Shortest path around the coastline; empty when the direct route is clear
+ * or no way around is found.
  */
 function getCoastalWaypoints(origin: Coordinates, destination: Coordinates): Waypoint[] {
-  if (!needsCoastalRouting(origin, destination)) {
+  const from = { lat: origin.lat, lon: origin.lng };
+  const to = { lat: destination.lat, lon: destination.lng };
+  const [crossing] = findLandCrossings(from, to);
+  if (!crossing) {
     return [];
   }
   
-  const waypoints: Waypoint[] = [];
-  const originIsGulf = origin.lng < 56.0;
-  const destIsGulf = destination.lng < 56.0;
-  
-  // Case 1: Cross-gulf routing (Arabian Gulf to/from Gulf of Oman)
-  if (originIsGulf !== destIsGulf) {
-    if (originIsGulf) {
-      // Going from Arabian Gulf to Gulf of Oman (east)
-      for (const wp of GULF_MARITIME_WAYPOINTS) {
-        if (wp.region === 'strait_of_hormuz' || wp.region === 'gulf_of_oman') {
-          // Include if it helps the route
-          if (wp.lat >= Math.min(origin.lat, destination.lat) - 1 &&
-              wp.lat <= Math.max(origin.lat, destination.lat) + 1) {
-            waypoints.push({
-              id: `coastal-${wp.id}`,
-              lat: wp.lat,
-              lng: wp.lng,
-              name: wp.name,
-              type: 'coastal_waypoint' as any,
-              notes: 'Coastal routing around UAE peninsula',
-            });
-          }
-        }
-      }
-    } else {
-      // Going from Gulf of Oman to Arabian Gulf (west)
-      const reversedWaypoints = [...GULF_MARITIME_WAYPOINTS].reverse();
-      for (const wp of reversedWaypoints) {
-        if (wp.region === 'strait_of_hormuz' || wp.region === 'western_gulf' || wp.region === 'uae_coast') {
-          if (wp.lat >= Math.min(origin.lat, destination.lat) - 1 &&
-              wp.lat <= Math.max(origin.lat, destination.lat) + 1) {
-            waypoints.push({
-              id: `coastal-${wp.id}`,
-              lat: wp.lat,
-              lng: wp.lng,
-              name: wp.name,
-              type: 'coastal_waypoint' as any,
-              notes: 'Coastal routing around UAE peninsula',
-            });
-          }
-        }
-      }
-    }
-    return waypoints;
-  }
-  
-  // Case 2: Within Arabian Gulf - need to go around land (e.g., Arzanah to Dubai)
-  // Find an offshore corridor that avoids land
-  
-  // Determine if we need to go north or stay offshore
-  const goingEastToWest = origin.lng > destination.lng;
-  const originInWesternGulf = origin.lng < 53.5;
-  const destInEasternCoast = destination.lng > 54.5;
-  
-  // For routes from western offshore (Das, Arzanah) to eastern UAE (Dubai, Sharjah)
-  // We need to go NORTH offshore to avoid the UAE mainland
-  if (originInWesternGulf && destInEasternCoast) {
-    // Need to go around the northern part of UAE
-    // Find the appropriate offshore waypoints
-    
-    // First, go to a northern offshore point
-    const northernLatitude = Math.max(origin.lat, destination.lat) + 0.5;
-    const midLng = (origin.lng + destination.lng) / 2;
-    
-    // Add waypoints that create an offshore arc
-    waypoints.push({
-      id: 'coastal-north-arc-1',
-      lat: origin.lat + 0.3,
-      lng: origin.lng + 0.3,
-      name: 'Offshore Waypoint 1',
-      type: 'coastal_waypoint' as any,
-      notes: 'Offshore routing to avoid UAE mainland',
-    });
-    
-    waypoints.push({
-      id: 'coastal-north-arc-2',
-      lat: Math.min(northernLatitude, 25.5), // Stay in navigable waters
-      lng: midLng,
-      name: 'Northern Offshore',
-      type: 'coastal_waypoint' as any,
-      notes: 'Northern offshore corridor',
-    });
-    
-    waypoints.push({
-      id: 'coastal-north-arc-3',
-      lat: destination.lat + 0.3,
-      lng: destination.lng - 0.3,
-      name: 'Offshore Waypoint 3',
-      type: 'coastal_waypoint' as any,
-      notes: 'Offshore approach to destination',
-    });
-    
-    return waypoints;
-  }
-  
-  // For routes from eastern UAE to western offshore
-  if (!originInWesternGulf && destination.lng < 53.5) {
-    // Reverse of above
-    const northernLatitude = Math.max(origin.lat, destination.lat) + 0.5;
-    const midLng = (origin.lng + destination.lng) / 2;
-    
-    waypoints.push({
-      id: 'coastal-north-arc-1',
-      lat: origin.lat + 0.3,
-      lng: origin.lng - 0.3,
-      name: 'Offshore Waypoint 1',
-      type: 'coastal_waypoint' as any,
-      notes: 'Offshore routing to avoid UAE mainland',
-    });
-    
-    waypoints.push({
-      id: 'coastal-north-arc-2',
-      lat: Math.min(northernLatitude, 25.5),
-      lng: midLng,
-      name: 'Northern Offshore',
-      type: 'coastal_waypoint' as any,
-      notes: 'Northern offshore corridor',
-    });
-    
-    waypoints.push({
-      id: 'coastal-north-arc-3',
-      lat: destination.lat + 0.3,
-      lng: destination.lng + 0.3,
-      name: 'Offshore Waypoint 3',
-      type: 'coastal_waypoint' as any,
-      notes: 'Offshore approach to destination',
-    });
-    
-    return waypoints;
-  }
-  
-  // General case: Just add intermediate offshore waypoints to avoid any land crossing
-  // Find the best offshore path
-  const relevantWaypoints = GULF_MARITIME_WAYPOINTS.filter(wp => {
-    // Include waypoints that are between origin and destination
-    const latInRange = wp.lat >= Math.min(origin.lat, destination.lat) - 0.5 &&
-                       wp.lat <= Math.max(origin.lat, destination.lat) + 0.5;
-    const lngInRange = wp.lng >= Math.min(origin.lng, destination.lng) - 0.5 &&
-                       wp.lng <= Math.max(origin.lng, destination.lng) + 0.5;
-    return latInRange || lngInRange;
-  });
-  
-  // Sort by distance from origin
-  relevantWaypoints.sort((a, b) => {
-    const distA = Math.sqrt(Math.pow(a.lat - origin.lat, 2) + Math.pow(a.lng - origin.lng, 2));
-    const distB = Math.sqrt(Math.pow(b.lat - origin.lat, 2) + Math.pow(b.lng - origin.lng, 2));
-    return distA - distB;
-  });
-  
-  for (const wp of relevantWaypoints) {
-    // Check if adding this waypoint helps avoid land
-    const currentLast = waypoints.length > 0 ? waypoints[waypoints.length - 1] : origin;
-    if (!doesRouteCrossLand(currentLast, wp) && !doesRouteCrossLand(wp, destination)) {
-      waypoints.push({
-        id: `coastal-${wp.id}`,
-        lat: wp.lat,
-        lng: wp.lng,
-        name: wp.name,
-        type: 'coastal_waypoint' as any,
-        notes: 'Offshore routing waypoint',
-      });
-      
-      // If we now have a clear path to destination, stop adding waypoints
-      if (!doesRouteCrossLand(wp, destination)) {
-        break;
-      }
-    }
+  const path = planLandDetour(from, to);
+  if (!path) {
+    return [];
   }
   
-  return waypoints;
+  return path.slice(1, -1).map((point, i) => ({
+    id: `coastal-${i + 1}`,
+    lat: point.lat,
+    lng: point.lon,
+    name: `Coastal Waypoint ${i + 1}`,
+    type: 'waypoint',
+    notes: `Routing around ${crossing.landArea}`,
+  }));
 }
 
 // Fuel consumption rates by vessel type (liters per nautical mile)
@@ -518,6 +211,204 @@ function doesSegmentIntersectZone(
   return false;
 }
 
+// ============================================================================
+// Under-Keel Clearance
+// ============================================================================
+
+const SHOAL_DETOUR_STEP_NM = 2;
+const SHOAL_DETOUR_MAX_NM = 30;
+
+function legUnderKeel(
+  constraint: UnderKeelConstraint,
+  from: Coordinates,
+  to: Coordinates,
+  hoursFromDeparture: number
+) {
+  return segmentUnderKeel(
+    constraint,
+    { lat: from.lat, lon: from.lng },
+    { lat: to.lat, lon: to.lng },
+    hoursFromDeparture
+  );
+}
+
+function isLegDeepEnough(
+  constraint: UnderKeelConstraint,
+  from: Coordinates,
+  to: Coordinates,
+  hoursFromDeparture: number
+): boolean {
+  const ukc = legUnderKeel(constraint, from, to, hoursFromDeparture);
+  return !ukc || ukc.minUKC >= constraint.minUKC;
+}
+
+/**
+ * Insert detour waypoints around legs that cross water too shallow for the
+ * vessel's draft. Each shallow leg gets one waypoint offset abeam of its
+ * shallowest point, stepping outwards until both new legs are deep enough.
+ * Legs with no detour within range are left in place and counted.
+ */
+function avoidShallowWater(
+  waypoints: Waypoint[],
+  vessel: VesselForRouting,
+  constraint: UnderKeelConstraint
+): { hazards: HazardZone[]; optimizations: RouteOptimization[]; unresolved: number } {
+  const hazards: HazardZone[] = [];
+  const optimizations: RouteOptimization[] = [];
+  const fuelRate = FUEL_RATES[vessel.type.toLowerCase()] || FUEL_RATES.default;
+  let unresolved = 0;
+  let hours = 0;
+
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    const from = waypoints[i];
+    const to = waypoints[i + 1];
+    const ukc = legUnderKeel(constraint, from, to, hours);
+
+    if (ukc && ukc.minUKC < constraint.minUKC) {
+      const shoal: Coordinates = { lat: ukc.lat, lng: ukc.lon };
+      const bearing = calculateBearing(from, to);
+      let detour: Coordinates | null = null;
+
+      for (let offset = SHOAL_DETOUR_STEP_NM; offset <= SHOAL_DETOUR_MAX_NM && !detour; offset += SHOAL_DETOUR_STEP_NM) {
+        for (const side of [90, -90]) {
+          const candidate = calculateDestinationPoint(shoal, offset, (bearing + side + 360) % 360);
+          const firstLegHours = calculateDistanceNm(from, candidate) / vessel.speed;
+          if (
+            !doesRouteCrossLand(from, candidate) &&
+            !doesRouteCrossLand(candidate, to) &&
+            isLegDeepEnough(constraint, from, candidate, hours) &&
+            isLegDeepEnough(constraint, candidate, to, hours + firstLegHours)
+          ) {
+            detour = candidate;
+            break;
+          }
+        }
+      }
+
+      const depthNote = `${ukc.depth.toFixed(1)}m charted, ${ukc.minUKC.toFixed(1)}m under keel at ${vessel.draft}m draft`;
+      hazards.push({
+        id: `shoal-${i}`,
+        type: 'shallow_water',
+        polygon: [shoal],
+        name: `Shoal at ${shoal.lat.toFixed(2)}°N ${shoal.lng.toFixed(2)}°E`,
+        restriction: `Minimum under-keel clearance ${constraint.minUKC}m`,
+        description: depthNote,
+      });
+
+      if (detour) {
+        const waypoint: Waypoint = {
+          id: `shoal-avoid-${i}`,
+          ...detour,
+          name: 'Deep water detour',
+          type: 'waypoint',
+          notes: `Keeps clear of shoal (${depthNote})`,
+        };
+        const extraDistance =
+          calculateDistanceNm(from, detour) + calculateDistanceNm(detour, to) - calculateDistanceNm(from, to);
+        waypoints.splice(i + 1, 0, waypoint);
+        optimizations.push({
+          id: `opt-shoal-${i}`,
+          type: 'safety',
+          description: 'Route around shallow water',
+          impact: {
+            distanceChangeNm: extraDistance,
+            timeChangeHours: extraDistance / vessel.speed,
+            fuelChangeLiters: extraDistance * fuelRate,
+            safetyBenefit: 'Avoids grounding risk',
+          },
+          reasoning: `Direct leg passes over ${depthNote}, below the ${constraint.minUKC}m minimum. Detour adds ${extraDistance.toFixed(1)}nm.`,
+          affectedWaypoints: [waypoint.id],
+        });
+      } else {
+        unresolved++;
+      }
+    }
+
+    hours += calculateDistanceNm(waypoints[i], waypoints[i + 1]) / vessel.speed;
+  }
+
+  return { hazards, optimizations, unresolved };
+}
+
+/**
+ * Break a route into legs with fuel, time and least under-keel clearance
+ */
+function buildSegments(
+  waypoints: Waypoint[],
+  vessel: VesselForRouting,
+  constraint?: UnderKeelConstraint
+): RouteSegment[] {
+  const fuelRate = FUEL_RATES[vessel.type.toLowerCase()] || FUEL_RATES.default;
+  const segments: RouteSegment[] = [];
+  let hours = 0;
+
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    const from = waypoints[i];
+    const to = waypoints[i + 1];
+    const distanceNm = calculateDistanceNm(from, to);
+    const ukc = constraint ? legUnderKeel(constraint, from, to, hours) : null;
+    segments.push({
+      from,
+      to,
+      distanceNm,
+      bearing: calculateBearing(from, to),
+      estimatedHours: distanceNm / vessel.speed,
+      fuelLiters: distanceNm * fuelRate,
+      minUKC: ukc ? Math.round(ukc.minUKC * 100) / 100 : null,
+    });
+    hours += distanceNm / vessel.speed;
+  }
+  return segments;
+}
+
+/**
+ * Attach the emission control area report to a route and add the compliant
+ * fuel premium to its cost
+ */
+function applyEmissionCompliance(
+  route: Route,
+  vessel: VesselForRouting,
+  departureTime?: Date,
+  includeProposed?: boolean
+): EmissionComplianceReport {
+  const report = analyzeEmissionCompliance(route.waypoints, {
+    fuelLiters: route.estimatedFuelLiters,
+    speed: vessel.speed,
+    departureTime,
+    includeProposed,
+    isOnLand: (lat, lng) => isPointOverLand({ lat, lng }),
+  });
+  route.emissionCompliance = report;
+  route.estimatedCostUSD += report.compliancePremium;
+  return report;
+}
+
+/**
+ * Replace a route's track with the detour around emission control areas
+ */
+function applyECADetour(route: Route, vessel: VesselForRouting, detour: Coordinates[]): void {
+  const fuelRate = FUEL_RATES[vessel.type.toLowerCase()] || FUEL_RATES.default;
+  const waypoints: Waypoint[] = detour.map((point, i) => {
+    if (i === 0) return route.origin;
+    if (i === detour.length - 1) return route.destination;
+    return { id: `eca-${i}`, ...point, name: `ECA Avoidance ${i}`, type: 'waypoint', notes: 'Outside emission control area' };
+  });
+
+  let cumulativeDistance = 0;
+  for (let i = 1; i < waypoints.length; i++) {
+    const dist = calculateDistanceNm(waypoints[i - 1], waypoints[i]);
+    waypoints[i].distanceFromPrevious = dist;
+    cumulativeDistance += dist;
+    waypoints[i].cumulativeDistance = cumulativeDistance;
+  }
+
+  route.waypoints = waypoints;
+  route.totalDistanceNm = cumulativeDistance;
+  route.estimatedDurationHours = cumulativeDistance / vessel.speed;
+  route.estimatedFuelLiters = cumulativeDistance * fuelRate;
+  route.estimatedCostUSD = route.estimatedFuelLiters * FUEL_COST_USD_PER_LITER;
+}
+
 // ============================================================================
 // Route Generation
 // ============================================================================
@@ -650,8 +541,15 @@ function generateOptimizedRoute(
   destination: Coordinates,
   originName: string,
   destinationName: string,
-  weatherZones: WeatherZone[]
-): { route: Route; avoidedZones: WeatherZone[]; optimizations: RouteOptimization[] } {
+  weatherZones: WeatherZone[],
+  underKeel?: UnderKeelConstraint
+): {
+  route: Route;
+  avoidedZones: WeatherZone[];
+  optimizations: RouteOptimization[];
+  shoals: HazardZone[];
+  unresolvedShoals: number;
+} {
   const avoidedZones: WeatherZone[] = [];
   const optimizations: RouteOptimization[] = [];
   const allWaypoints: Waypoint[] = [];
@@ -741,6 +639,12 @@ function generateOptimizedRoute(
   };
   allWaypoints.push(destinationWaypoint);
   
+  // Keep enough water under the keel
+  const shallow = underKeel
+    ? avoidShallowWater(allWaypoints, vessel, underKeel)
+    : { hazards: [], optimizations: [], unresolved: 0 };
+  optimizations.push(...shallow.optimizations);
+  
   // Calculate distances for all waypoints
   let cumulativeDistance = 0;
   for (let i = 1; i < allWaypoints.length; i++) {
@@ -769,7 +673,7 @@ function generateOptimizedRoute(
     routeType: 'weather_routed',
   };
   
-  return { route, avoidedZones, optimizations };
+  return { route, avoidedZones, optimizations, shoals: shallow.hazards, unresolvedShoals: shallow.unresolved };
 }
 
 // ============================================================================
@@ -785,10 +689,19 @@ export interface OptimizeRouteParams {
   weatherZones?: WeatherZone[];
   preferences?: {
     prioritize: 'time' | 'fuel' | 'safety' | 'balanced';
+    avoidECAZones?: boolean; // sail around emission control areas instead of switching fuel
+    includeProposedECAs?: boolean; // treat proposed areas as in force
   };
+  // Depth grid for under-keel clearance checks against vessel.draft
+  bathymetry?: BathymetryGrid;
+  minUKC?: number; // meters, defaults to DEFAULT_MIN_UKC
+  departureTime?: Date; // for tide timing; lowest astronomical tide if omitted
 }
 
-export function optimizeRoute(params: OptimizeRouteParams): RouteOptimizationResult {
+export async function optimizeRoute(params: OptimizeRouteParams): Promise<RouteOptimizationResult> {
+  // LAND_MASK_FILE, when set, has to be in place before the first land check
+  await prepareLandMask();
+
   const {
     vessel,
     origin,
@@ -799,19 +712,79 @@ export function optimizeRoute(params: OptimizeRouteParams): RouteOptimizationRes
     preferences = { prioritize: 'balanced' },
   } = params;
   
+  const underKeel: UnderKeelConstraint | undefined = params.bathymetry && vessel.draft > 0
+    ? {
+        draft: vessel.draft,
+        minUKC: params.minUKC ?? DEFAULT_MIN_UKC,
+        bathymetry: params.bathymetry,
+        tide: ABU_DHABI_TIDE,
+        departureTime: params.departureTime,
+        speed: vessel.speed,
+      }
+    : undefined;
+  
   // Generate direct route
   const originalRoute = generateDirectRoute(vessel, origin, destination, originName, destinationName);
   
   // Generate optimized route
-  const { route: optimizedRoute, avoidedZones, optimizations } = generateOptimizedRoute(
+  const {
+    route: optimizedRoute,
+    avoidedZones,
+    optimizations,
+    shoals,
+    unresolvedShoals,
+  } = generateOptimizedRoute(
     vessel,
     origin,
     destination,
     originName,
     destinationName,
-    weatherZones
+    weatherZones,
+    underKeel
   );
   
+  // Emission control areas: the detour only replaces a track with no other
+  // avoidance in it, so weather and shoal detours are never undone
+  const ecaHazards: HazardZone[] = [];
+  const originalCompliance = applyEmissionCompliance(
+    originalRoute, vessel, params.departureTime, preferences.includeProposedECAs
+  );
+  let optimizedCompliance = applyEmissionCompliance(
+    optimizedRoute, vessel, params.departureTime, preferences.includeProposedECAs
+  );
+  const ecaDetour = optimizedCompliance.detour;
+  if (preferences.avoidECAZones && ecaDetour?.feasible && avoidedZones.length === 0 && shoals.length === 0) {
+    applyECADetour(optimizedRoute, vessel, ecaDetour.waypoints);
+    optimizedCompliance = applyEmissionCompliance(
+      optimizedRoute, vessel, params.departureTime, preferences.includeProposedECAs
+    );
+    for (const crossing of originalCompliance.crossings) {
+      ecaHazards.push({
+        id: crossing.zoneId,
+        type: 'eca_zone',
+        name: crossing.name,
+        restriction: `Max ${crossing.maxSulfurPercent}% sulfur`,
+        description: `${crossing.distanceInside.toFixed(0)}nm inside the zone avoided by sailing around it`,
+      });
+    }
+    const extraDistance = optimizedRoute.totalDistanceNm - originalRoute.totalDistanceNm;
+    optimizations.push({
+      id: 'opt-avoid-eca',
+      type: 'fuel_optimization',
+      description: `Avoid ${ecaHazards.map(h => h.name).join(', ')}`,
+      impact: {
+        distanceChangeNm: extraDistance,
+        timeChangeHours: extraDistance / vessel.speed,
+        fuelChangeLiters: optimizedRoute.estimatedFuelLiters - originalRoute.estimatedFuelLiters,
+      },
+      reasoning: `Staying outside the emission control area avoids switching to ${originalCompliance.compliantFuel} for ${originalCompliance.compliantDistance.toFixed(0)}nm.`,
+      affectedWaypoints: optimizedRoute.waypoints.filter(w => w.id.startsWith('eca-')).map(w => w.id),
+    });
+  }
+  
+  originalRoute.segments = buildSegments(originalRoute.waypoints, vessel, underKeel);
+  optimizedRoute.segments = buildSegments(optimizedRoute.waypoints, vessel, underKeel);
+  
   // Calculate summary
   const distanceDelta = originalRoute.totalDistanceNm - optimizedRoute.totalDistanceNm;
   const timeDelta = originalRoute.estimatedDurationHours - optimizedRoute.estimatedDurationHours;
@@ -827,6 +800,10 @@ export function optimizeRoute(params: OptimizeRouteParams): RouteOptimizationRes
   } else if (avoidedZones.length > 0) {
     safetyImprovement = 'minor';
   }
+  // Clearing a shoal the direct route would ground on outranks any weather
+  if (shoals.length > unresolvedShoals) {
+    safetyImprovement = 'significant';
+  }
   
   // Check if coastal routing was required (route would cross land)
   const requiresCoastalRouting = needsCoastalRouting(origin, destination);
@@ -835,11 +812,20 @@ export function optimizeRoute(params: OptimizeRouteParams): RouteOptimizationRes
   let recommendation: 'use_optimized' | 'use_original' | 'review_required' = 'use_original';
   let reasoningText = '';
   
-  if (avoidedZones.length === 0) {
+  if (unresolvedShoals > 0) {
+    recommendation = 'review_required';
+    reasoningText = `${unresolvedShoals} leg(s) cross water shallower than ${vessel.draft}m draft plus ${underKeel?.minUKC}m clearance with no deep-water detour found. Wait for tide, lighten the vessel or plan a different passage.`;
+  } else if (shoals.length > 0) {
+    recommendation = 'use_optimized';
+    reasoningText = `Optimized route detours around ${shoals.length} shoal(s) the direct route would cross at ${vessel.draft}m draft. Additional ${Math.abs(distanceDelta).toFixed(1)}nm keeps at least ${underKeel?.minUKC}m under the keel.`;
+  } else if (ecaHazards.length > 0) {
+    recommendation = optimizedRoute.estimatedCostUSD <= originalRoute.estimatedCostUSD ? 'use_optimized' : 'review_required';
+    reasoningText = `Optimized route stays outside ${ecaHazards.map(h => h.name).join(', ')} for ${Math.abs(distanceDelta).toFixed(1)}nm extra, instead of switching to ${originalCompliance.compliantFuel} at a $${originalCompliance.compliancePremium.toFixed(0)} premium.`;
+  } else if (avoidedZones.length === 0) {
     // No weather hazards - use direct route (which already includes coastal waypoints if needed)
     recommendation = 'use_original';
     if (requiresCoastalRouting) {
-      reasoningText = `Route follows standard shipping lanes around the UAE peninsula. No weather hazards detected. Distance: ${originalRoute.totalDistanceNm.toFixed(0)}nm.`;
+      reasoningText = `Route follows coastal waypoints around land. No weather hazards detected. Distance: ${originalRoute.totalDistanceNm.toFixed(0)}nm.`;
     } else {
       reasoningText = 'No weather hazards detected on route. Direct route is optimal.';
     }
@@ -860,6 +846,11 @@ export function optimizeRoute(params: OptimizeRouteParams): RouteOptimizationRes
     reasoningText = `Trade-off between ${Math.abs(distanceDelta).toFixed(1)}nm extra distance and weather avoidance. Review based on weather severity and schedule flexibility.`;
   }
   
+  const switchCount = optimizedCompliance.switchPoints.filter(p => p.action === 'switch_to_compliant').length;
+  if (switchCount > 0) {
+    reasoningText += ` Switch to ${optimizedCompliance.compliantFuel} ${switchCount === 1 ? 'once' : `${switchCount} times`} for emission control areas ($${optimizedCompliance.compliancePremium.toFixed(0)} fuel premium).`;
+  }
+  
   // Calculate confidence
   let confidence = 80;
   if (weatherZones.length === 0) confidence = 95;
@@ -882,7 +873,7 @@ export function optimizeRoute(params: OptimizeRouteParams): RouteOptimizationRes
     originalRoute,
     optimizedRoute,
     weatherZonesAvoided: avoidedZones,
-    hazardsAvoided: [],
+    hazardsAvoided: [...shoals, ...ecaHazards],
     optimizations,
     summary: {
       distanceDeltaNm: distanceDelta,
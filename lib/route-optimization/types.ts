@@ -7,6 +7,8 @@
  * - Before/after route comparison
  */
 
+import type { EmissionComplianceReport } from '@/lib/routes/types';
+
 // ============================================================================
 // Geographic Types
 // ============================================================================
@@ -64,6 +66,8 @@ export interface Route {
   origin: Waypoint;
   destination: Waypoint;
   waypoints: Waypoint[];
+  segments?: RouteSegment[];
+  emissionCompliance?: EmissionComplianceReport; // ECA crossings and fuel switching
   
   // Metrics
   totalDistanceNm: number;
@@ -88,6 +92,7 @@ export interface RouteSegment {
     seaState: number; // 0-9 Douglas scale
     notes?: string;
   };
+  minUKC?: number | null; // meters, null where there is no depth data
 }
 
 // ============================================================================
@@ -0,0 +1,339 @@
+/**
+ * Bathymetry - Depth grids, tides and under-keel clearance
+ *
+ * Loads a local depth grid exported from GEBCO (ESRI ASCII grid, or an
+ * uncompressed single-band GeoTIFF tile) and combines it with a harmonic tide
+ * prediction to give the clearance under a vessel's keel along a segment.
+ * Without a depth file the built-in Abu Dhabi fixture is used, which models
+ * the shallow banks west of Abu Dhabi that loaded dredgers cannot cross.
+ */
+
+import { readFile } from 'fs/promises';
+import { calculateDistanceNm } from '@/lib/datalastic';
+import {
+  BathymetryGrid,
+  TideModel,
+  UnderKeelConstraint,
+  UnderKeelResult,
+} from './types';
+
+export const DEFAULT_MIN_UKC = 1.0; // m
+const DEFAULT_SPEED = 10; // knots, for tide timing
+
+const HOUR_MS = 3600000;
+const TIDE_EPOCH = Date.UTC(2000, 0, 1);
+
+// Approximate principal constituents for Mina Zayed (mixed, mainly semi-diurnal)
+export const ABU_DHABI_TIDE: TideModel = {
+  station: 'Abu Dhabi (Mina Zayed)',
+  constituents: [
+    { name: 'M2', amplitude: 0.42, speed: 28.984104, phase: 110 },
+    { name: 'S2', amplitude: 0.16, speed: 30.0, phase: 150 },
+    { name: 'K1', amplitude: 0.3, speed: 15.041069, phase: 200 },
+    { name: 'O1', amplitude: 0.2, speed: 13.943035, phase: 170 },
+  ],
+};
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Parse an ESRI ASCII grid (GEBCO "Esri ASCII" export)
+ * Values are elevations, negative below sea level.
+ */
+export function parseAsciiGrid(text: string, source: string = 'ascii'): BathymetryGrid {
+  const lines = text.split(/\r?\n/);
+  const header: Record<string, number> = {};
+  let line = 0;
+  while (line < lines.length && /^[a-z_]+\s/i.test(lines[line].trim())) {
+    const [key, value] = lines[line].trim().split(/\s+/);
+    header[key.toLowerCase()] = parseFloat(value);
+    line++;
+  }
+
+  const cols = header.ncols;
+  const rows = header.nrows;
+  const cellSize = header.cellsize;
+  if (!cols || !rows || !cellSize) {
+    throw new Error('ASCII grid header must include ncols, nrows and cellsize');
+  }
+  const lonMin = header.xllcenter ?? header.xllcorner + cellSize / 2;
+  const latMin = header.yllcenter ?? header.yllcorner + cellSize / 2;
+  const noData = header.nodata_value;
+
+  const values = lines.slice(line).join(' ').trim().split(/\s+/).map(Number);
+  if (values.length < rows * cols) {
+    throw new Error(`ASCII grid has ${values.length} values, expected ${rows * cols}`);
+  }
+
+  // File rows run north to south
+  const depths = new Float32Array(rows * cols);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const elevation = values[(rows - 1 - r) * cols + c];
+      depths[r * cols + c] = elevation === noData ? NaN : -elevation;
+    }
+  }
+
+  return { source, latMin, lonMin, cellSize, rows, cols, depths };
+}
+
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 11: 4, 12: 8 };
+
+/**
+ * Parse an uncompressed, stripped, single-band GeoTIFF (GEBCO "GeoTIFF" export)
+ */
+export function parseGeoTiff(buffer: ArrayBuffer, source: string = 'geotiff'): BathymetryGrid {
+  const view = new DataView(buffer);
+  const little = view.getUint16(0) === 0x4949;
+  if (view.getUint16(2, little) !== 42) {
+    throw new Error('Not a TIFF file (BigTIFF is not supported)');
+  }
+
+  const ifd = view.getUint32(4, little);
+  const tags = new Map<number, number[]>();
+  const text = new Map<number, string>();
+  const entries = view.getUint16(ifd, little);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const count = view.getUint32(entry + 4, little);
+    const size = TIFF_TYPE_SIZES[type];
+    if (!size) continue;
+    const offset = size * count <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+
+    if (type === 2) {
+      text.set(tag, new TextDecoder().decode(new Uint8Array(buffer, offset, count)).replace(/\0+$/, ''));
+      continue;
+    }
+    const values: number[] = [];
+    for (let k = 0; k < count; k++) {
+      const at = offset + k * size;
+      if (type === 1) values.push(view.getUint8(at));
+      else if (type === 3) values.push(view.getUint16(at, little));
+      else if (type === 4) values.push(view.getUint32(at, little));
+      else if (type === 5) values.push(view.getUint32(at, little) / view.getUint32(at + 4, little));
+      else if (type === 11) values.push(view.getFloat32(at, little));
+      else values.push(view.getFloat64(at, little));
+    }
+    tags.set(tag, values);
+  }
+
+  const cols = tags.get(256)?.[0];
+  const rows = tags.get(257)?.[0];
+  const bits = tags.get(258)?.[0] ?? 1;
+  const sampleFormat = tags.get(339)?.[0] ?? 1;
+  const scale = tags.get(33550);
+  const tiepoint = tags.get(33922);
+  if (!cols || !rows || !scale || !tiepoint) {
+    throw new Error('GeoTIFF is missing size, pixel scale or tiepoint tags');
+  }
+  if ((tags.get(259)?.[0] ?? 1) !== 1 || tags.has(322) || (tags.get(277)?.[0] ?? 1) !== 1) {
+    throw new Error('Only uncompressed, stripped, single-band GeoTIFFs are supported');
+  }
+  if (Math.abs(scale[0] - scale[1]) > 1e-9) {
+    throw new Error('GeoTIFF cells must be square');
+  }
+
+  const readSample = (at: number): number => {
+    if (sampleFormat === 3) return bits === 64 ? view.getFloat64(at, little) : view.getFloat32(at, little);
+    if (sampleFormat === 2) return bits === 32 ? view.getInt32(at, little) : view.getInt16(at, little);
+    return bits === 32 ? view.getUint32(at, little) : view.getUint16(at, little);
+  };
+
+  const stripOffsets = tags.get(273) ?? [];
+  const rowsPerStrip = tags.get(278)?.[0] ?? rows;
+  const bytesPerSample = bits / 8;
+  const noData = text.has(42113) ? parseFloat(text.get(42113)!) : NaN;
+
+  // Pixel-is-area: the tiepoint is the north-west corner of the first cell
+  const cellSize = scale[0];
+  const lonMin = tiepoint[3] - tiepoint[0] * cellSize + cellSize / 2;
+  const latTop = tiepoint[4] + tiepoint[1] * cellSize - cellSize / 2;
+  const latMin = latTop - (rows - 1) * cellSize;
+
+  const depths = new Float32Array(rows * cols);
+  for (let fileRow = 0; fileRow < rows; fileRow++) {
+    const strip = Math.floor(fileRow / rowsPerStrip);
+    const rowStart = stripOffsets[strip] + (fileRow % rowsPerStrip) * cols * bytesPerSample;
+    const r = rows - 1 - fileRow;
+    for (let c = 0; c < cols; c++) {
+      const elevation = readSample(rowStart + c * bytesPerSample);
+      depths[r * cols + c] = elevation === noData ? NaN : -elevation;
+    }
+  }
+
+  return { source, latMin, lonMin, cellSize, rows, cols, depths };
+}
+
+/**
+ * Load a depth grid file; .tif/.tiff are read as GeoTIFF, anything else as ASCII
+ */
+export async function loadBathymetryFile(path: string): Promise<BathymetryGrid> {
+  if (/\.tiff?$/i.test(path)) {
+    const data = await readFile(path);
+    const buffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+    return parseGeoTiff(buffer, `file:${path}`);
+  }
+  return parseAsciiGrid(await readFile(path, 'utf8'), `file:${path}`);
+}
+
+let defaultBathymetry: Promise<BathymetryGrid> | null = null;
+
+/**
+ * Depth grid from BATHYMETRY_FILE, or the Abu Dhabi fixture when unset.
+ * A file that fails to load falls back to the fixture for this call and is
+ * tried again on the next one.
+ */
+export function getBathymetry(): Promise<BathymetryGrid> {
+  if (!defaultBathymetry) {
+    const path = process.env.BATHYMETRY_FILE;
+    defaultBathymetry = path
+      ? loadBathymetryFile(path).catch(error => {
+          console.warn(`[Bathymetry] Could not load ${path}, using the Abu Dhabi fixture:`, error);
+          defaultBathymetry = null;
+          return createAbuDhabiBathymetryFixture();
+        })
+      : Promise.resolve(createAbuDhabiBathymetryFixture());
+  }
+  return defaultBathymetry;
+}
+
+// ============================================================================
+// Sampling
+// ============================================================================
+
+/**
+ * Charted depth (m below MSL) at a position, or null outside the grid
+ * Takes the shallowest of the four surrounding cells so shoals are never
+ * smoothed away.
+ */
+export function sampleDepth(grid: BathymetryGrid, lat: number, lon: number): number | null {
+  const y = (lat - grid.latMin) / grid.cellSize;
+  const x = (lon - grid.lonMin) / grid.cellSize;
+  if (y < -0.5 || x < -0.5 || y > grid.rows - 0.5 || x > grid.cols - 0.5) return null;
+
+  let depth = Infinity;
+  for (const r of [Math.floor(y), Math.ceil(y)]) {
+    for (const c of [Math.floor(x), Math.ceil(x)]) {
+      if (r < 0 || c < 0 || r >= grid.rows || c >= grid.cols) continue;
+      const d = grid.depths[r * grid.cols + c];
+      if (!Number.isNaN(d)) depth = Math.min(depth, d);
+    }
+  }
+  return depth === Infinity ? null : depth;
+}
+
+/**
+ * Predicted tide height above mean sea level
+ */
+export function tideHeight(model: TideModel, time: Date): number {
+  const hours = (time.getTime() - TIDE_EPOCH) / HOUR_MS;
+  return model.constituents.reduce(
+    (sum, c) => sum + c.amplitude * Math.cos(((c.speed * hours - c.phase) * Math.PI) / 180),
+    0
+  );
+}
+
+/**
+ * Lowest astronomical tide, relative to mean sea level
+ */
+export function lowestAstronomicalTide(model: TideModel): number {
+  return -model.constituents.reduce((sum, c) => sum + c.amplitude, 0);
+}
+
+/**
+ * Least under-keel clearance along a straight segment
+ * `hoursFromDeparture` is when the vessel reaches `from`; tide is predicted
+ * for each point as the vessel passes it. Returns null where the grid has no
+ * depths along the segment.
+ */
+export function segmentUnderKeel(
+  constraint: UnderKeelConstraint,
+  from: { lat: number; lon: number },
+  to: { lat: number; lon: number },
+  hoursFromDeparture: number = 0
+): UnderKeelResult | null {
+  const { bathymetry, draft, tide, departureTime } = constraint;
+  const speed = constraint.speed ?? DEFAULT_SPEED;
+  const distance = calculateDistanceNm(from.lat, from.lon, to.lat, to.lon);
+  const degrees = Math.max(Math.abs(to.lat - from.lat), Math.abs(to.lon - from.lon));
+  const steps = Math.max(1, Math.ceil(degrees / (bathymetry.cellSize / 2)));
+
+  let worst: UnderKeelResult | null = null;
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    const lat = from.lat + (to.lat - from.lat) * t;
+    const lon = from.lon + (to.lon - from.lon) * t;
+    const depth = sampleDepth(bathymetry, lat, lon);
+    if (depth === null) continue;
+
+    let height = 0;
+    if (tide) {
+      height = departureTime
+        ? tideHeight(tide, new Date(departureTime.getTime() + (hoursFromDeparture + (distance * t) / speed) * HOUR_MS))
+        : lowestAstronomicalTide(tide);
+    }
+    const clearance = depth + height - draft;
+    if (!worst || clearance < worst.minUKC) {
+      worst = { minUKC: clearance, lat, lon, depth, tide: height };
+    }
+  }
+  return worst;
+}
+
+/**
+ * Whether a segment keeps at least the required clearance (unknown depth passes)
+ */
+export function isUnderKeelClear(
+  constraint: UnderKeelConstraint,
+  from: { lat: number; lon: number },
+  to: { lat: number; lon: number },
+  hoursFromDeparture: number = 0
+): boolean {
+  const result = segmentUnderKeel(constraint, from, to, hoursFromDeparture);
+  return !result || result.minUKC >= constraint.minUKC;
+}
+
+// ============================================================================
+// Abu Dhabi Fixture
+// ============================================================================
+
+// Shallow banks west and north-west of Abu Dhabi (centre, radii in degrees, least depth m)
+const FIXTURE_SHOALS = [
+  { name: 'Great Pearl Bank', lat: 24.56, lon: 53.62, rLat: 0.1, rLon: 0.3, depth: 4.5 },
+  { name: 'Bu Tinah Shoal', lat: 24.62, lon: 53.05, rLat: 0.06, rLon: 0.12, depth: 3.0 },
+  { name: 'Abu Dhabi Outer Bar', lat: 24.52, lon: 54.34, rLat: 0.04, rLon: 0.06, depth: 6.0 },
+];
+
+/**
+ * Synthetic 0.02° depth grid for the southern Gulf off Abu Dhabi
+ * The seabed shelves northwards from the coast into the 30–70 m main channel,
+ * with banks inshore of the shipping lanes. Land is left to the land mask.
+ */
+export function createAbuDhabiBathymetryFixture(): BathymetryGrid {
+  const latMin = 23.9;
+  const lonMin = 51.9;
+  const cellSize = 0.02;
+  const rows = 86;
+  const cols = 186;
+
+  const depths = new Float32Array(rows * cols);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const lat = latMin + r * cellSize;
+      const lon = lonMin + c * cellSize;
+      let depth = Math.min(70, Math.max(6, 8 + (lat - 24.2) * 60));
+      for (const shoal of FIXTURE_SHOALS) {
+        const d2 = ((lat - shoal.lat) / shoal.rLat) ** 2 + ((lon - shoal.lon) / shoal.rLon) ** 2;
+        const bank = shoal.depth + (depth - shoal.depth) * (1 - Math.exp(-d2 * d2));
+        depth = Math.min(depth, bank);
+      }
+      depths[r * cols + c] = Math.round(depth * 10) / 10;
+    }
+  }
+
+  return { source: 'fixture:abu-dhabi', latMin, lonMin, cellSize, rows, cols, depths };
+}
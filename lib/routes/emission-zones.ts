@@ -0,0 +1,396 @@
+/**
+ * Emission Zones - ECA crossings and fuel switch-over planning
+ *
+ * Intersects a planned route with the emission control area outlines and
+ * works out where the vessel must change over to compliant fuel, so the
+ * changeover is complete at the boundary, and where it can switch back.
+ * Compares the cost and emissions of staying compliant against sailing
+ * around the zones on main fuel.
+ */
+
+import { calculateDistanceNm } from '@/lib/datalastic';
+import {
+  EMISSION_CONTROL_AREAS,
+  EMISSION_ZONES,
+  EmissionControlArea,
+  FUEL_SPECIFICATIONS,
+  FuelType,
+} from '@/lib/types/maritime';
+import {
+  EmissionComplianceReport,
+  EmissionZoneCrossing,
+  FuelScenario,
+  FuelSwitchPoint,
+} from './types';
+
+const SAMPLE_STEP_NM = 2;
+const DEFAULT_CHANGEOVER_HOURS = 1; // time for the new fuel to reach the engines
+const DEFAULT_SPEED = 10; // knots
+const DEFAULT_LITERS_PER_NM = 40;
+const SFOC_KG_PER_KWH = 0.19; // specific fuel oil consumption, for NOx per kWh
+const DETOUR_MARGIN = 0.1; // degrees outside zone vertices
+
+type LatLng = { lat: number; lng: number };
+
+export interface EmissionComplianceOptions {
+  mainFuel?: FuelType;
+  compliantFuel?: FuelType;
+  fuelLiters?: number; // total burn for the route
+  litersPerNm?: number; // used when fuelLiters is not given
+  speed?: number; // knots, for changeover lead and ETAs
+  departureTime?: Date;
+  includeProposed?: boolean;
+  changeoverHours?: number;
+  isOnLand?: (lat: number, lon: number) => unknown;
+}
+
+/**
+ * Ray-casting point-in-polygon test
+ */
+export function isPointInPolygon(lat: number, lng: number, polygon: LatLng[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.lat > lat) !== (b.lat > lat) && lng < ((b.lng - a.lng) * (lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Zones in force at a time whose sulfur cap the given fuel exceeds
+ */
+export function restrictiveEmissionZones(
+  fuel: FuelType,
+  time: Date = new Date(),
+  includeProposed: boolean = false
+): EmissionControlArea[] {
+  const sulfur = FUEL_SPECIFICATIONS[fuel].sulfurContent;
+  return EMISSION_CONTROL_AREAS.filter(zone => {
+    if (zone.status === 'proposed' && !includeProposed) return false;
+    if (zone.effectiveFrom && zone.effectiveFrom > time) return false;
+    return EMISSION_ZONES[zone.limits].maxSulfurPercent < sulfur;
+  });
+}
+
+/**
+ * Cost and emissions of burning the given volumes of main and compliant fuel
+ */
+export function fuelScenario(
+  distance: number,
+  mainLiters: number,
+  compliantLiters: number,
+  mainFuel: FuelType,
+  compliantFuel: FuelType
+): FuelScenario {
+  const totals = { fuelCost: 0, co2: 0, nox: 0, sox: 0 };
+  for (const [fuel, liters] of [[mainFuel, mainLiters], [compliantFuel, compliantLiters]] as const) {
+    const spec = FUEL_SPECIFICATIONS[fuel];
+    const kg = (liters * spec.density) / 1000;
+    totals.fuelCost += (kg / 1000) * spec.costPerTon;
+    totals.co2 += kg * spec.co2Factor;
+    totals.sox += (kg * spec.soxFactor) / 1000;
+    totals.nox += ((kg / SFOC_KG_PER_KWH) * spec.noxFactor) / 1000;
+  }
+  return {
+    distance,
+    fuelLiters: { main: mainLiters, compliant: compliantLiters },
+    fuelCost: totals.fuelCost,
+    emissions: { co2: totals.co2, nox: totals.nox, sox: totals.sox },
+  };
+}
+
+function pathLength(points: LatLng[]): number {
+  let total = 0;
+  for (let i = 0; i < points.length - 1; i++) {
+    total += calculateDistanceNm(points[i].lat, points[i].lng, points[i + 1].lat, points[i + 1].lng);
+  }
+  return total;
+}
+
+// Position a given distance along the route
+function pointAlong(points: LatLng[], distance: number): LatLng {
+  let travelled = 0;
+  for (let i = 0; i < points.length - 1; i++) {
+    const leg = calculateDistanceNm(points[i].lat, points[i].lng, points[i + 1].lat, points[i + 1].lng);
+    if (travelled + leg >= distance && leg > 0) {
+      const t = (distance - travelled) / leg;
+      return {
+        lat: points[i].lat + (points[i + 1].lat - points[i].lat) * t,
+        lng: points[i].lng + (points[i + 1].lng - points[i].lng) * t,
+      };
+    }
+    travelled += leg;
+  }
+  return points[points.length - 1];
+}
+
+/**
+ * Walk the route and record where it enters and leaves each zone
+ */
+function findCrossings(points: LatLng[], zones: EmissionControlArea[]): EmissionZoneCrossing[] {
+  const crossings: EmissionZoneCrossing[] = [];
+  const total = pathLength(points);
+  const steps = Math.max(1, Math.ceil(total / SAMPLE_STEP_NM));
+
+  for (const zone of zones) {
+    const inside = (d: number) => {
+      const p = pointAlong(points, d);
+      return isPointInPolygon(p.lat, p.lng, zone.polygon);
+    };
+    // Refine a boundary between two sample distances
+    const boundary = (a: number, b: number) => {
+      const startInside = inside(a);
+      for (let k = 0; k < 12; k++) {
+        const mid = (a + b) / 2;
+        if (inside(mid) === startInside) a = mid;
+        else b = mid;
+      }
+      const d = (a + b) / 2;
+      return { ...pointAlong(points, d), distanceFromStart: d };
+    };
+
+    let wasInside = inside(0);
+    let entry: EmissionZoneCrossing['entry'] = null;
+    let entryDistance = 0;
+    let open = wasInside;
+
+    for (let s = 1; s <= steps; s++) {
+      const d = (total * s) / steps;
+      const now = inside(d);
+      if (now && !wasInside) {
+        entry = boundary((total * (s - 1)) / steps, d);
+        entryDistance = entry.distanceFromStart;
+        open = true;
+      } else if (!now && wasInside) {
+        const exit = boundary((total * (s - 1)) / steps, d);
+        crossings.push(crossing(zone, entry, exit, exit.distanceFromStart - entryDistance));
+        entry = null;
+        entryDistance = 0;
+        open = false;
+      }
+      wasInside = now;
+    }
+    if (open) crossings.push(crossing(zone, entry, null, total - entryDistance));
+  }
+
+  return crossings.sort(
+    (a, b) => (a.entry?.distanceFromStart ?? 0) - (b.entry?.distanceFromStart ?? 0)
+  );
+}
+
+function crossing(
+  zone: EmissionControlArea,
+  entry: EmissionZoneCrossing['entry'],
+  exit: EmissionZoneCrossing['exit'],
+  distanceInside: number
+): EmissionZoneCrossing {
+  return {
+    zoneId: zone.id,
+    name: zone.name,
+    status: zone.status,
+    maxSulfurPercent: EMISSION_ZONES[zone.limits].maxSulfurPercent,
+    entry,
+    exit,
+    distanceInside,
+  };
+}
+
+/**
+ * Shortest path from origin to destination that stays outside the zones,
+ * over a visibility graph of slightly enlarged zone vertices
+ */
+function planDetour(
+  origin: LatLng,
+  destination: LatLng,
+  zones: EmissionControlArea[],
+  isOnLand?: (lat: number, lon: number) => unknown
+): LatLng[] | null {
+  const blocked = (p: LatLng) =>
+    zones.some(z => isPointInPolygon(p.lat, p.lng, z.polygon)) || Boolean(isOnLand?.(p.lat, p.lng));
+
+  const nodes: LatLng[] = [origin, destination];
+  for (const zone of zones) {
+    const centre = {
+      lat: zone.polygon.reduce((s, p) => s + p.lat, 0) / zone.polygon.length,
+      lng: zone.polygon.reduce((s, p) => s + p.lng, 0) / zone.polygon.length,
+    };
+    for (const v of zone.polygon) {
+      const dLat = v.lat - centre.lat;
+      const dLng = v.lng - centre.lng;
+      const norm = Math.hypot(dLat, dLng) || 1;
+      const p = { lat: v.lat + (dLat / norm) * DETOUR_MARGIN, lng: v.lng + (dLng / norm) * DETOUR_MARGIN };
+      if (!blocked(p)) nodes.push(p);
+    }
+  }
+
+  const visible = (a: LatLng, b: LatLng) => {
+    const steps = Math.max(1, Math.ceil(calculateDistanceNm(a.lat, a.lng, b.lat, b.lng) / SAMPLE_STEP_NM));
+    for (let s = 1; s < steps; s++) {
+      const t = s / steps;
+      if (blocked({ lat: a.lat + (b.lat - a.lat) * t, lng: a.lng + (b.lng - a.lng) * t })) return false;
+    }
+    return true;
+  };
+
+  // Dijkstra over the (small) complete visibility graph
+  const dist = nodes.map(() => Infinity);
+  const prev = nodes.map(() => -1);
+  const done = nodes.map(() => false);
+  dist[0] = 0;
+  for (;;) {
+    let u = -1;
+    for (let i = 0; i < nodes.length; i++) {
+      if (!done[i] && dist[i] < Infinity && (u === -1 || dist[i] < dist[u])) u = i;
+    }
+    if (u === -1 || u === 1) break;
+    done[u] = true;
+    for (let v = 0; v < nodes.length; v++) {
+      if (done[v] || v === u) continue;
+      const d = dist[u] + calculateDistanceNm(nodes[u].lat, nodes[u].lng, nodes[v].lat, nodes[v].lng);
+      if (d < dist[v] && visible(nodes[u], nodes[v])) {
+        dist[v] = d;
+        prev[v] = u;
+      }
+    }
+  }
+
+  if (dist[1] === Infinity) return null;
+  const path: LatLng[] = [];
+  for (let i = 1; i !== -1; i = prev[i]) path.unshift(nodes[i]);
+  return path;
+}
+
+/**
+ * Check a route against the emission control areas and plan fuel switching
+ */
+export function analyzeEmissionCompliance(
+  waypoints: LatLng[],
+  options: EmissionComplianceOptions = {}
+): EmissionComplianceReport {
+  const mainFuel = options.mainFuel ?? 'VLSFO';
+  const compliantFuel = options.compliantFuel ?? 'MGO';
+  const speed = options.speed ?? DEFAULT_SPEED;
+  const departure = options.departureTime ?? new Date();
+  const total = pathLength(waypoints);
+  const litersPerNm = options.fuelLiters !== undefined && total > 0
+    ? options.fuelLiters / total
+    : options.litersPerNm ?? DEFAULT_LITERS_PER_NM;
+
+  const zones = restrictiveEmissionZones(mainFuel, departure, options.includeProposed);
+  const crossings = findCrossings(waypoints, zones);
+
+  // Compliant-fuel intervals: changeover finished at each entry, merged
+  const lead = (options.changeoverHours ?? DEFAULT_CHANGEOVER_HOURS) * speed;
+  const intervals = crossings
+    .map(c => ({
+      start: c.entry ? Math.max(0, c.entry.distanceFromStart - lead) : 0,
+      end: c.exit ? c.exit.distanceFromStart : total,
+      zoneId: c.zoneId,
+      exitZoneId: c.zoneId,
+    }))
+    .sort((a, b) => a.start - b.start);
+  const merged: typeof intervals = [];
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) {
+        last.end = interval.end;
+        last.exitZoneId = interval.zoneId;
+      }
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  const eta = (d: number) => new Date(departure.getTime() + (d / speed) * 3600000);
+  const switchPoints: FuelSwitchPoint[] = [];
+  for (const interval of merged) {
+    const zone = crossings.find(c => c.zoneId === interval.zoneId)!;
+    const start = pointAlong(waypoints, interval.start);
+    switchPoints.push({
+      action: 'switch_to_compliant',
+      fuel: compliantFuel,
+      ...start,
+      distanceFromStart: interval.start,
+      eta: eta(interval.start),
+      zoneId: interval.zoneId,
+      note: zone.entry
+        ? `Change over to ${compliantFuel} ${lead.toFixed(0)} nm before entering ${zone.name}`
+        : `Depart on ${compliantFuel} - origin lies inside ${zone.name}`,
+    });
+    if (interval.end < total) {
+      const end = pointAlong(waypoints, interval.end);
+      switchPoints.push({
+        action: 'switch_to_main',
+        fuel: mainFuel,
+        ...end,
+        distanceFromStart: interval.end,
+        eta: eta(interval.end),
+        zoneId: interval.exitZoneId,
+        note: `Return to ${mainFuel} after leaving ${crossings.find(c => c.zoneId === interval.exitZoneId)!.name}`,
+      });
+    }
+  }
+
+  const compliantDistance = merged.reduce((sum, i) => sum + (i.end - i.start), 0);
+  const nonCompliant = fuelScenario(total, total * litersPerNm, 0, mainFuel, compliantFuel);
+  const compliant = fuelScenario(
+    total,
+    (total - compliantDistance) * litersPerNm,
+    compliantDistance * litersPerNm,
+    mainFuel,
+    compliantFuel
+  );
+
+  let detour: EmissionComplianceReport['detour'] = null;
+  if (crossings.length > 0 && waypoints.length >= 2) {
+    const origin = waypoints[0];
+    const destination = waypoints[waypoints.length - 1];
+    const crossed = zones.filter(z => crossings.some(c => c.zoneId === z.id));
+    const endpointZone = crossed.find(z =>
+      isPointInPolygon(origin.lat, origin.lng, z.polygon) ||
+      isPointInPolygon(destination.lat, destination.lng, z.polygon)
+    );
+    const path = endpointZone ? null : planDetour(origin, destination, crossed, options.isOnLand);
+    if (path) {
+      const distance = pathLength(path);
+      detour = {
+        feasible: true,
+        waypoints: path,
+        extraDistance: distance - total,
+        scenario: fuelScenario(distance, distance * litersPerNm, 0, mainFuel, compliantFuel),
+      };
+    } else {
+      detour = {
+        feasible: false,
+        reason: endpointZone
+          ? `Origin or destination lies inside ${endpointZone.name}`
+          : 'No route around the zones was found',
+        waypoints: [],
+        extraDistance: 0,
+      };
+    }
+  }
+
+  let recommendation: EmissionComplianceReport['recommendation'] = 'none';
+  if (crossings.length > 0) {
+    recommendation = detour?.feasible && detour.scenario!.fuelCost < compliant.fuelCost ? 'detour' : 'switch_fuel';
+  }
+
+  return {
+    mainFuel,
+    compliantFuel,
+    crossings,
+    switchPoints,
+    compliantDistance,
+    compliantShare: total > 0 ? compliantDistance / total : 0,
+    nonCompliant,
+    compliant,
+    compliancePremium: compliant.fuelCost - nonCompliant.fuelCost,
+    detour,
+    recommendation,
+  };
+}
@@ -11,12 +11,19 @@
 
 import { SeaRouteWaypoint, calculateDistanceNm, calculateBearing, isDatalasticConfigured, getDatalasticClient } from '@/lib/datalastic';
 import { getWeatherAtLocation } from '@/lib/weather';
+import { FUEL_SPECIFICATIONS, FuelType } from '@/lib/types/maritime';
+import { ABU_DHABI_TIDE, DEFAULT_MIN_UKC, getBathymetry, isUnderKeelClear, segmentUnderKeel } from './bathymetry';
+import { analyzeEmissionCompliance } from './emission-zones';
+import { findLandCrossings, landAreaAt, planLandDetour, prepareLandMask } from './land-mask';
 import { 
   Route, 
   RouteSegment, 
   Waypoint, 
   WeatherPoint,
   FuelCalculation,
+  UnderKeelConstraint,
+  EmissionComplianceReport,
+  RouteLegPlan,
 } from './types';
 
 // ============================================================================
@@ -179,14 +186,14 @@ const MARITIME_NETWORK: NetworkNode[] = [
   { id: 'UAE_06', lat: 25.10, lon: 55.10, name: 'Dubai Offshore', connections: ['UAE_04', 'DXB_01', 'UAE_09'] },
   { id: 'DXB_01', lat: 25.25, lon: 55.25, name: 'Dubai Port Approach', connections: ['UAE_06', 'UAE_09'] },
   { id: 'UAE_07', lat: 24.70, lon: 53.80, name: 'Central Gulf UAE', connections: ['ABU_N1', 'UAE_03', 'UAE_04', 'CENT_01'] },
-  { id: 'UAE_08', lat: 24.70, lon: 52.50, name: 'Zirku-Das Area', connections: ['UAE_05', 'CENT_02', 'CENT_01'] },
+  { id: 'UAE_08', lat: 24.70, lon: 52.50, name: 'Zirku-Das Area', connections: ['UAE_05', 'CENT_02'] },
   { id: 'UAE_09', lat: 25.40, lon: 55.30, name: 'Sharjah Offshore', connections: ['UAE_06', 'DXB_01', 'UAE_10'] },
   { id: 'UAE_10', lat: 25.70, lon: 55.70, name: 'N UAE Offshore', connections: ['UAE_09', 'HORM_01'] },
   
   // ============================================================================
   // CENTRAL PERSIAN GULF - main shipping lanes (deep water)
   // ============================================================================
-  { id: 'CENT_01', lat: 25.00, lon: 53.50, name: 'Central Gulf E', connections: ['UAE_07', 'UAE_08', 'CENT_02', 'CENT_03'] },
+  { id: 'CENT_01', lat: 25.00, lon: 53.50, name: 'Central Gulf E', connections: ['UAE_07', 'CENT_02', 'CENT_03'] },
   { id: 'CENT_02', lat: 24.80, lon: 52.90, name: 'Central Gulf C', connections: ['UAE_08', 'CENT_01', 'CENT_04'] },
   { id: 'CENT_03', lat: 25.50, lon: 53.10, name: 'Central Gulf NE', connections: ['CENT_01', 'CENT_05', 'IRAN_01'] },
   { id: 'CENT_04', lat: 24.60, lon: 52.50, name: 'Das Island Area', connections: ['CENT_02', 'CENT_05', 'SQAT_01'] },
@@ -194,43 +201,40 @@ const MARITIME_NETWORK: NetworkNode[] = [
   { id: 'CENT_06', lat: 25.70, lon: 52.00, name: 'Halul Island Area', connections: ['CENT_05', 'QNOR_01', 'QEAS_01'] },
   
   // ============================================================================
-  // SOUTH OF QATAR - main route avoiding Qatar peninsula
+  // WEST OF DALMA - Qatar is joined to Saudi Arabia, so routes west go north
+  // around the peninsula
   // ============================================================================
-  { id: 'SQAT_01', lat: 24.200, lon: 52.200, name: 'South Qatar 1', connections: ['CENT_04', 'SQAT_02'] },
-  { id: 'SQAT_02', lat: 24.100, lon: 51.700, name: 'South Qatar 2', connections: ['SQAT_01', 'SQAT_03', 'QEAS_01'] },
-  { id: 'SQAT_03', lat: 24.150, lon: 51.200, name: 'South Qatar 3', connections: ['SQAT_02', 'SQAT_04'] },
-  { id: 'SQAT_04', lat: 24.300, lon: 50.700, name: 'SW Qatar', connections: ['SQAT_03', 'QWES_01', 'SAUD_01'] },
+  { id: 'SQAT_01', lat: 24.200, lon: 52.200, name: 'Dalma W', connections: ['CENT_04', 'QEAS_01'] },
   
   // ============================================================================
   // EAST OF QATAR - Doha approach
   // ============================================================================
-  { id: 'QEAS_01', lat: 24.800, lon: 51.800, name: 'SE Qatar', connections: ['SQAT_02', 'CENT_06', 'QEAS_02'] },
-  { id: 'QEAS_02', lat: 25.200, lon: 51.600, name: 'E Doha', connections: ['QEAS_01', 'QNOR_01'] },
+  { id: 'QEAS_01', lat: 24.800, lon: 51.800, name: 'SE Qatar', connections: ['SQAT_01', 'CENT_06', 'QEAS_02'] },
+  { id: 'QEAS_02', lat: 25.200, lon: 51.700, name: 'E Doha', connections: ['QEAS_01', 'QNOR_01'] },
   
   // ============================================================================
   // NORTH OF QATAR - route to Bahrain/Saudi
   // ============================================================================
   { id: 'QNOR_01', lat: 25.800, lon: 51.800, name: 'NE Qatar', connections: ['CENT_06', 'QEAS_02', 'QNOR_02'] },
-  { id: 'QNOR_02', lat: 26.200, lon: 51.400, name: 'N Qatar', connections: ['QNOR_01', 'QWES_02', 'BAHR_01'] },
+  { id: 'QNOR_02', lat: 26.200, lon: 51.400, name: 'N Qatar', connections: ['QNOR_01', 'QWES_03', 'BAHR_01'] },
   
   // ============================================================================
-  // WEST OF QATAR - Bahrain approach
+  // WEST OF QATAR - between Bahrain and Qatar into the Gulf of Salwa
   // ============================================================================
-  { id: 'QWES_01', lat: 25.000, lon: 50.400, name: 'W Qatar S', connections: ['SQAT_04', 'QWES_02', 'SAUD_02'] },
-  { id: 'QWES_02', lat: 25.600, lon: 50.300, name: 'W Qatar N', connections: ['QWES_01', 'QNOR_02', 'BAHR_01'] },
+  { id: 'QWES_03', lat: 26.100, lon: 50.800, name: 'Bahrain-Qatar Channel', connections: ['QNOR_02', 'BAHR_01', 'QWES_02'] },
+  { id: 'QWES_02', lat: 25.650, lon: 50.700, name: 'W Qatar N', connections: ['QWES_03', 'QWES_01'] },
+  { id: 'QWES_01', lat: 25.300, lon: 50.600, name: 'Gulf of Salwa', connections: ['QWES_02'] },
   
   // ============================================================================
   // BAHRAIN AREA
   // ============================================================================
-  { id: 'BAHR_01', lat: 26.300, lon: 50.700, name: 'Bahrain E', connections: ['QNOR_02', 'QWES_02', 'BAHR_02'] },
+  { id: 'BAHR_01', lat: 26.300, lon: 50.700, name: 'Bahrain E', connections: ['QNOR_02', 'QWES_03', 'BAHR_02'] },
   { id: 'BAHR_02', lat: 26.500, lon: 50.300, name: 'Bahrain N', connections: ['BAHR_01', 'SAUD_03'] },
   
   // ============================================================================
   // SAUDI ARABIA COAST
   // ============================================================================
-  { id: 'SAUD_01', lat: 24.500, lon: 50.200, name: 'Saudi S', connections: ['SQAT_04', 'SAUD_02'] },
-  { id: 'SAUD_02', lat: 25.500, lon: 49.900, name: 'Saudi Central', connections: ['SAUD_01', 'QWES_01', 'SAUD_03'] },
-  { id: 'SAUD_03', lat: 26.600, lon: 49.800, name: 'Dammam Approach', connections: ['SAUD_02', 'BAHR_02', 'SAUD_04'] },
+  { id: 'SAUD_03', lat: 26.750, lon: 50.300, name: 'Dammam Approach', connections: ['BAHR_02', 'SAUD_04'] },
   { id: 'SAUD_04', lat: 27.200, lon: 49.600, name: 'Jubail Approach', connections: ['SAUD_03', 'KWAI_01'] },
   
   // ============================================================================
@@ -247,23 +251,23 @@ const MARITIME_NETWORK: NetworkNode[] = [
   { id: 'KWAI_01', lat: 28.200, lon: 49.200, name: 'Kuwait S', connections: ['SAUD_04', 'KWAI_02', 'KWAI_03'] },
   { id: 'KWAI_02', lat: 28.000, lon: 50.200, name: 'Kuwait E', connections: ['IRAN_03', 'IRAN_04', 'KWAI_01'] },
   { id: 'KWAI_03', lat: 29.000, lon: 48.800, name: 'Kuwait Port', connections: ['KWAI_01', 'KWAI_04'] },
-  { id: 'KWAI_04', lat: 29.800, lon: 48.400, name: 'Basra Approach', connections: ['KWAI_03'] },
+  { id: 'KWAI_04', lat: 29.700, lon: 48.750, name: 'Basra Approach', connections: ['KWAI_03'] },
   
   // ============================================================================
   // STRAIT OF HORMUZ - detailed shipping lane
   // ============================================================================
-  { id: 'HORM_01', lat: 25.900, lon: 56.100, name: 'Hormuz Approach', connections: ['UAE_10', 'HORM_02'] },
-  { id: 'HORM_02', lat: 26.100, lon: 56.400, name: 'Hormuz W', connections: ['HORM_01', 'HORM_03', 'IRAN_05'] },
-  { id: 'HORM_03', lat: 26.000, lon: 56.800, name: 'Hormuz Center', connections: ['HORM_02', 'HORM_04'] },
+  { id: 'HORM_01', lat: 26.000, lon: 55.950, name: 'Hormuz Approach', connections: ['UAE_10', 'HORM_02'] },
+  { id: 'HORM_02', lat: 26.500, lon: 56.350, name: 'Hormuz W', connections: ['HORM_01', 'HORM_03', 'IRAN_05'] },
+  { id: 'HORM_03', lat: 26.000, lon: 56.800, name: 'Hormuz Center', connections: ['HORM_02', 'HORM_04', 'IRAN_06'] },
   { id: 'HORM_04', lat: 25.700, lon: 57.100, name: 'Hormuz E', connections: ['HORM_03', 'GOOM_01'] },
   { id: 'IRAN_05', lat: 26.500, lon: 56.600, name: 'Bandar Abbas S', connections: ['HORM_02', 'IRAN_06'] },
-  { id: 'IRAN_06', lat: 26.800, lon: 57.200, name: 'Bandar Abbas E', connections: ['IRAN_05', 'GOOM_02'] },
+  { id: 'IRAN_06', lat: 26.400, lon: 56.950, name: 'Bandar Abbas E', connections: ['IRAN_05', 'HORM_03'] },
   
   // ============================================================================
   // GULF OF OMAN - staying well offshore
   // ============================================================================
   { id: 'GOOM_01', lat: 25.200, lon: 57.600, name: 'Gulf of Oman NW', connections: ['HORM_04', 'GOOM_02', 'GOOM_03'] },
-  { id: 'GOOM_02', lat: 25.800, lon: 58.200, name: 'Gulf of Oman N', connections: ['GOOM_01', 'IRAN_06', 'GOOM_04'] },
+  { id: 'GOOM_02', lat: 25.400, lon: 58.200, name: 'Gulf of Oman N', connections: ['GOOM_01', 'GOOM_04'] },
   { id: 'GOOM_03', lat: 24.600, lon: 58.000, name: 'Fujairah Offshore', connections: ['GOOM_01', 'GOOM_04', 'GOOM_05'] },
   { id: 'GOOM_04', lat: 25.000, lon: 58.800, name: 'Gulf of Oman Central N', connections: ['GOOM_02', 'GOOM_03', 'GOOM_06'] },
   { id: 'GOOM_05', lat: 24.000, lon: 58.500, name: 'Gulf of Oman W', connections: ['GOOM_03', 'GOOM_06', 'GOOM_07'] },
@@ -274,7 +278,7 @@ const MARITIME_NETWORK: NetworkNode[] = [
   // ============================================================================
   // ARABIAN SEA - open ocean
   // ============================================================================
-  { id: 'ARAB_01', lat: 22.500, lon: 59.500, name: 'Arabian Sea NW', connections: ['GOOM_07', 'ARAB_02', 'ARAB_03'] },
+  { id: 'ARAB_01', lat: 22.700, lon: 59.900, name: 'Ras al Hadd Offshore', connections: ['GOOM_07', 'ARAB_02', 'ARAB_03'] },
   { id: 'ARAB_02', lat: 22.800, lon: 60.500, name: 'Arabian Sea N', connections: ['GOOM_08', 'ARAB_01', 'ARAB_04'] },
   { id: 'ARAB_03', lat: 21.500, lon: 59.500, name: 'Sur Offshore', connections: ['ARAB_01', 'ARAB_04', 'ARAB_05'] },
   { id: 'ARAB_04', lat: 22.000, lon: 61.000, name: 'Arabian Sea NE', connections: ['ARAB_02', 'ARAB_03', 'ARAB_06'] },
@@ -317,8 +321,10 @@ const MAX_NETWORK_SNAP_DISTANCE = 30; // nm
 
 /**
  * Dijkstra's algorithm to find shortest path between two network nodes
+ * With an under-keel constraint, legs too shallow for the vessel at the
+ * time it would sail them are skipped; returns [] if the end is unreachable.
  */
-function findShortestPath(startId: string, endId: string): NetworkNode[] {
+function findShortestPath(startId: string, endId: string, underKeel?: UnderKeelConstraint): NetworkNode[] {
   // Verify nodes exist
   if (!networkMap.has(startId) || !networkMap.has(endId)) {
     return [];
@@ -361,6 +367,11 @@ function findShortestPath(startId: string, endId: string): NetworkNode[] {
       const neighbor = networkMap.get(neighborId);
       if (!neighbor) continue;
       
+      if (underKeel) {
+        const hoursFromDeparture = (distances.get(current) ?? 0) / (underKeel.speed ?? 10);
+        if (!isUnderKeelClear(underKeel, currentNode, neighbor, hoursFromDeparture)) continue;
+      }
+      
       const edgeDist = calculateDistanceNm(currentNode.lat, currentNode.lon, neighbor.lat, neighbor.lon);
       const newDist = (distances.get(current) ?? 0) + edgeDist;
       
@@ -382,7 +393,7 @@ function findShortestPath(startId: string, endId: string): NetworkNode[] {
     current = prev === undefined ? null : prev;
   }
   
-  return path;
+  return path[0]?.id === startId ? path : [];
 }
 
 /**
@@ -423,15 +434,21 @@ const SHORT_ROUTE_THRESHOLD = 25; // nm
  *   (guaranteed to follow shipping lanes and avoid all land)
  * - For routes OUTSIDE or crossing Gulf boundary: Use Datalastic API with corrections
  * 
+ * With an under-keel constraint, direct and API routes that pass over water
+ * too shallow for the vessel's draft are replaced by network routing, which
+ * skips shallow legs.
+ * 
  * Returns waypoints that avoid land and can be further optimized
  */
 export async function fetchSeaRoute(
   fromLat: number,
   fromLon: number,
   toLat: number,
-  toLon: number
+  toLon: number,
+  underKeel?: UnderKeelConstraint
 ): Promise<{ waypoints: SeaRouteWaypoint[]; distance: number; source: 'api' | 'hybrid' | 'network' }> {
   console.log('[RouteEngine] Fetching sea route:', { fromLat, fromLon, toLat, toLon });
+  await prepareLandMask();
   
   // Calculate direct distance first
   const directDistance = calculateDistanceNm(fromLat, fromLon, toLat, toLon);
@@ -441,10 +458,14 @@ export async function fetchSeaRoute(
   if (directDistance < SHORT_ROUTE_THRESHOLD) {
     console.log('[RouteEngine] Short route detected (' + directDistance.toFixed(1) + ' nm) - using simplified routing');
     
-    // Check if direct path crosses land
+    // Check if direct path crosses land or shoals
     const landCheck = doesSegmentCrossLand(fromLat, fromLon, toLat, toLon);
+    const deepEnough = !underKeel || isRouteUnderKeelClear(
+      [{ lat: fromLat, lon: fromLon }, { lat: toLat, lon: toLon }],
+      underKeel
+    );
     
-    if (!landCheck.crosses) {
+    if (!landCheck.crosses && deepEnough) {
       // Direct path is safe - use it
       console.log('[RouteEngine] Direct path is clear - using direct route');
       return {
@@ -456,14 +477,24 @@ export async function fetchSeaRoute(
         source: 'network', // Label as network since we verified it
       };
     } else {
-      // Direct path crosses land - use minimal network detour
-      console.log('[RouteEngine] Direct path crosses ' + landCheck.landArea + ' - finding minimal detour');
+      // Direct path crosses land - go around the coastline if that is deep enough
+      console.log('[RouteEngine] Direct path crosses ' + (landCheck.landArea ?? 'shallow water') + ' - finding minimal detour');
+      const detour = landCheck.crosses ? landDetourWaypoints(fromLat, fromLon, toLat, toLon) : null;
+      if (detour && (!underKeel || isRouteUnderKeelClear(detour, underKeel))) {
+        return {
+          waypoints: detour,
+          distance: calculateTotalDistance(detour),
+          source: 'network',
+        };
+      }
+      
+      // Otherwise use a minimal network detour
       const startNode = findNearestNode(fromLat, fromLon).node;
       const endNode = findNearestNode(toLat, toLon).node;
       
       // For short routes, only add ONE intermediate waypoint (the midpoint of network path)
       if (startNode.id !== endNode.id) {
-        const networkPath = findShortestPath(startNode.id, endNode.id);
+        const networkPath = findShortestPath(startNode.id, endNode.id, underKeel);
         if (networkPath.length > 0) {
           // Pick the middle waypoint from the network path
           const midIdx = Math.floor(networkPath.length / 2);
@@ -502,20 +533,21 @@ export async function fetchSeaRoute(
   if (fromInGulf && toInGulf) {
     // First check if direct path crosses any land
     const landCheck = doesSegmentCrossLand(fromLat, fromLon, toLat, toLon);
+    const gcRoute = generateGreatCircleRoute(fromLat, fromLon, toLat, toLon);
+    const deepEnough = !underKeel || isRouteUnderKeelClear(gcRoute.waypoints, underKeel);
     
-    if (!landCheck.crosses) {
+    if (!landCheck.crosses && deepEnough) {
       // Direct path is clear - use great circle route (much simpler and more natural)
       console.log('[RouteEngine] Direct path is clear - using great circle route');
-      const gcRoute = generateGreatCircleRoute(fromLat, fromLon, toLat, toLon);
       return {
         ...gcRoute,
         source: 'network',
       };
     }
     
-    // Land is in the way - use network routing to go around
-    console.log('[RouteEngine] Direct path crosses', landCheck.landArea, '- using maritime network');
-    const networkRoute = fetchSeaRouteFromNetwork(fromLat, fromLon, toLat, toLon);
+    // Land or shoals in the way - use network routing to go around
+    console.log('[RouteEngine] Direct path crosses', landCheck.landArea ?? 'shallow water', '- using maritime network');
+    const networkRoute = fetchSeaRouteFromNetwork(fromLat, fromLon, toLat, toLon, underKeel);
     
     return {
       ...networkRoute,
@@ -538,6 +570,10 @@ export async function fetchSeaRoute(
         
         const wasCorrected = correctedWaypoints.length > apiWaypoints.length;
         
+        if (underKeel && !isRouteUnderKeelClear(correctedWaypoints, underKeel)) {
+          throw new Error('API route crosses water shallower than the vessel draft allows');
+        }
+        
         console.log('[RouteEngine] Route processed:', {
           apiPoints: apiWaypoints.length,
           correctedPoints: correctedWaypoints.length,
@@ -558,7 +594,7 @@ export async function fetchSeaRoute(
   
   // Fallback to maritime network
   console.log('[RouteEngine] Using maritime network fallback');
-  const networkRoute = fetchSeaRouteFromNetwork(fromLat, fromLon, toLat, toLon);
+  const networkRoute = fetchSeaRouteFromNetwork(fromLat, fromLon, toLat, toLon, underKeel);
   
   return {
     ...networkRoute,
@@ -567,119 +603,82 @@ export async function fetchSeaRoute(
 }
 
 /**
- * Check if a point is on land using accurate coastline detection
- * 
- * IMPORTANT: The Persian Gulf is NORTH of the UAE/Qatar. Land is to the SOUTH.
- * A point is on land if it's SOUTH of (lower latitude than) the coastline.
- * 
- * This uses piecewise linear approximations of the coastline.
+ * Check if a point is on land
+ * Returns the name of the land area from the coastline land mask, or null
+ * over water.
  */
-function isPointOnLand(lat: number, lon: number): string | null {
-  // Qatar Peninsula - extends north into the Gulf
-  // Qatar mainland is roughly lon 50.75-51.6, lat 24.5-26.2
-  if (lon >= 50.75 && lon <= 51.6 && lat >= 24.5 && lat <= 26.2) {
-    return 'Qatar';
-  }
-  
-  // Bahrain islands - small islands
-  if (lon >= 50.45 && lon <= 50.65 && lat >= 25.9 && lat <= 26.3) {
-    return 'Bahrain';
-  }
-  
-  // Musandam Peninsula (Oman) - northern tip extending into Strait of Hormuz
-  if (lon >= 56.0 && lon <= 56.45 && lat >= 25.8 && lat <= 26.4) {
-    return 'Musandam';
-  }
-  
-  // UAE Mainland - use coastline-based detection
-  // The coastline runs roughly:
-  // - Western UAE (lon 51.5-53): coast at lat ~24.0-24.2
-  // - Abu Dhabi area (lon 53-54.5): coast at lat ~24.2-24.5
-  // - Dubai area (lon 54.5-55.5): coast at lat ~24.5-25.3
-  // - Northern Emirates (lon 55.5-56): coast curves to lat ~25.3-25.5
-  // Points SOUTH of coast (lower lat) = land
-  // Points NORTH of coast (higher lat) = water
-  if (lon >= 51.5 && lon <= 56.5) {
-    let coastLat: number;
-    
-    if (lon < 52.5) {
-      // Western UAE (Ruwais area)
-      coastLat = 24.0 + (lon - 51.5) * 0.1;
-    } else if (lon < 53.5) {
-      // Jebel Dhanna to western Abu Dhabi
-      coastLat = 24.1 + (lon - 52.5) * 0.15;
-    } else if (lon < 54.5) {
-      // Abu Dhabi coast
-      coastLat = 24.25 + (lon - 53.5) * 0.2;
-    } else if (lon < 55.3) {
-      // Abu Dhabi to Dubai
-      coastLat = 24.45 + (lon - 54.5) * 0.9;
-    } else if (lon < 56.0) {
-      // Dubai to Sharjah/Northern Emirates
-      coastLat = 25.17 + (lon - 55.3) * 0.4;
-    } else {
-      // East coast
-      coastLat = 25.45;
-    }
-    
-    // Point is on land if it's SOUTH of the coastline (lower latitude)
-    // and within the UAE land area (above 22.5)
-    if (lat < coastLat && lat > 22.5) {
-      return 'UAE Mainland';
-    }
-  }
-  
-  // Iran Coast - land is NORTH of the Gulf (higher latitude)
-  if (lon >= 51.0 && lon <= 56.5 && lat >= 26.8) {
-    return 'Iran Coast';
-  }
-  
-  return null; // Point is in water
+export function isPointOnLand(lat: number, lon: number): string | null {
+  return landAreaAt(lat, lon);
 }
 
 /**
- * Check if a line segment potentially crosses land
- * Uses midpoint and quarter-point checks
+ * Check if a line segment crosses land
+ * Exact intersection against the coastline, ignoring the berth at either end
  */
 function doesSegmentCrossLand(
   fromLat: number, fromLon: number,
   toLat: number, toLon: number
 ): { crosses: boolean; landArea?: string; crossPoint?: { lat: number; lon: number } } {
-  // Check multiple points along the segment
-  const checkPoints = [0.25, 0.5, 0.75];
-  
-  for (const t of checkPoints) {
-    const checkLat = fromLat + (toLat - fromLat) * t;
-    const checkLon = fromLon + (toLon - fromLon) * t;
-    
-    const landArea = isPointOnLand(checkLat, checkLon);
-    if (landArea) {
-      return { 
-        crosses: true, 
-        landArea,
-        crossPoint: { lat: checkLat, lon: checkLon }
-      };
-    }
+  const [crossing] = findLandCrossings({ lat: fromLat, lon: fromLon }, { lat: toLat, lon: toLon });
+  return crossing
+    ? { crosses: true, landArea: crossing.landArea, crossPoint: crossing.entry }
+    : { crosses: false };
+}
+
+/**
+ * Shortest path around the coastline between two points, or null
+ */
+function landDetourWaypoints(
+  fromLat: number, fromLon: number,
+  toLat: number, toLon: number
+): SeaRouteWaypoint[] | null {
+  const path = planLandDetour({ lat: fromLat, lon: fromLon }, { lat: toLat, lon: toLon });
+  return path?.map((p, i) =>
+    i === 0 || i === path.length - 1 ? p : { ...p, note: 'Avoiding land' }
+  ) ?? null;
+}
+
+/**
+ * Check every leg of a route keeps the minimum under-keel clearance
+ */
+function isRouteUnderKeelClear(waypoints: SeaRouteWaypoint[], underKeel: UnderKeelConstraint): boolean {
+  let hours = 0;
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    if (!isUnderKeelClear(underKeel, waypoints[i], waypoints[i + 1], hours)) return false;
+    hours += calculateDistanceNm(
+      waypoints[i].lat, waypoints[i].lon,
+      waypoints[i + 1].lat, waypoints[i + 1].lon
+    ) / (underKeel.speed ?? 10);
   }
-  
-  return { crosses: false };
+  return true;
 }
 
 /**
- * Correct waypoints that cross land by inserting maritime network waypoints
+ * Correct waypoints that cross land by inserting coastline detour waypoints,
+ * or maritime network waypoints where no detour is found
  */
 function correctLandCrossings(waypoints: SeaRouteWaypoint[]): SeaRouteWaypoint[] {
   if (waypoints.length < 2) return waypoints;
   
-  const corrected: SeaRouteWaypoint[] = [waypoints[0]];
+  // Interpolated points can fall on land - drop them and detour the leg instead
+  const atSea = waypoints.filter((wp, i) =>
+    i === 0 || i === waypoints.length - 1 || !isPointOnLand(wp.lat, wp.lon)
+  );
   
-  for (let i = 0; i < waypoints.length - 1; i++) {
-    const from = waypoints[i];
-    const to = waypoints[i + 1];
+  const corrected: SeaRouteWaypoint[] = [atSea[0]];
+  
+  for (let i = 0; i < atSea.length - 1; i++) {
+    const from = atSea[i];
+    const to = atSea[i + 1];
     
     const landCheck = doesSegmentCrossLand(from.lat, from.lon, to.lat, to.lon);
     
-    if (landCheck.crosses) {
+    const detour = landCheck.crosses ? landDetourWaypoints(from.lat, from.lon, to.lat, to.lon) : null;
+    
+    if (detour) {
+      console.log(`[RouteEngine] Segment crosses ${landCheck.landArea}, inserting coastline detour`);
+      corrected.push(...detour.slice(1, -1));
+    } else if (landCheck.crosses) {
       console.log(`[RouteEngine] Segment crosses ${landCheck.landArea}, inserting network waypoints`);
       
       // Find network path around the land
@@ -733,7 +732,8 @@ function fetchSeaRouteFromNetwork(
   fromLat: number,
   fromLon: number,
   toLat: number,
-  toLon: number
+  toLon: number,
+  underKeel?: UnderKeelConstraint
 ): { waypoints: SeaRouteWaypoint[]; distance: number } {
   // Find nearest network nodes and distances
   const startResult = findNearestNode(fromLat, fromLon);
@@ -758,7 +758,8 @@ function fetchSeaRouteFromNetwork(
   // If BOTH points are far outside coverage, use simple great circle route
   if (startOutsideCoverage && endOutsideCoverage) {
     console.log('[RouteEngine] Both points outside network coverage, using great circle route');
-    return generateGreatCircleRoute(fromLat, fromLon, toLat, toLon);
+    const gcWaypoints = correctLandCrossings(generateGreatCircleRoute(fromLat, fromLon, toLat, toLon).waypoints);
+    return { waypoints: gcWaypoints, distance: calculateTotalDistance(gcWaypoints) };
   }
   
   // Build waypoints: origin -> (approach) -> network path -> (departure) -> destination
@@ -781,7 +782,12 @@ function fetchSeaRouteFromNetwork(
   
   // Find path through network
   if (startNode.id !== endNode.id) {
-    const networkPath = findShortestPath(startNode.id, endNode.id);
+    let networkPath = findShortestPath(startNode.id, endNode.id, underKeel);
+    if (networkPath.length === 0 && underKeel) {
+      // No leg sequence keeps the clearance; segments will report the shortfall
+      console.warn('[RouteEngine] No network path keeps the minimum under-keel clearance');
+      networkPath = findShortestPath(startNode.id, endNode.id);
+    }
     
     // Add network waypoints with names and notes
     for (let i = 0; i < networkPath.length; i++) {
@@ -860,14 +866,16 @@ function fetchSeaRouteFromNetwork(
     }
   }
   
-  const totalDistance = calculateTotalDistance(waypoints);
+  // Approach and departure legs can still clip islands
+  const landFree = correctLandCrossings(waypoints);
+  const totalDistance = calculateTotalDistance(landFree);
   
   console.log('[RouteEngine] Network route calculated:', {
-    waypointCount: waypoints.length,
+    waypointCount: landFree.length,
     distance: totalDistance.toFixed(1) + ' nm'
   });
   
-  return { waypoints, distance: totalDistance };
+  return { waypoints: landFree, distance: totalDistance };
 }
 
 /**
@@ -1029,15 +1037,35 @@ export function calculateSegmentFuel(
 
 /**
  * Calculate emissions for fuel consumption
+ * Profile factors are for the vessel's main fuel; with a compliance report the
+ * share burned on compliant fuel inside emission control areas is rescaled by
+ * the per-liter factors of the two fuels.
  */
 export function calculateEmissions(
   fuelLiters: number,
-  vesselProfile: VesselProfile
+  vesselProfile: VesselProfile,
+  compliance?: EmissionComplianceReport
 ): { co2: number; nox: number; sox: number } {
+  const factors = vesselProfile.emissionFactors;
+  if (!compliance || compliance.compliantShare === 0) {
+    return {
+      co2: fuelLiters * factors.co2PerLiter,
+      nox: fuelLiters * factors.noxPerLiter,
+      sox: fuelLiters * factors.soxPerLiter,
+    };
+  }
+
+  const main = FUEL_SPECIFICATIONS[compliance.mainFuel];
+  const compliant = FUEL_SPECIFICATIONS[compliance.compliantFuel];
+  const ratio = (key: 'co2Factor' | 'noxFactor' | 'soxFactor') =>
+    (compliant.density * compliant[key]) / (main.density * main[key]);
+  const mainLiters = fuelLiters * (1 - compliance.compliantShare);
+  const compliantLiters = fuelLiters * compliance.compliantShare;
+
   return {
-    co2: fuelLiters * vesselProfile.emissionFactors.co2PerLiter,
-    nox: fuelLiters * vesselProfile.emissionFactors.noxPerLiter,
-    sox: fuelLiters * vesselProfile.emissionFactors.soxPerLiter,
+    co2: (mainLiters + compliantLiters * ratio('co2Factor')) * factors.co2PerLiter,
+    nox: (mainLiters + compliantLiters * ratio('noxFactor')) * factors.noxPerLiter,
+    sox: (mainLiters + compliantLiters * ratio('soxFactor')) * factors.soxPerLiter,
   };
 }
 
@@ -1138,9 +1166,12 @@ function convertToWaypoints(
  */
 function generateSegments(
   waypoints: Waypoint[],
-  vesselProfile: VesselProfile
+  vesselProfile: VesselProfile,
+  underKeel?: UnderKeelConstraint,
+  legs: RouteLegPlan[] = []
 ): RouteSegment[] {
   const segments: RouteSegment[] = [];
+  let hoursFromDeparture = 0;
   
   for (let i = 0; i < waypoints.length - 1; i++) {
     const from = waypoints[i];
@@ -1148,7 +1179,8 @@ function generateSegments(
     
     const distance = calculateDistanceNm(from.lat, from.lng, to.lat, to.lng);
     const bearing = calculateBearing(from.lat, from.lng, to.lat, to.lng);
-    const estimatedTime = distance / vesselProfile.cruisingSpeed;
+    const leg = legs[i] || {};
+    const estimatedTime = distance / (leg.speed || vesselProfile.cruisingSpeed);
     
     // Calculate weather risk at midpoint
     const midLat = (from.lat + to.lat) / 2;
@@ -1158,6 +1190,17 @@ function generateSegments(
     // Calculate fuel for this segment
     const fuelCalc = calculateSegmentFuel(distance, vesselProfile, weatherRisk);
     
+    // Least clearance under the keel, with the tide when the vessel passes
+    const ukc = underKeel
+      ? segmentUnderKeel(
+          underKeel,
+          { lat: from.lat, lon: from.lng },
+          { lat: to.lat, lon: to.lng },
+          hoursFromDeparture
+        )
+      : null;
+    hoursFromDeparture += estimatedTime;
+    
     segments.push({
       from,
       to,
@@ -1166,6 +1209,10 @@ function generateSegments(
       estimatedTime,
       fuelConsumption: fuelCalc.totalFuel,
       weatherRisk,
+      minUKC: ukc ? Math.round(ukc.minUKC * 100) / 100 : null,
+      ...(leg.speed !== undefined && { plannedSpeed: leg.speed }),
+      ...(leg.xtdPort !== undefined && { xtdPort: leg.xtdPort }),
+      ...(leg.xtdStarboard !== undefined && { xtdStarboard: leg.xtdStarboard }),
     });
   }
   
@@ -1185,6 +1232,12 @@ export async function generateRoute(
     speed?: number; // Override cruising speed
     routeId?: string;
     routeName?: string;
+    draft?: number; // meters - enables under-keel clearance checks
+    minUKC?: number; // meters, defaults to DEFAULT_MIN_UKC
+    departureTime?: Date; // for tide timing; lowest astronomical tide if omitted
+    fuelType?: FuelType; // main fuel, VLSFO if omitted
+    includeProposedECAs?: boolean; // treat proposed emission control areas as in force
+    avoidECA?: boolean; // sail around emission control areas when a route exists
   } = {}
 ): Promise<Route> {
   // Get vessel profile
@@ -1195,30 +1248,74 @@ export async function generateRoute(
     ? { ...vesselProfile, cruisingSpeed: options.speed }
     : vesselProfile;
   
+  // Keep the keel clear of the bottom when the vessel's draft is known
+  const underKeel: UnderKeelConstraint | undefined = options.draft
+    ? {
+        draft: options.draft,
+        minUKC: options.minUKC ?? DEFAULT_MIN_UKC,
+        bathymetry: await getBathymetry(),
+        tide: ABU_DHABI_TIDE,
+        departureTime: options.departureTime,
+        speed: effectiveProfile.cruisingSpeed,
+      }
+    : undefined;
+  
   // Fetch realistic sea route from Datalastic
-  const { waypoints: seaWaypoints, distance: totalDistance } = await fetchSeaRoute(
+  const seaRoute = await fetchSeaRoute(
     origin.lat,
     origin.lng,
     destination.lat,
-    destination.lng
+    destination.lng,
+    underKeel
   );
+  let seaWaypoints = seaRoute.waypoints;
+  let totalDistance = seaRoute.distance;
   
   // Convert to app waypoints
-  const waypoints = convertToWaypoints(seaWaypoints, origin.name, destination.name);
+  let waypoints = convertToWaypoints(seaWaypoints, origin.name, destination.name);
   
   // Generate segments with metrics
-  const segments = generateSegments(waypoints, effectiveProfile);
+  let segments = generateSegments(waypoints, effectiveProfile, underKeel);
+  let totalFuel = segments.reduce((sum, s) => sum + s.fuelConsumption, 0);
+  
+  // Plan fuel switching through emission control areas
+  const complianceOptions = {
+    mainFuel: options.fuelType,
+    speed: effectiveProfile.cruisingSpeed,
+    departureTime: options.departureTime,
+    includeProposed: options.includeProposedECAs,
+    isOnLand: isPointOnLand,
+  };
+  let emissionCompliance = analyzeEmissionCompliance(
+    seaWaypoints.map(wp => ({ lat: wp.lat, lng: wp.lon })),
+    { ...complianceOptions, fuelLiters: totalFuel }
+  );
+  
+  if (options.avoidECA && emissionCompliance.detour?.feasible) {
+    seaWaypoints = emissionCompliance.detour.waypoints.map((p, i, all) => ({
+      lat: p.lat,
+      lon: p.lng,
+      note: i > 0 && i < all.length - 1 ? 'ECA avoidance' : undefined,
+    }));
+    waypoints = convertToWaypoints(seaWaypoints, origin.name, destination.name);
+    segments = generateSegments(waypoints, effectiveProfile, underKeel);
+    totalFuel = segments.reduce((sum, s) => sum + s.fuelConsumption, 0);
+    totalDistance = segments.reduce((sum, s) => sum + s.distance, 0);
+    emissionCompliance = analyzeEmissionCompliance(
+      seaWaypoints.map(wp => ({ lat: wp.lat, lng: wp.lon })),
+      { ...complianceOptions, fuelLiters: totalFuel }
+    );
+  }
   
   // Aggregate metrics
-  const totalFuel = segments.reduce((sum, s) => sum + s.fuelConsumption, 0);
   const estimatedTime = segments.reduce((sum, s) => sum + s.estimatedTime, 0);
   const avgWeatherRisk = segments.reduce((sum, s) => sum + s.weatherRisk, 0) / segments.length;
   
   // Calculate emissions
-  const emissions = calculateEmissions(totalFuel, effectiveProfile);
+  const emissions = calculateEmissions(totalFuel, effectiveProfile, emissionCompliance);
   
-  // Calculate total cost
-  const fuelCost = totalFuel * effectiveProfile.fuelCostPerLiter;
+  // Calculate total cost, including the premium for compliant fuel
+  const fuelCost = totalFuel * effectiveProfile.fuelCostPerLiter + emissionCompliance.compliancePremium;
   
   return {
     id: options.routeId || `route-${Date.now()}`,
@@ -1238,6 +1335,99 @@ export async function generateRoute(
     cost: fuelCost,
     createdAt: new Date(),
     status: 'planned',
+    emissionCompliance,
+  };
+}
+
+/**
+ * Build a route along fixed waypoints, e.g. a plan imported from an ECDIS
+ * Unlike generateRoute nothing is re-routed: legs keep the planned track and
+ * speed, and land or draft problems are left to the caller to report.
+ */
+export async function buildRouteFromWaypoints(
+  vesselId: string,
+  vesselName: string,
+  vesselType: string,
+  points: Array<{ lat: number; lng: number; name?: string; turnRadius?: number }>,
+  options: {
+    routeId?: string;
+    routeName?: string;
+    speed?: number; // knots for legs without a planned speed
+    legs?: RouteLegPlan[];
+    draft?: number; // meters - enables under-keel clearance per segment
+    minUKC?: number;
+    departureTime?: Date;
+    fuelType?: FuelType;
+    includeProposedECAs?: boolean;
+  } = {}
+): Promise<Route> {
+  if (points.length < 2) {
+    throw new Error('A route needs at least two waypoints');
+  }
+  
+  const vesselProfile = VESSEL_PROFILES[vesselType] || VESSEL_PROFILES.default;
+  const effectiveProfile = options.speed
+    ? { ...vesselProfile, cruisingSpeed: options.speed }
+    : vesselProfile;
+  
+  const underKeel: UnderKeelConstraint | undefined = options.draft
+    ? {
+        draft: options.draft,
+        minUKC: options.minUKC ?? DEFAULT_MIN_UKC,
+        bathymetry: await getBathymetry(),
+        tide: ABU_DHABI_TIDE,
+        departureTime: options.departureTime,
+        speed: effectiveProfile.cruisingSpeed,
+      }
+    : undefined;
+  
+  const waypoints = convertToWaypoints(
+    points.map(p => ({ lat: p.lat, lon: p.lng })),
+    points[0].name,
+    points[points.length - 1].name
+  ).map((wp, i) => ({
+    ...wp,
+    name: points[i].name || wp.name,
+    ...(points[i].turnRadius !== undefined && { turnRadius: points[i].turnRadius }),
+  }));
+  
+  const segments = generateSegments(waypoints, effectiveProfile, underKeel, options.legs);
+  const totalDistance = segments.reduce((sum, s) => sum + s.distance, 0);
+  const estimatedTime = segments.reduce((sum, s) => sum + s.estimatedTime, 0);
+  const totalFuel = segments.reduce((sum, s) => sum + s.fuelConsumption, 0);
+  const avgWeatherRisk = segments.reduce((sum, s) => sum + s.weatherRisk, 0) / segments.length;
+  
+  const emissionCompliance = analyzeEmissionCompliance(
+    waypoints.map(wp => ({ lat: wp.lat, lng: wp.lng })),
+    {
+      mainFuel: options.fuelType,
+      fuelLiters: totalFuel,
+      speed: effectiveProfile.cruisingSpeed,
+      departureTime: options.departureTime,
+      includeProposed: options.includeProposedECAs,
+      isOnLand: isPointOnLand,
+    }
+  );
+  
+  return {
+    id: options.routeId || `route-${Date.now()}`,
+    name: options.routeName || `${waypoints[0].name} to ${waypoints[waypoints.length - 1].name}`,
+    vesselId,
+    vesselName,
+    origin: waypoints[0],
+    destination: waypoints[waypoints.length - 1],
+    waypoints: waypoints.slice(1, -1),
+    segments,
+    totalDistance,
+    estimatedTime,
+    fuelConsumption: totalFuel,
+    emissions: calculateEmissions(totalFuel, effectiveProfile, emissionCompliance),
+    averageSpeed: estimatedTime > 0 ? totalDistance / estimatedTime : effectiveProfile.cruisingSpeed,
+    weatherRisk: avgWeatherRisk,
+    cost: totalFuel * effectiveProfile.fuelCostPerLiter + emissionCompliance.compliancePremium,
+    createdAt: new Date(),
+    status: 'planned',
+    emissionCompliance,
   };
 }
 
@@ -1284,12 +1474,20 @@ export function compareRoutes(
   timeDiff: number;
   fuelSavings: number;
   emissionsSavings: number;
+  soxSavings: number;
+  complianceCostDiff: number;
+  compliantDistanceDiff: number;
 } {
   return {
     distanceDiff: route1.totalDistance - route2.totalDistance,
     timeDiff: route1.estimatedTime - route2.estimatedTime,
     fuelSavings: route2.fuelConsumption - route1.fuelConsumption,
     emissionsSavings: route2.emissions.co2 - route1.emissions.co2,
+    soxSavings: route2.emissions.sox - route1.emissions.sox,
+    complianceCostDiff:
+      (route1.emissionCompliance?.compliancePremium ?? 0) - (route2.emissionCompliance?.compliancePremium ?? 0),
+    compliantDistanceDiff:
+      (route1.emissionCompliance?.compliantDistance ?? 0) - (route2.emissionCompliance?.compliantDistance ?? 0),
   };
 }
 
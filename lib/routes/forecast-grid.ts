@@ -0,0 +1,206 @@
+/**
+ * Forecast Grid - Time-stepped wind, wave and current fields for weather routing
+ *
+ * Reads hourly point forecasts in the shape Open-Meteo returns when asked for
+ * several coordinates at once, and lays them out on a regular lat/lon grid
+ * that can be sampled at any position and time. Forecasts come from a local
+ * file (server only) or from the built-in shamal fixture, which stands in for
+ * a live Open-Meteo pull.
+ */
+
+import { readFile } from 'fs/promises';
+import {
+  ForecastFrame,
+  ForecastGrid,
+  ForecastSample,
+  OpenMeteoForecastPoint,
+} from './types';
+
+const KMH_TO_KNOTS = 1 / 1.852;
+const MS_TO_KNOTS = 1.943844;
+
+function speedToKnots(value: number, unit: string | undefined): number {
+  if (unit === 'km/h') return value * KMH_TO_KNOTS;
+  if (unit === 'm/s') return value * MS_TO_KNOTS;
+  return value; // kn
+}
+
+function snap(value: number, resolution: number): number {
+  return Math.round(value / resolution) * resolution;
+}
+
+/**
+ * Build a grid from Open-Meteo point forecasts
+ * Points must sit on a regular lattice and share the same hourly time axis
+ */
+export function buildForecastGrid(
+  points: OpenMeteoForecastPoint[],
+  source: string = 'open-meteo'
+): ForecastGrid {
+  if (points.length === 0) {
+    throw new Error('Forecast contains no points');
+  }
+
+  const lats = [...new Set(points.map(p => p.latitude))].sort((a, b) => a - b);
+  const lons = [...new Set(points.map(p => p.longitude))].sort((a, b) => a - b);
+  const spacings = [
+    ...lats.slice(1).map((lat, i) => lat - lats[i]),
+    ...lons.slice(1).map((lon, i) => lon - lons[i]),
+  ];
+  const resolution = spacings.length > 0 ? Math.min(...spacings) : 1;
+
+  const latMin = lats[0];
+  const lonMin = lons[0];
+  const rows = Math.round((lats[lats.length - 1] - latMin) / resolution) + 1;
+  const cols = Math.round((lons[lons.length - 1] - lonMin) / resolution) + 1;
+  const times = points[0].hourly.time.map(t => new Date(t.endsWith('Z') ? t : `${t}Z`));
+
+  const frames: ForecastFrame[] = times.map(() => ({
+    windSpeed: new Array(rows * cols).fill(0),
+    windDirection: new Array(rows * cols).fill(0),
+    waveHeight: new Array(rows * cols).fill(0),
+    waveDirection: new Array(rows * cols).fill(0),
+    currentSpeed: new Array(rows * cols).fill(0),
+    currentDirection: new Array(rows * cols).fill(0),
+  }));
+
+  for (const point of points) {
+    const row = Math.round((snap(point.latitude, resolution) - latMin) / resolution);
+    const col = Math.round((snap(point.longitude, resolution) - lonMin) / resolution);
+    const cell = row * cols + col;
+    const units = point.hourly_units ?? {};
+    const h = point.hourly;
+
+    times.forEach((_, t) => {
+      const frame = frames[t];
+      frame.windSpeed[cell] = speedToKnots(h.wind_speed_10m[t] ?? 0, units.wind_speed_10m ?? 'km/h');
+      frame.windDirection[cell] = h.wind_direction_10m[t] ?? 0;
+      frame.waveHeight[cell] = h.wave_height[t] ?? 0;
+      frame.waveDirection[cell] = h.wave_direction[t] ?? 0;
+      frame.currentSpeed[cell] = speedToKnots(
+        h.ocean_current_velocity?.[t] ?? 0,
+        units.ocean_current_velocity ?? 'km/h'
+      );
+      frame.currentDirection[cell] = h.ocean_current_direction?.[t] ?? 0;
+    });
+  }
+
+  return { source, latMin, lonMin, resolution, rows, cols, times, frames };
+}
+
+/**
+ * Load a forecast file saved from Open-Meteo (a JSON array of point forecasts)
+ */
+export async function loadForecastGridFile(path: string): Promise<ForecastGrid> {
+  const raw = await readFile(path, 'utf8');
+  const parsed = JSON.parse(raw) as OpenMeteoForecastPoint[] | OpenMeteoForecastPoint;
+  return buildForecastGrid(Array.isArray(parsed) ? parsed : [parsed], `file:${path}`);
+}
+
+/**
+ * Sample the forecast at a position and time
+ * Nearest cell in space, linear in time; positions and times outside the
+ * grid are clamped to its edge.
+ */
+export function sampleForecast(
+  grid: ForecastGrid,
+  lat: number,
+  lon: number,
+  time: Date
+): ForecastSample {
+  const row = Math.min(grid.rows - 1, Math.max(0, Math.round((lat - grid.latMin) / grid.resolution)));
+  const col = Math.min(grid.cols - 1, Math.max(0, Math.round((lon - grid.lonMin) / grid.resolution)));
+  const cell = row * grid.cols + col;
+
+  const t = time.getTime();
+  const last = grid.times.length - 1;
+  let index = 0;
+  while (index < last && grid.times[index + 1].getTime() <= t) index++;
+  const next = Math.min(index + 1, last);
+  const span = grid.times[next].getTime() - grid.times[index].getTime();
+  const w = span > 0 ? Math.min(1, Math.max(0, (t - grid.times[index].getTime()) / span)) : 0;
+
+  const a = grid.frames[index];
+  const b = grid.frames[next];
+  const lerp = (x: number[], y: number[]) => x[cell] + (y[cell] - x[cell]) * w;
+  const nearer = w < 0.5 ? a : b;
+
+  return {
+    windSpeed: lerp(a.windSpeed, b.windSpeed),
+    windDirection: nearer.windDirection[cell],
+    waveHeight: lerp(a.waveHeight, b.waveHeight),
+    waveDirection: nearer.waveDirection[cell],
+    currentSpeed: lerp(a.currentSpeed, b.currentSpeed),
+    currentDirection: nearer.currentDirection[cell],
+  };
+}
+
+/**
+ * Largest wind and current speeds anywhere in the forecast
+ */
+export function forecastExtremes(grid: ForecastGrid): { windSpeed: number; currentSpeed: number } {
+  let windSpeed = 0;
+  let currentSpeed = 0;
+  for (const frame of grid.frames) {
+    for (const v of frame.windSpeed) windSpeed = Math.max(windSpeed, v);
+    for (const v of frame.currentSpeed) currentSpeed = Math.max(currentSpeed, v);
+  }
+  return { windSpeed, currentSpeed };
+}
+
+// ============================================================================
+// Shamal Fixture
+// ============================================================================
+
+/**
+ * Synthetic 48-hour Open-Meteo forecast for the Strait of Hormuz and Gulf of
+ * Oman with a shamal wind field crossing the Fujairah–Muscat lane. North-west
+ * gales and 3–4 m seas sit over the middle of the gulf and drift south-east;
+ * the coastal strips stay workable.
+ */
+export function createShamalForecastFixture(start: Date = new Date()): OpenMeteoForecastPoint[] {
+  const resolution = 0.25;
+  const hours = 48;
+  const t0 = Math.floor(start.getTime() / 3600000) * 3600000;
+  const time = Array.from({ length: hours + 1 }, (_, h) =>
+    new Date(t0 + h * 3600000).toISOString().slice(0, 16)
+  );
+
+  const points: OpenMeteoForecastPoint[] = [];
+  for (let lat = 22; lat <= 27.001; lat += resolution) {
+    for (let lon = 55; lon <= 61.001; lon += resolution) {
+      const hourly: OpenMeteoForecastPoint['hourly'] = {
+        time,
+        wind_speed_10m: [],
+        wind_direction_10m: [],
+        wave_height: [],
+        wave_direction: [],
+        ocean_current_velocity: [],
+        ocean_current_direction: [],
+      };
+
+      for (let h = 0; h <= hours; h++) {
+        // Storm core starts north-east of Fujairah and tracks south-east
+        const coreLat = 24.9 - h * 0.02;
+        const coreLon = 57.3 + h * 0.035;
+        const d2 = ((lat - coreLat) / 0.55) ** 2 + ((lon - coreLon) / 0.8) ** 2;
+        const intensity = Math.exp(-d2) * (h < 36 ? 1 : Math.max(0, 1 - (h - 36) / 12));
+
+        hourly.wind_speed_10m.push(Math.round((18 + 55 * intensity) * 10) / 10); // km/h
+        hourly.wind_direction_10m.push(315);
+        hourly.wave_height.push(Math.round((0.7 + 3.6 * intensity) * 100) / 100);
+        hourly.wave_direction.push(320);
+        hourly.ocean_current_velocity!.push(Math.round((0.8 + 0.6 * intensity) * 100) / 100); // km/h
+        hourly.ocean_current_direction!.push(lon > 56.5 ? 125 : 300);
+      }
+
+      points.push({
+        latitude: Math.round(lat * 100) / 100,
+        longitude: Math.round(lon * 100) / 100,
+        hourly_units: { wind_speed_10m: 'km/h', ocean_current_velocity: 'km/h' },
+        hourly,
+      });
+    }
+  }
+  return points;
+}
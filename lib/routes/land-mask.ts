@@ -0,0 +1,378 @@
+/**
+ * Land Mask - Coastline polygons with an R-tree for land avoidance
+ *
+ * Loads land polygons from GeoJSON laid out like the Natural Earth 10m land
+ * and minor islands layers, and indexes every coastline edge in a packed
+ * R-tree so point-on-land tests and exact leg/coastline intersections only
+ * touch nearby edges. Detours around land are shortest paths over a
+ * visibility graph of coastline vertices near the blocked leg.
+ *
+ * The bundled file is Natural Earth 1:10m land (v4.1.0, as quantized in the
+ * world-atlas 2.0.2 land-10m TopoJSON) clipped to 44-66E, 12-32N: the Gulf,
+ * Gulf of Oman and northern Arabian Sea. Each polygon's name is the Natural
+ * Earth admin-0 country it lies in, or "Mainland" for the continental coast.
+ * Natural Earth drops islands such as Das, so the islands it lacks are added
+ * from OpenStreetMap land polygons simplified to 1 km (geo-maps 0.6.0,
+ * © OpenStreetMap contributors, ODbL) as featurecla "Minor island", named
+ * after the nearest country. Dredged channels are still only as fine as the
+ * ~0.004 degree quantization; scripts/verify-land-mask.ts checks the known
+ * islands. Outside the clip box every point reads as water - set
+ * LAND_MASK_FILE to a full Natural Earth GeoJSON export (server only) to
+ * route elsewhere.
+ */
+
+import { readFile } from 'fs/promises';
+import { calculateDistanceNm } from '@/lib/datalastic';
+import bundledCoastline from './data/gulf-coastline.json';
+import { LandCrossing, LandFeatureCollection } from './types';
+
+type BBox = [number, number, number, number]; // minLon, minLat, maxLon, maxLat
+type Point = { lat: number; lon: number };
+
+const NODE_SIZE = 16;
+const DEFAULT_CLEARANCE = 0.02; // degrees (~1.2 nm) kept off coastline vertices
+const DEFAULT_ENDPOINT_ALLOWANCE = 2; // nm of land tolerated at a leg's ends - berths sit on the coastline
+const CORRIDOR_MARGINS = [0.5, 1.5, 4]; // degrees around a blocked leg searched for a detour
+
+// ============================================================================
+// R-tree
+// ============================================================================
+
+interface RTreeNode<T> {
+  bbox: BBox;
+  children: RTreeNode<T>[];
+  entries: Array<{ bbox: BBox; value: T }>;
+}
+
+function intersects(a: BBox, b: BBox): boolean {
+  return a[0] <= b[2] && a[2] >= b[0] && a[1] <= b[3] && a[3] >= b[1];
+}
+
+function union(boxes: BBox[]): BBox {
+  const out: BBox = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const b of boxes) {
+    out[0] = Math.min(out[0], b[0]);
+    out[1] = Math.min(out[1], b[1]);
+    out[2] = Math.max(out[2], b[2]);
+    out[3] = Math.max(out[3], b[3]);
+  }
+  return out;
+}
+
+// Sort-Tile-Recursive grouping: vertical slices by x, then runs by y
+function tile<E extends { bbox: BBox }>(items: E[], nodeSize: number): E[][] {
+  if (items.length === 0) return [];
+  const sliceCount = Math.ceil(Math.sqrt(items.length / nodeSize));
+  const sliceSize = Math.ceil(items.length / sliceCount);
+  const byX = [...items].sort((a, b) => a.bbox[0] + a.bbox[2] - b.bbox[0] - b.bbox[2]);
+  const groups: E[][] = [];
+  for (let i = 0; i < byX.length; i += sliceSize) {
+    const slice = byX.slice(i, i + sliceSize).sort((a, b) => a.bbox[1] + a.bbox[3] - b.bbox[1] - b.bbox[3]);
+    for (let j = 0; j < slice.length; j += nodeSize) {
+      groups.push(slice.slice(j, j + nodeSize));
+    }
+  }
+  return groups;
+}
+
+/**
+ * Static R-tree, bulk loaded with Sort-Tile-Recursive packing
+ */
+export class RTree<T> {
+  private root: RTreeNode<T>;
+
+  constructor(entries: Array<{ bbox: BBox; value: T }>, nodeSize: number = NODE_SIZE) {
+    let level: RTreeNode<T>[] = tile(entries, nodeSize).map(group => ({
+      bbox: union(group.map(e => e.bbox)),
+      children: [],
+      entries: group,
+    }));
+    while (level.length > 1) {
+      level = tile(level, nodeSize).map(group => ({
+        bbox: union(group.map(n => n.bbox)),
+        children: group,
+        entries: [],
+      }));
+    }
+    this.root = level[0] ?? { bbox: union([]), children: [], entries: [] };
+  }
+
+  search(bbox: BBox): T[] {
+    const found: T[] = [];
+    const stack = [this.root];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (!intersects(node.bbox, bbox)) continue;
+      for (const entry of node.entries) {
+        if (intersects(entry.bbox, bbox)) found.push(entry.value);
+      }
+      stack.push(...node.children);
+    }
+    return found;
+  }
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+interface LandEdge {
+  polygon: number;
+  a: number[]; // [lon, lat]
+  b: number[];
+  prev: number[]; // vertex before a, for offsetting a off the coast
+}
+
+export interface LandMask {
+  source: string;
+  names: string[]; // per polygon
+  edges: RTree<LandEdge>;
+}
+
+/**
+ * Index GeoJSON land polygons (holes included) for land tests
+ */
+export function buildLandMask(collection: LandFeatureCollection, source: string = 'geojson'): LandMask {
+  const names: string[] = [];
+  const entries: Array<{ bbox: BBox; value: LandEdge }> = [];
+
+  collection.features.forEach((feature, f) => {
+    const polygons = feature.geometry.type === 'Polygon'
+      ? [feature.geometry.coordinates]
+      : feature.geometry.coordinates;
+    for (const rings of polygons) {
+      const polygon = names.length;
+      names.push(feature.properties?.name ?? feature.properties?.featurecla ?? `Land ${f + 1}`);
+      for (const ring of rings) {
+        const closed = ring.length > 1 &&
+          ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1];
+        const n = closed ? ring.length - 1 : ring.length;
+        for (let i = 0; i < n; i++) {
+          const a = ring[i];
+          const b = ring[(i + 1) % n];
+          entries.push({
+            bbox: [Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[0], b[0]), Math.max(a[1], b[1])],
+            value: { polygon, a, b, prev: ring[(i - 1 + n) % n] },
+          });
+        }
+      }
+    }
+  });
+
+  return { source, names, edges: new RTree(entries) };
+}
+
+/**
+ * Load a GeoJSON land file, e.g. Natural Earth ne_10m_land exported to GeoJSON
+ */
+export async function loadLandMaskFile(path: string): Promise<LandMask> {
+  const collection = JSON.parse(await readFile(path, 'utf8')) as LandFeatureCollection;
+  return buildLandMask(collection, `file:${path}`);
+}
+
+let activeLandMask: LandMask | null = null;
+let landMaskFile: Promise<LandMask> | null = null;
+
+/**
+ * Land mask in use - the bundled extract until LAND_MASK_FILE has loaded
+ */
+export function getLandMask(): LandMask {
+  if (!activeLandMask) {
+    activeLandMask = buildLandMask(bundledCoastline as LandFeatureCollection, 'bundled:ne_10m_land_gulf+osm_islands');
+  }
+  return activeLandMask;
+}
+
+/**
+ * Load LAND_MASK_FILE once and make it the active mask; call before routing
+ */
+export async function prepareLandMask(): Promise<LandMask> {
+  const path = process.env.LAND_MASK_FILE;
+  if (!path) return getLandMask();
+  if (!landMaskFile) {
+    landMaskFile = loadLandMaskFile(path).then(mask => (activeLandMask = mask));
+  }
+  return landMaskFile;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Name of the land polygon containing a point, or null over water
+ */
+export function landAreaAt(lat: number, lon: number, mask: LandMask = getLandMask()): string | null {
+  // Ray cast eastwards, tracking parity per polygon
+  const parity = new Map<number, boolean>();
+  for (const edge of mask.edges.search([lon, lat, Infinity, lat])) {
+    const [x1, y1] = edge.a;
+    const [x2, y2] = edge.b;
+    if ((y1 > lat) !== (y2 > lat) && lon < ((x2 - x1) * (lat - y1)) / (y2 - y1) + x1) {
+      parity.set(edge.polygon, !parity.get(edge.polygon));
+    }
+  }
+  for (const [polygon, inside] of parity) {
+    if (inside) return mask.names[polygon];
+  }
+  return null;
+}
+
+// Position along p→q where it meets edge a→b, or null
+function intersectionParam(p: number[], q: number[], a: number[], b: number[]): number | null {
+  const rx = q[0] - p[0];
+  const ry = q[1] - p[1];
+  const sx = b[0] - a[0];
+  const sy = b[1] - a[1];
+  const denom = rx * sy - ry * sx;
+  if (denom === 0) return null; // parallel - overlap is caught by the midpoint tests
+  const t = ((a[0] - p[0]) * sy - (a[1] - p[1]) * sx) / denom;
+  const u = ((a[0] - p[0]) * ry - (a[1] - p[1]) * rx) / denom;
+  return t >= 0 && t <= 1 && u >= 0 && u <= 1 ? t : null;
+}
+
+/**
+ * Exact stretches of a leg that lie over land
+ * Land within endpointAllowanceNm of either end is ignored so legs can start
+ * and finish at berths on the coastline.
+ */
+export function findLandCrossings(
+  from: Point,
+  to: Point,
+  options: { endpointAllowanceNm?: number } = {},
+  mask: LandMask = getLandMask()
+): LandCrossing[] {
+  const allowance = options.endpointAllowanceNm ?? DEFAULT_ENDPOINT_ALLOWANCE;
+  const p = [from.lon, from.lat];
+  const q = [to.lon, to.lat];
+  const bbox: BBox = [Math.min(p[0], q[0]), Math.min(p[1], q[1]), Math.max(p[0], q[0]), Math.max(p[1], q[1])];
+
+  const ts = [0, 1];
+  for (const edge of mask.edges.search(bbox)) {
+    const t = intersectionParam(p, q, edge.a, edge.b);
+    if (t !== null) ts.push(t);
+  }
+  ts.sort((a, b) => a - b);
+
+  const at = (t: number): Point => ({
+    lat: from.lat + (to.lat - from.lat) * t,
+    lon: from.lon + (to.lon - from.lon) * t,
+  });
+  const length = calculateDistanceNm(from.lat, from.lon, to.lat, to.lon);
+  const crossings: LandCrossing[] = [];
+  const close = (landArea: string, start: number, end: number) => {
+    const distance = length * (end - start);
+    if ((start === 0 || end === 1) && distance <= allowance) return;
+    crossings.push({ landArea, entry: at(start), exit: at(end), distance });
+  };
+
+  // Each stretch between intersections is wholly land or wholly water
+  let open: { landArea: string; start: number } | null = null;
+  for (let i = 0; i < ts.length - 1; i++) {
+    if (ts[i + 1] - ts[i] < 1e-12) continue;
+    const mid = at((ts[i] + ts[i + 1]) / 2);
+    const landArea = landAreaAt(mid.lat, mid.lon, mask);
+    if (open && landArea === open.landArea) continue;
+    if (open) close(open.landArea, open.start, ts[i]);
+    open = landArea ? { landArea, start: ts[i] } : null;
+  }
+  if (open) close(open.landArea, open.start, 1);
+
+  return crossings;
+}
+
+// Coastline vertex pushed off the coast along its outward bisector, or null
+// for reflex and straight vertices, which never lie on a shortest detour
+function offsetVertex(edge: LandEdge, clearance: number): Point | null {
+  const [x, y] = edge.a;
+  const unit = (dx: number, dy: number) => {
+    const len = Math.hypot(dx, dy) || 1;
+    return [dx / len, dy / len];
+  };
+  const u = unit(x - edge.prev[0], y - edge.prev[1]);
+  const v = unit(x - edge.b[0], y - edge.b[1]);
+  const dir = unit(u[0] + v[0], u[1] + v[1]);
+  if (Math.hypot(u[0] + v[0], u[1] + v[1]) < 1e-6) return null;
+  return { lat: y + dir[1] * clearance, lon: x + dir[0] * clearance };
+}
+
+/**
+ * Shortest water path between two points around land
+ * Searches a visibility graph over coastline vertices near the leg, widening
+ * the search area when needed. Returns the path including both ends, or null.
+ */
+export function planLandDetour(
+  from: Point,
+  to: Point,
+  options: { clearance?: number; endpointAllowanceNm?: number } = {},
+  mask: LandMask = getLandMask()
+): Point[] | null {
+  const clearance = options.clearance ?? DEFAULT_CLEARANCE;
+  const visible = (a: Point, b: Point) =>
+    findLandCrossings(a, b, { endpointAllowanceNm: options.endpointAllowanceNm }, mask).length === 0;
+  if (visible(from, to)) return [from, to];
+
+  for (const margin of CORRIDOR_MARGINS) {
+    const corridor: BBox = [
+      Math.min(from.lon, to.lon) - margin,
+      Math.min(from.lat, to.lat) - margin,
+      Math.max(from.lon, to.lon) + margin,
+      Math.max(from.lat, to.lat) + margin,
+    ];
+    const nodes: Point[] = [from, to];
+    const seen = new Set<string>();
+    for (const edge of mask.edges.search(corridor)) {
+      const key = `${edge.polygon}:${edge.a[0]},${edge.a[1]}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const node = offsetVertex(edge, clearance);
+      if (
+        node &&
+        node.lon >= corridor[0] && node.lon <= corridor[2] &&
+        node.lat >= corridor[1] && node.lat <= corridor[3] &&
+        !landAreaAt(node.lat, node.lon, mask)
+      ) {
+        nodes.push(node);
+      }
+    }
+
+    const path = shortestVisiblePath(nodes, visible);
+    if (path) return path;
+  }
+  return null;
+}
+
+// A* from nodes[0] to nodes[1]; visibility is only checked on edges that
+// would improve a node, which keeps the complete graph cheap
+function shortestVisiblePath(nodes: Point[], visible: (a: Point, b: Point) => boolean): Point[] | null {
+  const dist = (i: number, j: number) => calculateDistanceNm(nodes[i].lat, nodes[i].lon, nodes[j].lat, nodes[j].lon);
+  const g = nodes.map(() => Infinity);
+  const f = nodes.map(() => Infinity);
+  const prev = nodes.map(() => -1);
+  const closed = nodes.map(() => false);
+  g[0] = 0;
+  f[0] = dist(0, 1);
+
+  for (;;) {
+    let u = -1;
+    for (let i = 0; i < nodes.length; i++) {
+      if (!closed[i] && f[i] < Infinity && (u === -1 || f[i] < f[u])) u = i;
+    }
+    if (u === -1) return null;
+    if (u === 1) break;
+    closed[u] = true;
+    for (let v = 0; v < nodes.length; v++) {
+      if (closed[v] || v === u) continue;
+      const tentative = g[u] + dist(u, v);
+      if (tentative < g[v] && visible(nodes[u], nodes[v])) {
+        g[v] = tentative;
+        f[v] = tentative + dist(v, 1);
+        prev[v] = u;
+      }
+    }
+  }
+
+  const path: Point[] = [];
+  for (let i = 1; i !== -1; i = prev[i]) path.unshift(nodes[i]);
+  return path;
+}
@@ -57,13 +57,13 @@ export interface MultiStopOptimizationResult {
 // Distance Matrix
 // ============================================================================
 
-type DistanceMatrix = Map<string, Map<string, number>>;
+export type DistanceMatrix = Map<string, Map<string, number>>;
 
 /**
  * Build distance matrix between all stops using Datalastic sea routes
  * Falls back to great-circle distances if API unavailable
  */
-async function buildDistanceMatrix(
+export async function buildDistanceMatrix(
   stops: Stop[],
   useSeaRoutes: boolean = true
 ): Promise<DistanceMatrix> {
@@ -112,7 +112,7 @@ async function buildDistanceMatrix(
 /**
  * Get distance between two stops from the matrix
  */
-function getDistance(matrix: DistanceMatrix, fromId: string, toId: string): number {
+export function getDistance(matrix: DistanceMatrix, fromId: string, toId: string): number {
   return matrix.get(fromId)?.get(toId) ?? Infinity;
 }
 
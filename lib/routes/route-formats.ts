@@ -0,0 +1,623 @@
+/**
+ * Route Formats - RTZ, GPX and KML route exchange
+ *
+ * Serializes routes to IEC 61174 RTZ (the ECDIS route plan exchange format),
+ * GPX 1.1 and KML 2.2, and parses them back into waypoints with their leg
+ * plans. RTZ carries leg speeds, cross-track limits and turn radii; GPX keeps
+ * planned speeds in OpenCPN extensions and KML keeps everything in
+ * ExtendedData on the waypoint placemarks. Leg attributes always describe the
+ * leg arriving at a waypoint, as in RTZ.
+ *
+ * Imported routes are checked against the land mask and, with a draft, the
+ * under-keel clearance worked out for each segment.
+ */
+
+import { DEFAULT_MIN_UKC } from './bathymetry';
+import { findLandCrossings, landAreaAt } from './land-mask';
+import {
+  ImportedRoute,
+  Route,
+  RouteFileFormat,
+  RouteLegPlan,
+  RouteValidationIssue,
+  RouteValidationResult,
+  Waypoint,
+} from './types';
+
+const RTZ_NAMESPACE = 'http://www.cirm.org/RTZ/1/0';
+const GPX_NAMESPACE = 'http://www.topografix.com/GPX/1/1';
+const KML_NAMESPACE = 'http://www.opengis.net/kml/2.2';
+const OPENCPN_NAMESPACE = 'http://www.opencpn.org';
+
+export const ROUTE_FILE_CONTENT_TYPES: Record<RouteFileFormat, string> = {
+  rtz: 'application/xml',
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+};
+
+// ============================================================================
+// XML
+// ============================================================================
+
+interface XmlElement {
+  name: string; // local name, namespace prefix dropped
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const XML_TOKEN =
+  /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+const XML_ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    return String.fromCodePoint(
+      entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+    );
+  });
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Minimal XML parser for route files: elements, attributes, text and CDATA
+ */
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  XML_TOKEN.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = XML_TOKEN.exec(xml))) {
+    const [, cdata, closing, opening, attributeText, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (closing !== undefined) {
+      if (stack.length === 1 || current.name !== localName(closing)) {
+        throw new Error(`Malformed XML: unexpected </${closing}>`);
+      }
+      stack.pop();
+    } else if (opening !== undefined) {
+      const element: XmlElement = { name: localName(opening), attributes: {}, children: [], text: '' };
+      XML_ATTRIBUTE.lastIndex = 0;
+      let attribute: RegExpExecArray | null;
+      while ((attribute = XML_ATTRIBUTE.exec(attributeText))) {
+        element.attributes[localName(attribute[1])] = decodeEntities(attribute[2] ?? attribute[3]);
+      }
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    } else if (text !== undefined) {
+      current.text += decodeEntities(text);
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Malformed XML: <${stack[stack.length - 1].name}> is not closed`);
+  }
+  if (root.children.length !== 1) {
+    throw new Error('Malformed XML: expected a single root element');
+  }
+  return root.children[0];
+}
+
+function child(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find(c => c.name === name);
+}
+
+function childrenNamed(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element ? element.children.filter(c => c.name === name) : [];
+}
+
+// Depth-first, in document order
+function descendants(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  for (const c of element.children) {
+    if (c.name === name) found.push(c);
+    found.push(...descendants(c, name));
+  }
+  return found;
+}
+
+function childText(element: XmlElement | undefined, name: string): string | undefined {
+  const text = child(element, name)?.text.trim();
+  return text || undefined;
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function formatNumber(value: number, decimals: number): string {
+  return String(Math.round(value * 10 ** decimals) / 10 ** decimals);
+}
+
+function checkPosition(lat: number | undefined, lng: number | undefined, label: string): { lat: number; lng: number } {
+  if (lat === undefined || lng === undefined || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    throw new Error(`${label} has no valid position`);
+  }
+  return { lat, lng };
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+function routePoints(route: Route): Waypoint[] {
+  return [route.origin, ...route.waypoints, route.destination];
+}
+
+/**
+ * IEC 61174 RTZ 1.0 route plan
+ * Segment i's speed and cross-track limits go on the leg of waypoint i + 1.
+ */
+export function routeToRtz(route: Route): string {
+  const points = routePoints(route);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<route xmlns="${RTZ_NAMESPACE}" version="1.0">`,
+    `  <routeInfo routeName="${escapeXml(route.name)}" vesselName="${escapeXml(route.vesselName)}" />`,
+    '  <waypoints>',
+  ];
+
+  points.forEach((wp, i) => {
+    const radius = wp.turnRadius !== undefined ? ` radius="${formatNumber(wp.turnRadius, 2)}"` : '';
+    lines.push(`    <waypoint id="${i + 1}" name="${escapeXml(wp.name)}"${radius}>`);
+    lines.push(`      <position lat="${formatNumber(wp.lat, 6)}" lon="${formatNumber(wp.lng, 6)}" />`);
+    const segment = i > 0 ? route.segments[i - 1] : undefined;
+    if (segment) {
+      const attributes = [`geometryType="Loxodrome"`];
+      if (segment.xtdStarboard !== undefined) attributes.push(`starboardXTD="${formatNumber(segment.xtdStarboard, 3)}"`);
+      if (segment.xtdPort !== undefined) attributes.push(`portXTD="${formatNumber(segment.xtdPort, 3)}"`);
+      if (segment.plannedSpeed !== undefined) {
+        attributes.push(`speedMin="${formatNumber(segment.plannedSpeed, 1)}"`);
+        attributes.push(`speedMax="${formatNumber(segment.plannedSpeed, 1)}"`);
+      }
+      lines.push(`      <leg ${attributes.join(' ')} />`);
+    }
+    lines.push('    </waypoint>');
+  });
+  lines.push('  </waypoints>');
+
+  // Calculated schedule with the speed on each leg
+  lines.push('  <schedules>');
+  lines.push('    <schedule id="1" name="Planned">');
+  lines.push('      <calculated>');
+  points.forEach((_, i) => {
+    const segment = i > 0 ? route.segments[i - 1] : undefined;
+    const speed = segment && segment.estimatedTime > 0 ? segment.distance / segment.estimatedTime : undefined;
+    lines.push(
+      speed !== undefined
+        ? `        <scheduleElement waypointId="${i + 1}" speed="${formatNumber(speed, 1)}" />`
+        : `        <scheduleElement waypointId="${i + 1}" />`
+    );
+  });
+  lines.push('      </calculated>');
+  lines.push('    </schedule>');
+  lines.push('  </schedules>');
+  lines.push('</route>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * GPX 1.1 route, planned leg speeds in OpenCPN extensions
+ */
+export function routeToGpx(route: Route): string {
+  const points = routePoints(route);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="Fleet Route Planner" xmlns="${GPX_NAMESPACE}" xmlns:opencpn="${OPENCPN_NAMESPACE}">`,
+    '  <metadata>',
+    `    <name>${escapeXml(route.name)}</name>`,
+    `    <time>${new Date(route.createdAt).toISOString()}</time>`,
+    '  </metadata>',
+    '  <rte>',
+    `    <name>${escapeXml(route.name)}</name>`,
+  ];
+  if (route.vesselName) {
+    lines.push(`    <desc>${escapeXml(route.vesselName)}</desc>`);
+  }
+
+  points.forEach((wp, i) => {
+    lines.push(`    <rtept lat="${formatNumber(wp.lat, 6)}" lon="${formatNumber(wp.lng, 6)}">`);
+    lines.push(`      <name>${escapeXml(wp.name)}</name>`);
+    lines.push(`      <type>${wp.type}</type>`);
+    const speed = i > 0 ? route.segments[i - 1]?.plannedSpeed : undefined;
+    if (speed !== undefined) {
+      lines.push('      <extensions>');
+      lines.push(`        <opencpn:planned_speed>${formatNumber(speed, 1)}</opencpn:planned_speed>`);
+      lines.push('      </extensions>');
+    }
+    lines.push('    </rtept>');
+  });
+  lines.push('  </rte>');
+  lines.push('</gpx>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * KML 2.2 document: the track as a LineString plus one placemark per waypoint
+ */
+export function routeToKml(route: Route): string {
+  const points = routePoints(route);
+  const coordinates = points.map(wp => `${formatNumber(wp.lng, 6)},${formatNumber(wp.lat, 6)},0`).join(' ');
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<kml xmlns="${KML_NAMESPACE}">`,
+    '  <Document>',
+    `    <name>${escapeXml(route.name)}</name>`,
+    '    <Style id="route"><LineStyle><color>ffd18b1e</color><width>3</width></LineStyle></Style>',
+    '    <Placemark>',
+    `      <name>${escapeXml(route.name)}</name>`,
+    route.vesselName ? `      <description>${escapeXml(route.vesselName)}</description>` : '',
+    '      <styleUrl>#route</styleUrl>',
+    '      <LineString>',
+    '        <tessellate>1</tessellate>',
+    `        <coordinates>${coordinates}</coordinates>`,
+    '      </LineString>',
+    '    </Placemark>',
+    '    <Folder>',
+    '      <name>Waypoints</name>',
+  ].filter(Boolean);
+
+  points.forEach((wp, i) => {
+    const segment = i > 0 ? route.segments[i - 1] : undefined;
+    const data: Array<[string, number | undefined]> = [
+      ['speed', segment?.plannedSpeed],
+      ['xtdPort', segment?.xtdPort],
+      ['xtdStarboard', segment?.xtdStarboard],
+      ['turnRadius', wp.turnRadius],
+    ];
+    lines.push('      <Placemark>');
+    lines.push(`        <name>${escapeXml(wp.name)}</name>`);
+    const present = data.filter(([, value]) => value !== undefined);
+    if (present.length > 0) {
+      lines.push('        <ExtendedData>');
+      for (const [key, value] of present) {
+        lines.push(`          <Data name="${key}"><value>${formatNumber(value!, 3)}</value></Data>`);
+      }
+      lines.push('        </ExtendedData>');
+    }
+    lines.push(`        <Point><coordinates>${formatNumber(wp.lng, 6)},${formatNumber(wp.lat, 6)},0</coordinates></Point>`);
+    lines.push('      </Placemark>');
+  });
+  lines.push('    </Folder>');
+  lines.push('  </Document>');
+  lines.push('</kml>');
+  return lines.join('\n') + '\n';
+}
+
+export function serializeRoute(route: Route, format: RouteFileFormat): string {
+  switch (format) {
+    case 'rtz': return routeToRtz(route);
+    case 'gpx': return routeToGpx(route);
+    case 'kml': return routeToKml(route);
+  }
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+function finishImport(
+  format: RouteFileFormat,
+  name: string | undefined,
+  vesselName: string | undefined,
+  waypoints: ImportedRoute['waypoints'],
+  arrivalLegs: RouteLegPlan[] // leg arriving at each waypoint
+): ImportedRoute {
+  if (waypoints.length < 2) {
+    throw new Error(`${format.toUpperCase()} route needs at least two waypoints`);
+  }
+  return {
+    format,
+    name: name || `Imported ${format.toUpperCase()} route`,
+    vesselName,
+    waypoints,
+    legs: arrivalLegs.slice(1),
+  };
+}
+
+function legPlan(speed?: number, xtdPort?: number, xtdStarboard?: number): RouteLegPlan {
+  return {
+    ...(speed !== undefined && speed > 0 && { speed }),
+    ...(xtdPort !== undefined && { xtdPort }),
+    ...(xtdStarboard !== undefined && { xtdStarboard }),
+  };
+}
+
+/**
+ * IEC 61174 RTZ (1.0 or 1.1)
+ * Leg speed comes from speedMax/speedMin, else the calculated or manual
+ * schedule; the default waypoint supplies missing leg attributes.
+ */
+export function parseRtz(xml: string): ImportedRoute {
+  const root = parseXml(xml);
+  if (root.name !== 'route') throw new Error('Not an RTZ file: root element must be <route>');
+
+  const info = child(root, 'routeInfo');
+  const waypointsElement = child(root, 'waypoints');
+  const defaults = child(child(waypointsElement, 'defaultWaypoint'), 'leg')?.attributes ?? {};
+
+  const scheduleSpeeds = new Map<string, number>();
+  for (const schedule of childrenNamed(child(root, 'schedules'), 'schedule')) {
+    for (const kind of ['manual', 'calculated']) {
+      for (const element of childrenNamed(child(schedule, kind), 'scheduleElement')) {
+        const speed = toNumber(element.attributes.speed);
+        const id = element.attributes.waypointId;
+        if (speed !== undefined && id && !scheduleSpeeds.has(id)) scheduleSpeeds.set(id, speed);
+      }
+    }
+  }
+
+  const waypoints: ImportedRoute['waypoints'] = [];
+  const legs: RouteLegPlan[] = [];
+  childrenNamed(waypointsElement, 'waypoint').forEach((element, i) => {
+    const position = child(element, 'position')?.attributes ?? {};
+    const { lat, lng } = checkPosition(toNumber(position.lat), toNumber(position.lon), `RTZ waypoint ${i + 1}`);
+    const leg = { ...defaults, ...(child(element, 'leg')?.attributes ?? {}) };
+    const radius = toNumber(element.attributes.radius);
+
+    waypoints.push({
+      name: element.attributes.name || `WP ${i + 1}`,
+      lat,
+      lng,
+      ...(radius !== undefined && { turnRadius: radius }),
+    });
+    legs.push(legPlan(
+      toNumber(leg.speedMax) ?? toNumber(leg.speedMin) ?? scheduleSpeeds.get(element.attributes.id ?? ''),
+      toNumber(leg.portXTD),
+      toNumber(leg.starboardXTD)
+    ));
+  });
+
+  return finishImport('rtz', info?.attributes.routeName, info?.attributes.vesselName, waypoints, legs);
+}
+
+function gpxPoints(elements: XmlElement[], label: string): { waypoints: ImportedRoute['waypoints']; legs: RouteLegPlan[] } {
+  const waypoints: ImportedRoute['waypoints'] = [];
+  const legs: RouteLegPlan[] = [];
+  elements.forEach((element, i) => {
+    const { lat, lng } = checkPosition(toNumber(element.attributes.lat), toNumber(element.attributes.lon), `GPX ${label} ${i + 1}`);
+    const extensions = child(element, 'extensions');
+    waypoints.push({ name: childText(element, 'name') || `WP ${i + 1}`, lat, lng });
+    legs.push(legPlan(toNumber(childText(extensions, 'planned_speed'))));
+  });
+  return { waypoints, legs };
+}
+
+/**
+ * GPX 1.0/1.1: the first <rte>, else the first track, else loose waypoints
+ */
+export function parseGpx(xml: string): ImportedRoute {
+  const root = parseXml(xml);
+  if (root.name !== 'gpx') throw new Error('Not a GPX file: root element must be <gpx>');
+
+  const rte = child(root, 'rte');
+  if (rte) {
+    const { waypoints, legs } = gpxPoints(childrenNamed(rte, 'rtept'), 'route point');
+    return finishImport('gpx', childText(rte, 'name') ?? childText(child(root, 'metadata'), 'name'), childText(rte, 'desc'), waypoints, legs);
+  }
+
+  const trk = child(root, 'trk');
+  if (trk) {
+    const { waypoints, legs } = gpxPoints(
+      childrenNamed(trk, 'trkseg').flatMap(seg => childrenNamed(seg, 'trkpt')),
+      'track point'
+    );
+    return finishImport('gpx', childText(trk, 'name'), undefined, waypoints, legs);
+  }
+
+  const { waypoints, legs } = gpxPoints(childrenNamed(root, 'wpt'), 'waypoint');
+  return finishImport('gpx', childText(child(root, 'metadata'), 'name'), undefined, waypoints, legs);
+}
+
+function kmlCoordinates(text: string): Array<{ lat: number; lng: number }> {
+  return text
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((tuple, i) => {
+      const [lng, lat] = tuple.split(',').map(v => toNumber(v));
+      return checkPosition(lat, lng, `KML coordinate ${i + 1}`);
+    });
+}
+
+/**
+ * KML: the first LineString is the track; Point placemarks at its vertices
+ * supply waypoint names and ExtendedData leg attributes. Without a
+ * LineString the Point placemarks are taken in document order.
+ */
+export function parseKml(xml: string): ImportedRoute {
+  const root = parseXml(xml);
+  if (root.name !== 'kml') throw new Error('Not a KML file: root element must be <kml>');
+
+  const placemarks = descendants(root, 'Placemark');
+  const pointMarks = placemarks.flatMap(placemark => {
+    const point = child(placemark, 'Point');
+    if (!point) return [];
+    const [position] = kmlCoordinates(childText(point, 'coordinates') ?? '');
+    const data: Record<string, number | undefined> = {};
+    for (const element of childrenNamed(child(placemark, 'ExtendedData'), 'Data')) {
+      data[element.attributes.name] = toNumber(childText(element, 'value'));
+    }
+    return [{ name: childText(placemark, 'name'), ...position, data }];
+  });
+
+  const trackMark = placemarks.find(placemark => descendants(placemark, 'LineString').length > 0);
+  const track = trackMark
+    ? kmlCoordinates(childText(descendants(trackMark, 'LineString')[0], 'coordinates') ?? '')
+    : pointMarks;
+
+  const waypoints: ImportedRoute['waypoints'] = [];
+  const legs: RouteLegPlan[] = [];
+  track.forEach((position, i) => {
+    const mark = pointMarks.find(m => Math.abs(m.lat - position.lat) < 1e-6 && Math.abs(m.lng - position.lng) < 1e-6);
+    const data = mark?.data ?? {};
+    waypoints.push({
+      name: mark?.name || `WP ${i + 1}`,
+      lat: position.lat,
+      lng: position.lng,
+      ...(data.turnRadius !== undefined && { turnRadius: data.turnRadius }),
+    });
+    legs.push(legPlan(data.speed, data.xtdPort, data.xtdStarboard));
+  });
+
+  const documentName = childText(child(root, 'Document'), 'name');
+  return finishImport(
+    'kml',
+    documentName ?? (trackMark && childText(trackMark, 'name')),
+    trackMark && childText(trackMark, 'description'),
+    waypoints,
+    legs
+  );
+}
+
+/**
+ * Format from a file name extension, falling back to the XML root element
+ */
+export function detectRouteFormat(content: string, fileName?: string): RouteFileFormat | null {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'rtz' || extension === 'gpx' || extension === 'kml') return extension;
+
+  const root = /<(?:[\w-]+:)?(route|gpx|kml)[\s>]/.exec(content.replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->/g, ''));
+  if (!root) return null;
+  return root[1] === 'route' ? 'rtz' : (root[1] as RouteFileFormat);
+}
+
+export function parseRouteFile(content: string, format: RouteFileFormat): ImportedRoute {
+  switch (format) {
+    case 'rtz': return parseRtz(content);
+    case 'gpx': return parseGpx(content);
+    case 'kml': return parseKml(content);
+  }
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+// Leg shifted sideways by `nm` (positive to starboard)
+function offsetLeg(
+  from: { lat: number; lng: number },
+  to: { lat: number; lng: number },
+  nm: number
+): [{ lat: number; lon: number }, { lat: number; lon: number }] {
+  const cosLat = Math.cos((((from.lat + to.lat) / 2) * Math.PI) / 180);
+  const dx = (to.lng - from.lng) * cosLat;
+  const dy = to.lat - from.lat;
+  const length = Math.hypot(dx, dy) || 1;
+  // Starboard of a course is the course vector rotated clockwise
+  const offLat = (-dx / length) * (nm / 60);
+  const offLng = (dy / length) * (nm / 60) / cosLat;
+  return [
+    { lat: from.lat + offLat, lon: from.lng + offLng },
+    { lat: to.lat + offLat, lon: to.lng + offLng },
+  ];
+}
+
+/**
+ * Check a route built from an imported plan
+ * Legs over land and interior waypoints on land are errors, as is any
+ * segment whose under-keel clearance (worked out when the route was built
+ * with a draft) is below minUKC. Land inside a leg's cross-track corridor
+ * and segments without depth coverage are warnings.
+ */
+export function validateImportedRoute(
+  route: Route,
+  options: { draft?: number; minUKC?: number } = {}
+): RouteValidationResult {
+  const issues: RouteValidationIssue[] = [];
+  const minUKC = options.minUKC ?? DEFAULT_MIN_UKC;
+
+  route.waypoints.forEach((wp, i) => {
+    const land = landAreaAt(wp.lat, wp.lng);
+    if (land) {
+      issues.push({
+        type: 'land',
+        severity: 'error',
+        segmentIndex: i,
+        message: `Waypoint "${wp.name}" is on land (${land})`,
+        lat: wp.lat,
+        lng: wp.lng,
+      });
+    }
+  });
+
+  route.segments.forEach((segment, i) => {
+    const from = { lat: segment.from.lat, lon: segment.from.lng };
+    const to = { lat: segment.to.lat, lon: segment.to.lng };
+    const label = `Leg ${i + 1} (${segment.from.name} → ${segment.to.name})`;
+
+    for (const crossing of findLandCrossings(from, to)) {
+      issues.push({
+        type: 'land',
+        severity: 'error',
+        segmentIndex: i,
+        message: `${label} crosses ${crossing.landArea} for ${crossing.distance.toFixed(1)} nm`,
+        lat: crossing.entry.lat,
+        lng: crossing.entry.lon,
+      });
+    }
+
+    // The corridor edges start beside the waypoints, so allow for the XTD too
+    for (const [side, xtd] of [['starboard', segment.xtdStarboard], ['port', segment.xtdPort]] as const) {
+      if (!xtd) continue;
+      const [a, b] = offsetLeg(segment.from, segment.to, side === 'starboard' ? xtd : -xtd);
+      const [crossing] = findLandCrossings(a, b, { endpointAllowanceNm: 2 + xtd });
+      if (crossing) {
+        issues.push({
+          type: 'xtd_corridor',
+          severity: 'warning',
+          segmentIndex: i,
+          message: `${label}: ${crossing.landArea} is inside the ${xtd} nm ${side} cross-track limit`,
+          lat: crossing.entry.lat,
+          lng: crossing.entry.lon,
+        });
+      }
+    }
+
+    if (options.draft) {
+      if (segment.minUKC === null || segment.minUKC === undefined) {
+        issues.push({
+          type: 'depth_unknown',
+          severity: 'warning',
+          segmentIndex: i,
+          message: `${label} has no depth coverage to check a ${options.draft} m draft`,
+        });
+      } else if (segment.minUKC < minUKC) {
+        issues.push({
+          type: 'draft',
+          severity: 'error',
+          segmentIndex: i,
+          message: `${label} leaves ${segment.minUKC.toFixed(2)} m under the keel at ${options.draft} m draft (minimum ${minUKC} m)`,
+        });
+      }
+    }
+  });
+
+  return { valid: !issues.some(issue => issue.severity === 'error'), issues };
+}
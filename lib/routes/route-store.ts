@@ -0,0 +1,94 @@
+/**
+ * Route Store - Saved routes in Supabase, or in memory when it is not configured
+ *
+ * Shared by the routes CRUD API and the import/export endpoints.
+ */
+
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import { Route } from './types';
+
+// Type assertion helper for routes table (not in generated types yet)
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const routesTable = () => supabase.from('routes' as any);
+
+// In-memory storage for routes when Supabase is not configured
+export const inMemoryRoutes: Map<string, Route> = new Map();
+
+/**
+ * Route in the routes table's column layout
+ */
+export function toDbRoute(route: Route) {
+  return {
+    id: route.id,
+    vessel_id: route.vesselId,
+    name: route.name,
+    origin: route.origin,
+    destination: route.destination,
+    waypoints: route.waypoints,
+    segments: route.segments,
+    total_distance: route.totalDistance,
+    estimated_time: route.estimatedTime,
+    fuel_consumption: route.fuelConsumption,
+    emissions: route.emissions,
+    average_speed: route.averageSpeed,
+    weather_risk: route.weatherRisk,
+    cost: route.cost,
+    status: route.status,
+    created_at: route.createdAt,
+  };
+}
+
+/**
+ * Route from a routes table row
+ */
+export function fromDbRoute(row: Record<string, unknown>): Route {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    vesselId: row.vessel_id as string,
+    vesselName: (row.vessel_name as string) || '',
+    origin: row.origin as Route['origin'],
+    destination: row.destination as Route['destination'],
+    waypoints: (row.waypoints as Route['waypoints']) || [],
+    segments: (row.segments as Route['segments']) || [],
+    totalDistance: Number(row.total_distance) || 0,
+    estimatedTime: Number(row.estimated_time) || 0,
+    fuelConsumption: Number(row.fuel_consumption) || 0,
+    emissions: (row.emissions as Route['emissions']) || { co2: 0, nox: 0, sox: 0 },
+    averageSpeed: Number(row.average_speed) || 0,
+    weatherRisk: Number(row.weather_risk) || 0,
+    cost: Number(row.cost) || 0,
+    createdAt: new Date(row.created_at as string),
+    status: (row.status as Route['status']) || 'planned',
+  };
+}
+
+/**
+ * Saved route by id, or null if there is none
+ */
+export async function getStoredRoute(id: string): Promise<Route | null> {
+  if (!isSupabaseConfigured) {
+    return inMemoryRoutes.get(id) ?? null;
+  }
+
+  const { data, error } = await routesTable().select('*').eq('id', id).single();
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw error;
+  }
+  return fromDbRoute(data as unknown as Record<string, unknown>);
+}
+
+/**
+ * Insert a route, returning it as stored
+ */
+export async function storeRoute(route: Route): Promise<Route> {
+  if (!isSupabaseConfigured) {
+    inMemoryRoutes.set(route.id, route);
+    return route;
+  }
+
+  const { data, error } = await routesTable().insert(toDbRoute(route)).select().single();
+  if (error) throw error;
+  return fromDbRoute(data as unknown as Record<string, unknown>);
+}
@@ -11,17 +11,20 @@
  * - Dynamic speed adjustment per segment
  */
 
-import { Route, RouteSegment, Waypoint, WeatherPoint } from './types';
+import { EmissionComplianceReport, Route, RouteSegment, Waypoint, WeatherPoint } from './types';
 import { 
   generateRoute, 
   VESSEL_PROFILES, 
   VesselProfile, 
+  calculateEmissions,
   fetchSeaRoute,
   getRouteWeatherForecast,
   assessWeatherRisk 
 } from './engine';
 import { calculateDistanceNm, calculateBearing } from '@/lib/datalastic';
 import { getWeatherAtLocation } from '@/lib/weather';
+import { DEFAULT_MIN_UKC } from './bathymetry';
+import { loadEtaModel, predictEta } from '@/lib/nmdc/eta';
 
 // ============================================================================
 // Types for Smart Optimization
@@ -65,14 +68,17 @@ export interface SmartOptimizationRequest {
     berthAvailable: boolean;
     expectedBerthTime?: Date;
     congestionLevel: 'low' | 'medium' | 'high';
+    predictBerthTime?: boolean; // without expectedBerthTime, use the ETA model's wait however short
   };
   
   // Environmental preferences
   preferences?: {
     avoidECA?: boolean;     // Avoid Emission Control Areas
+    includeProposedECAs?: boolean; // Treat proposed ECAs (e.g. Persian Gulf SECA) as in force
     maxWaveHeight?: number; // Max acceptable wave height (m)
     maxWindSpeed?: number;  // Max acceptable wind speed (knots)
     preferDaylight?: boolean; // Prefer arrival during day
+    minUnderKeelClearance?: number; // Min water under the keel (m), needs vesselState.draftMeters
   };
 }
 
@@ -108,6 +114,12 @@ export interface SmartOptimizationResult {
     estimatedArrival: Date;
     withinWindow: boolean;
     slackTime: number;      // Hours of buffer
+    predictedArrival: {     // From the ETA model trained on AIS history
+      eta: Date;
+      earliest: Date;       // 80% interval
+      latest: Date;
+      portWaitHours: number;
+    };
     virtualArrivalRecommended: boolean;
     virtualArrivalSavings?: {
       fuelSaved: number;
@@ -125,6 +137,9 @@ export interface SmartOptimizationResult {
     windEffect: number;         // Knots gained/lost from wind
   };
   
+  // Emission control areas crossed and where to switch fuel
+  emissionCompliance: EmissionComplianceReport | null;
+  
   // Recommendations
   recommendations: Array<{
     type: 'speed' | 'timing' | 'route' | 'fuel' | 'safety';
@@ -362,9 +377,15 @@ interface VirtualArrivalResult {
   reason: string;
 }
 
+// Predicted berth waits shorter than this are ordinary pilot boarding, not
+// worth slowing down for
+const VIRTUAL_ARRIVAL_MIN_WAIT_HOURS = 2;
+
 /**
  * Calculate Virtual Arrival optimization
- * When berth isn't ready, slow down instead of waiting at anchor
+ * When berth isn't ready, slow down instead of waiting at anchor.
+ * `predictedHours` is the expected passage time at normal speed, e.g. from
+ * the ETA model; without it the passage is run at `normalSpeed` throughout.
  */
 function calculateVirtualArrival(
   distanceRemaining: number,
@@ -372,17 +393,19 @@ function calculateVirtualArrival(
   currentTime: Date,
   berthAvailableTime: Date,
   fuelModel: FuelModel,
-  vesselProfile: VesselProfile
+  vesselProfile: VesselProfile,
+  predictedHours?: number
 ): VirtualArrivalResult {
-  const normalTravelTime = distanceRemaining / normalSpeed; // hours
+  const normalTravelTime = predictedHours ?? distanceRemaining / normalSpeed; // hours
   const normalArrival = new Date(currentTime.getTime() + normalTravelTime * 3600000);
   
   const timeUntilBerth = (berthAvailableTime.getTime() - currentTime.getTime()) / 3600000; // hours
   
   // If we'd arrive before berth is ready, we can slow down
   if (normalArrival < berthAvailableTime && timeUntilBerth > 0) {
-    // Calculate optimal speed to arrive just-in-time
-    const optimalSpeed = distanceRemaining / timeUntilBerth;
+    // Calculate optimal speed to arrive just-in-time, scaled from normal speed
+    // so losses the prediction allows for still apply when slower
+    const optimalSpeed = normalSpeed * (normalTravelTime / timeUntilBerth);
     
     // Clamp to minimum viable speed
     const adjustedSpeed = Math.max(fuelModel.minSpeed, optimalSpeed);
@@ -592,18 +615,28 @@ export async function smartOptimizeRoute(
     maxSpeed: vesselProfile.maxSpeed,
   };
   
+  // Calculate departure time
+  const departureTime = request.departureTime || new Date();
+  
+  // Draft-aware routing keeps off shoals the loaded vessel can't cross
+  const underKeelOptions = {
+    draft: request.vesselState?.draftMeters,
+    minUKC: request.preferences?.minUnderKeelClearance,
+    departureTime,
+    avoidECA: request.preferences?.avoidECA,
+    includeProposedECAs: request.preferences?.includeProposedECAs,
+  };
+  
   // Generate base route
   const baseRoute = await generateRoute(
     request.vesselId,
     request.vesselName,
     request.vesselType,
     request.origin,
-    request.destination
+    request.destination,
+    underKeelOptions
   );
   
-  // Calculate departure time
-  const departureTime = request.departureTime || new Date();
-  
   // Calculate time constraint if arrival window specified
   let totalAvailableTime: number | undefined;
   if (request.arrivalWindow) {
@@ -662,33 +695,51 @@ export async function smartOptimizeRoute(
     });
   }
   
+  // Compliant fuel premium scales with the optimized burn
+  const compliance = baseRoute.emissionCompliance;
+  const compliancePremium = compliance && baseRoute.fuelConsumption > 0
+    ? compliance.compliancePremium * (totalAdjustedFuel / baseRoute.fuelConsumption)
+    : 0;
+  
   // Create optimized route
   const optimizedRoute: Route = {
     ...baseRoute,
     segments: optimizedSegments,
     estimatedTime: cumulativeTime,
     fuelConsumption: totalAdjustedFuel,
-    emissions: {
-      co2: totalAdjustedFuel * vesselProfile.emissionFactors.co2PerLiter,
-      nox: totalAdjustedFuel * vesselProfile.emissionFactors.noxPerLiter,
-      sox: totalAdjustedFuel * vesselProfile.emissionFactors.soxPerLiter,
-    },
-    cost: totalAdjustedFuel * vesselProfile.fuelCostPerLiter,
+    emissions: calculateEmissions(totalAdjustedFuel, vesselProfile, compliance),
+    cost: totalAdjustedFuel * vesselProfile.fuelCostPerLiter + compliancePremium,
   };
   
   // Calculate estimated arrival
   const estimatedArrival = new Date(departureTime.getTime() + cumulativeTime * 3600000);
   
-  // Check Virtual Arrival optimization
+  // Arrival as the fleet's history says it goes, including the port wait
+  const etaPrediction = predictEta(await loadEtaModel(), {
+    vesselId: request.vesselId,
+    from: request.origin,
+    to: request.destination,
+    waypoints: baseRoute.waypoints,
+    departureTime,
+    nominalSpeed: vesselProfile.cruisingSpeed,
+  });
+  
+  // Check Virtual Arrival optimization: against the berth time when the port
+  // has given one, otherwise against the predicted wait when it is a real one
   let virtualArrivalResult: VirtualArrivalResult | undefined;
-  if (request.portConditions?.expectedBerthTime) {
+  const usePredictedBerth = request.portConditions?.predictBerthTime ||
+    etaPrediction.congestionDelayHours >= VIRTUAL_ARRIVAL_MIN_WAIT_HOURS;
+  const berthTime = request.portConditions?.expectedBerthTime ??
+    (usePredictedBerth && etaPrediction.congestionDelayHours > 0 ? etaPrediction.eta : undefined);
+  if (berthTime) {
     virtualArrivalResult = calculateVirtualArrival(
       baseRoute.totalDistance,
       vesselProfile.cruisingSpeed,
       departureTime,
-      request.portConditions.expectedBerthTime,
+      berthTime,
       fuelModel,
-      vesselProfile
+      vesselProfile,
+      etaPrediction.transitHours
     );
   }
   
@@ -736,6 +787,40 @@ export async function smartOptimizeRoute(
     });
   }
   
+  // Under-keel clearance: engine routing already avoids shoals where it can
+  const minUKC = underKeelOptions.minUKC ?? DEFAULT_MIN_UKC;
+  const shallowSegments = optimizedSegments.filter(s => s.minUKC != null && s.minUKC < minUKC);
+  if (shallowSegments.length > 0) {
+    const least = Math.min(...shallowSegments.map(s => s.minUKC as number));
+    recommendations.push({
+      type: 'safety',
+      priority: 'high',
+      title: 'Insufficient Under-Keel Clearance',
+      description: `${shallowSegments.length} leg(s) leave only ${least.toFixed(1)}m under the keel (minimum ${minUKC}m) - wait for high water or reduce draft`,
+    });
+  }
+  
+  // Emission control areas: switch fuel, or sail around when asked to
+  if (compliance && compliance.switchPoints.length > 0) {
+    const switches = compliance.switchPoints
+      .map(p => `${p.action === 'switch_to_compliant' ? 'to' : 'back to'} ${p.fuel} at ${p.distanceFromStart.toFixed(0)} nm`)
+      .join(', ');
+    const detour = compliance.detour;
+    const detourCheaper = detour?.feasible && compliance.recommendation === 'detour';
+    recommendations.push({
+      type: 'fuel',
+      priority: 'high',
+      title: 'Emission Control Area Fuel Switch',
+      description: `Route crosses ${[...new Set(compliance.crossings.map(c => c.name))].join(', ')} - switch ${switches}` +
+        (detourCheaper
+          ? `. Detouring ${detour!.extraDistance.toFixed(0)} nm around the zone is cheaper`
+          : ''),
+      potentialSavings: detourCheaper
+        ? { cost: compliance.compliant.fuelCost - detour!.scenario!.fuelCost }
+        : undefined,
+    });
+  }
+  
   // Current/wind insights
   if (Math.abs(totalCurrentEffect) > baseRoute.segments.length * 0.5) {
     const effect = totalCurrentEffect > 0 ? 'favorable' : 'unfavorable';
@@ -761,7 +846,7 @@ export async function smartOptimizeRoute(
     request.vesselType,
     request.origin,
     request.destination,
-    { speed: vesselProfile.maxSpeed, routeName: 'Fastest Route' }
+    { ...underKeelOptions, speed: vesselProfile.maxSpeed, routeName: 'Fastest Route' }
   );
   alternatives.push({
     name: 'Fastest Route',
@@ -781,7 +866,7 @@ export async function smartOptimizeRoute(
     request.vesselType,
     request.origin,
     request.destination,
-    { speed: vesselProfile.cruisingSpeed * 0.65, routeName: 'Most Economical' }
+    { ...underKeelOptions, speed: vesselProfile.cruisingSpeed * 0.65, routeName: 'Most Economical' }
   );
   alternatives.push({
     name: 'Most Economical',
@@ -820,6 +905,12 @@ export async function smartOptimizeRoute(
       slackTime: request.arrivalWindow 
         ? (request.arrivalWindow.latest.getTime() - estimatedArrival.getTime()) / 3600000
         : 0,
+      predictedArrival: {
+        eta: etaPrediction.eta,
+        earliest: etaPrediction.earliest,
+        latest: etaPrediction.latest,
+        portWaitHours: etaPrediction.congestionDelayHours,
+      },
       virtualArrivalRecommended: virtualArrivalResult?.recommended ?? false,
       virtualArrivalSavings: virtualArrivalResult?.recommended ? {
         fuelSaved: virtualArrivalResult.fuelSaved,
@@ -834,6 +925,7 @@ export async function smartOptimizeRoute(
       currentAssist: totalCurrentEffect / baseRoute.segments.length,
       windEffect: totalWindEffect / baseRoute.segments.length,
     },
+    emissionCompliance: compliance ?? null,
     recommendations,
     alternatives,
   };
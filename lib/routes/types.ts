@@ -1,11 +1,14 @@
 // Route Optimization Types
 
+import { FuelType } from '@/lib/types/maritime';
+
 export interface Waypoint {
   id: string;
   name: string;
   lat: number;
   lng: number;
   type: 'origin' | 'destination' | 'waypoint' | 'port' | 'avoid';
+  turnRadius?: number; // nm, from imported route plans
 }
 
 export interface RouteSegment {
@@ -16,6 +19,10 @@ export interface RouteSegment {
   estimatedTime: number; // hours
   fuelConsumption: number; // liters
   weatherRisk: number; // 0-100
+  minUKC?: number | null; // meters, null where the depth grid has no coverage
+  plannedSpeed?: number; // knots, where the route plan sets a leg speed
+  xtdPort?: number; // nm cross-track limit to port
+  xtdStarboard?: number; // nm cross-track limit to starboard
 }
 
 export interface Route {
@@ -40,6 +47,7 @@ export interface Route {
   cost: number;
   createdAt: Date;
   status: 'planned' | 'active' | 'completed';
+  emissionCompliance?: EmissionComplianceReport;
 }
 
 export interface RouteOptimizationRequest {
@@ -110,17 +118,251 @@ export interface FuelCalculation {
   totalCost: number;
 }
 
+// ============================================================================
+// Gridded Forecasts & Weather Routing
+// ============================================================================
 
+// Hourly point forecast in the shape Open-Meteo returns per coordinate
+export interface OpenMeteoForecastPoint {
+  latitude: number;
+  longitude: number;
+  hourly_units?: Record<string, string>;
+  hourly: {
+    time: string[];
+    wind_speed_10m: (number | null)[];
+    wind_direction_10m: (number | null)[];
+    wave_height: (number | null)[];
+    wave_direction: (number | null)[];
+    ocean_current_velocity?: (number | null)[];
+    ocean_current_direction?: (number | null)[];
+  };
+}
 
+export interface ForecastFrame {
+  // Row-major over the grid (row = latitude index, col = longitude index)
+  windSpeed: number[]; // knots
+  windDirection: number[]; // degrees, from
+  waveHeight: number[]; // meters
+  waveDirection: number[]; // degrees, from
+  currentSpeed: number[]; // knots
+  currentDirection: number[]; // degrees, towards
+}
 
+export interface ForecastGrid {
+  source: string;
+  latMin: number;
+  lonMin: number;
+  resolution: number; // degrees
+  rows: number;
+  cols: number;
+  times: Date[];
+  frames: ForecastFrame[];
+}
 
+export interface ForecastSample {
+  windSpeed: number;
+  windDirection: number;
+  waveHeight: number;
+  waveDirection: number;
+  currentSpeed: number;
+  currentDirection: number;
+}
 
+export interface WeatherRoutingOptions {
+  vesselType?: string;
+  speed?: number; // knots through the water, defaults to cruising speed
+  departureTime?: Date;
+  maxWaveHeight?: number; // meters; cells above this are impassable
+  maxWindSpeed?: number; // knots; cells above this are impassable
+  maxWaitHours?: number; // longest the vessel may hold position for weather
+  resolution?: number; // search lattice spacing in degrees
+}
 
+export interface WeatherRoutingLeg {
+  from: { lat: number; lon: number };
+  to: { lat: number; lon: number };
+  departure: Date;
+  arrival: Date;
+  distance: number; // nm
+  heading: number;
+  speedOverGround: number;
+  windSpeed: number;
+  waveHeight: number;
+  waitHours: number;
+  fuelLiters: number;
+  blocked?: boolean;
+}
 
+export interface WeatherRoutingResult {
+  waypoints: Array<{ lat: number; lon: number; eta: Date }>;
+  legs: WeatherRoutingLeg[];
+  distance: number;
+  departure: Date;
+  arrival: Date;
+  durationHours: number;
+  waitHours: number;
+  fuelLiters: number;
+  maxWaveHeight: number;
+  maxWindSpeed: number;
+  // Furthest reach at fixed intervals after departure, one point per bearing sector
+  isochrones: Array<{ hoursFromDeparture: number; points: Array<{ lat: number; lon: number }> }>;
+  forecastSource: string;
+}
+
+
+// ============================================================================
+// Bathymetry & Under-Keel Clearance
+// ============================================================================
 
+// Regular depth grid, row 0 at latMin; depths in meters below mean sea level,
+// zero or less on land, NaN where the source has no data
+export interface BathymetryGrid {
+  source: string;
+  latMin: number;
+  lonMin: number;
+  cellSize: number; // degrees
+  rows: number;
+  cols: number;
+  depths: Float32Array;
+}
 
+// Harmonic tidal constituent, heights relative to mean sea level
+export interface TidalConstituent {
+  name: string;
+  amplitude: number; // m
+  speed: number; // degrees per hour
+  phase: number; // degrees, relative to 2000-01-01T00:00Z
+}
 
+export interface TideModel {
+  station: string;
+  constituents: TidalConstituent[];
+}
 
+export interface UnderKeelConstraint {
+  draft: number; // m
+  minUKC: number; // m
+  bathymetry: BathymetryGrid;
+  tide?: TideModel;
+  // Without a departure time the lowest astronomical tide is assumed
+  departureTime?: Date;
+  speed?: number; // knots, for tide timing along the route
+}
 
+export interface UnderKeelResult {
+  minUKC: number;
+  lat: number;
+  lon: number;
+  depth: number;
+  tide: number;
+}
 
+// ============================================================================
+// Emission Control Areas & Fuel Switching
+// ============================================================================
 
+export interface EmissionZoneCrossing {
+  zoneId: string;
+  name: string;
+  status: 'in_force' | 'proposed';
+  maxSulfurPercent: number;
+  entry: { lat: number; lng: number; distanceFromStart: number } | null; // null if the voyage starts inside
+  exit: { lat: number; lng: number; distanceFromStart: number } | null; // null if it ends inside
+  distanceInside: number; // nm
+}
+
+export interface FuelSwitchPoint {
+  action: 'switch_to_compliant' | 'switch_to_main';
+  fuel: FuelType;
+  lat: number;
+  lng: number;
+  distanceFromStart: number; // nm
+  eta?: Date;
+  zoneId: string;
+  note: string;
+}
+
+export interface FuelScenario {
+  distance: number; // nm
+  fuelLiters: { main: number; compliant: number };
+  fuelCost: number; // USD
+  emissions: { co2: number; nox: number; sox: number }; // kg
+}
+
+export interface EmissionComplianceReport {
+  mainFuel: FuelType;
+  compliantFuel: FuelType;
+  crossings: EmissionZoneCrossing[];
+  switchPoints: FuelSwitchPoint[];
+  compliantDistance: number; // nm sailed on compliant fuel, including changeover
+  compliantShare: number; // 0-1 of route distance
+  nonCompliant: FuelScenario; // main fuel throughout, for reference
+  compliant: FuelScenario; // switching fuel at the switch points
+  compliancePremium: number; // USD over burning main fuel throughout
+  detour: {
+    feasible: boolean;
+    reason?: string;
+    waypoints: Array<{ lat: number; lng: number }>;
+    extraDistance: number; // nm
+    scenario?: FuelScenario;
+  } | null;
+  recommendation: 'none' | 'switch_fuel' | 'detour';
+}
+
+// ============================================================================
+// Land Mask
+// ============================================================================
+
+// GeoJSON subset used by Natural Earth land / minor islands exports
+export interface LandFeatureCollection {
+  type: 'FeatureCollection';
+  features: Array<{
+    type: 'Feature';
+    properties?: { name?: string; featurecla?: string; scalerank?: number } | null;
+    geometry:
+      | { type: 'Polygon'; coordinates: number[][][] } // rings of [lon, lat]
+      | { type: 'MultiPolygon'; coordinates: number[][][][] };
+  }>;
+}
+
+export interface LandCrossing {
+  landArea: string;
+  entry: { lat: number; lon: number }; // where the leg reaches land
+  exit: { lat: number; lon: number }; // where it is back in water
+  distance: number; // nm over land
+}
+
+// ============================================================================
+// Route Exchange (RTZ / GPX / KML)
+// ============================================================================
+
+export type RouteFileFormat = 'rtz' | 'gpx' | 'kml';
+
+// Leg attributes carried by route files, for the leg from waypoint i to i + 1
+export interface RouteLegPlan {
+  speed?: number; // knots
+  xtdPort?: number; // nm
+  xtdStarboard?: number; // nm
+}
+
+export interface ImportedRoute {
+  format: RouteFileFormat;
+  name: string;
+  vesselName?: string;
+  waypoints: Array<{ name: string; lat: number; lng: number; turnRadius?: number }>;
+  legs: RouteLegPlan[]; // one per leg, waypoints.length - 1
+}
+
+export interface RouteValidationIssue {
+  type: 'land' | 'xtd_corridor' | 'draft' | 'depth_unknown';
+  severity: 'error' | 'warning';
+  segmentIndex: number;
+  message: string;
+  lat?: number;
+  lng?: number;
+}
+
+export interface RouteValidationResult {
+  valid: boolean; // no errors; warnings are allowed
+  issues: RouteValidationIssue[];
+}
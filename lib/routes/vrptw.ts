@@ -0,0 +1,451 @@
+/**
+ * Fleet Routing - Vehicle routing with time windows (VRPTW)
+ *
+ * Assigns and sequences stops across several vessels:
+ * - Regret insertion builds the initial plan, respecting deck cargo,
+ *   cargo fuel and crew berth capacities
+ * - Relocate and 2-opt moves improve it
+ * - Time windows are soft: early vessels wait, late arrivals are allowed
+ *   but costed per hour and reported as violations
+ */
+
+import { Stop, DistanceMatrix, buildDistanceMatrix, getDistance } from './optimizer';
+import { VESSEL_PROFILES } from './engine';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FleetVessel {
+  id: string;
+  name: string;
+  vesselType: string;
+  speed?: number; // knots, defaults to the profile's cruising speed
+  start?: Stop; // defaults to the depot
+  availableFrom?: Date;
+  availableUntil?: Date; // must be back at the depot by then
+  capacity: {
+    deckCargo: number; // tonnes
+    fuel: number; // liters of cargo fuel for delivery
+    crewBerths: number; // passengers that can be carried
+  };
+}
+
+export interface FleetStop extends Stop {
+  serviceMinutes?: number;
+  demand?: {
+    deckCargo?: number; // tonnes
+    fuel?: number; // liters
+    crew?: number; // personnel on board for the run
+  };
+}
+
+export interface FleetRoutingRequest {
+  depot: Stop;
+  vessels: FleetVessel[];
+  stops: FleetStop[];
+  departureTime?: Date;
+  returnToDepot?: boolean;
+  latenessCostPerHour?: number; // USD
+  useSeaRoutes?: boolean;
+}
+
+export interface FleetVisit {
+  stop: FleetStop;
+  distanceFromPrevious: number; // nm
+  arrival: Date;
+  serviceStart: Date;
+  departure: Date;
+  waitMinutes: number;
+  lateMinutes: number;
+}
+
+export interface FleetVesselPlan {
+  vessel: FleetVessel;
+  visits: FleetVisit[];
+  distance: number; // nm
+  departure: Date;
+  returnTime: Date;
+  durationHours: number;
+  fuelBurn: number; // liters
+  fuelCost: number; // USD
+  latenessCost: number; // USD
+  load: { deckCargo: number; fuel: number; crew: number };
+  utilisation: { deckCargo: number; fuel: number; crewBerths: number }; // 0-1
+}
+
+export interface TimeWindowViolation {
+  vesselId: string;
+  stopId: string;
+  stopName: string;
+  windowEnd: Date;
+  arrival: Date;
+  lateMinutes: number;
+  cost: number;
+}
+
+export interface FleetRoutingResult {
+  plans: FleetVesselPlan[];
+  unassigned: Array<{ stop: FleetStop; reason: string }>;
+  violations: TimeWindowViolation[];
+  totals: {
+    distance: number;
+    fuelBurn: number;
+    fuelCost: number;
+    latenessCost: number;
+    totalCost: number;
+    lateMinutes: number;
+    vesselsUsed: number;
+  };
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_LATENESS_COST_PER_HOUR = 1500; // USD - platform standby while waiting on supplies
+const DEFAULT_SERVICE_MINUTES = 45;
+const MAX_IMPROVEMENT_ROUNDS = 50;
+const MINUTE_MS = 60000;
+
+// ============================================================================
+// Route Evaluation
+// ============================================================================
+
+interface Context {
+  matrix: DistanceMatrix;
+  depot: Stop;
+  departure: number; // ms
+  returnToDepot: boolean;
+  latenessCostPerMinute: number;
+}
+
+interface RouteEvaluation {
+  visits: FleetVisit[];
+  distance: number;
+  returnTime: number; // ms
+  lateMinutes: number;
+  returnLateMinutes: number;
+  fuelBurn: number;
+  fuelCost: number;
+  latenessCost: number;
+  cost: number;
+}
+
+function vesselProfile(vessel: FleetVessel) {
+  const profile = VESSEL_PROFILES[vessel.vesselType] || VESSEL_PROFILES.default;
+  return { ...profile, cruisingSpeed: vessel.speed ?? profile.cruisingSpeed };
+}
+
+function loadOf(stops: FleetStop[]) {
+  return stops.reduce(
+    (sum, s) => ({
+      deckCargo: sum.deckCargo + (s.demand?.deckCargo ?? 0),
+      fuel: sum.fuel + (s.demand?.fuel ?? 0),
+      crew: sum.crew + (s.demand?.crew ?? 0),
+    }),
+    { deckCargo: 0, fuel: 0, crew: 0 }
+  );
+}
+
+// Everything for the run is loaded at the depot, so capacity is checked on totals
+function fitsCapacity(vessel: FleetVessel, stops: FleetStop[]): boolean {
+  const load = loadOf(stops);
+  return (
+    load.deckCargo <= vessel.capacity.deckCargo &&
+    load.fuel <= vessel.capacity.fuel &&
+    load.crew <= vessel.capacity.crewBerths
+  );
+}
+
+/**
+ * Sail a sequence of stops and cost it: fuel for the distance plus lateness
+ */
+function evaluateRoute(ctx: Context, vessel: FleetVessel, stops: FleetStop[]): RouteEvaluation {
+  const profile = vesselProfile(vessel);
+  const start = vessel.start ?? ctx.depot;
+  let time = Math.max(ctx.departure, vessel.availableFrom?.getTime() ?? ctx.departure);
+  let previous: Stop = start;
+  let distance = 0;
+  let lateMinutes = 0;
+  const visits: FleetVisit[] = [];
+
+  for (const stop of stops) {
+    const leg = getDistance(ctx.matrix, previous.id, stop.id);
+    distance += leg;
+    const arrival = time + (leg / profile.cruisingSpeed) * 60 * MINUTE_MS;
+    const opens = stop.timeWindowStart?.getTime() ?? arrival;
+    const serviceStart = Math.max(arrival, opens);
+    const late = stop.timeWindowEnd ? Math.max(0, (serviceStart - stop.timeWindowEnd.getTime()) / MINUTE_MS) : 0;
+    lateMinutes += late;
+    time = serviceStart + (stop.serviceMinutes ?? DEFAULT_SERVICE_MINUTES) * MINUTE_MS;
+
+    visits.push({
+      stop,
+      distanceFromPrevious: leg,
+      arrival: new Date(arrival),
+      serviceStart: new Date(serviceStart),
+      departure: new Date(time),
+      waitMinutes: (serviceStart - arrival) / MINUTE_MS,
+      lateMinutes: late,
+    });
+    previous = stop;
+  }
+
+  if (ctx.returnToDepot && stops.length > 0) {
+    const leg = getDistance(ctx.matrix, previous.id, ctx.depot.id);
+    distance += leg;
+    time += (leg / profile.cruisingSpeed) * 60 * MINUTE_MS;
+  }
+
+  const returnLateMinutes = vessel.availableUntil
+    ? Math.max(0, (time - vessel.availableUntil.getTime()) / MINUTE_MS)
+    : 0;
+  const fuelBurn = distance * profile.fuelConsumptionRate;
+  const fuelCost = fuelBurn * profile.fuelCostPerLiter;
+  const latenessCost = (lateMinutes + returnLateMinutes) * ctx.latenessCostPerMinute;
+
+  return {
+    visits,
+    distance,
+    returnTime: time,
+    lateMinutes,
+    returnLateMinutes,
+    fuelBurn,
+    fuelCost,
+    latenessCost,
+    cost: fuelCost + latenessCost,
+  };
+}
+
+// ============================================================================
+// Construction & Improvement
+// ============================================================================
+
+/**
+ * Regret-2 insertion: repeatedly place the stop that would cost the most to
+ * leave until later, at its cheapest feasible position across the fleet
+ */
+function regretInsertion(
+  ctx: Context,
+  vessels: FleetVessel[],
+  stops: FleetStop[]
+): { routes: FleetStop[][]; unassigned: Array<{ stop: FleetStop; reason: string }> } {
+  const routes: FleetStop[][] = vessels.map(() => []);
+  const costs = vessels.map((v, i) => evaluateRoute(ctx, v, routes[i]).cost);
+  const pending = [...stops];
+  const unassigned: Array<{ stop: FleetStop; reason: string }> = [];
+
+  while (pending.length > 0) {
+    let pick: { index: number; vessel: number; position: number; regret: number } | null = null;
+
+    for (let s = 0; s < pending.length; s++) {
+      const stop = pending[s];
+      // Cheapest insertion per vessel
+      const options: Array<{ vessel: number; position: number; delta: number }> = [];
+      vessels.forEach((vessel, v) => {
+        if (!fitsCapacity(vessel, [...routes[v], stop])) return;
+        let best = { position: 0, delta: Infinity };
+        for (let p = 0; p <= routes[v].length; p++) {
+          const candidate = [...routes[v].slice(0, p), stop, ...routes[v].slice(p)];
+          const delta = evaluateRoute(ctx, vessel, candidate).cost - costs[v];
+          if (delta < best.delta) best = { position: p, delta };
+        }
+        options.push({ vessel: v, ...best });
+      });
+
+      if (options.length === 0) continue;
+      options.sort((a, b) => a.delta - b.delta);
+      // Stops only one vessel can take go first
+      const regret = options.length > 1 ? options[1].delta - options[0].delta : Infinity;
+      if (!pick || regret > pick.regret) {
+        pick = { index: s, vessel: options[0].vessel, position: options[0].position, regret };
+      }
+    }
+
+    if (!pick) {
+      for (const stop of pending) {
+        unassigned.push({ stop, reason: 'Demand exceeds the remaining capacity of every vessel' });
+      }
+      break;
+    }
+
+    const [stop] = pending.splice(pick.index, 1);
+    routes[pick.vessel].splice(pick.position, 0, stop);
+    costs[pick.vessel] = evaluateRoute(ctx, vessels[pick.vessel], routes[pick.vessel]).cost;
+  }
+
+  return { routes, unassigned };
+}
+
+/**
+ * Local search: move single stops between positions and vessels, and reverse
+ * sub-sequences within a route, taking any move that lowers total cost
+ */
+function improveRoutes(ctx: Context, vessels: FleetVessel[], routes: FleetStop[][]): FleetStop[][] {
+  const costs = vessels.map((v, i) => evaluateRoute(ctx, v, routes[i]).cost);
+
+  for (let round = 0; round < MAX_IMPROVEMENT_ROUNDS; round++) {
+    let improved = false;
+
+    // Relocate
+    for (let from = 0; from < routes.length; from++) {
+      for (let i = 0; i < routes[from].length; i++) {
+        const stop = routes[from][i];
+        const without = routes[from].filter((_, k) => k !== i);
+        const withoutCost = evaluateRoute(ctx, vessels[from], without).cost;
+
+        for (let to = 0; to < routes.length; to++) {
+          const base = to === from ? without : routes[to];
+          if (to !== from && !fitsCapacity(vessels[to], [...base, stop])) continue;
+          for (let p = 0; p <= base.length; p++) {
+            if (to === from && p === i) continue;
+            const candidate = [...base.slice(0, p), stop, ...base.slice(p)];
+            const candidateCost = evaluateRoute(ctx, vessels[to], candidate).cost;
+            const before = to === from ? costs[from] : costs[from] + costs[to];
+            const after = to === from ? candidateCost : withoutCost + candidateCost;
+            if (after < before - 0.01) {
+              routes[to] = candidate;
+              costs[to] = candidateCost;
+              if (to !== from) {
+                routes[from] = without;
+                costs[from] = withoutCost;
+              }
+              improved = true;
+              break;
+            }
+          }
+          if (improved) break;
+        }
+        if (improved) break;
+      }
+      if (improved) break;
+    }
+    if (improved) continue;
+
+    // 2-opt within each route
+    for (let v = 0; v < routes.length && !improved; v++) {
+      const route = routes[v];
+      for (let i = 0; i < route.length - 1 && !improved; i++) {
+        for (let j = i + 1; j < route.length; j++) {
+          const candidate = [...route.slice(0, i), ...route.slice(i, j + 1).reverse(), ...route.slice(j + 1)];
+          const candidateCost = evaluateRoute(ctx, vessels[v], candidate).cost;
+          if (candidateCost < costs[v] - 0.01) {
+            routes[v] = candidate;
+            costs[v] = candidateCost;
+            improved = true;
+            break;
+          }
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return routes;
+}
+
+// ============================================================================
+// Main Function
+// ============================================================================
+
+/**
+ * Plan a day's supply runs across the fleet
+ */
+export async function optimizeFleetRoutes(request: FleetRoutingRequest): Promise<FleetRoutingResult> {
+  const {
+    depot,
+    vessels,
+    stops,
+    returnToDepot = true,
+    latenessCostPerHour = DEFAULT_LATENESS_COST_PER_HOUR,
+    useSeaRoutes = true,
+  } = request;
+  const departure = request.departureTime ?? new Date();
+
+  const starts = vessels.map(v => v.start).filter((s): s is Stop => !!s && s.id !== depot.id);
+  const uniqueStarts = starts.filter((s, i) => starts.findIndex(t => t.id === s.id) === i);
+  console.log('[FleetRouting] Building distance matrix for', stops.length, 'stops and', vessels.length, 'vessels');
+  const matrix = await buildDistanceMatrix([depot, ...uniqueStarts, ...stops], useSeaRoutes);
+
+  const ctx: Context = {
+    matrix,
+    depot,
+    departure: departure.getTime(),
+    returnToDepot,
+    latenessCostPerMinute: latenessCostPerHour / 60,
+  };
+
+  const { routes: initial, unassigned } = regretInsertion(ctx, vessels, stops);
+  const routes = improveRoutes(ctx, vessels, initial);
+
+  const violations: TimeWindowViolation[] = [];
+  const plans: FleetVesselPlan[] = vessels.map((vessel, v) => {
+    const evaluation = evaluateRoute(ctx, vessel, routes[v]);
+    const load = loadOf(routes[v]);
+    const planDeparture = new Date(Math.max(ctx.departure, vessel.availableFrom?.getTime() ?? ctx.departure));
+
+    for (const visit of evaluation.visits) {
+      if (visit.lateMinutes > 0 && visit.stop.timeWindowEnd) {
+        violations.push({
+          vesselId: vessel.id,
+          stopId: visit.stop.id,
+          stopName: visit.stop.name,
+          windowEnd: visit.stop.timeWindowEnd,
+          arrival: visit.serviceStart,
+          lateMinutes: Math.round(visit.lateMinutes),
+          cost: Math.round(visit.lateMinutes * ctx.latenessCostPerMinute),
+        });
+      }
+    }
+    if (evaluation.returnLateMinutes > 0 && vessel.availableUntil) {
+      violations.push({
+        vesselId: vessel.id,
+        stopId: depot.id,
+        stopName: `${depot.name} (return)`,
+        windowEnd: vessel.availableUntil,
+        arrival: new Date(evaluation.returnTime),
+        lateMinutes: Math.round(evaluation.returnLateMinutes),
+        cost: Math.round(evaluation.returnLateMinutes * ctx.latenessCostPerMinute),
+      });
+    }
+
+    return {
+      vessel,
+      visits: evaluation.visits,
+      distance: evaluation.distance,
+      departure: planDeparture,
+      returnTime: new Date(evaluation.returnTime),
+      durationHours: (evaluation.returnTime - planDeparture.getTime()) / 3600000,
+      fuelBurn: evaluation.fuelBurn,
+      fuelCost: evaluation.fuelCost,
+      latenessCost: evaluation.latenessCost,
+      load,
+      utilisation: {
+        deckCargo: vessel.capacity.deckCargo > 0 ? load.deckCargo / vessel.capacity.deckCargo : 0,
+        fuel: vessel.capacity.fuel > 0 ? load.fuel / vessel.capacity.fuel : 0,
+        crewBerths: vessel.capacity.crewBerths > 0 ? load.crew / vessel.capacity.crewBerths : 0,
+      },
+    };
+  });
+
+  const sum = (pick: (p: FleetVesselPlan) => number) => plans.reduce((total, p) => total + pick(p), 0);
+  const fuelCost = sum(p => p.fuelCost);
+  const latenessCost = sum(p => p.latenessCost);
+
+  return {
+    plans,
+    unassigned,
+    violations,
+    totals: {
+      distance: sum(p => p.distance),
+      fuelBurn: sum(p => p.fuelBurn),
+      fuelCost,
+      latenessCost,
+      totalCost: fuelCost + latenessCost,
+      lateMinutes: violations.reduce((total, v) => total + v.lateMinutes, 0),
+      vesselsUsed: plans.filter(p => p.visits.length > 0).length,
+    },
+  };
+}
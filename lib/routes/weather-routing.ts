@@ -0,0 +1,499 @@
+/**
+ * Weather Routing - Time-dependent routing through a gridded forecast
+ *
+ * Searches a lat/lon lattice with time-dependent A*. The cost of each move is
+ * the sailing time under the wind, waves and current forecast for the moment
+ * the vessel gets there, using the smart optimizer's speed and resistance
+ * models, so the path changes with departure time. Cells above the wave or
+ * wind limits are impassable while the weather lasts; the vessel may hold
+ * position for a few hours to let it pass. The furthest reach at fixed
+ * intervals is returned as isochrones.
+ */
+
+import { calculateDistanceNm, calculateBearing } from '@/lib/datalastic';
+import { VESSEL_PROFILES, isPointOnLand } from './engine';
+import {
+  calculateWindEffect,
+  calculateWaveResistance,
+  calculateCurrentEffect,
+} from './smart-optimizer';
+import { forecastExtremes, sampleForecast } from './forecast-grid';
+import {
+  ForecastGrid,
+  WeatherRoutingLeg,
+  WeatherRoutingOptions,
+  WeatherRoutingResult,
+} from './types';
+
+const HOUR_MS = 3600000;
+
+const DEFAULT_MAX_WAVE_HEIGHT = 3.0; // m - supply vessel working limit
+const DEFAULT_MAX_WIND_SPEED = 30; // knots
+const DEFAULT_MAX_WAIT_HOURS = 12;
+const DEFAULT_RESOLUTION = 0.1; // degrees (~6 nm)
+const SEARCH_PADDING = 1.0; // degrees around origin/destination
+const MIN_SPEED_OVER_GROUND = 1; // knots
+const EVALUATION_STEP_NM = 6;
+
+const ISOCHRONE_STEP_HOURS = 6;
+const ISOCHRONE_SECTORS = 36;
+
+// Eight neighbours plus knight's moves, giving 16 headings
+const MOVES: Array<[number, number]> = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [1, -1], [-1, 1], [-1, -1],
+  [2, 1], [2, -1], [-2, 1], [-2, -1],
+  [1, 2], [1, -2], [-1, 2], [-1, -2],
+];
+
+interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+interface Limits {
+  maxWaveHeight: number;
+  maxWindSpeed: number;
+}
+
+interface LegEstimate {
+  distance: number;
+  heading: number;
+  hours: number;
+  speedOverGround: number;
+  windSpeed: number;
+  waveHeight: number;
+  blocked: boolean;
+}
+
+/**
+ * Sail one straight leg departing at a given time
+ * Conditions are sampled at the leg's midpoint and end, at the times the
+ * vessel gets there.
+ */
+function estimateLeg(
+  grid: ForecastGrid,
+  from: LatLon,
+  to: LatLon,
+  departure: number,
+  speed: number,
+  limits: Limits
+): LegEstimate {
+  const distance = calculateDistanceNm(from.lat, from.lon, to.lat, to.lon);
+  const heading = calculateBearing(from.lat, from.lon, to.lat, to.lon);
+  const nominalHours = distance / speed;
+
+  const mid = sampleForecast(
+    grid,
+    (from.lat + to.lat) / 2,
+    (from.lon + to.lon) / 2,
+    new Date(departure + (nominalHours / 2) * HOUR_MS)
+  );
+  const end = sampleForecast(grid, to.lat, to.lon, new Date(departure + nominalHours * HOUR_MS));
+
+  // Wave resistance expects the direction the sea is running towards
+  const resistance = calculateWaveResistance(mid.waveHeight, heading, (mid.waveDirection + 180) % 360);
+  // At constant power, added resistance costs speed as its cube root (P ∝ V³)
+  const speedOverGround = Math.max(
+    MIN_SPEED_OVER_GROUND,
+    speed / Math.cbrt(resistance) +
+      calculateWindEffect(heading, mid.windSpeed, mid.windDirection) +
+      calculateCurrentEffect(heading, mid.currentSpeed, mid.currentDirection)
+  );
+
+  const waveHeight = Math.max(mid.waveHeight, end.waveHeight);
+  const windSpeed = Math.max(mid.windSpeed, end.windSpeed);
+
+  return {
+    distance,
+    heading,
+    hours: distance / speedOverGround,
+    speedOverGround,
+    windSpeed,
+    waveHeight,
+    blocked: waveHeight > limits.maxWaveHeight || windSpeed > limits.maxWindSpeed,
+  };
+}
+
+function resolveVessel(options: WeatherRoutingOptions) {
+  const profile = VESSEL_PROFILES[options.vesselType ?? 'supply_vessel'] || VESSEL_PROFILES.default;
+  const speed = options.speed ?? profile.cruisingSpeed;
+  // Constant-power running: hourly burn is fixed by the speed through the water
+  const fuelPerHour = profile.fuelConsumptionRate * speed * (speed / profile.cruisingSpeed) ** 2;
+  return { speed, fuelPerHour };
+}
+
+function resolveLimits(options: WeatherRoutingOptions): Limits {
+  return {
+    maxWaveHeight: options.maxWaveHeight ?? DEFAULT_MAX_WAVE_HEIGHT,
+    maxWindSpeed: options.maxWindSpeed ?? DEFAULT_MAX_WIND_SPEED,
+  };
+}
+
+// Minimal binary heap keyed on the A* estimate
+class MinHeap {
+  private items: Array<[number, number]> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(key: number, value: number): void {
+    const items = this.items;
+    items.push([key, value]);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent][0] <= items[i][0]) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): number | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+    const top = items[0][1];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left][0] < items[smallest][0]) smallest = left;
+        if (right < items.length && items[right][0] < items[smallest][0]) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * Find the fastest passable route from origin to destination through the
+ * forecast. Returns null when no route avoids the weather limits within the
+ * allowed waiting time.
+ */
+export function routeThroughWeather(
+  origin: { lat: number; lng: number },
+  destination: { lat: number; lng: number },
+  grid: ForecastGrid,
+  options: WeatherRoutingOptions = {}
+): WeatherRoutingResult | null {
+  const { speed, fuelPerHour } = resolveVessel(options);
+  const limits = resolveLimits(options);
+  const maxWaitHours = options.maxWaitHours ?? DEFAULT_MAX_WAIT_HOURS;
+  const resolution = options.resolution ?? DEFAULT_RESOLUTION;
+  const departure = (options.departureTime ?? grid.times[0] ?? new Date()).getTime();
+
+  // Search lattice over the padded bounding box
+  const latMin = Math.floor((Math.min(origin.lat, destination.lat) - SEARCH_PADDING) / resolution) * resolution;
+  const lonMin = Math.floor((Math.min(origin.lng, destination.lng) - SEARCH_PADDING) / resolution) * resolution;
+  const rows = Math.ceil((Math.max(origin.lat, destination.lat) + SEARCH_PADDING - latMin) / resolution) + 1;
+  const cols = Math.ceil((Math.max(origin.lng, destination.lng) + SEARCH_PADDING - lonMin) / resolution) + 1;
+  const nodeCount = rows * cols;
+  const position = (node: number): LatLon => ({
+    lat: latMin + Math.floor(node / cols) * resolution,
+    lon: lonMin + (node % cols) * resolution,
+  });
+
+  const water = new Uint8Array(nodeCount);
+  for (let node = 0; node < nodeCount; node++) {
+    const p = position(node);
+    water[node] = isPointOnLand(p.lat, p.lon) ? 0 : 1;
+  }
+
+  const nearestWater = (lat: number, lon: number): number => {
+    let best = -1;
+    let bestDistance = Infinity;
+    for (let node = 0; node < nodeCount; node++) {
+      if (!water[node]) continue;
+      const p = position(node);
+      const d = calculateDistanceNm(lat, lon, p.lat, p.lon);
+      if (d < bestDistance) {
+        bestDistance = d;
+        best = node;
+      }
+    }
+    return best;
+  };
+
+  const start = nearestWater(origin.lat, origin.lng);
+  const goal = nearestWater(destination.lat, destination.lng);
+  if (start < 0 || goal < 0) return null;
+
+  // Admissible heuristic: best possible speed anywhere in the forecast
+  const extremes = forecastExtremes(grid);
+  const maxSpeedOverGround = speed + extremes.windSpeed * 0.03 + extremes.currentSpeed;
+  const goalPos = position(goal);
+  const heuristic = (node: number) => {
+    const p = position(node);
+    return (calculateDistanceNm(p.lat, p.lon, goalPos.lat, goalPos.lon) / maxSpeedOverGround) * HOUR_MS;
+  };
+
+  const arrival = new Float64Array(nodeCount).fill(Infinity);
+  const previous = new Int32Array(nodeCount).fill(-1);
+  const settled = new Uint8Array(nodeCount);
+  const legs = new Map<number, WeatherRoutingLeg>();
+
+  // Leg from the exact origin onto the lattice is sailed as-is
+  const startPos = position(start);
+  const firstLeg = estimateLeg(grid, { lat: origin.lat, lon: origin.lng }, startPos, departure, speed, limits);
+  arrival[start] = departure + firstLeg.hours * HOUR_MS;
+
+  const heap = new MinHeap();
+  heap.push(arrival[start] + heuristic(start), start);
+
+  while (heap.size > 0) {
+    const node = heap.pop()!;
+    if (settled[node]) continue;
+    settled[node] = 1;
+    if (node === goal) break;
+
+    const row = Math.floor(node / cols);
+    const col = node % cols;
+    const from = position(node);
+
+    for (const [dr, dc] of MOVES) {
+      const r = row + dr;
+      const c = col + dc;
+      if (r < 0 || r >= rows || c < 0 || c >= cols) continue;
+      const next = r * cols + c;
+      if (!water[next] || settled[next]) continue;
+
+      const to = position(next);
+      if (isPointOnLand((from.lat + to.lat) / 2, (from.lon + to.lon) / 2)) continue;
+
+      // Earliest departure within the waiting allowance that is passable
+      let leg: LegEstimate | null = null;
+      let waitHours = 0;
+      for (; waitHours <= maxWaitHours; waitHours++) {
+        const estimate = estimateLeg(grid, from, to, arrival[node] + waitHours * HOUR_MS, speed, limits);
+        if (!estimate.blocked) {
+          leg = estimate;
+          break;
+        }
+      }
+      if (!leg) continue;
+
+      const legDeparture = arrival[node] + waitHours * HOUR_MS;
+      const legArrival = legDeparture + leg.hours * HOUR_MS;
+      if (legArrival >= arrival[next]) continue;
+
+      arrival[next] = legArrival;
+      previous[next] = node;
+      legs.set(next, {
+        from,
+        to,
+        departure: new Date(legDeparture),
+        arrival: new Date(legArrival),
+        distance: leg.distance,
+        heading: leg.heading,
+        speedOverGround: leg.speedOverGround,
+        windSpeed: leg.windSpeed,
+        waveHeight: leg.waveHeight,
+        waitHours,
+        fuelLiters: leg.hours * fuelPerHour,
+      });
+      heap.push(legArrival + heuristic(next), next);
+    }
+  }
+
+  if (!settled[goal]) return null;
+
+  // Walk back from the goal, then add the lattice-to-destination leg
+  const path: number[] = [];
+  for (let node = goal; node !== -1; node = previous[node]) path.unshift(node);
+
+  const lastLeg = estimateLeg(
+    grid,
+    goalPos,
+    { lat: destination.lat, lon: destination.lng },
+    arrival[goal],
+    speed,
+    limits
+  );
+  const edgeLegs: WeatherRoutingLeg[] = [
+    {
+      from: { lat: origin.lat, lon: origin.lng },
+      to: startPos,
+      departure: new Date(departure),
+      arrival: new Date(arrival[start]),
+      distance: firstLeg.distance,
+      heading: firstLeg.heading,
+      speedOverGround: firstLeg.speedOverGround,
+      windSpeed: firstLeg.windSpeed,
+      waveHeight: firstLeg.waveHeight,
+      waitHours: 0,
+      fuelLiters: firstLeg.hours * fuelPerHour,
+    },
+    ...path.slice(1).map(node => legs.get(node)!),
+    {
+      from: goalPos,
+      to: { lat: destination.lat, lon: destination.lng },
+      departure: new Date(arrival[goal]),
+      arrival: new Date(arrival[goal] + lastLeg.hours * HOUR_MS),
+      distance: lastLeg.distance,
+      heading: lastLeg.heading,
+      speedOverGround: lastLeg.speedOverGround,
+      windSpeed: lastLeg.windSpeed,
+      waveHeight: lastLeg.waveHeight,
+      waitHours: 0,
+      fuelLiters: lastLeg.hours * fuelPerHour,
+    },
+  ].filter(leg => leg.distance > 0.01);
+
+  const mergedLegs = mergeStraightLegs(edgeLegs);
+  const arrivalTime = mergedLegs[mergedLegs.length - 1]?.arrival ?? new Date(departure);
+
+  return {
+    waypoints: [
+      { lat: origin.lat, lon: origin.lng, eta: new Date(departure) },
+      ...mergedLegs.map(leg => ({ lat: leg.to.lat, lon: leg.to.lon, eta: leg.arrival })),
+    ],
+    legs: mergedLegs,
+    distance: mergedLegs.reduce((sum, leg) => sum + leg.distance, 0),
+    departure: new Date(departure),
+    arrival: arrivalTime,
+    durationHours: (arrivalTime.getTime() - departure) / HOUR_MS,
+    waitHours: mergedLegs.reduce((sum, leg) => sum + leg.waitHours, 0),
+    fuelLiters: mergedLegs.reduce((sum, leg) => sum + leg.fuelLiters, 0),
+    maxWaveHeight: Math.max(0, ...mergedLegs.map(leg => leg.waveHeight)),
+    maxWindSpeed: Math.max(0, ...mergedLegs.map(leg => leg.windSpeed)),
+    isochrones: buildIsochrones(
+      { lat: origin.lat, lon: origin.lng },
+      departure,
+      arrivalTime.getTime(),
+      arrival,
+      settled,
+      position
+    ),
+    forecastSource: grid.source,
+  };
+}
+
+/**
+ * Sail a fixed route through the forecast without rerouting or waiting
+ * Used to show what the static shortest path would have run into.
+ */
+export function evaluateRouteThroughWeather(
+  waypoints: LatLon[],
+  grid: ForecastGrid,
+  options: WeatherRoutingOptions = {}
+): {
+  legs: WeatherRoutingLeg[];
+  durationHours: number;
+  fuelLiters: number;
+  maxWaveHeight: number;
+  maxWindSpeed: number;
+  blockedLegs: number;
+} {
+  const { speed, fuelPerHour } = resolveVessel(options);
+  const limits = resolveLimits(options);
+  const departure = (options.departureTime ?? grid.times[0] ?? new Date()).getTime();
+
+  const legs: WeatherRoutingLeg[] = [];
+  let time = departure;
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    const a = waypoints[i];
+    const b = waypoints[i + 1];
+    const pieces = Math.max(1, Math.ceil(calculateDistanceNm(a.lat, a.lon, b.lat, b.lon) / EVALUATION_STEP_NM));
+    for (let k = 0; k < pieces; k++) {
+      const from = { lat: a.lat + ((b.lat - a.lat) * k) / pieces, lon: a.lon + ((b.lon - a.lon) * k) / pieces };
+      const to = { lat: a.lat + ((b.lat - a.lat) * (k + 1)) / pieces, lon: a.lon + ((b.lon - a.lon) * (k + 1)) / pieces };
+      const leg = estimateLeg(grid, from, to, time, speed, limits);
+      legs.push({
+        from,
+        to,
+        departure: new Date(time),
+        arrival: new Date(time + leg.hours * HOUR_MS),
+        distance: leg.distance,
+        heading: leg.heading,
+        speedOverGround: leg.speedOverGround,
+        windSpeed: leg.windSpeed,
+        waveHeight: leg.waveHeight,
+        waitHours: 0,
+        fuelLiters: leg.hours * fuelPerHour,
+        blocked: leg.blocked,
+      });
+      time += leg.hours * HOUR_MS;
+    }
+  }
+
+  return {
+    legs,
+    durationHours: (time - departure) / HOUR_MS,
+    fuelLiters: legs.reduce((sum, leg) => sum + leg.fuelLiters, 0),
+    maxWaveHeight: Math.max(0, ...legs.map(leg => leg.waveHeight)),
+    maxWindSpeed: Math.max(0, ...legs.map(leg => leg.windSpeed)),
+    blockedLegs: legs.filter(leg => leg.blocked).length,
+  };
+}
+
+/**
+ * Join consecutive lattice moves that keep the same heading and don't wait
+ */
+function mergeStraightLegs(legs: WeatherRoutingLeg[]): WeatherRoutingLeg[] {
+  const merged: WeatherRoutingLeg[] = [];
+  for (const leg of legs) {
+    const last = merged[merged.length - 1];
+    if (last && leg.waitHours === 0 && Math.abs(last.heading - leg.heading) < 0.5) {
+      const hours = (leg.arrival.getTime() - last.departure.getTime()) / HOUR_MS - last.waitHours;
+      last.to = leg.to;
+      last.arrival = leg.arrival;
+      last.distance += leg.distance;
+      last.speedOverGround = last.distance / Math.max(hours, 1e-6);
+      last.windSpeed = Math.max(last.windSpeed, leg.windSpeed);
+      last.waveHeight = Math.max(last.waveHeight, leg.waveHeight);
+      last.fuelLiters += leg.fuelLiters;
+    } else {
+      merged.push({ ...leg });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Furthest settled lattice point per bearing sector at each interval
+ */
+function buildIsochrones(
+  origin: LatLon,
+  departure: number,
+  arrival: number,
+  arrivals: Float64Array,
+  settled: Uint8Array,
+  position: (node: number) => LatLon
+): WeatherRoutingResult['isochrones'] {
+  const reached: Array<{ time: number; sector: number; distance: number; point: LatLon }> = [];
+  for (let node = 0; node < arrivals.length; node++) {
+    if (!settled[node]) continue;
+    const point = position(node);
+    const bearing = calculateBearing(origin.lat, origin.lon, point.lat, point.lon);
+    reached.push({
+      time: arrivals[node],
+      sector: Math.floor(bearing / (360 / ISOCHRONE_SECTORS)) % ISOCHRONE_SECTORS,
+      distance: calculateDistanceNm(origin.lat, origin.lon, point.lat, point.lon),
+      point,
+    });
+  }
+
+  const isochrones: WeatherRoutingResult['isochrones'] = [];
+  for (let hours = ISOCHRONE_STEP_HOURS; departure + hours * HOUR_MS <= arrival; hours += ISOCHRONE_STEP_HOURS) {
+    const cutoff = departure + hours * HOUR_MS;
+    const furthest = new Map<number, { distance: number; point: LatLon }>();
+    for (const r of reached) {
+      if (r.time > cutoff) continue;
+      const current = furthest.get(r.sector);
+      if (!current || r.distance > current.distance) furthest.set(r.sector, r);
+    }
+    isochrones.push({
+      hoursFromDeparture: hours,
+      points: [...furthest.entries()].sort((a, b) => a[0] - b[0]).map(([, r]) => r.point),
+    });
+  }
+  return isochrones;
+}
@@ -6,12 +6,24 @@
  * 2. Weather impact on grid assets (heat stress, storms, cold snaps)
  * 3. DGA gas trending and transformer degradation
  * 4. AI-driven grid insights and alerts
+ * 5. Fleet movement and geofence events on the simulated clock
  */
 
 import { EXELON_ASSETS } from '@/lib/exelon/fleet';
 import { ASSET_ISSUES, getAssetIssueSummary } from '@/lib/asset-issues';
 import { TRANSFORMER_HEALTH_DATA } from '@/lib/datasets/transformer-health';
 import { getScenarioForAsset, DEMO_SCENARIOS } from '@/lib/demo-scenarios';
+import {
+  agingAccelerationFactor,
+  parseCoolingMode,
+  RATED_AMBIENT_TEMP,
+  stepThermalModel,
+  ultimateRises,
+  type CoolingMode,
+} from '@/lib/thermal';
+import { isSupabaseConfigured } from '@/lib/supabase';
+import { processGeofenceUpdates } from '@/lib/nmdc/geofences';
+import { advanceFleet } from './orchestrator';
 
 // ============================================================================
 // TYPES
@@ -57,8 +69,13 @@ interface AssetSnapshot {
   opCo: string;
   healthIndex: number;
   loadPercent: number;
+  coolingMode: CoolingMode;
+  topOilRise: number; // IEEE C57.91 state, °C over ambient
+  hotSpotRise: number; // °C over top oil
   topOilTemp: number;
   hotSpotTemp: number;
+  agingAccelerationFactor: number; // F_AA at the current hot spot
+  insulationAgingHours: number; // equivalent insulation life consumed since the simulation started
   tdcg: number;
   moisture: number;
   status: string;
@@ -108,17 +125,56 @@ const WEATHER_ZONES = [
   { name: 'DPL Delaware Valley', baseTemp: 37, baseWind: 10, baseHumidity: 57 },
 ];
 
+// Seasonal temperature adjustment (°F)
+function seasonalTemperatureOffset(month: number): number {
+  return month >= 5 && month <= 8 ? 30 : month >= 11 || month <= 2 ? -20 : 5;
+}
+
+// Diurnal variation (°F)
+function diurnalTemperatureOffset(hour: number): number {
+  return hour >= 12 && hour <= 16 ? 8 : hour >= 0 && hour <= 6 ? -5 : 0;
+}
+
+// Heat increases demand (AC load), cold increases demand (heating)
+function weatherLoadAdder(temperatureF: number): number {
+  let adder = 0;
+  if (temperatureF > 90) adder += 10;
+  if (temperatureF > 100) adder += 15;
+  if (temperatureF < 25) adder += 8;
+  return adder;
+}
+
+const WEATHER_NOISE_F = 3;
+const PEAK_HOUR_LOAD_MAX = 100;
+const DAY_HOUR_LOAD_MAX = 80;
+
+/**
+ * Worst-case afternoon ambient and peak loading for a calendar month under the
+ * simulator's weather and demand rules — the hottest zone on a hot afternoon,
+ * or the coldest zone on a cold morning when heating load is higher.
+ */
+export function seasonalPeakConditions(month: number): { ambientF: number; loadPercent: number } {
+  const hottest = Math.max(...WEATHER_ZONES.map(z => z.baseTemp));
+  const coldest = Math.min(...WEATHER_ZONES.map(z => z.baseTemp));
+  const ambientF = hottest + seasonalTemperatureOffset(month) + diurnalTemperatureOffset(15) + WEATHER_NOISE_F;
+  const morningF = coldest + seasonalTemperatureOffset(month) + diurnalTemperatureOffset(7) - WEATHER_NOISE_F;
+  return {
+    ambientF,
+    loadPercent: Math.max(
+      PEAK_HOUR_LOAD_MAX + weatherLoadAdder(ambientF),
+      DAY_HOUR_LOAD_MAX + weatherLoadAdder(morningF)
+    ),
+  };
+}
+
 function simulateWeather(): GridWeather {
   const hour = simulationState.simulatedTime.getHours();
   const month = simulationState.simulatedTime.getMonth();
   const zone = WEATHER_ZONES[Math.floor(Math.random() * WEATHER_ZONES.length)];
 
-  // Seasonal temperature adjustment (°F)
-  const seasonalOffset = month >= 5 && month <= 8 ? 30 : month >= 11 || month <= 2 ? -20 : 5;
-  // Diurnal variation
-  const diurnalOffset = hour >= 12 && hour <= 16 ? 8 : hour >= 0 && hour <= 6 ? -5 : 0;
-
-  const temperature = Math.round(zone.baseTemp + seasonalOffset + diurnalOffset + randomInRange(-3, 3));
+  const temperature = Math.round(
+    zone.baseTemp + seasonalTemperatureOffset(month) + diurnalTemperatureOffset(hour) + randomInRange(-WEATHER_NOISE_F, WEATHER_NOISE_F)
+  );
   const windSpeed = Math.round(zone.baseWind + randomInRange(-4, 6));
   const humidity = Math.round(clamp(zone.baseHumidity + randomInRange(-10, 10), 20, 100));
   const heatIndex = temperature > 80 ? temperature + (humidity / 100) * 15 : temperature;
@@ -169,15 +225,26 @@ function initializeSnapshots(): void {
   assetSnapshots = EXELON_ASSETS.map(asset => {
     const record = TRANSFORMER_HEALTH_DATA.filter(r => r.assetTag === asset.assetTag).pop();
     const summary = getAssetIssueSummary(asset.assetTag);
+    const loadPercent = record?.loadPercent ?? asset.loadFactor;
+    const coolingMode = parseCoolingMode(asset.coolingType) ?? 'ONAN';
+    // Start from steady state at the last recorded load and ambient
+    const ambientC = record?.ambientTemp ?? RATED_AMBIENT_TEMP;
+    const rises = ultimateRises(loadPercent / 100, coolingMode);
+    const hotSpotTemp = ambientC + rises.topOilRise + rises.hotSpotRise;
 
     return {
       assetTag: asset.assetTag,
       name: asset.name,
       opCo: asset.opCo,
       healthIndex: record?.healthIndex ?? asset.healthIndex,
-      loadPercent: record?.loadPercent ?? asset.loadFactor,
-      topOilTemp: record?.topOilTemp ?? 65,
-      hotSpotTemp: record?.windingHotSpot ?? 85,
+      loadPercent,
+      coolingMode,
+      topOilRise: rises.topOilRise,
+      hotSpotRise: rises.hotSpotRise,
+      topOilTemp: Math.round((ambientC + rises.topOilRise) * 10) / 10,
+      hotSpotTemp: Math.round(hotSpotTemp * 10) / 10,
+      agingAccelerationFactor: Math.round(agingAccelerationFactor(hotSpotTemp) * 1000) / 1000,
+      insulationAgingHours: 0,
       tdcg: record?.tdcg ?? 200,
       moisture: record?.moisture ?? 15,
       status: summary.hasCritical ? 'alarm' : asset.healthIndex < 50 ? 'watch' : 'normal',
@@ -198,11 +265,7 @@ function simulateLoadCycling(snapshot: AssetSnapshot, deltaHours: number, weathe
     loadTarget = 40 + randomInRange(0, 15); // Night hours (valley)
   }
 
-  // Heat increases demand (AC load)
-  if (weather.temperature > 90) loadTarget += 10;
-  if (weather.temperature > 100) loadTarget += 15;
-  // Cold increases demand (heating)
-  if (weather.temperature < 25) loadTarget += 8;
+  loadTarget += weatherLoadAdder(weather.temperature);
 
   // Smooth transition towards target
   const newLoad = clamp(
@@ -210,14 +273,13 @@ function simulateLoadCycling(snapshot: AssetSnapshot, deltaHours: number, weathe
     20, 120
   );
 
-  // Thermal follows load
+  // Thermal follows load per the IEEE C57.91 Clause 7 exponential model
   const ambientF = weather.temperature;
   const ambientC = (ambientF - 32) * 5 / 9;
-  const topOilBase = ambientC + 25 + (newLoad / 100) * 30;
-  const hotSpotBase = topOilBase + 10 + (newLoad / 100) * 15;
-
-  const newTopOil = clamp(snapshot.topOilTemp + (topOilBase - snapshot.topOilTemp) * 0.05 + randomInRange(-0.3, 0.3), 30, 110);
-  const newHotSpot = clamp(snapshot.hotSpotTemp + (hotSpotBase - snapshot.hotSpotTemp) * 0.05 + randomInRange(-0.5, 0.5), 40, 140);
+  const thermal = stepThermalModel(snapshot, newLoad / 100, deltaHours, snapshot.coolingMode);
+  const newTopOil = ambientC + thermal.topOilRise;
+  const newHotSpot = newTopOil + thermal.hotSpotRise;
+  const faa = agingAccelerationFactor(newHotSpot);
 
   // DGA gas trending (very slow)
   const gasRate = snapshot.healthIndex < 50 ? 0.5 : snapshot.healthIndex < 70 ? 0.2 : 0.05;
@@ -242,8 +304,12 @@ function simulateLoadCycling(snapshot: AssetSnapshot, deltaHours: number, weathe
   return {
     ...snapshot,
     loadPercent: Math.round(newLoad * 10) / 10,
+    topOilRise: thermal.topOilRise,
+    hotSpotRise: thermal.hotSpotRise,
     topOilTemp: Math.round(newTopOil * 10) / 10,
     hotSpotTemp: Math.round(newHotSpot * 10) / 10,
+    agingAccelerationFactor: Math.round(faa * 1000) / 1000,
+    insulationAgingHours: snapshot.insulationAgingHours + faa * deltaHours,
     tdcg: Math.round(newTDCG),
     moisture: Math.round(newMoisture * 10) / 10,
     healthIndex: Math.round(newHealth * 10) / 10,
@@ -283,12 +349,13 @@ function generateInsights(): GridAIInsight[] {
   // Thermal stress
   const thermalStress = assetSnapshots.filter(a => a.hotSpotTemp > 100);
   if (thermalStress.length > 0) {
+    const hottest = thermalStress.reduce((a, b) => (b.agingAccelerationFactor > a.agingAccelerationFactor ? b : a));
     insights.push({
       id: `insight-thermal-${Date.now()}`,
       type: 'forecast',
       severity: thermalStress.some(a => a.hotSpotTemp > 110) ? 'critical' : 'warning',
       title: 'Thermal Stress Advisory',
-      description: `${thermalStress.length} unit(s) operating above 100°C hot spot temperature. Sustained operation reduces insulation life per IEEE C57.91 loading guide.`,
+      description: `${thermalStress.length} unit(s) operating above 100°C hot spot temperature. ${hottest.name} is aging insulation at ${hottest.agingAccelerationFactor.toFixed(2)}× the normal rate per IEEE C57.91 (${hottest.insulationAgingHours.toFixed(1)} h of life consumed this session).`,
       affectedAssets: thermalStress.map(a => a.name),
       suggestedActions: [
         'Verify cooling system operation (fans, pumps, radiators)',
@@ -402,6 +469,7 @@ export async function runSimulationTick(): Promise<{
   simulatedSeconds: number;
   assetsUpdated: number;
   insights: GridAIInsight[];
+  geofenceEvents?: number;
   error?: string;
 }> {
   const now = Date.now();
@@ -437,12 +505,28 @@ export async function runSimulationTick(): Promise<{
       pendingInsights = [...newInsights, ...pendingInsights].slice(0, 10);
     }
 
+    // Move the fleet on the same clock, so geofence dwell times follow it
+    let geofenceEvents: number | undefined;
+    if (isSupabaseConfigured) {
+      try {
+        const { positions } = await advanceFleet(simulatedSeconds);
+        const geofences = await processGeofenceUpdates(
+          positions.map(p => ({ ...p, timestamp: simulationState.simulatedTime })),
+          'simulation'
+        );
+        geofenceEvents = geofences.events.length;
+      } catch (error) {
+        console.error('[Simulation] Fleet step failed:', error);
+      }
+    }
+
     return {
       success: true,
       tickNumber: simulationState.tickCount,
       simulatedSeconds,
       assetsUpdated: assetSnapshots.length,
       insights: newInsights,
+      geofenceEvents,
     };
   } catch (error) {
     return {
@@ -12,6 +12,7 @@
 import { createClient } from '@supabase/supabase-js';
 import { createAnthropic } from '@ai-sdk/anthropic';
 import { generateText } from 'ai';
+import type { VesselPositionUpdate } from '@/lib/nmdc/geofences';
 
 // Initialize clients
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co';
@@ -60,6 +61,7 @@ export interface SimulationEvent {
 interface Vessel {
   id: string;
   name: string;
+  mmsi?: string | null;
   type: string;
   status: string;
   position_lat: number;
@@ -429,6 +431,53 @@ Return ONLY valid JSON array.`;
 // MAIN ORCHESTRATOR
 // ============================================================================
 
+/**
+ * Move, fuel and wear every vessel by `simulatedSeconds` and save them
+ * Returns the vessels as read and their new positions, for callers that
+ * evaluate geofences on their own clock.
+ */
+export async function advanceFleet(simulatedSeconds: number): Promise<{
+  vessels: Vessel[];
+  positions: VesselPositionUpdate[];
+}> {
+  const { data: vessels, error: fetchError } = await supabase
+    .from('vessels')
+    .select('*');
+
+  if (fetchError || !vessels) {
+    throw new Error(`Failed to fetch vessels: ${fetchError?.message}`);
+  }
+
+  const updates = vessels.map((vessel: Vessel) => {
+    const movement = simulateVesselMovement(vessel, simulatedSeconds);
+    const fuel = simulateFuelConsumption(vessel, simulatedSeconds);
+    const equipment = simulateEquipmentDegradation(vessel, simulatedSeconds);
+
+    return {
+      id: vessel.id,
+      ...movement,
+      ...fuel,
+      ...equipment,
+      updated_at: new Date().toISOString(),
+    };
+  });
+
+  for (const update of updates) {
+    await supabase.from('vessels').update(update).eq('id', update.id);
+  }
+
+  return {
+    vessels,
+    positions: vessels.map((vessel: Vessel, i) => ({
+      vesselId: vessel.id,
+      mmsi: vessel.mmsi,
+      name: vessel.name,
+      lat: updates[i].position_lat ?? vessel.position_lat,
+      lng: updates[i].position_lng ?? vessel.position_lng,
+    })),
+  };
+}
+
 export async function runSimulationTick(): Promise<{
   success: boolean;
   tickNumber: number;
@@ -448,34 +497,7 @@ export async function runSimulationTick(): Promise<{
   );
 
   try {
-    // Fetch all vessels
-    const { data: vessels, error: fetchError } = await supabase
-      .from('vessels')
-      .select('*');
-
-    if (fetchError || !vessels) {
-      throw new Error(`Failed to fetch vessels: ${fetchError?.message}`);
-    }
-
-    // Update each vessel
-    const updates = vessels.map((vessel: Vessel) => {
-      const movement = simulateVesselMovement(vessel, simulatedSeconds);
-      const fuel = simulateFuelConsumption(vessel, simulatedSeconds);
-      const equipment = simulateEquipmentDegradation(vessel, simulatedSeconds);
-
-      return {
-        id: vessel.id,
-        ...movement,
-        ...fuel,
-        ...equipment,
-        updated_at: new Date().toISOString(),
-      };
-    });
-
-    // Batch update vessels
-    for (const update of updates) {
-      await supabase.from('vessels').update(update).eq('id', update.id);
-    }
+    const { vessels } = await advanceFleet(simulatedSeconds);
 
     // Update weather periodically
     if (simulationState.tickCount % 5 === 0) {
@@ -11,6 +11,7 @@
  */
 
 import { createClient } from '@supabase/supabase-js';
+import { processGeofenceUpdates, VesselPositionUpdate } from '@/lib/nmdc/geofences';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co';
 const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || 'placeholder-key';
@@ -561,6 +562,7 @@ export async function runSimulationTick(): Promise<{
   weatherUpdated: boolean;
   simulationSpeed: number;
   simulatedTimeElapsed: number;
+  geofenceEvents?: number;
   error?: string;
 }> {
   try {
@@ -584,6 +586,7 @@ export async function runSimulationTick(): Promise<{
     }
     
     // Update each vessel
+    const positions: VesselPositionUpdate[] = [];
     for (const vessel of vessels) {
       const updates = await updateVesselPosition(vessel);
       
@@ -594,7 +597,18 @@ export async function runSimulationTick(): Promise<{
       
       // Record time-series data
       await recordTimeSeries(vessel.id, { ...vessel, ...updates });
+
+      positions.push({
+        vesselId: vessel.id,
+        mmsi: vessel.mmsi,
+        name: vessel.name,
+        lat: updates.position_lat ?? vessel.position_lat,
+        lng: updates.position_lng ?? vessel.position_lng,
+      });
     }
+
+    // Geofence entries, exits and dwells for the new positions
+    const geofences = await processGeofenceUpdates(positions, 'realtime');
     
     // Update offshore assets
     const offshoreUpdated = await updateOffshoreAssets();
@@ -622,6 +636,7 @@ export async function runSimulationTick(): Promise<{
       weatherUpdated: !weatherError,
       simulationSpeed: simulationSpeedMultiplier,
       simulatedTimeElapsed: simulatedElapsed,
+      geofenceEvents: geofences.events.length,
     };
   } catch (error) {
     console.error('Simulation tick error:', error);
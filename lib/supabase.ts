@@ -28,6 +28,11 @@ export type FleetMetrics = Database['public']['Tables']['fleet_metrics']['Row'];
 // export type FuelConsumptionLog = Database['public']['Tables']['fuel_consumption_log']['Row'];
 export type PositionHistory = Database['public']['Tables']['position_history']['Row'];
 export type VesselDatasheet = Database['public']['Tables']['vessel_datasheets']['Row'];
+export type GeofenceRecord = Database['public']['Tables']['geofences']['Row'];
+export type GeofenceEventRecord = Database['public']['Tables']['geofence_events']['Row'];
+export type WorkOrderRecord = Database['public']['Tables']['work_orders']['Row'];
+export type WorkOrderEventRecord = Database['public']['Tables']['work_order_events']['Row'];
+export type WorkOrderArtifactRecord = Database['public']['Tables']['work_order_artifacts']['Row'];
 
 // Placeholder types until database tables are created
 export type ComplianceRecord = { id: string; vessel_id: string | null; [key: string]: unknown };
@@ -0,0 +1,185 @@
+import type {
+  CoolingMode,
+  CoolingParameters,
+  EmergencyLoadAssessment,
+  LoadProfileStep,
+  ThermalLimitingFactor,
+  ThermalPoint,
+  ThermalSimulation,
+  ThermalState,
+} from './types'
+
+// IEEE C57.91 Table 4 exponents with typical rises for 65 °C average winding
+// rise units — every mode reaches the 110 °C hot spot at rated load and 30 °C ambient
+export const COOLING_PARAMETERS: Record<CoolingMode, CoolingParameters> = {
+  ONAN: { topOilRiseRated: 55, hotSpotRiseRated: 25, lossRatio: 3.2, oilExponent: 0.8, windingExponent: 0.8, oilTimeConstantHours: 3.0, windingTimeConstantHours: 0.12 },
+  ONAF: { topOilRiseRated: 50, hotSpotRiseRated: 30, lossRatio: 4.5, oilExponent: 0.9, windingExponent: 0.8, oilTimeConstantHours: 2.0, windingTimeConstantHours: 0.12 },
+  OFAF: { topOilRiseRated: 45, hotSpotRiseRated: 35, lossRatio: 6.5, oilExponent: 0.9, windingExponent: 0.8, oilTimeConstantHours: 1.25, windingTimeConstantHours: 0.12 },
+  ODAF: { topOilRiseRated: 45, hotSpotRiseRated: 35, lossRatio: 6.5, oilExponent: 1.0, windingExponent: 1.0, oilTimeConstantHours: 1.25, windingTimeConstantHours: 0.12 },
+}
+
+export const RATED_AMBIENT_TEMP = 30
+export const REFERENCE_HOT_SPOT_TEMP = 110
+export const NORMAL_INSULATION_LIFE_HOURS = 180000
+
+// C57.91 Table 7 planned-emergency limits
+export const EMERGENCY_HOT_SPOT_LIMIT = 140
+export const EMERGENCY_TOP_OIL_LIMIT = 110
+
+const AGING_CONSTANT = 15000
+const MAX_STEP_HOURS = 1 / 60
+
+function round(value: number, places = 1): number {
+  const f = 10 ** places
+  return Math.round(value * f) / f
+}
+
+// Nameplate strings such as "ONAN/ONAF" or "ONAN/ONAF/OFAF" list cooling
+// stages; the highest stage is the one available under heavy load
+export function parseCoolingMode(coolingType: string | null | undefined): CoolingMode | null {
+  if (!coolingType) return null
+  const stages = coolingType.toUpperCase().split(/[\/\s,]+/)
+  const modes: CoolingMode[] = ['ODAF', 'OFAF', 'ONAF', 'ONAN']
+  return modes.find(m => stages.includes(m)) ?? null
+}
+
+export function ultimateRises(loadPU: number, mode: CoolingMode): ThermalState {
+  const p = COOLING_PARAMETERS[mode]
+  const k2 = loadPU * loadPU
+  return {
+    topOilRise: p.topOilRiseRated * ((k2 * p.lossRatio + 1) / (p.lossRatio + 1)) ** p.oilExponent,
+    hotSpotRise: p.hotSpotRiseRated * k2 ** p.windingExponent,
+  }
+}
+
+export function steadyStateTemperatures(
+  loadPU: number,
+  ambientTemp: number,
+  mode: CoolingMode
+): { topOilTemp: number; hotSpotTemp: number } {
+  const rises = ultimateRises(loadPU, mode)
+  const topOilTemp = ambientTemp + rises.topOilRise
+  return { topOilTemp, hotSpotTemp: topOilTemp + rises.hotSpotRise }
+}
+
+// Clause 7 exponential response towards the ultimate rises. The rated oil time
+// constant is used throughout, which is exact for n = 1 and close otherwise.
+export function stepThermalModel(
+  state: ThermalState,
+  loadPU: number,
+  dtHours: number,
+  mode: CoolingMode
+): ThermalState {
+  const p = COOLING_PARAMETERS[mode]
+  const ultimate = ultimateRises(loadPU, mode)
+  return {
+    topOilRise: ultimate.topOilRise + (state.topOilRise - ultimate.topOilRise) * Math.exp(-dtHours / p.oilTimeConstantHours),
+    hotSpotRise: ultimate.hotSpotRise + (state.hotSpotRise - ultimate.hotSpotRise) * Math.exp(-dtHours / p.windingTimeConstantHours),
+  }
+}
+
+// C57.91 eq. 2 — relative aging rate against a 110 °C hot spot
+export function agingAccelerationFactor(hotSpotTemp: number): number {
+  return Math.exp(AGING_CONSTANT / (REFERENCE_HOT_SPOT_TEMP + 273) - AGING_CONSTANT / (hotSpotTemp + 273))
+}
+
+export function lossOfLifePercent(agingHours: number): number {
+  return (agingHours / NORMAL_INSULATION_LIFE_HOURS) * 100
+}
+
+export function simulateThermalProfile(
+  profile: LoadProfileStep[],
+  options: { coolingMode?: CoolingMode; initialState?: ThermalState } = {}
+): ThermalSimulation {
+  const mode = options.coolingMode ?? 'ONAN'
+  let state = options.initialState ?? (profile.length > 0 ? ultimateRises(profile[0].loadPU, mode) : ultimateRises(0, mode))
+  let hours = 0
+  let agingHours = 0
+  let peakTopOil = -Infinity
+  let peakHotSpot = -Infinity
+  const points: ThermalPoint[] = []
+
+  for (const step of profile) {
+    const subSteps = Math.max(1, Math.ceil(step.durationHours / MAX_STEP_HOURS))
+    const dt = step.durationHours / subSteps
+    for (let i = 0; i < subSteps; i++) {
+      state = stepThermalModel(state, step.loadPU, dt, mode)
+      const topOil = step.ambientTemp + state.topOilRise
+      const hotSpot = topOil + state.hotSpotRise
+      agingHours += agingAccelerationFactor(hotSpot) * dt
+      peakTopOil = Math.max(peakTopOil, topOil)
+      peakHotSpot = Math.max(peakHotSpot, hotSpot)
+    }
+    hours += step.durationHours
+    const topOilTemp = step.ambientTemp + state.topOilRise
+    const hotSpotTemp = topOilTemp + state.hotSpotRise
+    points.push({
+      hours: round(hours, 2),
+      loadPU: step.loadPU,
+      ambientTemp: step.ambientTemp,
+      topOilTemp: round(topOilTemp),
+      hotSpotTemp: round(hotSpotTemp),
+      agingAccelerationFactor: round(agingAccelerationFactor(hotSpotTemp), 3),
+    })
+  }
+
+  return {
+    coolingMode: mode,
+    points,
+    finalState: state,
+    peakTopOilTemp: points.length > 0 ? round(peakTopOil) : 0,
+    peakHotSpotTemp: points.length > 0 ? round(peakHotSpot) : 0,
+    equivalentAgingFactor: hours > 0 ? round(agingHours / hours, 3) : 0,
+    agingHours: round(agingHours, 2),
+    lossOfLifePercent: round(lossOfLifePercent(agingHours), 4),
+  }
+}
+
+// How long the unit can carry loadPU, starting from steady state at preLoadPU,
+// before the hot-spot or top-oil emergency limit is reached
+export function emergencyLoadDuration(
+  loadPU: number,
+  ambientTemp: number,
+  mode: CoolingMode,
+  options: { preLoadPU?: number; hotSpotLimit?: number; topOilLimit?: number; maxHours?: number } = {}
+): EmergencyLoadAssessment {
+  const preLoadPU = options.preLoadPU ?? 1.0
+  const hotSpotLimit = options.hotSpotLimit ?? EMERGENCY_HOT_SPOT_LIMIT
+  const topOilLimit = options.topOilLimit ?? EMERGENCY_TOP_OIL_LIMIT
+  const maxHours = options.maxHours ?? 24
+
+  let state = ultimateRises(preLoadPU, mode)
+  let hours = 0
+  let agingHours = 0
+  let peakTopOil = ambientTemp + state.topOilRise
+  let peakHotSpot = peakTopOil + state.hotSpotRise
+  let limitingFactor: ThermalLimitingFactor = 'none'
+
+  while (hours < maxHours) {
+    const next = stepThermalModel(state, loadPU, MAX_STEP_HOURS, mode)
+    const topOil = ambientTemp + next.topOilRise
+    const hotSpot = topOil + next.hotSpotRise
+    if (hotSpot > hotSpotLimit) { limitingFactor = 'hot_spot'; break }
+    if (topOil > topOilLimit) { limitingFactor = 'top_oil'; break }
+    state = next
+    hours += MAX_STEP_HOURS
+    agingHours += agingAccelerationFactor(hotSpot) * MAX_STEP_HOURS
+    peakTopOil = Math.max(peakTopOil, topOil)
+    peakHotSpot = Math.max(peakHotSpot, hotSpot)
+  }
+
+  return {
+    loadPU,
+    ambientTemp,
+    coolingMode: mode,
+    preLoadPU,
+    safeHours: round(Math.min(hours, maxHours), 2),
+    limitingFactor,
+    hotSpotLimit,
+    topOilLimit,
+    peakTopOilTemp: round(peakTopOil),
+    peakHotSpotTemp: round(peakHotSpot),
+    agingHours: round(agingHours, 2),
+    lossOfLifePercent: round(lossOfLifePercent(agingHours), 4),
+  }
+}
@@ -0,0 +1,131 @@
+import { simulateThermalProfile, ultimateRises } from './model'
+import type {
+  CoolingMode,
+  DynamicRating,
+  LoadProfileStep,
+  RatingCriteria,
+  RatingHorizon,
+  RatingLimit,
+  RatingTier,
+} from './types'
+
+// IEEE C57.91 Table 7 temperature limits per loading category
+export const RATING_CRITERIA: Record<RatingTier, RatingCriteria> = {
+  normal: { hotSpotLimit: 120, topOilLimit: 105, maxAgingFactor: 1 },
+  long_time_emergency: { hotSpotLimit: 140, topOilLimit: 110 },
+  short_time_emergency: { hotSpotLimit: 180, topOilLimit: 110 },
+}
+
+// C57.91 advises against loading beyond twice nameplate regardless of temperature
+const MAX_LOAD_PU = 2.0
+const STE_DURATION_HOURS = 0.5
+const DIURNAL_SWING = 6 // °C either side of the daily mean
+const DIURNAL_PEAK_HOUR = 15
+
+function round(value: number, places = 2): number {
+  const f = 10 ** places
+  return Math.round(value * f) / f
+}
+
+// Hourly ambient forecast anchored on the current reading, following a
+// sinusoidal daily cycle that peaks mid-afternoon
+export function forecastAmbient(currentTemp: number, from: Date, hours: number): number[] {
+  const phase = (h: number) => Math.cos((2 * Math.PI * (h - DIURNAL_PEAK_HOUR)) / 24)
+  const startHour = from.getHours() + from.getMinutes() / 60
+  const mean = currentTemp - DIURNAL_SWING * phase(startHour)
+  return Array.from({ length: hours }, (_, i) => round(mean + DIURNAL_SWING * phase(startHour + i + 0.5), 1))
+}
+
+function evaluate(profile: LoadProfileStep[], preLoadPU: number, mode: CoolingMode, criteria: RatingCriteria) {
+  const sim = simulateThermalProfile(profile, { coolingMode: mode, initialState: ultimateRises(preLoadPU, mode) })
+  const hotSpotOk = sim.peakHotSpotTemp <= criteria.hotSpotLimit
+  const topOilOk = sim.peakTopOilTemp <= criteria.topOilLimit
+  const agingOk = criteria.maxAgingFactor === undefined || sim.equivalentAgingFactor <= criteria.maxAgingFactor
+  return { sim, ok: hotSpotOk && topOilOk && agingOk, hotSpotOk, topOilOk }
+}
+
+// Highest constant load that keeps the profile inside the criteria, by bisection
+function solveRating(
+  tier: RatingTier,
+  ambient: number[],
+  durationHours: number,
+  preLoadPU: number,
+  mode: CoolingMode,
+  ratedMVA: number
+): RatingLimit {
+  const criteria = RATING_CRITERIA[tier]
+  const profileAt = (loadPU: number): LoadProfileStep[] =>
+    ambient.map(ambientTemp => ({ durationHours: durationHours / ambient.length, loadPU, ambientTemp }))
+
+  let lo = 0
+  let hi = MAX_LOAD_PU
+  const atMax = evaluate(profileAt(hi), preLoadPU, mode, criteria)
+  if (atMax.ok) lo = hi
+  else {
+    for (let i = 0; i < 10; i++) {
+      const mid = (lo + hi) / 2
+      if (evaluate(profileAt(mid), preLoadPU, mode, criteria).ok) lo = mid
+      else hi = mid
+    }
+  }
+
+  const at = evaluate(profileAt(lo), preLoadPU, mode, criteria)
+  // Whatever fails just above the rating is the binding constraint
+  const above = lo < MAX_LOAD_PU ? evaluate(profileAt(Math.min(lo + 0.01, MAX_LOAD_PU)), preLoadPU, mode, criteria) : null
+  const limitingFactor: RatingLimit['limitingFactor'] = !above
+    ? 'max_loading'
+    : !above.hotSpotOk ? 'hot_spot' : !above.topOilOk ? 'top_oil' : 'aging'
+
+  return {
+    tier,
+    loadPU: round(lo),
+    mva: round(lo * ratedMVA, 1),
+    durationHours,
+    limitingFactor,
+    peakHotSpotTemp: at.sim.peakHotSpotTemp,
+    peakTopOilTemp: at.sim.peakTopOilTemp,
+  }
+}
+
+export function computeDynamicRating(
+  asset: { assetTag: string; name: string; ratedMVA: number },
+  options: {
+    coolingMode: CoolingMode
+    currentLoadPU: number
+    currentAmbientTemp: number
+    from?: Date
+    horizons?: number[]
+  }
+): DynamicRating {
+  const mode = options.coolingMode
+  const horizons = options.horizons ?? [24, 48]
+  const preLoadPU = options.currentLoadPU
+  const forecast = forecastAmbient(options.currentAmbientTemp, options.from ?? new Date(), Math.max(...horizons))
+  const currentLoadMVA = preLoadPU * asset.ratedMVA
+
+  const ratingHorizons: RatingHorizon[] = horizons.map(hours => {
+    const ambient = forecast.slice(0, hours)
+    const peakAmbientTemp = Math.max(...ambient)
+    const longTimeEmergency = solveRating('long_time_emergency', ambient, hours, preLoadPU, mode, asset.ratedMVA)
+    return {
+      hours,
+      peakAmbientTemp,
+      normal: solveRating('normal', ambient, hours, preLoadPU, mode, asset.ratedMVA),
+      longTimeEmergency,
+      // Short-time emergency is assessed at the hottest hour of the horizon
+      shortTimeEmergency: solveRating('short_time_emergency', [peakAmbientTemp], STE_DURATION_HOURS, preLoadPU, mode, asset.ratedMVA),
+      transferHeadroomMVA: round(Math.max(0, longTimeEmergency.mva - currentLoadMVA), 1),
+    }
+  })
+
+  return {
+    assetTag: asset.assetTag,
+    name: asset.name,
+    ratedMVA: asset.ratedMVA,
+    coolingMode: mode,
+    currentLoadPU: round(preLoadPU),
+    currentLoadMVA: round(currentLoadMVA, 1),
+    currentAmbientTemp: options.currentAmbientTemp,
+    horizons: ratingHorizons,
+  }
+}
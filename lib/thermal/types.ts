@@ -0,0 +1,100 @@
+export type CoolingMode = 'ONAN' | 'ONAF' | 'OFAF' | 'ODAF'
+
+// Rated characteristics used by the IEEE C57.91 Clause 7 equations
+export interface CoolingParameters {
+  topOilRiseRated: number // ΔθTO,R — top-oil rise over ambient at rated load (°C)
+  hotSpotRiseRated: number // ΔθH,R — hot-spot rise over top oil at rated load (°C)
+  lossRatio: number // R — load loss at rated load / no-load loss
+  oilExponent: number // n
+  windingExponent: number // m
+  oilTimeConstantHours: number // τTO
+  windingTimeConstantHours: number // τw
+}
+
+export interface ThermalState {
+  topOilRise: number // °C over ambient
+  hotSpotRise: number // °C over top oil
+}
+
+export interface ThermalPoint {
+  hours: number
+  loadPU: number
+  ambientTemp: number
+  topOilTemp: number
+  hotSpotTemp: number
+  agingAccelerationFactor: number
+}
+
+export interface LoadProfileStep {
+  durationHours: number
+  loadPU: number // load as a fraction of nameplate
+  ambientTemp: number // °C
+}
+
+export interface ThermalSimulation {
+  coolingMode: CoolingMode
+  points: ThermalPoint[]
+  finalState: ThermalState
+  peakTopOilTemp: number
+  peakHotSpotTemp: number
+  equivalentAgingFactor: number // F_EQA over the whole profile
+  agingHours: number // equivalent hours of insulation life consumed at the 110 °C reference
+  lossOfLifePercent: number // of the 180,000 h normal insulation life
+}
+
+export type ThermalLimitingFactor = 'hot_spot' | 'top_oil' | 'none'
+
+export interface EmergencyLoadAssessment {
+  loadPU: number
+  ambientTemp: number
+  coolingMode: CoolingMode
+  preLoadPU: number
+  safeHours: number // time until the first limit is reached, capped at maxHours
+  limitingFactor: ThermalLimitingFactor
+  hotSpotLimit: number
+  topOilLimit: number
+  peakTopOilTemp: number
+  peakHotSpotTemp: number
+  agingHours: number // insulation life consumed over safeHours
+  lossOfLifePercent: number
+}
+
+// ─────────────────────────── Dynamic ratings ───────────────────────────
+
+export type RatingTier = 'normal' | 'long_time_emergency' | 'short_time_emergency'
+
+export interface RatingCriteria {
+  hotSpotLimit: number
+  topOilLimit: number
+  maxAgingFactor?: number // cap on F_EQA over the rating period
+}
+
+export interface RatingLimit {
+  tier: RatingTier
+  loadPU: number
+  mva: number
+  durationHours: number
+  limitingFactor: ThermalLimitingFactor | 'aging' | 'max_loading'
+  peakHotSpotTemp: number
+  peakTopOilTemp: number
+}
+
+export interface RatingHorizon {
+  hours: number
+  peakAmbientTemp: number
+  normal: RatingLimit
+  longTimeEmergency: RatingLimit
+  shortTimeEmergency: RatingLimit
+  transferHeadroomMVA: number // LTE rating less the current load
+}
+
+export interface DynamicRating {
+  assetTag: string
+  name: string
+  ratedMVA: number
+  coolingMode: CoolingMode
+  currentLoadPU: number
+  currentLoadMVA: number
+  currentAmbientTemp: number
+  horizons: RatingHorizon[]
+}
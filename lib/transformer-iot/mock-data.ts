@@ -10,22 +10,36 @@ import {
   AlarmEvent,
 } from './types';
 import { TRANSFORMER_HEALTH_DATA } from '@/lib/datasets/transformer-health';
+import { diagnoseDGA, type DGAGasSample } from '@/lib/dga';
+import { agingAccelerationFactor, parseCoolingMode } from '@/lib/thermal';
 import { EXELON_ASSETS } from '@/lib/exelon/fleet';
 import { getSubstationAsset, synthesizeExelonAsset, synthesizeHealthRecords } from '@/lib/exelon/asset-bridge';
 
 // Use BGE-TF-001 as the default monitored transformer (most interesting data — trending critical)
 const DEFAULT_ASSET_TAG = 'BGE-TF-001';
 
-function getLatestHealthRecord(assetTag: string) {
+function getHealthHistory(assetTag: string) {
   const records = TRANSFORMER_HEALTH_DATA.filter(r => r.assetTag === assetTag);
-  if (records.length > 0) return records[records.length - 1];
+  if (records.length > 0) return records;
   // Fallback: synthesize from risk-intelligence map asset
   const riskAsset = getSubstationAsset(assetTag);
-  if (riskAsset) {
-    const synth = synthesizeHealthRecords(riskAsset);
-    return synth[synth.length - 1];
+  return riskAsset ? synthesizeHealthRecords(riskAsset) : [];
+}
+
+function getLatestHealthRecord(assetTag: string) {
+  const records = getHealthHistory(assetTag);
+  return records.length > 0 ? records[records.length - 1] : null;
+}
+
+// Equivalent aging hours between samples, holding each measured hot spot until the next sample
+function getInsulationAgingHours(assetTag: string): number {
+  const records = getHealthHistory(assetTag);
+  let hours = 0;
+  for (let i = 1; i < records.length; i++) {
+    const intervalHours = (new Date(records[i].timestamp).getTime() - new Date(records[i - 1].timestamp).getTime()) / 3600000;
+    hours += agingAccelerationFactor(records[i - 1].windingHotSpot) * intervalHours;
   }
-  return null;
+  return Math.round(hours);
 }
 
 function getFleetAsset(assetTag: string) {
@@ -119,28 +133,28 @@ export function generateSensorData(assetTag: string = DEFAULT_ASSET_TAG): Transf
   ];
 }
 
-// DGA interpretation using Duval Triangle simplified
-function interpretDGA(h2: number, c2h2: number, c2h4: number, ch4: number): { interpretation: string; faultType: DGAReading['faultType'] } {
-  if (c2h2 > 100) return { interpretation: 'High-energy arcing — immediate investigation required', faultType: 'arcing' };
-  if (c2h2 > 20) return { interpretation: 'Low-energy arcing / discharge', faultType: 'electrical_low' };
-  if (c2h4 > 200 && ch4 > 100) return { interpretation: 'Thermal fault > 700°C (Duval D1)', faultType: 'thermal_high' };
-  if (c2h4 > 100) return { interpretation: 'Thermal fault 300–700°C (Duval T2)', faultType: 'thermal_low' };
-  if (h2 > 300 && c2h2 < 5) return { interpretation: 'Partial discharge in oil or paper', faultType: 'partial_discharge' };
-  if (h2 > 150) return { interpretation: 'Corona or low-energy PD', faultType: 'partial_discharge' };
-  if (ch4 > 50 || c2h4 > 30) return { interpretation: 'Mild thermal stress — monitor closely', faultType: 'thermal_low' };
-  return { interpretation: 'Normal — no significant fault gases detected', faultType: 'normal' };
+// DGA interpretation — consensus across Duval, Rogers, IEC 60599, Doernenburg and Key Gas
+function interpretDGA(sample: DGAGasSample): Pick<DGAReading, 'interpretation' | 'faultType' | 'diagnosis'> {
+  const diagnosis = diagnoseDGA(sample);
+  return {
+    interpretation: diagnosis.interpretation,
+    faultType: diagnosis.consensus.faultType,
+    diagnosis,
+  };
 }
 
 export function generateLatestDGA(assetTag: string = DEFAULT_ASSET_TAG): DGAReading {
   const record = getLatestHealthRecord(assetTag);
   if (!record) {
+    const baseline = { h2: 20, ch4: 10, c2h2: 0, c2h4: 5, c2h6: 3, co: 100, co2: 1500 };
     return {
       timestamp: new Date(),
-      h2: 20, ch4: 10, c2h2: 0, c2h4: 5, c2h6: 3, co: 100, co2: 1500, tdcg: 138,
-      ...interpretDGA(20, 0, 5, 10),
+      ...baseline,
+      tdcg: 138,
+      ...interpretDGA(baseline),
     };
   }
-  const interp = interpretDGA(record.h2, record.c2h2, record.c2h4, record.ch4);
+  const interp = interpretDGA(record);
   return {
     timestamp: new Date(record.timestamp),
     h2: record.h2,
@@ -158,7 +172,7 @@ export function generateLatestDGA(assetTag: string = DEFAULT_ASSET_TAG): DGARead
 export function generateDGAHistory(assetTag: string = DEFAULT_ASSET_TAG): DGAReading[] {
   const records = TRANSFORMER_HEALTH_DATA.filter(r => r.assetTag === assetTag);
   return records.map(r => {
-    const interp = interpretDGA(r.h2, r.c2h2, r.c2h4, r.ch4);
+    const interp = interpretDGA(r);
     return {
       timestamp: new Date(r.timestamp),
       h2: r.h2, ch4: r.ch4, c2h2: r.c2h2, c2h4: r.c2h4, c2h6: r.c2h6,
@@ -174,6 +188,7 @@ export function generateThermalProfile(assetTag: string = DEFAULT_ASSET_TAG): Th
   const topOil = record ? record.topOilTemp : 65;
   const hotSpot = record ? record.windingHotSpot : 85;
   const ambient = record ? record.ambientTemp : 15;
+  const coolingMode = parseCoolingMode(getFleetAsset(assetTag)?.coolingType) ?? (load > 0.8 ? 'ONAF' : 'ONAN');
 
   return {
     topOilTemp: topOil,
@@ -181,9 +196,9 @@ export function generateThermalProfile(assetTag: string = DEFAULT_ASSET_TAG): Th
     windingHotSpot: hotSpot,
     ambientTemp: ambient,
     loadFactor: load,
-    coolingMode: load > 0.8 ? 'ONAF' : 'ONAN',
-    fansRunning: load > 0.8 ? 4 : load > 0.6 ? 2 : 0,
-    pumpsRunning: load > 0.9 ? 2 : load > 0.7 ? 1 : 0,
+    coolingMode,
+    fansRunning: coolingMode === 'ONAN' ? 0 : load > 0.8 ? 4 : load > 0.6 ? 2 : 0,
+    pumpsRunning: coolingMode === 'ONAN' || coolingMode === 'ONAF' ? 0 : load > 0.9 ? 2 : load > 0.7 ? 1 : 0,
   };
 }
 
@@ -195,7 +210,8 @@ export function generateMetrics(assetTag: string = DEFAULT_ASSET_TAG): Transform
       nameplateRating: 200, topOilTemp: 65, hotSpotTemp: 85,
       oilLevel: 95, moisture: 15, tdcg: 300, healthIndex: 75,
       dgaScore: 80, operatingHours: 150000, lastDGASample: new Date(),
-      tapPosition: 5,
+      tapPosition: 5, agingAccelerationFactor: +agingAccelerationFactor(85).toFixed(3),
+      lossOfLifeHours: 0,
     };
   }
   return {
@@ -213,6 +229,8 @@ export function generateMetrics(assetTag: string = DEFAULT_ASSET_TAG): Transform
     operatingHours: (new Date().getFullYear() - 1974) * 8760 * 0.85,
     lastDGASample: new Date(record.timestamp),
     tapPosition: 3 + Math.floor(Math.random() * 5),
+    agingAccelerationFactor: +agingAccelerationFactor(record.windingHotSpot).toFixed(3),
+    lossOfLifeHours: getInsulationAgingHours(assetTag),
   };
 }
 
@@ -1,5 +1,8 @@
 // Transformer IoT Types and Interfaces
 
+import type { DGADiagnosis } from '@/lib/dga';
+import type { CoolingMode } from '@/lib/thermal';
+
 export interface TransformerSensor {
   id: string;
   name: string;
@@ -23,8 +26,9 @@ export interface DGAReading {
   co: number;
   co2: number;
   tdcg: number;
-  interpretation: string; // Duval Triangle / Rogers Ratio diagnosis
+  interpretation: string; // Multi-method consensus (Duval, Rogers, IEC 60599, Doernenburg, Key Gas)
   faultType: 'normal' | 'thermal_low' | 'thermal_high' | 'electrical_low' | 'electrical_high' | 'partial_discharge' | 'arcing';
+  diagnosis?: DGADiagnosis;
 }
 
 export interface ThermalProfile {
@@ -33,7 +37,7 @@ export interface ThermalProfile {
   windingHotSpot: number;
   ambientTemp: number;
   loadFactor: number; // 0-1
-  coolingMode: 'ONAN' | 'ONAF' | 'OFAF' | 'ODAF';
+  coolingMode: CoolingMode;
   fansRunning: number;
   pumpsRunning: number;
 }
@@ -87,6 +91,8 @@ export interface TransformerMetrics {
   operatingHours: number;
   lastDGASample: Date;
   tapPosition: number;
+  agingAccelerationFactor: number; // IEEE C57.91 F_AA at the current hot spot
+  lossOfLifeHours: number; // equivalent insulation aging hours across the sampled history
 }
 
 export interface TransformerAsset {
@@ -177,8 +177,92 @@ export const EMISSION_ZONES: Record<string, EmissionLimits> = {
     maxNoxTier: 2,
     description: 'Persian Gulf - Proposed SECA status under review',
   },
+  PERSIAN_GULF_SECA: {
+    zone: 'ECA',
+    maxSulfurPercent: 0.1,
+    maxNoxTier: 2,
+    description: 'Persian Gulf SECA as proposed - 0.1% sulfur, not yet in force',
+  },
+  NORTH_SEA_ECA: {
+    zone: 'ECA',
+    maxSulfurPercent: 0.1,
+    maxNoxTier: 3,
+    description: 'North Sea & English Channel ECA - MARPOL Annex VI Reg. 14',
+  },
+  BALTIC_ECA: {
+    zone: 'ECA',
+    maxSulfurPercent: 0.1,
+    maxNoxTier: 3,
+    description: 'Baltic Sea ECA - MARPOL Annex VI Reg. 14',
+  },
+  MEDITERRANEAN_ECA: {
+    zone: 'ECA',
+    maxSulfurPercent: 0.1,
+    maxNoxTier: 2,
+    description: 'Mediterranean Sea SOx ECA - in force from May 2025',
+  },
 };
 
+export interface EmissionControlArea {
+  id: string;
+  name: string;
+  limits: keyof typeof EMISSION_ZONES;
+  status: 'in_force' | 'proposed';
+  effectiveFrom?: Date;
+  // Closed outline, coarse enough for voyage planning, not for navigation
+  polygon: Array<{ lat: number; lng: number }>;
+}
+
+const outline = (points: Array<[number, number]>) => points.map(([lat, lng]) => ({ lat, lng }));
+
+export const EMISSION_CONTROL_AREAS: EmissionControlArea[] = [
+  {
+    id: 'persian-gulf-seca',
+    name: 'Persian Gulf SECA (proposed)',
+    limits: 'PERSIAN_GULF_SECA',
+    status: 'proposed',
+    // Gulf waters west of the Strait of Hormuz
+    polygon: outline([
+      [30.6, 47.6], [30.2, 50.2], [28.8, 51.3], [27.3, 53.5], [26.9, 56.2], [26.3, 56.45],
+      [24.0, 56.45], [23.5, 53.0], [24.2, 51.0], [25.6, 49.8], [28.0, 48.3],
+    ]),
+  },
+  {
+    id: 'north-sea-eca',
+    name: 'North Sea ECA',
+    limits: 'NORTH_SEA_ECA',
+    status: 'in_force',
+    effectiveFrom: new Date('2007-11-22'),
+    polygon: outline([
+      [62.0, -4.0], [62.0, 5.0], [58.0, 7.5], [57.44, 10.5], [55.5, 8.3], [53.3, 7.0],
+      [51.3, 3.0], [49.5, -1.0], [48.5, -5.0], [50.0, -5.0], [58.5, -4.0],
+    ]),
+  },
+  {
+    id: 'baltic-eca',
+    name: 'Baltic Sea ECA',
+    limits: 'BALTIC_ECA',
+    status: 'in_force',
+    effectiveFrom: new Date('2006-05-19'),
+    polygon: outline([
+      [57.44, 10.5], [59.0, 11.0], [60.5, 17.0], [65.9, 22.0], [65.9, 25.5], [60.6, 30.3],
+      [59.4, 28.0], [54.3, 21.0], [54.0, 14.0], [54.0, 10.5], [55.5, 9.8],
+    ]),
+  },
+  {
+    id: 'mediterranean-eca',
+    name: 'Mediterranean Sea ECA',
+    limits: 'MEDITERRANEAN_ECA',
+    status: 'in_force',
+    effectiveFrom: new Date('2025-05-01'),
+    polygon: outline([
+      [36.0, -5.6], [36.8, -2.0], [41.0, 2.5], [43.5, 4.5], [44.4, 9.0], [45.8, 13.6],
+      [40.0, 19.5], [41.0, 26.5], [37.0, 36.2], [31.2, 32.3], [31.3, 25.0], [32.7, 15.0],
+      [33.5, 11.0], [37.3, 10.0], [35.2, -2.0], [35.8, -5.6],
+    ]),
+  },
+];
+
 // ============================================================================
 // PREDICTIVE MAINTENANCE (PdM) MODELS
 // ============================================================================
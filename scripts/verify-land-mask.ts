@@ -0,0 +1,53 @@
+#!/usr/bin/env npx ts-node
+/**
+ * Check the bundled land mask against known islands and open water.
+ *
+ * Islands with offshore terminals must read as land or routes run straight
+ * through them; open-water points must not, or routes detour for nothing.
+ *
+ * Run: npx ts-node scripts/verify-land-mask.ts
+ */
+
+import { findLandCrossings, getLandMask, landAreaAt } from '../lib/routes/land-mask';
+
+const LAND = [
+  { name: 'Das Island', lat: 25.15, lon: 52.87 },
+  { name: 'Sir Bani Yas', lat: 24.32, lon: 52.6 },
+  { name: 'Zirku', lat: 24.88, lon: 53.07 },
+];
+
+const WATER = [
+  { name: 'Central Gulf', lat: 25.5, lon: 53.5 },
+  { name: 'Gulf of Oman', lat: 25.0, lon: 57.5 },
+];
+
+const LEGS = [
+  { name: 'Across Das Island', from: { lat: 25.15, lon: 52.7 }, to: { lat: 25.15, lon: 53.05 } },
+];
+
+const failures: string[] = [];
+
+for (const point of LAND) {
+  const area = landAreaAt(point.lat, point.lon);
+  console.log(`${point.name.padEnd(20)} ${area ?? 'water'}`);
+  if (!area) failures.push(`${point.name} should be land`);
+}
+
+for (const point of WATER) {
+  const area = landAreaAt(point.lat, point.lon);
+  console.log(`${point.name.padEnd(20)} ${area ?? 'water'}`);
+  if (area) failures.push(`${point.name} should be water, found ${area}`);
+}
+
+for (const leg of LEGS) {
+  const crossings = findLandCrossings(leg.from, leg.to);
+  console.log(`${leg.name.padEnd(20)} ${crossings.length} crossing(s)`);
+  if (crossings.length === 0) failures.push(`${leg.name} should cross land`);
+}
+
+console.log(`\nMask: ${getLandMask().source}`);
+if (failures.length > 0) {
+  console.error(`\n${failures.length} check(s) failed:\n  ${failures.join('\n  ')}`);
+  process.exit(1);
+}
+console.log('All land mask checks passed');